@@ -1,9 +1,23 @@
 import { UserDocument } from "../models/user.model";
+import { AccessTokenScopeType } from "../models/access-token.model";
 
 declare global {
   namespace Express {
     interface User extends UserDocument {
       _id?: any;
     }
+    interface Request {
+      // Set when the request authenticated with a personal access token instead of a session
+      accessToken?: AccessTokenScopeType;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after the password step of a login that still needs a two-factor code
+    twoFactorLogin?: { userId: string; provider: string; expiresAt: number };
+    // Set while the signed-in user is connecting another login provider
+    linkAccount?: { userId: string; workspaceId: string; expiresAt: number };
   }
 }
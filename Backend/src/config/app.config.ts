@@ -13,8 +13,58 @@ const appConfig = () => ({
   GOOGLE_CLIENT_SECRET: getEnv("GOOGLE_CLIENT_SECRET"),
   GOOGLE_CALLBACK_URL: getEnv("GOOGLE_CALLBACK_URL"),
 
+  // Leave the client ID empty to turn GitHub login off
+  GITHUB_CLIENT_ID: getEnv("GITHUB_CLIENT_ID"),
+  GITHUB_CLIENT_SECRET: getEnv("GITHUB_CLIENT_SECRET"),
+  GITHUB_CALLBACK_URL: getEnv("GITHUB_CALLBACK_URL"),
+
   FRONTEND_ORIGIN: getEnv("FRONTEND_ORIGIN", "localhost"),
   FRONTEND_GOOGLE_CALLBACK_URL: getEnv("FRONTEND_GOOGLE_CALLBACK_URL"),
+
+  MAIL_TRANSPORT: getEnv("MAIL_TRANSPORT", "console"),
+  MAIL_OUTBOX_DIR: getEnv("MAIL_OUTBOX_DIR", "outbox"),
+  MAIL_FROM: getEnv("MAIL_FROM", "TeamSync <no-reply@teamsync.local>"),
+
+  INVITATION_EXPIRES_IN_DAYS: getEnv("INVITATION_EXPIRES_IN_DAYS", "7"),
+  PASSWORD_RESET_EXPIRES_IN_MINUTES: getEnv(
+    "PASSWORD_RESET_EXPIRES_IN_MINUTES",
+    "60"
+  ),
+
+  // none | login | join: what an unverified email address blocks
+  EMAIL_VERIFICATION_REQUIRED_FOR: getEnv(
+    "EMAIL_VERIFICATION_REQUIRED_FOR",
+    "none"
+  ),
+  EMAIL_VERIFICATION_EXPIRES_IN_HOURS: getEnv(
+    "EMAIL_VERIFICATION_EXPIRES_IN_HOURS",
+    "24"
+  ),
+
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_ACCOUNT: getEnv(
+    "LOGIN_MAX_FAILED_ATTEMPTS_PER_ACCOUNT",
+    "5"
+  ),
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: getEnv(
+    "LOGIN_MAX_FAILED_ATTEMPTS_PER_IP",
+    "20"
+  ),
+  LOGIN_LOCKOUT_BASE_SECONDS: getEnv("LOGIN_LOCKOUT_BASE_SECONDS", "30"),
+  LOGIN_LOCKOUT_MAX_MINUTES: getEnv("LOGIN_LOCKOUT_MAX_MINUTES", "15"),
+  LOGIN_ATTEMPT_WINDOW_MINUTES: getEnv("LOGIN_ATTEMPT_WINDOW_MINUTES", "15"),
+
+  TWO_FACTOR_ISSUER: getEnv("TWO_FACTOR_ISSUER", "TeamSync"),
+  TWO_FACTOR_LOGIN_TIMEOUT_MINUTES: getEnv(
+    "TWO_FACTOR_LOGIN_TIMEOUT_MINUTES",
+    "5"
+  ),
+
+  WEBHOOK_MAX_ATTEMPTS: getEnv("WEBHOOK_MAX_ATTEMPTS", "6"),
+  WEBHOOK_RETRY_BASE_SECONDS: getEnv("WEBHOOK_RETRY_BASE_SECONDS", "30"),
+  WEBHOOK_TIMEOUT_SECONDS: getEnv("WEBHOOK_TIMEOUT_SECONDS", "10"),
+
+  // memory | mongo: how real-time events reach the streams on other instances
+  REALTIME_PUBSUB: getEnv("REALTIME_PUBSUB", "memory"),
 });
 
 export const config = appConfig();
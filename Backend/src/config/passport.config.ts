@@ -1,14 +1,54 @@
 import passport from "passport";
 import { Request } from "express";
+import type { Profile } from "passport-github2";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
+import { Strategy as GitHubStrategy } from "passport-github2";
 import { Strategy as LocalStrategy } from "passport-local";
 import { config } from "./app.config";
-import { NotFoundException } from "../utils/appError";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { getAuditContext } from "../utils/audit-context";
 import { ProviderEnum } from "../enums/account-provider.enum";
 import {
   loginOrCreateAccountService,
   verifyUserService,
 } from "../services/auth.service";
+import { linkAccountService } from "../services/account.service";
+
+// With `allRawEmails`, GitHub emails keep the flags from its emails API
+type GitHubProfile = Omit<Profile, "emails"> & {
+  emails?: { value: string; primary?: boolean; verified?: boolean }[];
+};
+
+type OAuthAccountPayload = {
+  provider: string;
+  displayName: string;
+  providerId: string;
+  picture?: string;
+  email?: string;
+  emailVerified?: boolean;
+};
+
+// A pending "link account" action links the provider to the signed-in user instead of logging in
+const loginOrLinkAccount = async (
+  req: Request,
+  accountPayload: OAuthAccountPayload
+) => {
+  const linkAccount = req.session.linkAccount;
+  if (!linkAccount) {
+    return loginOrCreateAccountService(accountPayload, getAuditContext(req));
+  }
+  if (linkAccount.expiresAt < Date.now()) {
+    throw new BadRequestException("Linking timed out. Please try again");
+  }
+  return linkAccountService(
+    linkAccount.userId,
+    {
+      provider: accountPayload.provider,
+      providerId: accountPayload.providerId,
+    },
+    getAuditContext(req)
+  );
+};
 
 passport.use(
   new GoogleStrategy(
@@ -21,20 +61,19 @@ passport.use(
     },
     async (req: Request, accessToken, refreshToken, profile, done) => {
       try {
-        const { email, sub: googleId, picture } = profile._json;
+        const {
+          email,
+          email_verified: emailVerified,
+          sub: googleId,
+          picture,
+        } = profile._json;
         console.log(profile, "profile");
         console.log(googleId, "googleId");
         if (!googleId) {
           throw new NotFoundException("Google ID (sub) not found in profile");
         }
 
-        const accountPayload: {
-          provider: string;
-          displayName: string;
-          providerId: string;
-          picture?: string;
-          email?: string;
-        } = {
+        const accountPayload: OAuthAccountPayload = {
           provider: ProviderEnum.GOOGLE,
           displayName: profile.displayName,
           providerId: googleId,
@@ -45,7 +84,10 @@ passport.use(
         if (email !== undefined) {
           accountPayload.email = email;
         }
-        const { user } = await loginOrCreateAccountService(accountPayload);
+        if (emailVerified !== undefined) {
+          accountPayload.emailVerified = emailVerified === true;
+        }
+        const { user } = await loginOrLinkAccount(req, accountPayload);
         done(null, user);
       } catch (error) {
         done(error, false);
@@ -54,16 +96,68 @@ passport.use(
   )
 );
 
+if (config.GITHUB_CLIENT_ID) {
+  passport.use(
+    new GitHubStrategy(
+      {
+        clientID: config.GITHUB_CLIENT_ID,
+        clientSecret: config.GITHUB_CLIENT_SECRET,
+        callbackURL: config.GITHUB_CALLBACK_URL,
+        scope: ["user:email"],
+        // Includes the `primary` and `verified` flags GitHub returns with each address
+        allRawEmails: true,
+        passReqToCallback: true,
+      },
+      async (
+        req: Request,
+        accessToken: string,
+        refreshToken: string,
+        profile: GitHubProfile,
+        done: (error: unknown, user?: Express.User | false) => void
+      ) => {
+        try {
+          const primaryEmail =
+            profile.emails?.find((email) => email.primary) ??
+            profile.emails?.[0];
+
+          const accountPayload: OAuthAccountPayload = {
+            provider: ProviderEnum.GITHUB,
+            displayName: profile.displayName || profile.username || "",
+            providerId: profile.id,
+          };
+          const picture = profile.photos?.[0]?.value;
+          if (picture !== undefined) {
+            accountPayload.picture = picture;
+          }
+          if (primaryEmail) {
+            accountPayload.email = primaryEmail.value.toLowerCase();
+            accountPayload.emailVerified = primaryEmail.verified === true;
+          }
+          const { user } = await loginOrLinkAccount(req, accountPayload);
+          done(null, user);
+        } catch (error) {
+          done(error, false);
+        }
+      }
+    )
+  );
+}
+
 passport.use(
   new LocalStrategy(
     {
       usernameField: "email",
       passwordField: "password",
       session: true,
+      passReqToCallback: true,
     },
-    async (email, password, done) => {
+    async (req: Request, email, password, done) => {
       try {
-        const user = await verifyUserService({ email, password });
+        const user = await verifyUserService({
+          email,
+          password,
+          auditContext: getAuditContext(req),
+        });
         return done(null, user);
       } catch (error: any) {
         return done(error, false, { message: error?.message });
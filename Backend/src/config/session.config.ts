@@ -0,0 +1,2 @@
+// connect-mongo stores sessions in this collection of the application database
+export const SESSION_COLLECTION_NAME = "sessions";
@@ -1,26 +1,112 @@
 import { config } from "../config/app.config";
 import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import { NextFunction, Request, Response } from "express";
-import { registerSchema } from "../validation/auth.validation";
+import {
+  forgotPasswordSchema,
+  registerSchema,
+  resendVerificationSchema,
+  resetPasswordSchema,
+  twoFactorCodeSchema,
+  verifyEmailSchema,
+} from "../validation/auth.validation";
 import { HTTPSTATUS } from "../config/http.config";
 import { registerUserService } from "../services/auth.service";
 import passport from "passport";
+import { getAuditContext } from "../utils/audit-context";
+import { recordAuditLogService } from "../services/audit-log.service";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import {
+  requestPasswordResetService,
+  resetPasswordService,
+} from "../services/password-reset.service";
+import {
+  resendEmailVerificationService,
+  verifyEmailService,
+} from "../services/email-verification.service";
+import { verifyTwoFactorLoginService } from "../services/two-factor.service";
+import { endUserSessionService } from "../services/session.service";
+import { ProviderEnum } from "../enums/account-provider.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { AppError, UnauthorizedException } from "../utils/appError";
 
-export const googleLoginCallback = asyncHandler(
-  async (req: Request, res: Response) => {
-    const currentWorkspace = req.user?.currentWorkspace;
+// Holds a login between the password (or OAuth) step and the two-factor code
+const startTwoFactorLogin = (
+  req: Request,
+  userId: string,
+  provider: string
+) => {
+  req.session.twoFactorLogin = {
+    userId,
+    provider,
+    expiresAt:
+      Date.now() + Number(config.TWO_FACTOR_LOGIN_TIMEOUT_MINUTES) * 60 * 1000,
+  };
+};
 
-    if (!currentWorkspace) {
-      return res.redirect(
-        `${config.FRONTEND_GOOGLE_CALLBACK_URL}?status=failure`
-      );
-    }
+/*
+ * The `oauthCallbackController` function finishes a Google or GitHub sign-in. When the user started
+ * a "link account" action instead, it returns them to their security settings with the result.
+ */
+export const oauthCallbackController = (
+  strategy: "google" | "github",
+  provider: string
+) =>
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const linkAccount = req.session.linkAccount;
 
-    return res.redirect(
-      `${config.FRONTEND_ORIGIN}/workspace/${currentWorkspace}`
-    );
-  }
-);
+    passport.authenticate(
+      strategy,
+      (err: Error | null, user: Express.User | false) => {
+        if (linkAccount) {
+          delete req.session.linkAccount;
+          const params = new URLSearchParams(
+            err || !user
+              ? {
+                  link: "failure",
+                  message:
+                    err instanceof AppError
+                      ? err.message
+                      : "Failed to link account",
+                }
+              : { link: "success" }
+          );
+          return res.redirect(
+            `${config.FRONTEND_ORIGIN}/workspace/${
+              linkAccount.workspaceId
+            }/security?${params.toString()}`
+          );
+        }
+
+        if (err || !user || !user.currentWorkspace) {
+          const params = new URLSearchParams({
+            status: "failure",
+            provider: strategy,
+          });
+          if (err instanceof AppError) {
+            params.set("message", err.message);
+          }
+          return res.redirect(
+            `${config.FRONTEND_GOOGLE_CALLBACK_URL}?${params.toString()}`
+          );
+        }
+
+        // The provider only completes the first step; the session is not signed in until the code is verified
+        if (user.twoFactorEnabled) {
+          startTwoFactorLogin(req, String(user._id), provider);
+          return res.redirect(`${config.FRONTEND_ORIGIN}/two-factor`);
+        }
+
+        req.login(user, (err) => {
+          if (err) {
+            return next(err);
+          }
+          return res.redirect(
+            `${config.FRONTEND_ORIGIN}/workspace/${user.currentWorkspace}`
+          );
+        });
+      }
+    )(req, res, next);
+  });
 
 export const registerUserController = asyncHandler(
   async (req: Request, res: Response) => {
@@ -28,10 +114,11 @@ export const registerUserController = asyncHandler(
       ...req.body,
     });
 
-    await registerUserService(body);
+    await registerUserService(body, getAuditContext(req));
 
     return res.status(HTTPSTATUS.CREATED).json({
-      message: "User Created Successfully",
+      message:
+        "User Created Successfully. Check your inbox to verify your email address",
     });
   }
 );
@@ -55,6 +142,14 @@ export const loginController = asyncHandler(
           });
         }
 
+        if (user.twoFactorEnabled) {
+          startTwoFactorLogin(req, String(user._id), ProviderEnum.EMAIL);
+          return res.status(HTTPSTATUS.OK).json({
+            message: "Enter the code from your authenticator app",
+            twoFactorRequired: true,
+          });
+        }
+
         req.login(user, (err) => {
           if (err) {
             return next(err);
@@ -71,6 +166,15 @@ export const loginController = asyncHandler(
 
 export const logOutController = asyncHandler(
   async (req: Request, res: Response) => {
+    if (req.user) {
+      await recordAuditLogService(getAuditContext(req), {
+        action: AuditActionEnum.USER_LOGGED_OUT,
+        targetType: "User",
+        targetId: String(req.user._id),
+      });
+      await endUserSessionService(req.sessionID);
+    }
+
     req.logout((err) => {
       if (err) {
         console.error("Logout error:", err);
@@ -92,3 +196,88 @@ export const logOutController = asyncHandler(
       .json({ message: "Logged out successfully" });
   }
 );
+
+export const forgotPasswordController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { email } = forgotPasswordSchema.parse(req.body);
+
+    await requestPasswordResetService(email, getAuditContext(req));
+
+    // Same response whether or not the email is registered
+    return res.status(HTTPSTATUS.OK).json({
+      message:
+        "If an account exists for this email, a password reset link has been sent",
+    });
+  }
+);
+
+export const resetPasswordController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = resetPasswordSchema.parse(req.body);
+
+    await resetPasswordService(body, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message:
+        "Password reset successfully. Please log in with your new password",
+    });
+  }
+);
+
+export const verifyEmailController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    await verifyEmailService(token, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Email verified successfully",
+    });
+  }
+);
+
+export const resendVerificationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { email } = resendVerificationSchema.parse(req.body);
+
+    await resendEmailVerificationService(email, getAuditContext(req));
+
+    // Same response whether or not the email is registered
+    return res.status(HTTPSTATUS.OK).json({
+      message:
+        "If this email still needs verification, a new verification link has been sent",
+    });
+  }
+);
+
+export const verifyTwoFactorLoginController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const pending = req.session.twoFactorLogin;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.twoFactorLogin;
+      throw new UnauthorizedException(
+        "Your login has expired. Please log in again",
+        ErrorCodeEnum.AUTH_INVALID_TOKEN
+      );
+    }
+
+    const user = await verifyTwoFactorLoginService(
+      pending.userId,
+      code,
+      pending.provider,
+      getAuditContext(req)
+    );
+    delete req.session.twoFactorLogin;
+
+    await new Promise<void>((resolve, reject) =>
+      req.login(user as Express.User, (err) => (err ? reject(err) : resolve()))
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Logged in successfully",
+      user,
+    });
+  }
+);
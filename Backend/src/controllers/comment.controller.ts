@@ -0,0 +1,146 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  commentIdSchema,
+  createCommentSchema,
+  updateCommentSchema,
+} from "../validation/comment.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { hasPermissions, roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createCommentService,
+  deleteCommentService,
+  getTaskCommentsService,
+  updateCommentService,
+} from "../services/comment.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createCommentController` function handles posting a comment, or a reply, on a task. Any
+member who can view the task can take part in the discussion. */
+export const createCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createCommentSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { comment } = await createCommentService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Comment created successfully",
+      comment,
+    });
+  }
+);
+
+/* The `getTaskCommentsController` function handles listing the comment threads of a task. */
+export const getTaskCommentsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 10,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getTaskCommentsService(
+      workspaceId,
+      taskId,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comments fetched successfully",
+      ...result,
+    });
+  }
+);
+
+/* The `updateCommentController` function handles an author editing their own comment. */
+export const updateCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateCommentSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const commentId = commentIdSchema.parse(req.params.commentId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { comment } = await updateCommentService(
+      workspaceId,
+      taskId,
+      commentId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comment updated successfully",
+      comment,
+    });
+  }
+);
+
+/* The `deleteCommentController` function handles deleting a comment. Authors can remove their own
+comments, and roles allowed to delete tasks can moderate any comment. */
+export const deleteCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.id);
+    const commentId = commentIdSchema.parse(req.params.commentId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    await deleteCommentService(
+      workspaceId,
+      taskId,
+      commentId,
+      userId,
+      hasPermissions(role, [Permissions.DELETE_TASK])
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comment deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,129 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createEpicSchema,
+  epicIdSchema,
+  updateEpicSchema,
+} from "../validation/epic.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createEpicService,
+  deleteEpicService,
+  getProjectEpicsService,
+  updateEpicService,
+} from "../services/epic.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createEpicController` function handles adding an epic to a project. */
+export const createEpicController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createEpicSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { epic } = await createEpicService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Epic created successfully",
+      epic,
+    });
+  }
+);
+
+/* The `getProjectEpicsController` function handles listing the epics of a project with
+their progress. */
+export const getProjectEpicsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { epics } = await getProjectEpicsService(workspaceId, projectId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Epics fetched successfully",
+      epics,
+    });
+  }
+);
+
+/* The `updateEpicController` function handles editing an epic of a project. */
+export const updateEpicController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateEpicSchema.parse(req.body);
+    const epicId = epicIdSchema.parse(req.params.epicId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { epic } = await updateEpicService(
+      workspaceId,
+      projectId,
+      epicId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Epic updated successfully",
+      epic,
+    });
+  }
+);
+
+/* The `deleteEpicController` function handles deleting an epic of a project. */
+export const deleteEpicController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const epicId = epicIdSchema.parse(req.params.epicId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    await deleteEpicService(workspaceId, projectId, epicId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Epic deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,164 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createInvitationSchema,
+  invitationIdSchema,
+  invitationStatusSchema,
+  invitationTokenSchema,
+} from "../validation/invitation.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  acceptInvitationService,
+  createInvitationService,
+  getWorkspaceInvitationsService,
+  resendInvitationService,
+  revokeInvitationService,
+} from "../services/invitation.service";
+import { getAuditContext } from "../utils/audit-context";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createInvitationController` function handles inviting an email address to a workspace
+with a specific role. */
+export const createInvitationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createInvitationSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.ADD_MEMBER]);
+
+    const { invitation } = await createInvitationService(
+      workspaceId,
+      userId,
+      role,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Invitation sent successfully",
+      invitation,
+    });
+  }
+);
+
+/* The `getWorkspaceInvitationsController` function handles listing the invitations of a
+workspace, optionally filtered by status. */
+export const getWorkspaceInvitationsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const filters = {
+      status: req.query.status
+        ? invitationStatusSchema.parse(req.query.status)
+        : undefined,
+    };
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.ADD_MEMBER]);
+
+    const result = await getWorkspaceInvitationsService(
+      workspaceId,
+      filters,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invitations fetched successfully",
+      ...result,
+    });
+  }
+);
+
+/* The `resendInvitationController` function handles mailing a pending invitation again with a
+fresh link. */
+export const resendInvitationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const invitationId = invitationIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.ADD_MEMBER]);
+
+    const { invitation } = await resendInvitationService(
+      workspaceId,
+      invitationId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invitation resent successfully",
+      invitation,
+    });
+  }
+);
+
+/* The `revokeInvitationController` function handles cancelling a pending invitation. */
+export const revokeInvitationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const invitationId = invitationIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.ADD_MEMBER]);
+
+    const { invitation } = await revokeInvitationService(
+      workspaceId,
+      invitationId,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invitation revoked successfully",
+      invitation,
+    });
+  }
+);
+
+/* The `acceptInvitationController` function handles the signed-in user accepting an invitation
+from its email link. */
+export const acceptInvitationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const token = invitationTokenSchema.parse(req.params.token);
+    const userId = req.user?._id;
+
+    const { workspaceId, role } = await acceptInvitationService(
+      userId,
+      token,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Successfully joined the workspace",
+      workspaceId,
+      role,
+    });
+  }
+);
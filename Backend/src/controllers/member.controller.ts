@@ -2,7 +2,21 @@ import { Request, Response } from "express";
 import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import z from "zod";
 import { HTTPSTATUS } from "../config/http.config";
-import { joinWorkspaceByInviteService } from "../services/member.service";
+import {
+  getMemberRoleInWorkspace,
+  joinWorkspaceByInviteService,
+  leaveWorkspaceService,
+  removeMemberService,
+} from "../services/member.service";
+import { unlockMemberLoginService } from "../services/login-throttle.service";
+import { getAuditContext } from "../utils/audit-context";
+import {
+  memberIdSchema,
+  memberTasksHandlingSchema,
+} from "../validation/member.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
 
 export const joinWorkspaceController = asyncHandler(
   async (req: Request, res: Response) => {
@@ -11,7 +25,8 @@ export const joinWorkspaceController = asyncHandler(
 
     const { workspaceId, role } = await joinWorkspaceByInviteService(
       userId,
-      inviteCode
+      inviteCode,
+      getAuditContext(req)
     );
 
     return res.status(HTTPSTATUS.OK).json({
@@ -21,3 +36,90 @@ export const joinWorkspaceController = asyncHandler(
     });
   }
 );
+
+/* The `removeMemberController` function handles removing a member from a workspace and
+unassigning or reassigning their tasks. */
+export const removeMemberController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const memberId = memberIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const body = memberTasksHandlingSchema.parse(req.body ?? {});
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.REMOVE_MEMBER]);
+
+    const { tasksAffected, reassignedTo } = await removeMemberService(
+      workspaceId,
+      memberId,
+      { userId, role },
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Member removed successfully",
+      tasksAffected,
+      reassignedTo,
+    });
+  }
+);
+
+/* The `leaveWorkspaceController` function handles the signed-in user leaving a workspace. */
+export const leaveWorkspaceController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const body = memberTasksHandlingSchema.parse(req.body ?? {});
+    const userId = req.user?._id;
+
+    // Only checks membership; every member may leave
+    await getMemberRoleInWorkspace(userId, workspaceId, req.accessToken);
+
+    const { currentWorkspace, tasksAffected } = await leaveWorkspaceService(
+      workspaceId,
+      userId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "You have left the workspace",
+      currentWorkspace,
+      tasksAffected,
+    });
+  }
+);
+
+/* The `unlockMemberLoginController` function handles lifting the login lockout of a member after
+too many failed login attempts. */
+export const unlockMemberLoginController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const memberId = memberIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { wasLocked } = await unlockMemberLoginService(
+      workspaceId,
+      memberId,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: wasLocked
+        ? "Member login unlocked successfully"
+        : "Member login was not locked; failed attempts have been reset",
+      wasLocked,
+    });
+  }
+);
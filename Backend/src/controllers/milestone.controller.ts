@@ -0,0 +1,137 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createMilestoneSchema,
+  milestoneIdSchema,
+  updateMilestoneSchema,
+} from "../validation/milestone.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createMilestoneService,
+  deleteMilestoneService,
+  getProjectMilestonesService,
+  updateMilestoneService,
+} from "../services/milestone.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createMilestoneController` function handles adding a milestone to a project. */
+export const createMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createMilestoneSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { milestone } = await createMilestoneService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Milestone created successfully",
+      milestone,
+    });
+  }
+);
+
+/* The `getProjectMilestonesController` function handles listing the milestones of a project with
+their progress. */
+export const getProjectMilestonesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { milestones } = await getProjectMilestonesService(
+      workspaceId,
+      projectId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestones fetched successfully",
+      milestones,
+    });
+  }
+);
+
+/* The `updateMilestoneController` function handles editing a milestone of a project. */
+export const updateMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateMilestoneSchema.parse(req.body);
+    const milestoneId = milestoneIdSchema.parse(req.params.milestoneId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { milestone } = await updateMilestoneService(
+      workspaceId,
+      projectId,
+      milestoneId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestone updated successfully",
+      milestone,
+    });
+  }
+);
+
+/* The `deleteMilestoneController` function handles deleting a milestone of a project. */
+export const deleteMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const milestoneId = milestoneIdSchema.parse(req.params.milestoneId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    await deleteMilestoneService(
+      workspaceId,
+      projectId,
+      milestoneId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestone deleted successfully",
+    });
+  }
+);
@@ -4,10 +4,12 @@ import {
   createProjectSchema,
   projectIdSchema,
   updateProjectSchema,
+  updateProjectWorkflowSchema,
 } from "../validation/project.validation";
 import { workspaceIdSchema } from "../validation/workspace.validation";
 import { getMemberRoleInWorkspace } from "../services/member.service";
 import { roleGuard } from "../utils/roleGuard";
+import { getAuditContext } from "../utils/audit-context";
 import { Permissions } from "../enums/role.enum";
 import {
   createProjectService,
@@ -16,6 +18,7 @@ import {
   getProjectAnalyticsService,
   getProjectByIdAndWorkspaceIdService,
   updateProjectService,
+  updateProjectWorkflowService,
 } from "../services/project.service";
 import { HTTPSTATUS } from "../config/http.config";
 
@@ -29,7 +32,11 @@ export const createProjectController = asyncHandler(
 
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.CREATE_PROJECT]);
 
     const { project } = await createProjectService(userId, workspaceId, body);
@@ -49,7 +56,11 @@ export const getAllProjectsInWorkspaceController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
 
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
@@ -84,7 +95,11 @@ export const getProjectByIdAndWorkspaceIdController = asyncHandler(
 
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
 
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
@@ -110,7 +125,11 @@ export const getProjectAnalyticsController = asyncHandler(
 
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
 
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
@@ -137,7 +156,11 @@ export const updateProjectController = asyncHandler(
 
     const body = updateProjectSchema.parse(req.body);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.EDIT_PROJECT]);
 
     const { project } = await updateProjectService(
@@ -153,6 +176,37 @@ export const updateProjectController = asyncHandler(
   }
 );
 
+/* The `updateProjectWorkflowController` function handles replacing the statuses and allowed
+transitions of a project's workflow. */
+export const updateProjectWorkflowController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const body = updateProjectWorkflowSchema.parse(req.body);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { project } = await updateProjectWorkflowService(
+      workspaceId,
+      projectId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Project workflow updated successfully",
+      project,
+    });
+  }
+);
+
 /* The `deleteProjectController` function is a controller function that handles the deletion of a
 project within a specific workspace. Here's a breakdown of what the function is doing: */
 export const deleteProjectController = asyncHandler(
@@ -162,10 +216,14 @@ export const deleteProjectController = asyncHandler(
     const projectId = projectIdSchema.parse(req.params.id);
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.DELETE_PROJECT]);
 
-    await deleteProjectService(workspaceId, projectId);
+    await deleteProjectService(workspaceId, projectId, getAuditContext(req));
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Project deleted successfully",
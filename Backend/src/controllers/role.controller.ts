@@ -0,0 +1,136 @@
+import { Request, Response } from "express";
+import z from "zod";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createRoleSchema,
+  roleIdSchema,
+  updateRoleSchema,
+} from "../validation/role.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createRoleService,
+  deleteRoleService,
+  getWorkspaceRolesService,
+  updateRoleService,
+} from "../services/role.service";
+import { getAuditContext } from "../utils/audit-context";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createRoleController` function handles creating a custom role for a workspace. */
+export const createRoleController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createRoleSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_ROLES]);
+
+    const { role: createdRole } = await createRoleService(
+      workspaceId,
+      role,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Role created successfully",
+      role: createdRole,
+    });
+  }
+);
+
+/* The `getWorkspaceRolesController` function handles listing the built-in and custom roles
+available in a workspace. */
+export const getWorkspaceRolesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { roles } = await getWorkspaceRolesService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Roles fetched successfully",
+      roles,
+    });
+  }
+);
+
+/* The `updateRoleController` function handles editing a custom role of a workspace. */
+export const updateRoleController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateRoleSchema.parse(req.body);
+    const roleId = roleIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_ROLES]);
+
+    const { role: updatedRole } = await updateRoleService(
+      workspaceId,
+      roleId,
+      role,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Role updated successfully",
+      role: updatedRole,
+    });
+  }
+);
+
+/* The `deleteRoleController` function handles deleting a custom role. Members holding the role
+are moved to `replacementRoleId`, or to the built-in MEMBER role. */
+export const deleteRoleController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const roleId = roleIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const replacementRoleId = z
+      .string()
+      .trim()
+      .min(1)
+      .optional()
+      .parse(req.query.replacementRoleId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_ROLES]);
+
+    const { reassignedMembers } = await deleteRoleService(
+      workspaceId,
+      roleId,
+      replacementRoleId,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Role deleted successfully",
+      reassignedMembers,
+    });
+  }
+);
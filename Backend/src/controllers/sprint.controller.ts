@@ -0,0 +1,197 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  closeSprintSchema,
+  createSprintSchema,
+  sprintIdSchema,
+  updateSprintSchema,
+} from "../validation/sprint.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  closeSprintService,
+  createSprintService,
+  deleteSprintService,
+  getProjectSprintsService,
+  startSprintService,
+  updateSprintService,
+} from "../services/sprint.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createSprintController` function handles planning a new sprint for a project. */
+export const createSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createSprintSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await createSprintService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Sprint created successfully",
+      sprint,
+    });
+  }
+);
+
+/* The `getProjectSprintsController` function handles listing the sprints of a project. */
+export const getProjectSprintsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { sprints, backlog } = await getProjectSprintsService(
+      workspaceId,
+      projectId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprints fetched successfully",
+      sprints,
+      backlog,
+    });
+  }
+);
+
+/* The `updateSprintController` function handles changing the name, goal and dates of a sprint. */
+export const updateSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateSprintSchema.parse(req.body);
+    const sprintId = sprintIdSchema.parse(req.params.id);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await updateSprintService(
+      workspaceId,
+      projectId,
+      sprintId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint updated successfully",
+      sprint,
+    });
+  }
+);
+
+/* The `startSprintController` function handles starting a planned sprint. */
+export const startSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const sprintId = sprintIdSchema.parse(req.params.id);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await startSprintService(
+      workspaceId,
+      projectId,
+      sprintId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint started successfully",
+      sprint,
+    });
+  }
+);
+
+/* The `closeSprintController` function handles closing the active sprint and carrying over its
+unfinished tasks. */
+export const closeSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = closeSprintSchema.parse(req.body);
+    const sprintId = sprintIdSchema.parse(req.params.id);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await closeSprintService(
+      workspaceId,
+      projectId,
+      sprintId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint closed successfully",
+      sprint,
+    });
+  }
+);
+
+/* The `deleteSprintController` function handles deleting a sprint that has not been closed. */
+export const deleteSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const sprintId = sprintIdSchema.parse(req.params.id);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    await deleteSprintService(workspaceId, projectId, sprintId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint deleted successfully",
+    });
+  }
+);
@@ -1,8 +1,16 @@
 import { Request, Response } from "express";
 import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import {
+  addDependencySchema,
+  checklistItemIdSchema,
+  childTaskStrategySchema,
+  createChecklistItemSchema,
   createTaskSchema,
+  reorderChecklistSchema,
+  reorderSubtasksSchema,
+  reorderTaskSchema,
   taskIdSchema,
+  updateChecklistItemSchema,
   updateTaskSchema,
 } from "../validation/task.validation";
 import { projectIdSchema } from "../validation/project.validation";
@@ -11,12 +19,22 @@ import { getMemberRoleInWorkspace } from "../services/member.service";
 import { roleGuard } from "../utils/roleGuard";
 import { Permissions } from "../enums/role.enum";
 import {
+  addChecklistItemService,
+  addTaskDependencyService,
   createTaskService,
+  deleteChecklistItemService,
   deleteTaskService,
   getAllTasksService,
+  getTaskBoardService,
   getTaskByIdService,
+  removeTaskDependencyService,
+  reorderChecklistService,
+  reorderSubtasksService,
+  reorderTaskService,
+  updateChecklistItemService,
   updateTaskService,
 } from "../services/task.service";
+import { getTaskHistoryService } from "../services/task-activity.service";
 import { HTTPSTATUS } from "../config/http.config";
 import { Http2ServerRequest } from "http2";
 
@@ -30,10 +48,17 @@ export const createTaskController = asyncHandler(
     const projectId = projectIdSchema.parse(req.params.projectId);
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.CREATE_TASK]);
+    if (body.overrideWipLimit) {
+      roleGuard(role, [Permissions.EDIT_PROJECT]);
+    }
 
-    const { task } = await createTaskService(
+    const { task, warning } = await createTaskService(
       workspaceId,
       projectId,
       userId,
@@ -43,6 +68,7 @@ export const createTaskController = asyncHandler(
     return res.status(HTTPSTATUS.OK).json({
       message: "Task created successfully",
       task,
+      warning,
     });
   }
 );
@@ -60,23 +86,53 @@ export const updateTaskController = asyncHandler(
     const projectId = projectIdSchema.parse(req.params.projectId);
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.EDIT_TASK]);
+    // Going past a hard WIP limit is a project-level decision
+    if (body.overrideWipLimit) {
+      roleGuard(role, [Permissions.EDIT_PROJECT]);
+    }
 
-    const { updatedTask } = await updateTaskService(
+    const { updatedTask, warning } = await updateTaskService(
       workspaceId,
       projectId,
       taskId,
+      userId,
       body
     );
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Task updated successfully",
       task: updatedTask,
+      warning,
     });
   }
 );
 
+// The task table and the board read the same filters from the query string
+const getTaskFiltersFromQuery = (req: Request) => ({
+  projectId: (req.query.projectId as string) || undefined,
+  sprintId: (req.query.sprintId as string) || undefined,
+  milestoneId: (req.query.milestoneId as string) || undefined,
+  epicId: (req.query.epicId as string) || undefined,
+  status: req.query.status
+    ? (req.query.status as string)?.split(",")
+    : undefined,
+  priority: req.query.priority
+    ? (req.query.priority as string)?.split(",")
+    : undefined,
+  assignedTo: req.query.assignedTo
+    ? (req.query.assignedTo as string)?.split(",")
+    : undefined,
+  keyword: req.query.keyword as string | undefined,
+  dueDate: req.query.dueDate as string | undefined,
+  topLevelOnly: req.query.topLevelOnly === "true",
+});
+
 /* The `getAllTaskController` function is a controller function that handles the retrieval of all tasks
 based on certain filters and pagination parameters. Here's a breakdown of what the code is doing: */
 export const getAllTaskController = asyncHandler(
@@ -85,26 +141,17 @@ export const getAllTaskController = asyncHandler(
 
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const filters = {
-      projectId: (req.query.projectId as string) || undefined,
-      status: req.query.status
-        ? (req.query.status as string)?.split(",")
-        : undefined,
-      priority: req.query.priority
-        ? (req.query.priority as string)?.split(",")
-        : undefined,
-      assignedTo: req.query.assignedTo
-        ? (req.query.assignedTo as string)?.split(",")
-        : undefined,
-      keyword: req.query.keyword as string | undefined,
-      dueDate: req.query.dueDate as string | undefined,
-    };
+    const filters = getTaskFiltersFromQuery(req);
     const pagination = {
       pageSize: parseInt(req.query.pageSize as string) || 10,
       pageNumber: parseInt(req.query.pageNumber as string) || 1,
     };
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
     const result = await getAllTasksService(workspaceId, filters, pagination);
@@ -116,6 +163,66 @@ export const getAllTaskController = asyncHandler(
   }
 );
 
+/* The `getTaskBoardController` function handles retrieving the tasks of a workspace grouped into
+board columns by status, using the same filters as the task table. */
+export const getTaskBoardController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const filters = getTaskFiltersFromQuery(req);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { columns } = await getTaskBoardService(workspaceId, filters);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task board fetched successfully",
+      columns,
+    });
+  }
+);
+
+/* The `reorderTaskController` function handles moving a task on the board to another position or
+status column. */
+export const reorderTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = reorderTaskSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+    if (body.overrideWipLimit) {
+      roleGuard(role, [Permissions.EDIT_PROJECT]);
+    }
+
+    const { task, warning } = await reorderTaskService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task moved successfully",
+      task,
+      warning,
+    });
+  }
+);
+
 /* The `getTaskByIdController` function is a controller function that handles the retrieval of a
 specific task by its ID. Here's a breakdown of what the code is doing: */
 export const getTaskByIdController = asyncHandler(
@@ -126,7 +233,11 @@ export const getTaskByIdController = asyncHandler(
     const projectId = projectIdSchema.parse(req.params.projectId);
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
     const task = await getTaskByIdService(workspaceId, projectId, taskId);
@@ -147,13 +258,298 @@ export const deleteTaskController = asyncHandler(
     const taskId = taskIdSchema.parse(req.params.id);
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const childStrategy = childTaskStrategySchema.parse(
+      req.query.childStrategy
+    );
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.DELETE_TASK]);
 
-    await deleteTaskService(workspaceId, taskId);
+    await deleteTaskService(workspaceId, taskId, userId, childStrategy);
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Task deleted successfully",
     });
   }
 );
+
+/* The `createSubtaskController` function handles the creation of a subtask under an existing
+task. It reuses the task creation flow with the parent task taken from the route. */
+export const createSubtaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createTaskSchema.parse(req.body);
+    const parentTaskId = taskIdSchema.parse(req.params.id);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.CREATE_TASK]);
+    if (body.overrideWipLimit) {
+      roleGuard(role, [Permissions.EDIT_PROJECT]);
+    }
+
+    const { task, warning } = await createTaskService(
+      workspaceId,
+      projectId,
+      userId,
+      {
+        ...body,
+        parentTask: parentTaskId,
+      }
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Subtask created successfully",
+      task,
+      warning,
+    });
+  }
+);
+
+/* The `reorderSubtasksController` function handles changing the order of a task's subtasks. */
+export const reorderSubtasksController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { subtaskIds } = reorderSubtasksSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { subtasks } = await reorderSubtasksService(
+      workspaceId,
+      taskId,
+      subtaskIds
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Subtasks reordered successfully",
+      subtasks,
+    });
+  }
+);
+
+/* The `addChecklistItemController` function handles adding a checklist item to a task. */
+export const addChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createChecklistItemSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist } = await addChecklistItemService(
+      workspaceId,
+      taskId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Checklist item added successfully",
+      checklist,
+    });
+  }
+);
+
+/* The `updateChecklistItemController` function handles renaming a checklist item and marking it
+as complete or incomplete. */
+export const updateChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateChecklistItemSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const itemId = checklistItemIdSchema.parse(req.params.itemId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist } = await updateChecklistItemService(
+      workspaceId,
+      taskId,
+      itemId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist item updated successfully",
+      checklist,
+    });
+  }
+);
+
+/* The `reorderChecklistController` function handles changing the order of a task's checklist. */
+export const reorderChecklistController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { itemIds } = reorderChecklistSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist } = await reorderChecklistService(
+      workspaceId,
+      taskId,
+      itemIds
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist reordered successfully",
+      checklist,
+    });
+  }
+);
+
+/* The `deleteChecklistItemController` function handles removing a checklist item from a task. */
+export const deleteChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.id);
+    const itemId = checklistItemIdSchema.parse(req.params.itemId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist } = await deleteChecklistItemService(
+      workspaceId,
+      taskId,
+      itemId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist item deleted successfully",
+      checklist,
+    });
+  }
+);
+
+/* The `addTaskDependencyController` function handles recording that another task in the same
+workspace blocks the task from the route. */
+export const addTaskDependencyController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { blockerTaskId } = addDependencySchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { task } = await addTaskDependencyService(
+      workspaceId,
+      taskId,
+      blockerTaskId
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Task dependency added successfully",
+      task,
+    });
+  }
+);
+
+/* The `removeTaskDependencyController` function handles removing a blocking link from a task. */
+export const removeTaskDependencyController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.id);
+    const blockerTaskId = taskIdSchema.parse(req.params.blockerId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { task } = await removeTaskDependencyService(
+      workspaceId,
+      taskId,
+      blockerTaskId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task dependency removed successfully",
+      task,
+    });
+  }
+);
+
+/* The `getTaskHistoryController` function handles retrieving the paginated change history of a
+task, newest first. */
+export const getTaskHistoryController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getTaskHistoryService(workspaceId, taskId, pagination);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task history fetched successfully",
+      ...result,
+    });
+  }
+);
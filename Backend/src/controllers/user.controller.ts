@@ -2,6 +2,54 @@ import { Request, Response } from "express";
 import { HTTPSTATUS } from "../config/http.config";
 import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import { getCurrentUserService } from "../services/user.service";
+import {
+  disableTwoFactorService,
+  enableTwoFactorService,
+  getTwoFactorStatusService,
+  regenerateRecoveryCodesService,
+  setupTwoFactorService,
+} from "../services/two-factor.service";
+import {
+  getUserSessionsService,
+  revokeOtherUserSessionsService,
+  revokeUserSessionService,
+} from "../services/session.service";
+import {
+  createAccessTokenService,
+  getUserAccessTokensService,
+  revokeAccessTokenService,
+} from "../services/access-token.service";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { getAuditContext } from "../utils/audit-context";
+import {
+  accessTokenIdSchema,
+  createAccessTokenSchema,
+} from "../validation/access-token.validation";
+import {
+  linkAccountSchema,
+  twoFactorCodeSchema,
+  unlinkAccountSchema,
+  userSessionIdSchema,
+} from "../validation/auth.validation";
+import {
+  getUserAccountsService,
+  unlinkAccountService,
+} from "../services/account.service";
+import {
+  getNotificationPreferencesService,
+  getUserNotificationsService,
+  markAllNotificationsReadService,
+  markNotificationReadService,
+  updateNotificationPreferencesService,
+} from "../services/notification.service";
+import {
+  notificationFiltersSchema,
+  notificationIdSchema,
+  notificationPreferencesSchema,
+} from "../validation/notification.validation";
+
+// How long the user has to finish the provider's consent screen when linking an account
+const LINK_ACCOUNT_TIMEOUT_MINUTES = 10;
 
 export const getCurrentUserController = asyncHandler(
   async (req: Request, res: Response) => {
@@ -15,3 +63,304 @@ export const getCurrentUserController = asyncHandler(
     });
   }
 );
+
+export const getTwoFactorStatusController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const twoFactor = await getTwoFactorStatusService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Two-factor status fetched successfully",
+      twoFactor,
+    });
+  }
+);
+
+export const setupTwoFactorController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { secret, otpauthUri } = await setupTwoFactorService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Scan the QR code with your authenticator app",
+      secret,
+      otpauthUri,
+    });
+  }
+);
+
+export const enableTwoFactorController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    const { recoveryCodes } = await enableTwoFactorService(
+      userId,
+      code,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+    });
+  }
+);
+
+export const disableTwoFactorController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    await disableTwoFactorService(userId, code, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Two-factor authentication disabled",
+    });
+  }
+);
+
+export const regenerateRecoveryCodesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    const { recoveryCodes } = await regenerateRecoveryCodesService(
+      userId,
+      code,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "New recovery codes generated",
+      recoveryCodes,
+    });
+  }
+);
+
+export const getUserAccountsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { accounts } = await getUserAccountsService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Linked accounts fetched successfully",
+      accounts,
+    });
+  }
+);
+
+export const startLinkAccountController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { provider, workspaceId } = linkAccountSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    // The provider's callback links the account to this user instead of logging in
+    req.session.linkAccount = {
+      userId: String(userId),
+      workspaceId,
+      expiresAt: Date.now() + LINK_ACCOUNT_TIMEOUT_MINUTES * 60 * 1000,
+    };
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: `Continue to ${provider.toLowerCase()} to link your account`,
+      provider,
+    });
+  }
+);
+
+export const unlinkAccountController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { provider } = unlinkAccountSchema.parse(req.params);
+    const userId = req.user?._id;
+
+    await unlinkAccountService(userId, provider, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Account unlinked successfully",
+    });
+  }
+);
+
+export const getUserSessionsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { sessions } = await getUserSessionsService(userId, req.sessionID);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sessions fetched successfully",
+      sessions,
+    });
+  }
+);
+
+export const revokeUserSessionController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const sessionId = userSessionIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    await revokeUserSessionService(
+      userId,
+      sessionId,
+      req.sessionID,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Session signed out successfully",
+    });
+  }
+);
+
+export const revokeOtherUserSessionsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { destroyedCount } = await revokeOtherUserSessionsService(
+      userId,
+      req.sessionID,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Signed out of all other sessions",
+      destroyedCount,
+    });
+  }
+);
+
+export const getUserAccessTokensController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { accessTokens } = await getUserAccessTokensService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Access tokens fetched successfully",
+      accessTokens,
+    });
+  }
+);
+
+export const createAccessTokenController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createAccessTokenSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      body.workspaceId,
+      req.accessToken
+    );
+
+    const { accessToken, token } = await createAccessTokenService(
+      userId,
+      role,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Access token created. Copy it now, it won't be shown again",
+      accessToken,
+      token,
+    });
+  }
+);
+
+export const revokeAccessTokenController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const accessTokenId = accessTokenIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    await revokeAccessTokenService(userId, accessTokenId, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Access token revoked successfully",
+    });
+  }
+);
+
+export const getUserNotificationsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const filters = notificationFiltersSchema.parse(req.query);
+    const userId = req.user?._id;
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const result = await getUserNotificationsService(
+      userId,
+      filters,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notifications fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const markNotificationReadController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const notificationId = notificationIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    const { notification } = await markNotificationReadService(
+      userId,
+      notificationId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notification marked as read",
+      notification,
+    });
+  }
+);
+
+export const markAllNotificationsReadController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { updated } = await markAllNotificationsReadService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "All notifications marked as read",
+      updated,
+    });
+  }
+);
+
+export const getNotificationPreferencesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { optOuts } = await getNotificationPreferencesService(userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notification preferences fetched successfully",
+      optOuts,
+    });
+  }
+);
+
+export const updateNotificationPreferencesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { optOuts } = notificationPreferencesSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    const result = await updateNotificationPreferencesService(userId, optOuts);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notification preferences updated successfully",
+      optOuts: result.optOuts,
+    });
+  }
+);
@@ -0,0 +1,215 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  webhookDeliveryIdSchema,
+  webhookIdSchema,
+} from "../validation/webhook.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createWebhookService,
+  deleteWebhookService,
+  getWebhookDeliveriesService,
+  getWorkspaceWebhooksService,
+  replayWebhookDeliveryService,
+  rotateWebhookSecretService,
+  updateWebhookService,
+} from "../services/webhook.service";
+import { getAuditContext } from "../utils/audit-context";
+import { HTTPSTATUS } from "../config/http.config";
+
+/* The `createWebhookController` function handles subscribing a URL to events of a workspace. */
+export const createWebhookController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createWebhookSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { webhook, secret } = await createWebhookService(
+      workspaceId,
+      userId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message:
+        "Webhook created. Copy the signing secret, it won't be shown again",
+      webhook,
+      secret,
+    });
+  }
+);
+
+/* The `getWorkspaceWebhooksController` function handles listing the webhooks of a workspace. */
+export const getWorkspaceWebhooksController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { webhooks } = await getWorkspaceWebhooksService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Webhooks fetched successfully",
+      webhooks,
+    });
+  }
+);
+
+/* The `updateWebhookController` function handles changing the URL, events or enabled state of a
+webhook. */
+export const updateWebhookController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateWebhookSchema.parse(req.body);
+    const webhookId = webhookIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { webhook } = await updateWebhookService(
+      workspaceId,
+      webhookId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Webhook updated successfully",
+      webhook,
+    });
+  }
+);
+
+/* The `rotateWebhookSecretController` function handles replacing the signing secret of a
+webhook. */
+export const rotateWebhookSecretController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const webhookId = webhookIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { secret } = await rotateWebhookSecretService(
+      workspaceId,
+      webhookId,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Signing secret rotated. Copy it, it won't be shown again",
+      secret,
+    });
+  }
+);
+
+/* The `deleteWebhookController` function handles deleting a webhook and its delivery log. */
+export const deleteWebhookController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const webhookId = webhookIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    await deleteWebhookService(workspaceId, webhookId, getAuditContext(req));
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Webhook deleted successfully",
+    });
+  }
+);
+
+/* The `getWebhookDeliveriesController` function handles retrieving the delivery log of a
+webhook. */
+export const getWebhookDeliveriesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const webhookId = webhookIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const result = await getWebhookDeliveriesService(
+      workspaceId,
+      webhookId,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Webhook deliveries fetched successfully",
+      ...result,
+    });
+  }
+);
+
+/* The `replayWebhookDeliveryController` function handles sending the payload of an earlier
+delivery again. */
+export const replayWebhookDeliveryController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const deliveryId = webhookDeliveryIdSchema.parse(req.params.deliveryId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { delivery } = await replayWebhookDeliveryService(
+      workspaceId,
+      deliveryId
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Delivery queued for replay",
+      delivery,
+    });
+  }
+);
@@ -3,6 +3,9 @@ import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import {
   changeRoleSchema,
   createWorkspaceSchema,
+  transferOwnershipSchema,
+  updateInviteLinkSchema,
+  updateTwoFactorRequirementSchema,
   updateWorkspaceSchema,
   workspaceIdSchema,
 } from "../validation/workspace.validation";
@@ -12,14 +15,31 @@ import {
   createWorkspaceService,
   deleteWorkspaceService,
   getAllWorkspaceUserIsMemberService,
+  getInviteLinkService,
   getWorkspaceAnalyticsService,
   getWorkspaceByIdService,
   getWorkspaceMembersService,
+  resetInviteCodeService,
+  transferWorkspaceOwnershipService,
+  updateInviteLinkService,
+  updateTwoFactorRequirementService,
   updateWorkspaceByIdService,
 } from "../services/workspace.service";
 import { getMemberRoleInWorkspace } from "../services/member.service";
 import { Permissions } from "../enums/role.enum";
 import { roleGuard } from "../utils/roleGuard";
+import { getAuditContext } from "../utils/audit-context";
+import { auditLogFiltersSchema } from "../validation/audit-log.validation";
+import {
+  assertAuditLogReader,
+  exportWorkspaceAuditLogsCsvService,
+  getWorkspaceAuditLogsService,
+} from "../services/audit-log.service";
+import { subscribeToWorkspaceEvents } from "../services/realtime.service";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+
+const STREAM_RETRY_MS = 5 * 1000;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
 
 /* The `createWorkspaceController` function is an asynchronous controller function that handles the
 creation of a workspace. Here's a breakdown of what it does: */
@@ -59,7 +79,7 @@ export const getWorkspaceByIdController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.id);
     const userId = req.user?._id;
 
-    await getMemberRoleInWorkspace(userId, workspaceId);
+    await getMemberRoleInWorkspace(userId, workspaceId, req.accessToken);
     const { workspace } = await getWorkspaceByIdService(workspaceId);
 
     return res.status(HTTPSTATUS.OK).json({
@@ -78,7 +98,11 @@ export const getWorkspaceMembersController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.id);
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
 
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
@@ -99,7 +123,11 @@ export const getWorkspaceAnalyticsController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.id);
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
     const { analytics } = await getWorkspaceAnalyticsService(workspaceId);
@@ -120,13 +148,18 @@ export const changeWorkspaceMemberRoleController = asyncHandler(
     const { memberId, roleId } = changeRoleSchema.parse(req.body);
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.CHANGE_MEMBER_ROLE]);
 
     const { member } = await changeMemberRoleService(
       workspaceId,
       memberId,
-      roleId
+      roleId,
+      getAuditContext(req)
     );
 
     return res.status(HTTPSTATUS.OK).json({
@@ -145,7 +178,11 @@ export const updateWorkspaceByIdController = asyncHandler(
 
     const userId = req.user?._id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.EDIT_WORKSPACE]);
 
     const { workspace } = await updateWorkspaceByIdService(
@@ -161,6 +198,133 @@ export const updateWorkspaceByIdController = asyncHandler(
   }
 );
 
+/* The `transferWorkspaceOwnershipController` function handles the current owner handing the
+workspace over to another member. */
+export const transferWorkspaceOwnershipController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const body = transferOwnershipSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    await getMemberRoleInWorkspace(userId, workspaceId, req.accessToken);
+
+    const { workspace } = await transferWorkspaceOwnershipService(
+      workspaceId,
+      userId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Workspace ownership transferred successfully",
+      workspace,
+    });
+  }
+);
+
+/* The `getInviteLinkController` function handles retrieving the invite link of a workspace and
+whether it is currently active. */
+export const getInviteLinkController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { inviteLink } = await getInviteLinkService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invite link fetched successfully",
+      inviteLink,
+    });
+  }
+);
+
+/* The `resetInviteCodeController` function handles regenerating the invite code of a workspace,
+which invalidates the previous link. */
+export const resetInviteCodeController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { inviteLink } = await resetInviteCodeService(
+      workspaceId,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invite link reset successfully",
+      inviteLink,
+    });
+  }
+);
+
+/* The `updateInviteLinkController` function handles enabling or disabling the invite link and
+setting its usage limit and expiry. */
+export const updateInviteLinkController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const body = updateInviteLinkSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { inviteLink } = await updateInviteLinkService(
+      workspaceId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Invite link updated successfully",
+      inviteLink,
+    });
+  }
+);
+
+/* The `updateTwoFactorRequirementController` function handles the owner requiring two-factor
+authentication from every member of the workspace. */
+export const updateTwoFactorRequirementController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const body = updateTwoFactorRequirementSchema.parse(req.body);
+    const userId = req.user?._id;
+
+    await getMemberRoleInWorkspace(userId, workspaceId, req.accessToken);
+
+    const { workspace } = await updateTwoFactorRequirementService(
+      workspaceId,
+      userId,
+      body,
+      getAuditContext(req)
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: workspace.requireTwoFactor
+        ? "Two-factor authentication is now required for all members"
+        : "Two-factor authentication is no longer required",
+      workspace,
+    });
+  }
+);
+
 /* The `deleteWorkspaceByIdController` function is an asynchronous controller function that handles the
 deletion of a specific workspace by its ID. Here's a breakdown of what it does: */
 export const deleteWorkspaceByIdController = asyncHandler(
@@ -168,12 +332,17 @@ export const deleteWorkspaceByIdController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.id);
     const userId = req.user?.id;
 
-    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
     roleGuard(role, [Permissions.DELETE_WORKSPACE]);
 
     const { currentWorkspace } = await deleteWorkspaceService(
       workspaceId,
-      userId
+      userId,
+      getAuditContext(req)
     );
 
     return res.status(HTTPSTATUS.OK).json({
@@ -182,3 +351,117 @@ export const deleteWorkspaceByIdController = asyncHandler(
     });
   }
 );
+
+/* The `getWorkspaceAuditLogsController` function handles retrieving the audit log of a workspace.
+It supports filtering by action, actor and date range, and is restricted to the workspace owner. */
+export const getWorkspaceAuditLogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const filters = auditLogFiltersSchema.parse(req.query);
+    const userId = req.user?._id;
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_AUDIT_LOG]);
+    await assertAuditLogReader(workspaceId, userId);
+
+    const result = await getWorkspaceAuditLogsService(
+      workspaceId,
+      filters,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Audit log fetched successfully",
+      ...result,
+    });
+  }
+);
+
+/* The `exportWorkspaceAuditLogsController` function handles downloading the filtered audit log of a
+workspace as a CSV file. */
+export const exportWorkspaceAuditLogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const filters = auditLogFiltersSchema.parse(req.query);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_AUDIT_LOG]);
+    await assertAuditLogReader(workspaceId, userId);
+
+    const { csv } = await exportWorkspaceAuditLogsCsvService(
+      workspaceId,
+      filters
+    );
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-log-${workspaceId}.csv"`
+    );
+    return res.status(HTTPSTATUS.OK).send(csv);
+  }
+);
+
+/* The `streamWorkspaceEventsController` function handles a Server-Sent Events stream of the task,
+project and member changes in a workspace. The stream ends when the user is no longer a member. */
+export const streamWorkspaceEventsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(
+      userId,
+      workspaceId,
+      req.accessToken
+    );
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    res.writeHead(HTTPSTATUS.OK, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+    const unsubscribe = subscribeToWorkspaceEvents(workspaceId, (event) => {
+      res.write(
+        `id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(
+          event
+        )}\n\n`
+      );
+
+      const member = event.data.member as { userId?: string } | undefined;
+      const isRemoved =
+        (event.event === WebhookEventEnum.MEMBER_REMOVED ||
+          event.event === WebhookEventEnum.MEMBER_LEFT) &&
+        String(member?.userId) === String(userId);
+      if (isRemoved) res.end();
+    });
+    // Comments keep proxies from closing an idle connection
+    const heartbeat = setInterval(
+      () => res.write(": heartbeat\n\n"),
+      STREAM_HEARTBEAT_MS
+    );
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+);
@@ -0,0 +1,49 @@
+export const AuditActionEnum = {
+  // Workspace administration
+  MEMBER_ROLE_CHANGED: "MEMBER_ROLE_CHANGED",
+  MEMBER_JOINED: "MEMBER_JOINED",
+  MEMBER_REMOVED: "MEMBER_REMOVED",
+  MEMBER_LEFT: "MEMBER_LEFT",
+  WORKSPACE_DELETED: "WORKSPACE_DELETED",
+  OWNERSHIP_TRANSFERRED: "OWNERSHIP_TRANSFERRED",
+  INVITE_CODE_RESET: "INVITE_CODE_RESET",
+  INVITE_LINK_UPDATED: "INVITE_LINK_UPDATED",
+  TWO_FACTOR_REQUIREMENT_UPDATED: "TWO_FACTOR_REQUIREMENT_UPDATED",
+
+  INVITATION_CREATED: "INVITATION_CREATED",
+  INVITATION_REVOKED: "INVITATION_REVOKED",
+
+  ROLE_CREATED: "ROLE_CREATED",
+  ROLE_UPDATED: "ROLE_UPDATED",
+  ROLE_DELETED: "ROLE_DELETED",
+
+  PROJECT_DELETED: "PROJECT_DELETED",
+
+  WEBHOOK_CREATED: "WEBHOOK_CREATED",
+  WEBHOOK_UPDATED: "WEBHOOK_UPDATED",
+  WEBHOOK_DELETED: "WEBHOOK_DELETED",
+
+  // Authentication
+  USER_REGISTERED: "USER_REGISTERED",
+  USER_LOGGED_IN: "USER_LOGGED_IN",
+  USER_LOGIN_FAILED: "USER_LOGIN_FAILED",
+  USER_LOGIN_LOCKED: "USER_LOGIN_LOCKED",
+  USER_LOGIN_UNLOCKED: "USER_LOGIN_UNLOCKED",
+  USER_LOGGED_OUT: "USER_LOGGED_OUT",
+  SESSION_REVOKED: "SESSION_REVOKED",
+  OTHER_SESSIONS_REVOKED: "OTHER_SESSIONS_REVOKED",
+  ACCESS_TOKEN_CREATED: "ACCESS_TOKEN_CREATED",
+  ACCESS_TOKEN_REVOKED: "ACCESS_TOKEN_REVOKED",
+  PASSWORD_RESET_REQUESTED: "PASSWORD_RESET_REQUESTED",
+  PASSWORD_RESET_COMPLETED: "PASSWORD_RESET_COMPLETED",
+  EMAIL_VERIFICATION_SENT: "EMAIL_VERIFICATION_SENT",
+  EMAIL_VERIFIED: "EMAIL_VERIFIED",
+  ACCOUNT_LINKED: "ACCOUNT_LINKED",
+  ACCOUNT_UNLINKED: "ACCOUNT_UNLINKED",
+  TWO_FACTOR_ENABLED: "TWO_FACTOR_ENABLED",
+  TWO_FACTOR_DISABLED: "TWO_FACTOR_DISABLED",
+  TWO_FACTOR_RECOVERY_CODES_REGENERATED:
+    "TWO_FACTOR_RECOVERY_CODES_REGENERATED",
+} as const;
+
+export type AuditActionEnumType = keyof typeof AuditActionEnum;
@@ -5,16 +5,28 @@ export const ErrorCodeEnum = {
 
   AUTH_NOT_FOUND: "AUTH_NOT_FOUND",
   AUTH_TOO_MANY_ATTEMPTS: "AUTH_TOO_MANY_ATTEMPTS",
+  AUTH_EMAIL_NOT_VERIFIED: "AUTH_EMAIL_NOT_VERIFIED",
+  AUTH_TWO_FACTOR_INVALID_CODE: "AUTH_TWO_FACTOR_INVALID_CODE",
+  AUTH_TWO_FACTOR_REQUIRED: "AUTH_TWO_FACTOR_REQUIRED",
+  AUTH_SESSION_REVOKED: "AUTH_SESSION_REVOKED",
   AUTH_UNAUTHORIZED_ACCESS: "AUTH_UNAUTHORIZED_ACCESS",
   AUTH_TOKEN_NOT_FOUND: "AUTH_TOKEN_NOT_FOUND",
 
   // Access Control Errors
   ACCESS_UNAUTHORIZED: "ACCESS_UNAUTHORIZED",
 
+  // Workspace Errors
+  INVITE_LINK_INACTIVE: "INVITE_LINK_INACTIVE",
+
   // Validation and Resource Errors
   VALIDATION_ERROR: "VALIDATION_ERROR",
   RESOURCE_NOT_FOUND: "RESOURCE_NOT_FOUND",
 
+  // Task Errors
+  TASK_BLOCKED: "TASK_BLOCKED",
+  TASK_TRANSITION_NOT_ALLOWED: "TASK_TRANSITION_NOT_ALLOWED",
+  TASK_WIP_LIMIT_REACHED: "TASK_WIP_LIMIT_REACHED",
+
   // System Errors
   INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
 } as const;
@@ -0,0 +1,8 @@
+export const InvitationStatusEnum = {
+  PENDING: "PENDING",
+  ACCEPTED: "ACCEPTED",
+  REVOKED: "REVOKED",
+  EXPIRED: "EXPIRED",
+} as const;
+
+export type InvitationStatusEnumType = keyof typeof InvitationStatusEnum;
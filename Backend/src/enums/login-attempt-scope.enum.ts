@@ -0,0 +1,6 @@
+export const LoginAttemptScopeEnum = {
+  ACCOUNT: "ACCOUNT",
+  IP: "IP",
+} as const;
+
+export type LoginAttemptScopeEnumType = keyof typeof LoginAttemptScopeEnum;
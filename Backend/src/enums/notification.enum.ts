@@ -0,0 +1,7 @@
+export const NotificationTypeEnum = {
+  TASK_ASSIGNED: "TASK_ASSIGNED",
+  TASK_MENTIONED: "TASK_MENTIONED",
+  TASK_STATUS_CHANGED: "TASK_STATUS_CHANGED",
+} as const;
+
+export type NotificationTypeEnumType = keyof typeof NotificationTypeEnum;
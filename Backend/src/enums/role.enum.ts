@@ -10,6 +10,8 @@ export const Permissions = {
   DELETE_WORKSPACE: "DELETE_WORKSPACE",
   EDIT_WORKSPACE: "EDIT_WORKSPACE",
   MANAGE_WORKSPACE_SETTINGS: "MANAGE_WORKSPACE_SETTINGS",
+  VIEW_AUDIT_LOG: "VIEW_AUDIT_LOG",
+  MANAGE_ROLES: "MANAGE_ROLES",
 
   ADD_MEMBER: "ADD_MEMBER",
   CHANGE_MEMBER_ROLE: "CHANGE_MEMBER_ROLE",
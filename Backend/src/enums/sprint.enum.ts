@@ -0,0 +1,7 @@
+export const SprintStatusEnum = {
+  PLANNED: "PLANNED",
+  ACTIVE: "ACTIVE",
+  CLOSED: "CLOSED",
+} as const;
+
+export type SprintStatusEnumType = keyof typeof SprintStatusEnum;
@@ -0,0 +1,7 @@
+export const TaskActivityActionEnum = {
+  CREATED: "CREATED",
+  UPDATED: "UPDATED",
+  DELETED: "DELETED",
+} as const;
+
+export type TaskActivityActionEnumType = keyof typeof TaskActivityActionEnum;
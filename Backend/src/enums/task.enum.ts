@@ -6,6 +6,19 @@ export const TaskStatusEnum = {
   DONE: "DONE",
 } as const;
 
+// Groups a project's own statuses so analytics and blockers work across workflows
+export const TaskStatusCategoryEnum = {
+  BACKLOG: "BACKLOG",
+  ACTIVE: "ACTIVE",
+  DONE: "DONE",
+} as const;
+
+// A hard limit blocks moves into a full status; a soft one only warns
+export const WipLimitModeEnum = {
+  HARD: "HARD",
+  SOFT: "SOFT",
+} as const;
+
 export const TaskPriorityEnum = {
   LOW: "LOW",
   MEDIUM: "MEDIUM",
@@ -13,4 +26,6 @@ export const TaskPriorityEnum = {
 } as const;
 
 export type TaskStatusEnumType = keyof typeof TaskStatusEnum;
+export type TaskStatusCategoryEnumType = keyof typeof TaskStatusCategoryEnum;
+export type WipLimitModeEnumType = keyof typeof WipLimitModeEnum;
 export type TaskPriorityEnumType = keyof typeof TaskPriorityEnum;
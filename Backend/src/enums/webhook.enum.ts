@@ -0,0 +1,24 @@
+export const WebhookEventEnum = {
+  TASK_CREATED: "task.created",
+  TASK_UPDATED: "task.updated",
+  TASK_DELETED: "task.deleted",
+  PROJECT_CREATED: "project.created",
+  PROJECT_UPDATED: "project.updated",
+  PROJECT_DELETED: "project.deleted",
+  MEMBER_JOINED: "member.joined",
+  MEMBER_LEFT: "member.left",
+  MEMBER_REMOVED: "member.removed",
+  MEMBER_ROLE_CHANGED: "member.role_changed",
+} as const;
+
+export type WebhookEventEnumType =
+  (typeof WebhookEventEnum)[keyof typeof WebhookEventEnum];
+
+export const WebhookDeliveryStatusEnum = {
+  PENDING: "PENDING",
+  SUCCEEDED: "SUCCEEDED",
+  FAILED: "FAILED",
+} as const;
+
+export type WebhookDeliveryStatusEnumType =
+  keyof typeof WebhookDeliveryStatusEnum;
@@ -7,6 +7,7 @@ import MongoStore from "connect-mongo";
 
 import { config } from "./config/app.config";
 import connectDatabase from "./config/database.config";
+import { SESSION_COLLECTION_NAME } from "./config/session.config";
 import { errorHandler } from "./middlewares/errorHandler.middleware";
 import { HTTPSTATUS } from "./config/http.config";
 import { asyncHandler } from "./middlewares/asyncHandler.middleware";
@@ -18,10 +19,16 @@ import passport from "passport";
 import authRoutes from "./routes/auth.route";
 import userRoutes from "./routes/user.route";
 import isAuthenticated from "./middlewares/isAuthenticated.middleware";
+import sessionOnly from "./middlewares/sessionOnly.middleware";
 import workspaceRoutes from "./routes/workspace.route";
 import memberRoutes from "./routes/member.route";
 import projectRoutes from "./routes/project.route";
 import taskRoutes from "./routes/task.route";
+import roleRoutes from "./routes/role.route";
+import invitationRoutes from "./routes/invitation.route";
+import webhookRoutes from "./routes/webhook.route";
+import sprintRoutes from "./routes/sprint.route";
+import { startWebhookDeliveryWorker } from "./services/webhook.service";
 
 const app = express();
 const BASE_PATH = config.BASE_PATH;
@@ -43,7 +50,7 @@ app.use(
     saveUninitialized: false,
     store: MongoStore.create({
       mongoUrl: process.env.MONGO_URI || "mongodb://localhost:27017/B2B_PMS_db",
-      collectionName: "sessions",
+      collectionName: SESSION_COLLECTION_NAME,
       // optional: ttl
     }),
     cookie: {
@@ -79,11 +86,15 @@ app.get(
 // Routes
 app.get("/" /* ... */);
 app.use(`${BASE_PATH}/auth`, authRoutes);
-app.use(`${BASE_PATH}/user`, isAuthenticated, userRoutes);
+app.use(`${BASE_PATH}/user`, isAuthenticated, sessionOnly, userRoutes);
 app.use(`${BASE_PATH}/workspace`, isAuthenticated, workspaceRoutes);
 app.use(`${BASE_PATH}/member`, isAuthenticated, memberRoutes);
 app.use(`${BASE_PATH}/project`, isAuthenticated, projectRoutes);
 app.use(`${BASE_PATH}/task`, isAuthenticated, taskRoutes);
+app.use(`${BASE_PATH}/sprint`, isAuthenticated, sprintRoutes);
+app.use(`${BASE_PATH}/role`, isAuthenticated, roleRoutes);
+app.use(`${BASE_PATH}/invitation`, isAuthenticated, invitationRoutes);
+app.use(`${BASE_PATH}/webhook`, isAuthenticated, webhookRoutes);
 app.use(errorHandler);
 
 app.listen(config.PORT, async () => {
@@ -91,4 +102,5 @@ app.listen(config.PORT, async () => {
     `Server listening on port ${config.PORT} in ${config.NODE_ENV} mode`,
     await connectDatabase()
   );
+  startWebhookDeliveryWorker();
 });
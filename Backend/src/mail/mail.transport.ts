@@ -0,0 +1,64 @@
+import fs from "fs/promises";
+import path from "path";
+import { config } from "../config/app.config";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to stdout; the default for local development
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+// Writes each message as a JSON file into an outbox directory, which tests
+// and developers can inspect
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(
+      /[^\w.@-]/g,
+      "_"
+    )}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify(
+        { from: config.MAIL_FROM, ...message, sentAt: new Date() },
+        null,
+        2
+      )
+    );
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export const setMailTransport = (customTransport: MailTransport) => {
+  transport = customTransport;
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport =
+      config.MAIL_TRANSPORT === "file"
+        ? new FileMailTransport(path.resolve(config.MAIL_OUTBOX_DIR))
+        : new ConsoleMailTransport();
+  }
+  return transport;
+};
+
+export const sendMail = (message: MailMessage) =>
+  getMailTransport().send(message);
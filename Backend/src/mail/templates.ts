@@ -0,0 +1,50 @@
+export const invitationEmail = (data: {
+  workspaceName: string;
+  inviterName: string;
+  roleName: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}) => ({
+  subject: `${data.inviterName} invited you to ${data.workspaceName}`,
+  text: [
+    `${data.inviterName} invited you to join the "${data.workspaceName}" workspace as ${data.roleName}.`,
+    "",
+    `Accept the invitation: ${data.acceptUrl}`,
+    "",
+    `This link expires on ${data.expiresAt.toUTCString()} and can only be used once.`,
+  ].join("\n"),
+});
+
+export const passwordResetEmail = (data: {
+  name: string;
+  resetUrl: string;
+  expiresAt: Date;
+}) => ({
+  subject: "Reset your TeamSync password",
+  text: [
+    `Hi ${data.name},`,
+    "",
+    "We received a request to reset your password. Use the link below to choose a new one:",
+    data.resetUrl,
+    "",
+    `The link expires on ${data.expiresAt.toUTCString()} and can only be used once.`,
+    "If you did not request this, you can ignore this email.",
+  ].join("\n"),
+});
+
+export const emailVerificationEmail = (data: {
+  name: string;
+  verifyUrl: string;
+  expiresAt: Date;
+}) => ({
+  subject: "Verify your TeamSync email address",
+  text: [
+    `Hi ${data.name},`,
+    "",
+    "Please confirm that this is your email address by opening the link below:",
+    data.verifyUrl,
+    "",
+    `The link expires on ${data.expiresAt.toUTCString()} and can only be used once.`,
+    "If you did not create a TeamSync account, you can ignore this email.",
+  ].join("\n"),
+});
@@ -1,6 +1,6 @@
 import { ErrorRequestHandler, Response } from "express";
 import { HTTPSTATUS } from "../config/http.config";
-import { AppError } from "../utils/appError";
+import { AppError, TooManyRequestsException } from "../utils/appError";
 import z, { ZodError } from "zod";
 import { ErrorCodeEnum } from "../enums/error-code.enum";
 
@@ -33,6 +33,15 @@ export const errorHandler: ErrorRequestHandler = (
     return formatZodError(res, error);
   }
 
+  if (error instanceof TooManyRequestsException) {
+    res.set("Retry-After", String(error.retryAfter));
+    return res.status(error.statusCode).json({
+      message: error.message,
+      errorCode: error.errorCode,
+      retryAfter: error.retryAfter,
+    });
+  }
+
   if (error instanceof AppError) {
     return res.status(error.statusCode).json({
       message: error.message,
@@ -1,11 +1,54 @@
 import { NextFunction, Request, Response } from "express";
 import { UnauthorizedException } from "../utils/appError";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { asyncHandler } from "./asyncHandler.middleware";
+import { getAuditContext } from "../utils/audit-context";
+import { trackUserSessionService } from "../services/session.service";
+import { authenticateAccessTokenService } from "../services/access-token.service";
 
-const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
-  if (!req.user || !req.user._id) {
-    throw new UnauthorizedException("Unauthorized. Please log in to continue");
+// Fallback for a session cookie without an expiry, matching the cookie `maxAge`
+const SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const isAuthenticated = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    // Scripts send a personal access token instead of a session cookie
+    const authorization = req.get("authorization");
+    if (authorization?.startsWith("Bearer ")) {
+      const { user, scope } = await authenticateAccessTokenService(
+        authorization.slice("Bearer ".length).trim()
+      );
+      req.user = user as Express.User;
+      req.accessToken = scope;
+      return next();
+    }
+
+    if (!req.user || !req.user._id) {
+      throw new UnauthorizedException(
+        "Unauthorized. Please log in to continue"
+      );
+    }
+
+    const { isRevoked } = await trackUserSessionService(
+      {
+        sessionId: req.sessionID,
+        userId: String(req.user._id),
+        expiresAt:
+          req.session.cookie.expires ||
+          new Date(Date.now() + SESSION_LIFETIME_MS),
+      },
+      getAuditContext(req)
+    );
+    if (isRevoked) {
+      // Ended here too, in case a concurrent request saved the session again after it was revoked
+      req.session.destroy(() => {});
+      throw new UnauthorizedException(
+        "This session was signed out. Please log in again",
+        ErrorCodeEnum.AUTH_SESSION_REVOKED
+      );
+    }
+
+    next();
   }
-  next();
-};
+);
 
 export default isAuthenticated;
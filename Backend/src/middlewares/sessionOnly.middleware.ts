@@ -0,0 +1,16 @@
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedException } from "../utils/appError";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+
+// Guards routes that aren't scoped to a workspace, which personal access tokens can't reach
+const sessionOnly = (req: Request, res: Response, next: NextFunction) => {
+  if (req.accessToken) {
+    throw new UnauthorizedException(
+      "This action is not available with an access token",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+  next();
+};
+
+export default sessionOnly;
@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { Permissions, PermissionType } from "../enums/role.enum";
+
+export interface AccessTokenDocument extends Document {
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  permissions: PermissionType[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// What a request authenticated with a personal access token is allowed to reach
+export type AccessTokenScopeType = {
+  tokenId: string;
+  workspaceId: string;
+  permissions: PermissionType[];
+};
+
+const accessTokenSchema = new Schema<AccessTokenDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // Only the SHA-256 hash of the token is stored; the token itself is shown once when created
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    // The start of the token, so the owner can tell their tokens apart
+    tokenPrefix: {
+      type: String,
+      required: true,
+    },
+    permissions: {
+      type: [String],
+      enum: Object.values(Permissions),
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+      // MongoDB removes the token once it has expired; tokens without an expiry are kept
+      expires: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const AccessTokenModel = mongoose.model<AccessTokenDocument>(
+  "AccessToken",
+  accessTokenSchema
+);
+export default AccessTokenModel;
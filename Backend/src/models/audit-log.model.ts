@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  AuditActionEnum,
+  AuditActionEnumType,
+} from "../enums/audit-action.enum";
+
+export interface AuditLogDocument extends Document {
+  workspace: mongoose.Types.ObjectId | null;
+  actor: mongoose.Types.ObjectId | null;
+  action: AuditActionEnumType;
+  targetType: string | null;
+  targetId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<AuditLogDocument>(
+  {
+    // Null for account-level events such as logins
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      default: null,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditActionEnum),
+      required: true,
+    },
+    targetType: { type: String, default: null },
+    targetId: { type: String, default: null },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+    before: { type: Schema.Types.Mixed, default: null },
+    after: { type: Schema.Types.Mixed, default: null },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+auditLogSchema.index({ workspace: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+
+// The audit log is append-only: refuse every update or delete at the model level
+const blockMutation = function () {
+  throw new Error("Audit log entries cannot be modified or deleted");
+};
+auditLogSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  blockMutation
+);
+auditLogSchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(new Error("Audit log entries cannot be modified or deleted"));
+  }
+  next();
+});
+
+const AuditLogModel = mongoose.model<AuditLogDocument>(
+  "AuditLog",
+  auditLogSchema
+);
+export default AuditLogModel;
@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface CommentEditDocument extends Document {
+  content: string;
+  editedAt: Date;
+}
+
+export interface CommentDocument extends Document {
+  content: string;
+  task: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  parentComment: mongoose.Types.ObjectId | null;
+  mentions: mongoose.Types.ObjectId[];
+  editHistory: mongoose.Types.DocumentArray<CommentEditDocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentEditSchema = new Schema<CommentEditDocument>({
+  content: {
+    type: String,
+    required: true,
+  },
+  editedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const commentSchema = new Schema<CommentDocument>(
+  {
+    content: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+      index: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    parentComment: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      default: null,
+    },
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    // Previous versions of the content, oldest first
+    editHistory: {
+      type: [commentEditSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CommentModel = mongoose.model<CommentDocument>("Comment", commentSchema);
+export default CommentModel;
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface EmailVerificationTokenDocument extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+const emailVerificationTokenSchema = new Schema<EmailVerificationTokenDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    // Only the SHA-256 hash of the token is stored; the token itself is sent by mail
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      // MongoDB removes the token once it has expired
+      expires: 0,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+const EmailVerificationTokenModel =
+  mongoose.model<EmailVerificationTokenDocument>(
+    "EmailVerificationToken",
+    emailVerificationTokenSchema
+  );
+export default EmailVerificationTokenModel;
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Epics group related tasks of a project regardless of the milestone they are planned for
+export interface EpicDocument extends Document {
+  name: string;
+  description: string | null;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const epicSchema = new Schema<EpicDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+      index: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const EpicModel = mongoose.model<EpicDocument>("Epic", epicSchema);
+export default EpicModel;
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  InvitationStatusEnum,
+  InvitationStatusEnumType,
+} from "../enums/invitation-status.enum";
+
+export interface InvitationDocument extends Document {
+  email: string;
+  workspace: mongoose.Types.ObjectId;
+  role: mongoose.Types.ObjectId;
+  invitedBy: mongoose.Types.ObjectId;
+  tokenHash: string;
+  status: InvitationStatusEnumType;
+  expiresAt: Date;
+  sentCount: number;
+  lastSentAt: Date;
+  acceptedBy: mongoose.Types.ObjectId | null;
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema<InvitationDocument>(
+  {
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    role: {
+      type: Schema.Types.ObjectId,
+      ref: "Role",
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    // Only the SHA-256 hash of the token is stored; the token itself is sent by mail
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatusEnum),
+      default: InvitationStatusEnum.PENDING,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    sentCount: {
+      type: Number,
+      default: 1,
+    },
+    lastSentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    acceptedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        const { tokenHash, ...invitation } = ret;
+        return invitation;
+      },
+    },
+  }
+);
+
+invitationSchema.index({ workspace: 1, email: 1, status: 1 });
+
+const InvitationModel = mongoose.model<InvitationDocument>(
+  "Invitation",
+  invitationSchema
+);
+export default InvitationModel;
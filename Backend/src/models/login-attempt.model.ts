@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  LoginAttemptScopeEnum,
+  LoginAttemptScopeEnumType,
+} from "../enums/login-attempt-scope.enum";
+
+export interface LoginAttemptDocument extends Document {
+  scope: LoginAttemptScopeEnumType;
+  key: string;
+  failedCount: number;
+  lastFailedAt: Date;
+  lockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+const loginAttemptSchema = new Schema<LoginAttemptDocument>(
+  {
+    scope: {
+      type: String,
+      enum: Object.values(LoginAttemptScopeEnum),
+      required: true,
+    },
+    // The lowercased email for ACCOUNT, the client address for IP
+    key: {
+      type: String,
+      required: true,
+    },
+    failedCount: {
+      type: Number,
+      default: 0,
+    },
+    lastFailedAt: {
+      type: Date,
+      required: true,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      // MongoDB forgets the failures once the window has passed without new ones
+      expires: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+loginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+
+const LoginAttemptModel = mongoose.model<LoginAttemptDocument>(
+  "LoginAttempt",
+  loginAttemptSchema
+);
+export default LoginAttemptModel;
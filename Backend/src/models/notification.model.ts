@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  NotificationTypeEnum,
+  NotificationTypeEnumType,
+} from "../enums/notification.enum";
+
+export interface NotificationDocument extends Document {
+  recipient: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId;
+  type: NotificationTypeEnumType;
+  task: mongoose.Types.ObjectId;
+  data: Record<string, unknown>;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+const notificationSchema = new Schema<NotificationDocument>(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationTypeEnum),
+      required: true,
+    },
+    // Not a hard reference: the inbox keeps notifications about deleted tasks
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    // What the inbox shows without loading the task, e.g. its code and title
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, readAt: 1 });
+// Old notifications are dropped after 90 days
+notificationSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+const NotificationModel = mongoose.model<NotificationDocument>(
+  "Notification",
+  notificationSchema
+);
+export default NotificationModel;
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface PasswordResetTokenDocument extends Document {
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+const passwordResetTokenSchema = new Schema<PasswordResetTokenDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    // Only the SHA-256 hash of the token is stored; the token itself is sent by mail
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      // MongoDB removes the token once it has expired
+      expires: 0,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+const PasswordResetTokenModel = mongoose.model<PasswordResetTokenDocument>(
+  "PasswordResetToken",
+  passwordResetTokenSchema
+);
+export default PasswordResetTokenModel;
@@ -1,4 +1,25 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  TaskStatusCategoryEnum,
+  TaskStatusCategoryEnumType,
+  WipLimitModeEnum,
+  WipLimitModeEnumType,
+} from "../enums/task.enum";
+import { DEFAULT_PROJECT_STATUSES } from "../utils/workflow";
+
+export interface ProjectStatusType {
+  key: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+  // The most tasks the status should hold; `null` for no limit
+  wipLimit: number | null;
+  wipLimitMode: WipLimitModeEnumType;
+}
+
+export interface ProjectTransitionType {
+  from: string;
+  to: string;
+}
 
 export interface ProjectDocument extends Document {
   name: string;
@@ -6,10 +27,51 @@ export interface ProjectDocument extends Document {
   emoji: string;
   workspace: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
+  statuses: ProjectStatusType[];
+  // When empty, tasks can move between any two statuses
+  transitions: ProjectTransitionType[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const projectStatusSchema = new Schema<ProjectStatusType>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: Object.values(TaskStatusCategoryEnum),
+      required: true,
+    },
+    wipLimit: {
+      type: Number,
+      default: null,
+    },
+    wipLimitMode: {
+      type: String,
+      enum: Object.values(WipLimitModeEnum),
+      default: WipLimitModeEnum.SOFT,
+    },
+  },
+  { _id: false }
+);
+
+const projectTransitionSchema = new Schema<ProjectTransitionType>(
+  {
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+  },
+  { _id: false }
+);
+
 const projectSchema = new Schema<ProjectDocument>(
   {
     name: {
@@ -37,6 +99,14 @@ const projectSchema = new Schema<ProjectDocument>(
       ref: "User",
       required: true,
     },
+    statuses: {
+      type: [projectStatusSchema],
+      default: () => DEFAULT_PROJECT_STATUSES,
+    },
+    transitions: {
+      type: [projectTransitionSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
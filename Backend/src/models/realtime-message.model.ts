@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface RealtimeMessageDocument extends Document {
+  channel: string;
+  message: string;
+  createdAt: Date;
+}
+
+const realtimeMessageSchema = new Schema<RealtimeMessageDocument>(
+  {
+    channel: {
+      type: String,
+      required: true,
+    },
+    // The serialized event, passed on to subscribers as is
+    message: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      // Subscribers read messages from the change stream, so they are only kept briefly
+      expires: 60 * 60,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+const RealtimeMessageModel = mongoose.model<RealtimeMessageDocument>(
+  "RealtimeMessage",
+  realtimeMessageSchema
+);
+export default RealtimeMessageModel;
@@ -1,14 +1,12 @@
 import mongoose, { Schema, Document } from "mongoose";
-import {
-  Permissions,
-  PermissionType,
-  Roles,
-  RoleType,
-} from "../enums/role.enum";
+import { Permissions, PermissionType, RoleType } from "../enums/role.enum";
 import { RolePermissions } from "../utils/role-permission";
 
 export interface RoleDocument extends Document {
-  name: RoleType;
+  name: string;
+  description: string | null;
+  // Null for the built-in OWNER/ADMIN/MEMBER roles shared by every workspace
+  workspace: mongoose.Types.ObjectId | null;
   permissions: Array<PermissionType>;
 }
 
@@ -16,16 +14,24 @@ const roleSchema = new Schema<RoleDocument>(
   {
     name: {
       type: String,
-      enum: Object.values(Roles),
       required: true,
-      unique: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      default: null,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      default: null,
     },
     permissions: {
       type: [String],
       enum: Object.values(Permissions),
       required: true,
       default: function (this: RoleDocument) {
-        return RolePermissions[this.name];
+        return RolePermissions[this.name as RoleType] || [];
       },
     },
   },
@@ -34,5 +40,7 @@ const roleSchema = new Schema<RoleDocument>(
   }
 );
 
+roleSchema.index({ workspace: 1, name: 1 }, { unique: true });
+
 const RoleModel = mongoose.model<RoleDocument>("Role", roleSchema);
 export default RoleModel;
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { SprintStatusEnum, SprintStatusEnumType } from "../enums/sprint.enum";
+import { TaskStatusCategoryEnumType } from "../enums/task.enum";
+
+// Taken when the sprint is closed, so later changes to its tasks do not rewrite history
+export interface SprintSummaryType {
+  totalTasks: number;
+  completedTasks: number;
+  carriedOverTasks: number;
+  tasksByCategory: Record<TaskStatusCategoryEnumType, number>;
+  carriedOverTo: mongoose.Types.ObjectId | null;
+}
+
+export interface SprintDocument extends Document {
+  name: string;
+  goal: string | null;
+  startDate: Date;
+  endDate: Date;
+  status: SprintStatusEnumType;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  closedAt: Date | null;
+  summary: SprintSummaryType | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sprintSchema = new Schema<SprintDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    goal: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(SprintStatusEnum),
+      default: SprintStatusEnum.PLANNED,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    closedAt: {
+      type: Date,
+      default: null,
+    },
+    summary: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sprintSchema.index({ project: 1, startDate: 1 });
+
+const SprintModel = mongoose.model<SprintDocument>("Sprint", sprintSchema);
+export default SprintModel;
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  TaskActivityActionEnum,
+  TaskActivityActionEnumType,
+} from "../enums/task-activity.enum";
+
+export interface TaskFieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface TaskActivityDocument extends Document {
+  task: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId;
+  action: TaskActivityActionEnumType;
+  changes: TaskFieldChange[];
+  createdAt: Date;
+}
+
+const taskFieldChangeSchema = new Schema<TaskFieldChange>(
+  {
+    field: { type: String, required: true },
+    oldValue: { type: Schema.Types.Mixed, default: null },
+    newValue: { type: Schema.Types.Mixed, default: null },
+  },
+  { _id: false }
+);
+
+const taskActivitySchema = new Schema<TaskActivityDocument>(
+  {
+    // Not a hard reference: history outlives the task it describes
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(TaskActivityActionEnum),
+      required: true,
+    },
+    changes: {
+      type: [taskFieldChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+taskActivitySchema.index({ task: 1, createdAt: -1 });
+
+const TaskActivityModel = mongoose.model<TaskActivityDocument>(
+  "TaskActivity",
+  taskActivitySchema
+);
+export default TaskActivityModel;
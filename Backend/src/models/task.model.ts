@@ -3,25 +3,68 @@ import {
   TaskPriorityEnum,
   TaskPriorityEnumType,
   TaskStatusEnum,
-  TaskStatusEnumType,
 } from "../enums/task.enum";
 import { generateTaskCode } from "../utils/uuid";
 
+export interface ChecklistItemDocument extends Document {
+  title: string;
+  isCompleted: boolean;
+  completedBy: mongoose.Types.ObjectId | null;
+  completedAt: Date | null;
+}
+
 export interface TaskDocument extends Document {
   taskCode: string;
   title: string;
   description: string | null;
   project: mongoose.Types.ObjectId;
   workspace: mongoose.Types.ObjectId;
-  status: TaskStatusEnumType;
+  // One of the keys defined by the project's workflow
+  status: string;
   priority: TaskPriorityEnumType;
   assignedTo: mongoose.Types.ObjectId | null;
   createdBy: mongoose.Types.ObjectId;
   dueDate: Date | null;
+  parentTask: mongoose.Types.ObjectId | null;
+  // Position among the subtasks of `parentTask`; `null` for top-level tasks
+  subtaskOrder: number | null;
+  // `null` while the task sits in the project backlog
+  sprint: mongoose.Types.ObjectId | null;
+  milestone: mongoose.Types.ObjectId | null;
+  epic: mongoose.Types.ObjectId | null;
+  blockedBy: mongoose.Types.ObjectId[];
+  checklist: mongoose.Types.DocumentArray<ChecklistItemDocument>;
+  rank: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const checklistItemSchema = new Schema<ChecklistItemDocument>(
+  {
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    isCompleted: {
+      type: Boolean,
+      default: false,
+    },
+    completedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
 const taskSchema = new Schema<TaskDocument>(
   {
     taskCode: {
@@ -51,7 +94,6 @@ const taskSchema = new Schema<TaskDocument>(
     },
     status: {
       type: String,
-      enum: Object.values(TaskStatusEnum),
       default: TaskStatusEnum.TODO,
     },
     priority: {
@@ -73,11 +115,58 @@ const taskSchema = new Schema<TaskDocument>(
       type: Date,
       default: null,
     },
+    parentTask: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+      index: true,
+    },
+    subtaskOrder: {
+      type: Number,
+      default: null,
+    },
+    sprint: {
+      type: Schema.Types.ObjectId,
+      ref: "Sprint",
+      default: null,
+      index: true,
+    },
+    milestone: {
+      type: Schema.Types.ObjectId,
+      ref: "Milestone",
+      default: null,
+      index: true,
+    },
+    epic: {
+      type: Schema.Types.ObjectId,
+      ref: "Epic",
+      default: null,
+      index: true,
+    },
+    // Tasks that must be finished before this one can start
+    blockedBy: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Task",
+      },
+    ],
+    // Array order is the display order of the checklist
+    checklist: {
+      type: [checklistItemSchema],
+      default: [],
+    },
+    // Position in its status column on the board; see utils/rank
+    rank: {
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+taskSchema.index({ workspace: 1, status: 1, rank: 1 });
+
 export const TaskModel = mongoose.model<TaskDocument>("Task", taskSchema);
 export default TaskModel;
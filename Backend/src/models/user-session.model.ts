@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface UserSessionDocument extends Document {
+  sessionId: string;
+  userId: mongoose.Types.ObjectId;
+  device: string;
+  ip: string | null;
+  userAgent: string | null;
+  lastSeenAt: Date;
+  revokedAt: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// Describes a signed-in session from the `sessions` store, which only holds opaque session data
+const userSessionSchema = new Schema<UserSessionDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    device: {
+      type: String,
+      required: true,
+    },
+    ip: {
+      type: String,
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      default: null,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+    // Kept until the session would have expired, so the revoked device is told why it was signed out
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      // Removed together with the session cookie it describes
+      expires: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const UserSessionModel = mongoose.model<UserSessionDocument>(
+  "UserSession",
+  userSessionSchema
+);
+export default UserSessionModel;
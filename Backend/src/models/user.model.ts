@@ -1,9 +1,18 @@
 import mongoose, { Document } from "mongoose";
+import { NotificationTypeEnumType } from "../enums/notification.enum";
 import { compareValue, hashValue } from "../utils/bcrypt";
 
 export interface UserDocument extends Document {
   name: string;
   email: string;
+  emailVerified: boolean;
+  emailVerifiedAt: Date | null;
+  twoFactorEnabled: boolean;
+  twoFactorSecret: string | null;
+  twoFactorPendingSecret: string | null;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep: number | null;
+  notificationOptOuts: NotificationTypeEnumType[];
   password?: string;
   profilePicture?: string | null;
   isActive: boolean;
@@ -29,6 +38,17 @@ const userSchema = new mongoose.Schema<UserDocument>(
       trim: true,
       lowercase: true,
     },
+    emailVerified: { type: Boolean, default: false },
+    emailVerifiedAt: { type: Date, default: null },
+    twoFactorEnabled: { type: Boolean, default: false },
+    // Two-factor secrets never leave the server unless explicitly selected
+    twoFactorSecret: { type: String, default: null, select: false },
+    twoFactorPendingSecret: { type: String, default: null, select: false },
+    // SHA-256 hashes of the unused recovery codes
+    twoFactorRecoveryCodes: { type: [String], default: [], select: false },
+    twoFactorLastUsedStep: { type: Number, default: null, select: false },
+    // The notification types the user does not want in their inbox
+    notificationOptOuts: { type: [String], default: [] },
     password: {
       type: String,
       select: true,
@@ -51,10 +71,9 @@ const userSchema = new mongoose.Schema<UserDocument>(
 );
 
 userSchema.pre("save", async function (next) {
-  if (!this.isModified("password")) {
-    if (this.password) {
-      this.password = await hashValue(this.password);
-    }
+  // Only hash a newly set password; re-hashing on every save would corrupt it
+  if (this.isModified("password") && this.password) {
+    this.password = await hashValue(this.password);
   }
   next();
 });
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  WebhookDeliveryStatusEnum,
+  WebhookDeliveryStatusEnumType,
+  WebhookEventEnum,
+  WebhookEventEnumType,
+} from "../enums/webhook.enum";
+
+// Old deliveries are only kept for troubleshooting
+const DELIVERY_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export interface WebhookDeliveryDocument extends Document {
+  webhook: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  event: WebhookEventEnumType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatusEnumType;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  replayOf: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    webhook: {
+      type: Schema.Types.ObjectId,
+      ref: "Webhook",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: Object.values(WebhookEventEnum),
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(WebhookDeliveryStatusEnum),
+      default: WebhookDeliveryStatusEnum.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    // When the worker should try next; null once the delivery has succeeded or given up
+    nextAttemptAt: {
+      type: Date,
+      default: () => new Date(),
+    },
+    lastAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    responseBody: {
+      type: String,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    // Set on a delivery created with the replay button
+    replayOf: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookDelivery",
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+webhookDeliverySchema.index({ webhook: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: DELIVERY_RETENTION_SECONDS }
+);
+
+const WebhookDeliveryModel = mongoose.model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
+export default WebhookDeliveryModel;
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { WebhookEventEnum, WebhookEventEnumType } from "../enums/webhook.enum";
+
+export interface WebhookDocument extends Document {
+  workspace: mongoose.Types.ObjectId;
+  url: string;
+  description: string | null;
+  events: WebhookEventEnumType[];
+  secret: string;
+  enabled: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<WebhookDocument>(
+  {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    url: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    events: {
+      type: [String],
+      enum: Object.values(WebhookEventEnum),
+      default: [],
+    },
+    // Kept in plain text because every delivery is signed with it; only shown when it is generated
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const WebhookModel = mongoose.model<WebhookDocument>("Webhook", webhookSchema);
+export default WebhookModel;
@@ -6,8 +6,15 @@ export interface WorkspaceDocument extends Document {
   description: string;
   owner: mongoose.Types.ObjectId;
   inviteCode: string;
+  inviteLinkEnabled: boolean;
+  inviteMaxUses: number | null;
+  inviteUseCount: number;
+  inviteExpiresAt: Date | null;
+  requireTwoFactor: boolean;
   createdAt: string;
   updatedAt: string;
+  resetInviteCode(): void;
+  getInviteLinkStatus(): { isActive: boolean; reason: string | null };
 }
 
 const workspaceSchema = new Schema<WorkspaceDocument>(
@@ -25,12 +32,55 @@ const workspaceSchema = new Schema<WorkspaceDocument>(
       unique: true,
       default: generateInviteCode,
     },
+    inviteLinkEnabled: {
+      type: Boolean,
+      default: true,
+    },
+    // null means the link can be used any number of times
+    inviteMaxUses: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    // Joins through the current invite code; reset whenever the code is regenerated
+    inviteUseCount: {
+      type: Number,
+      default: 0,
+    },
+    inviteExpiresAt: {
+      type: Date,
+      default: null,
+    },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false,
+    },
   },
   { timestamps: true }
 );
 
 workspaceSchema.methods.resetInviteCode = function () {
   this.inviteCode = generateInviteCode();
+  this.inviteUseCount = 0;
+};
+
+workspaceSchema.methods.getInviteLinkStatus = function () {
+  if (!this.inviteLinkEnabled) {
+    return { isActive: false, reason: "Joining by invite link is disabled" };
+  }
+  if (this.inviteExpiresAt && this.inviteExpiresAt <= new Date()) {
+    return { isActive: false, reason: "This invite link has expired" };
+  }
+  if (
+    this.inviteMaxUses !== null &&
+    this.inviteUseCount >= this.inviteMaxUses
+  ) {
+    return {
+      isActive: false,
+      reason: "This invite link has reached its usage limit",
+    };
+  }
+  return { isActive: true, reason: null };
 };
 
 const WorkspaceModel = mongoose.model<WorkspaceDocument>(
@@ -0,0 +1,93 @@
+import { EventEmitter } from "events";
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import RealtimeMessageModel from "../models/realtime-message.model";
+
+export type PubSubListener = (message: string) => void;
+
+export interface PubSubAdapter {
+  publish(channel: string, message: string): Promise<void>;
+  // Returns a function that removes the listener again
+  subscribe(channel: string, listener: PubSubListener): () => void;
+}
+
+const createEmitter = () => {
+  const emitter = new EventEmitter();
+  // Every open stream adds a listener, so the default warning at 10 is expected to trip
+  emitter.setMaxListeners(0);
+  return emitter;
+};
+
+// Delivers messages to subscribers in this process only; the default for a single instance
+export class InProcessPubSub implements PubSubAdapter {
+  private readonly emitter = createEmitter();
+
+  async publish(channel: string, message: string) {
+    this.emitter.emit(channel, message);
+  }
+
+  subscribe(channel: string, listener: PubSubListener) {
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+}
+
+// Shares messages between instances through a MongoDB collection and a change stream, so it
+// needs the replica set that transactions already require
+export class MongoPubSub implements PubSubAdapter {
+  private readonly emitter = createEmitter();
+  private changeStream: mongoose.mongo.ChangeStream | null = null;
+  private resumeToken: unknown = null;
+
+  async publish(channel: string, message: string) {
+    await RealtimeMessageModel.create({ channel, message });
+  }
+
+  subscribe(channel: string, listener: PubSubListener) {
+    this.watch();
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  private watch() {
+    if (this.changeStream) return;
+
+    const changeStream = RealtimeMessageModel.watch(
+      [{ $match: { operationType: "insert" } }],
+      this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+    );
+    changeStream.on("change", (change) => {
+      this.resumeToken = change._id;
+      if (change.operationType !== "insert") return;
+      const { channel, message } = change.fullDocument;
+      this.emitter.emit(channel, message);
+    });
+    changeStream.on("error", (error) => {
+      console.error("Realtime change stream failed, reconnecting:", error);
+      changeStream.close().catch(() => undefined);
+      this.changeStream = null;
+      setTimeout(() => this.watch(), 5000).unref();
+    });
+    this.changeStream = changeStream;
+  }
+}
+
+let adapter: PubSubAdapter | null = null;
+
+export const setPubSubAdapter = (customAdapter: PubSubAdapter) => {
+  adapter = customAdapter;
+};
+
+export const getPubSub = (): PubSubAdapter => {
+  if (!adapter) {
+    adapter =
+      config.REALTIME_PUBSUB === "mongo"
+        ? new MongoPubSub()
+        : new InProcessPubSub();
+  }
+  return adapter;
+};
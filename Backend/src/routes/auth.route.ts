@@ -1,13 +1,18 @@
 import { Router } from "express";
 import passport from "passport";
 import {
-  googleLoginCallback,
+  forgotPasswordController,
   loginController,
   logOutController,
+  oauthCallbackController,
   registerUserController,
+  resendVerificationController,
+  resetPasswordController,
+  verifyEmailController,
+  verifyTwoFactorLoginController,
 } from "../controllers/auth.controller";
-
-const failedUrl = `${process.env.FRONTEND_GOOGLE_CALLBACK_URL}?status=failure`;
+import { ProviderEnum } from "../enums/account-provider.enum";
+import { config } from "../config/app.config";
 
 const authRoutes = Router();
 
@@ -15,6 +20,14 @@ authRoutes.post("/register", registerUserController);
 authRoutes.post("/login", loginController);
 authRoutes.post("/logout", logOutController);
 
+authRoutes.post("/forgot-password", forgotPasswordController);
+authRoutes.post("/reset-password", resetPasswordController);
+
+authRoutes.post("/verify-email", verifyEmailController);
+authRoutes.post("/resend-verification", resendVerificationController);
+
+authRoutes.post("/2fa/verify", verifyTwoFactorLoginController);
+
 authRoutes.get(
   "/google",
   passport.authenticate("google", {
@@ -24,10 +37,22 @@ authRoutes.get(
 
 authRoutes.get(
   "/google/callback",
-  passport.authenticate("google", {
-    failureRedirect: failedUrl,
-  }),
-  googleLoginCallback
+  oauthCallbackController("google", ProviderEnum.GOOGLE)
 );
 
+// GitHub login is optional, see `GITHUB_CLIENT_ID`
+if (config.GITHUB_CLIENT_ID) {
+  authRoutes.get(
+    "/github",
+    passport.authenticate("github", {
+      scope: ["user:email"],
+    })
+  );
+
+  authRoutes.get(
+    "/github/callback",
+    oauthCallbackController("github", ProviderEnum.GITHUB)
+  );
+}
+
 export default authRoutes;
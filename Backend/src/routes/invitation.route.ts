@@ -0,0 +1,39 @@
+import { Router } from "express";
+import {
+  acceptInvitationController,
+  createInvitationController,
+  getWorkspaceInvitationsController,
+  resendInvitationController,
+  revokeInvitationController,
+} from "../controllers/invitation.controller";
+import sessionOnly from "../middlewares/sessionOnly.middleware";
+
+const invitationRoutes = Router();
+
+invitationRoutes.post(
+  "/workspace/:workspaceId/create",
+  createInvitationController
+);
+
+invitationRoutes.post(
+  "/:id/workspace/:workspaceId/resend",
+  resendInvitationController
+);
+
+invitationRoutes.put(
+  "/:id/workspace/:workspaceId/revoke",
+  revokeInvitationController
+);
+
+invitationRoutes.post(
+  "/:token/accept",
+  sessionOnly,
+  acceptInvitationController
+);
+
+invitationRoutes.get(
+  "/workspace/:workspaceId/all",
+  getWorkspaceInvitationsController
+);
+
+export default invitationRoutes;
@@ -1,8 +1,31 @@
 import { Router } from "express";
-import { joinWorkspaceController } from "../controllers/member.controller";
+import {
+  joinWorkspaceController,
+  leaveWorkspaceController,
+  removeMemberController,
+  unlockMemberLoginController,
+} from "../controllers/member.controller";
+import sessionOnly from "../middlewares/sessionOnly.middleware";
 
 const memberRoutes = Router();
 
-memberRoutes.post("/workspace/:inviteCode/join", joinWorkspaceController);
+memberRoutes.post(
+  "/workspace/:inviteCode/join",
+  sessionOnly,
+  joinWorkspaceController
+);
+
+memberRoutes.put("/:id/workspace/:workspaceId/remove", removeMemberController);
+
+memberRoutes.put(
+  "/workspace/:workspaceId/leave",
+  sessionOnly,
+  leaveWorkspaceController
+);
+
+memberRoutes.put(
+  "/:id/workspace/:workspaceId/unlock-login",
+  unlockMemberLoginController
+);
 
 export default memberRoutes;
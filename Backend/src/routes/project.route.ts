@@ -6,7 +6,20 @@ import {
   getProjectAnalyticsController,
   getProjectByIdAndWorkspaceIdController,
   updateProjectController,
+  updateProjectWorkflowController,
 } from "../controllers/project.controller";
+import {
+  createMilestoneController,
+  deleteMilestoneController,
+  getProjectMilestonesController,
+  updateMilestoneController,
+} from "../controllers/milestone.controller";
+import {
+  createEpicController,
+  deleteEpicController,
+  getProjectEpicsController,
+  updateEpicController,
+} from "../controllers/epic.controller";
 
 const projectRoutes = Router();
 
@@ -17,6 +30,11 @@ projectRoutes.put(
   updateProjectController
 );
 
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/workflow",
+  updateProjectWorkflowController
+);
+
 projectRoutes.delete(
   "/:id/workspace/:workspaceId/delete",
   deleteProjectController
@@ -32,6 +50,46 @@ projectRoutes.get(
   getProjectAnalyticsController
 );
 
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/milestone/create",
+  createMilestoneController
+);
+
+projectRoutes.get(
+  "/:id/workspace/:workspaceId/milestone/all",
+  getProjectMilestonesController
+);
+
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/milestone/:milestoneId/update",
+  updateMilestoneController
+);
+
+projectRoutes.delete(
+  "/:id/workspace/:workspaceId/milestone/:milestoneId/delete",
+  deleteMilestoneController
+);
+
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/epic/create",
+  createEpicController
+);
+
+projectRoutes.get(
+  "/:id/workspace/:workspaceId/epic/all",
+  getProjectEpicsController
+);
+
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/epic/:epicId/update",
+  updateEpicController
+);
+
+projectRoutes.delete(
+  "/:id/workspace/:workspaceId/epic/:epicId/delete",
+  deleteEpicController
+);
+
 projectRoutes.get(
   "/:id/workspace/:workspaceId",
   getProjectByIdAndWorkspaceIdController
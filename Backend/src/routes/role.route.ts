@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  createRoleController,
+  deleteRoleController,
+  getWorkspaceRolesController,
+  updateRoleController,
+} from "../controllers/role.controller";
+
+const roleRoutes = Router();
+
+roleRoutes.post("/workspace/:workspaceId/create", createRoleController);
+
+roleRoutes.put("/:id/workspace/:workspaceId/update", updateRoleController);
+
+roleRoutes.delete("/:id/workspace/:workspaceId/delete", deleteRoleController);
+
+roleRoutes.get("/workspace/:workspaceId/all", getWorkspaceRolesController);
+
+export default roleRoutes;
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import {
+  closeSprintController,
+  createSprintController,
+  deleteSprintController,
+  getProjectSprintsController,
+  startSprintController,
+  updateSprintController,
+} from "../controllers/sprint.controller";
+
+const sprintRoutes = Router();
+
+sprintRoutes.post(
+  "/project/:projectId/workspace/:workspaceId/create",
+  createSprintController
+);
+
+sprintRoutes.get(
+  "/project/:projectId/workspace/:workspaceId/all",
+  getProjectSprintsController
+);
+
+sprintRoutes.put(
+  "/:id/project/:projectId/workspace/:workspaceId/update",
+  updateSprintController
+);
+
+sprintRoutes.post(
+  "/:id/project/:projectId/workspace/:workspaceId/start",
+  startSprintController
+);
+
+sprintRoutes.post(
+  "/:id/project/:projectId/workspace/:workspaceId/close",
+  closeSprintController
+);
+
+sprintRoutes.delete(
+  "/:id/project/:projectId/workspace/:workspaceId/delete",
+  deleteSprintController
+);
+
+export default sprintRoutes;
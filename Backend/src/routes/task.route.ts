@@ -1,11 +1,28 @@
 import { Router } from "express";
 import {
+  addChecklistItemController,
+  addTaskDependencyController,
+  createSubtaskController,
   createTaskController,
+  deleteChecklistItemController,
   deleteTaskController,
   getAllTaskController,
+  getTaskBoardController,
   getTaskByIdController,
+  getTaskHistoryController,
+  removeTaskDependencyController,
+  reorderTaskController,
+  reorderChecklistController,
+  reorderSubtasksController,
+  updateChecklistItemController,
   updateTaskController,
 } from "../controllers/task.controller";
+import {
+  createCommentController,
+  deleteCommentController,
+  getTaskCommentsController,
+  updateCommentController,
+} from "../controllers/comment.controller";
 
 const taskRoutes = Router();
 
@@ -21,8 +38,74 @@ taskRoutes.put(
   updateTaskController
 );
 
+taskRoutes.put("/:id/workspace/:workspaceId/reorder", reorderTaskController);
+
+taskRoutes.post(
+  "/:id/project/:projectId/workspace/:workspaceId/subtask/create",
+  createSubtaskController
+);
+
+taskRoutes.put(
+  "/:id/workspace/:workspaceId/subtask/reorder",
+  reorderSubtasksController
+);
+
+taskRoutes.post(
+  "/:id/workspace/:workspaceId/checklist/create",
+  addChecklistItemController
+);
+
+taskRoutes.put(
+  "/:id/workspace/:workspaceId/checklist/reorder",
+  reorderChecklistController
+);
+
+taskRoutes.put(
+  "/:id/workspace/:workspaceId/checklist/:itemId/update",
+  updateChecklistItemController
+);
+
+taskRoutes.delete(
+  "/:id/workspace/:workspaceId/checklist/:itemId/delete",
+  deleteChecklistItemController
+);
+
+taskRoutes.post(
+  "/:id/workspace/:workspaceId/dependency/create",
+  addTaskDependencyController
+);
+
+taskRoutes.delete(
+  "/:id/workspace/:workspaceId/dependency/:blockerId/delete",
+  removeTaskDependencyController
+);
+
+taskRoutes.post(
+  "/:id/workspace/:workspaceId/comment/create",
+  createCommentController
+);
+
+taskRoutes.put(
+  "/:id/workspace/:workspaceId/comment/:commentId/update",
+  updateCommentController
+);
+
+taskRoutes.delete(
+  "/:id/workspace/:workspaceId/comment/:commentId/delete",
+  deleteCommentController
+);
+
+taskRoutes.get(
+  "/:id/workspace/:workspaceId/comments",
+  getTaskCommentsController
+);
+
+taskRoutes.get("/:id/workspace/:workspaceId/history", getTaskHistoryController);
+
 taskRoutes.get("/workspace/:workspaceId/all", getAllTaskController);
 
+taskRoutes.get("/workspace/:workspaceId/board", getTaskBoardController);
+
 taskRoutes.get(
   "/:id/project/:projectId/workspace/:workspaceId",
   getTaskByIdController
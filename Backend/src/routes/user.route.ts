@@ -1,8 +1,60 @@
 import { Router } from "express";
-import { getCurrentUserController } from "../controllers/user.controller";
+import {
+  createAccessTokenController,
+  disableTwoFactorController,
+  enableTwoFactorController,
+  getCurrentUserController,
+  getNotificationPreferencesController,
+  getUserAccessTokensController,
+  getTwoFactorStatusController,
+  getUserAccountsController,
+  getUserNotificationsController,
+  getUserSessionsController,
+  markAllNotificationsReadController,
+  markNotificationReadController,
+  regenerateRecoveryCodesController,
+  revokeAccessTokenController,
+  revokeOtherUserSessionsController,
+  revokeUserSessionController,
+  setupTwoFactorController,
+  startLinkAccountController,
+  unlinkAccountController,
+  updateNotificationPreferencesController,
+} from "../controllers/user.controller";
 
 const userRoutes = Router();
 
 userRoutes.get("/current", getCurrentUserController);
 
+userRoutes.get("/2fa", getTwoFactorStatusController);
+userRoutes.post("/2fa/setup", setupTwoFactorController);
+userRoutes.post("/2fa/enable", enableTwoFactorController);
+userRoutes.post("/2fa/disable", disableTwoFactorController);
+userRoutes.post("/2fa/recovery-codes", regenerateRecoveryCodesController);
+
+userRoutes.get("/accounts", getUserAccountsController);
+userRoutes.post("/accounts/link", startLinkAccountController);
+userRoutes.delete("/accounts/:provider", unlinkAccountController);
+
+userRoutes.get("/sessions", getUserSessionsController);
+userRoutes.post("/sessions/revoke-others", revokeOtherUserSessionsController);
+userRoutes.delete("/sessions/:id", revokeUserSessionController);
+
+userRoutes.get("/access-tokens", getUserAccessTokensController);
+userRoutes.post("/access-tokens", createAccessTokenController);
+userRoutes.delete("/access-tokens/:id", revokeAccessTokenController);
+
+userRoutes.get("/notifications", getUserNotificationsController);
+userRoutes.put("/notifications/read-all", markAllNotificationsReadController);
+userRoutes.put("/notifications/:id/read", markNotificationReadController);
+
+userRoutes.get(
+  "/notification-preferences",
+  getNotificationPreferencesController
+);
+userRoutes.put(
+  "/notification-preferences",
+  updateNotificationPreferencesController
+);
+
 export default userRoutes;
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import {
+  createWebhookController,
+  deleteWebhookController,
+  getWebhookDeliveriesController,
+  getWorkspaceWebhooksController,
+  replayWebhookDeliveryController,
+  rotateWebhookSecretController,
+  updateWebhookController,
+} from "../controllers/webhook.controller";
+
+const webhookRoutes = Router();
+
+webhookRoutes.post("/workspace/:workspaceId/create", createWebhookController);
+
+webhookRoutes.get(
+  "/workspace/:workspaceId/all",
+  getWorkspaceWebhooksController
+);
+
+webhookRoutes.put(
+  "/:id/workspace/:workspaceId/update",
+  updateWebhookController
+);
+
+webhookRoutes.post(
+  "/:id/workspace/:workspaceId/rotate-secret",
+  rotateWebhookSecretController
+);
+
+webhookRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteWebhookController
+);
+
+webhookRoutes.get(
+  "/:id/workspace/:workspaceId/deliveries",
+  getWebhookDeliveriesController
+);
+
+webhookRoutes.post(
+  "/deliveries/:deliveryId/workspace/:workspaceId/replay",
+  replayWebhookDeliveryController
+);
+
+export default webhookRoutes;
@@ -5,16 +5,25 @@ import {
   changeWorkspaceMemberRoleController,
   createWorkspaceController,
   deleteWorkspaceByIdController,
+  exportWorkspaceAuditLogsController,
   getAllWorkspaceUserIsMemberController,
+  getInviteLinkController,
   getWorkspaceAnalyticsController,
+  getWorkspaceAuditLogsController,
   getWorkspaceByIdController,
   getWorkspaceMembersController,
+  resetInviteCodeController,
+  streamWorkspaceEventsController,
+  transferWorkspaceOwnershipController,
+  updateInviteLinkController,
+  updateTwoFactorRequirementController,
   updateWorkspaceByIdController,
 } from "../controllers/workspace.controller";
+import sessionOnly from "../middlewares/sessionOnly.middleware";
 
 const workspaceRoutes = Router();
 
-workspaceRoutes.post("/create/new", createWorkspaceController);
+workspaceRoutes.post("/create/new", sessionOnly, createWorkspaceController);
 
 workspaceRoutes.put("/update/:id", updateWorkspaceByIdController);
 
@@ -23,14 +32,36 @@ workspaceRoutes.put(
   changeWorkspaceMemberRoleController
 );
 
+workspaceRoutes.put(
+  "/:id/transfer-ownership",
+  transferWorkspaceOwnershipController
+);
+
 workspaceRoutes.delete("/delete/:id", deleteWorkspaceByIdController);
 
-workspaceRoutes.get("/all", getAllWorkspaceUserIsMemberController);
+workspaceRoutes.get("/all", sessionOnly, getAllWorkspaceUserIsMemberController);
 
 workspaceRoutes.get("/members/:id", getWorkspaceMembersController);
 
 workspaceRoutes.get("/analytics/:id", getWorkspaceAnalyticsController);
 
+workspaceRoutes.get("/:id/invite-link", getInviteLinkController);
+
+workspaceRoutes.put("/:id/invite-link/reset", resetInviteCodeController);
+
+workspaceRoutes.put("/:id/invite-link/update", updateInviteLinkController);
+
+workspaceRoutes.put(
+  "/:id/two-factor-requirement",
+  updateTwoFactorRequirementController
+);
+
+workspaceRoutes.get("/:id/audit", getWorkspaceAuditLogsController);
+
+workspaceRoutes.get("/:id/audit/export", exportWorkspaceAuditLogsController);
+
+workspaceRoutes.get("/:id/events", streamWorkspaceEventsController);
+
 workspaceRoutes.get("/:id", getWorkspaceByIdController);
 
 export default workspaceRoutes;
@@ -9,27 +9,27 @@ const seedRoles = async () => {
 
   try {
     await connectDatabase();
+
+    // Replaces the old unique index on `name`, which would clash with
+    // workspace-scoped custom roles
+    console.log("Syncing role indexes...");
+    await RoleModel.syncIndexes();
+
     const session = await mongoose.startSession();
     session.startTransaction();
 
-    console.log("Clearing existing roles...");
-    await RoleModel.deleteMany({}, { session });
-
+    // Built-in roles are updated in place so that members keep pointing at
+    // the same role documents. Custom workspace roles are left untouched.
     for (const roleName in RolePermissions) {
       const role = roleName as keyof typeof RolePermissions;
       const permissions = RolePermissions[role];
 
-      // Check if role already exists
-      const existingRole = await RoleModel.findOne({ name: role }).session(
-        session
+      await RoleModel.findOneAndUpdate(
+        { name: role, workspace: null },
+        { $set: { permissions } },
+        { upsert: true, session }
       );
-      if (!existingRole) {
-        const newRole = new RoleModel({ name: role, permissions });
-        await newRole.save({ session });
-        console.log(`Inserted role: ${role} with permissions: ${permissions}`);
-      } else {
-        console.log(`Role ${role} already exists. Skipping insertion.`);
-      }
+      console.log(`Upserted role: ${role} with permissions: ${permissions}`);
     }
     await session.commitTransaction();
     console.log("Roles seeding completed.");
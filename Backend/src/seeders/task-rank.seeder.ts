@@ -0,0 +1,39 @@
+import "dotenv/config";
+import mongoose from "mongoose";
+import connectDatabase from "../config/database.config";
+import TaskModel from "../models/task.model";
+import { ensureColumnRanked } from "../services/task.service";
+
+const seedTaskRanks = async () => {
+  console.log("Seeding task ranks...");
+
+  try {
+    await connectDatabase();
+
+    // Board columns are per workspace and status; each one is ranked once
+    const columns = await TaskModel.aggregate<{
+      _id: { workspace: mongoose.Types.ObjectId; status: string };
+    }>([
+      { $match: { rank: null } },
+      { $group: { _id: { workspace: "$workspace", status: "$status" } } },
+    ]);
+
+    for (const { _id: column } of columns) {
+      await ensureColumnRanked(String(column.workspace), column.status);
+      console.log(
+        `Ranked tasks in status ${column.status} of workspace ${column.workspace}`
+      );
+    }
+    console.log("Task ranks seeding completed.");
+    mongoose.disconnect();
+  } catch (error) {
+    console.error("Error seeding task ranks:", error);
+    mongoose.disconnect();
+    process.exit(1);
+  }
+};
+
+seedTaskRanks().catch((error) => {
+  console.error("Unexpected error:", error);
+  process.exit(1);
+});
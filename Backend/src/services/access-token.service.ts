@@ -0,0 +1,155 @@
+import mongoose from "mongoose";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { PermissionType } from "../enums/role.enum";
+import AccessTokenModel, {
+  AccessTokenScopeType,
+} from "../models/access-token.model";
+import { RoleDocument } from "../models/roles-permission.model";
+import UserModel from "../models/user.model";
+import { NotFoundException, UnauthorizedException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { generateToken, hashToken } from "../utils/token";
+import { recordAuditLogService } from "./audit-log.service";
+import { assertCanGrantPermissions } from "./role.service";
+
+// Makes tokens easy to recognise, e.g. by secret scanners
+const ACCESS_TOKEN_PREFIX = "tsp_";
+const ACCESS_TOKEN_DISPLAY_LENGTH = 8;
+// Saves a write on every request; "last used" only needs to be roughly right
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The function `createAccessTokenService` creates a personal access token for one workspace. The
+ * token can never grant more than the member's own role.
+ * @param {string} userId - The unique identifier of the user the token acts as.
+ * @param actorRole - The user's role in the workspace, which bounds the token's permissions.
+ * @param body - The token `name`, `workspaceId`, `permissions` and optional `expiresInDays`.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the `accessToken` and the plain `token`, which is not stored.
+ */
+export const createAccessTokenService = async (
+  userId: string,
+  actorRole: Pick<RoleDocument, "permissions">,
+  body: {
+    name: string;
+    workspaceId: string;
+    permissions: string[];
+    expiresInDays?: number | null | undefined;
+  },
+  auditContext: AuditContextType
+) => {
+  const { name, workspaceId, permissions, expiresInDays } = body;
+  assertCanGrantPermissions(actorRole, permissions);
+
+  const token = `${ACCESS_TOKEN_PREFIX}${generateToken()}`;
+  const accessToken = await AccessTokenModel.create({
+    userId,
+    workspaceId,
+    name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(
+      0,
+      ACCESS_TOKEN_PREFIX.length + ACCESS_TOKEN_DISPLAY_LENGTH
+    ),
+    permissions,
+    expiresAt: expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+  });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.ACCESS_TOKEN_CREATED,
+    workspace: workspaceId,
+    targetType: "AccessToken",
+    targetId: accessToken._id as mongoose.Types.ObjectId,
+    after: { name, permissions, expiresAt: accessToken.expiresAt },
+  });
+
+  const { tokenHash, ...accessTokenData } = accessToken.toObject();
+  return { accessToken: accessTokenData, token };
+};
+
+/**
+ * The function `getUserAccessTokensService` lists a user's personal access tokens, newest first.
+ * @param {string} userId - The unique identifier of the user.
+ * @returns An object with the user's `accessTokens` and the workspace each one belongs to.
+ */
+export const getUserAccessTokensService = async (userId: string) => {
+  const accessTokens = await AccessTokenModel.find({ userId })
+    .populate("workspaceId", "_id name")
+    .sort({ createdAt: -1 })
+    .lean();
+
+  return { accessTokens };
+};
+
+/**
+ * The function `revokeAccessTokenService` deletes one of the user's personal access tokens. Scripts
+ * using it are rejected on their next request.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} accessTokenId - The `_id` of the token to revoke.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ */
+export const revokeAccessTokenService = async (
+  userId: string,
+  accessTokenId: string,
+  auditContext: AuditContextType
+) => {
+  const accessToken = await AccessTokenModel.findOneAndDelete({
+    _id: accessTokenId,
+    userId,
+  });
+  if (!accessToken) {
+    throw new NotFoundException("Access token not found");
+  }
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.ACCESS_TOKEN_REVOKED,
+    workspace: accessToken.workspaceId,
+    targetType: "AccessToken",
+    targetId: accessToken._id as mongoose.Types.ObjectId,
+    before: { name: accessToken.name, permissions: accessToken.permissions },
+  });
+};
+
+/**
+ * The function `authenticateAccessTokenService` resolves the user and scope of a Bearer token.
+ * @param {string} token - The plain token from the `Authorization` header.
+ * @returns An object with the `user` the token acts as and the `scope` it is limited to.
+ * @throws {UnauthorizedException} When the token is unknown or has expired.
+ */
+export const authenticateAccessTokenService = async (token: string) => {
+  const accessToken = await AccessTokenModel.findOne({
+    tokenHash: hashToken(token),
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+  });
+  const user = accessToken
+    ? await UserModel.findById(accessToken.userId)
+    : null;
+  if (!accessToken || !user) {
+    throw new UnauthorizedException(
+      "Invalid or expired access token",
+      ErrorCodeEnum.AUTH_INVALID_TOKEN
+    );
+  }
+
+  const now = new Date();
+  if (
+    !accessToken.lastUsedAt ||
+    now.getTime() - accessToken.lastUsedAt.getTime() >
+      LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    await AccessTokenModel.updateOne(
+      { _id: accessToken._id },
+      { $set: { lastUsedAt: now } }
+    );
+  }
+
+  const scope: AccessTokenScopeType = {
+    tokenId: String(accessToken._id),
+    workspaceId: String(accessToken.workspaceId),
+    permissions: accessToken.permissions as PermissionType[],
+  };
+  return { user: user.omitPassword(), scope };
+};
@@ -0,0 +1,133 @@
+import mongoose from "mongoose";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ProviderEnum } from "../enums/account-provider.enum";
+import AccountModel from "../models/account.model";
+import UserModel from "../models/user.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { recordAuditLogService } from "./audit-log.service";
+
+/**
+ * The function `getUserAccountsService` lists the login methods linked to a user.
+ * @param {string} userId - The unique identifier of the user.
+ * @returns An object with the user's `accounts`, each with its `provider` and `createdAt`.
+ */
+export const getUserAccountsService = async (userId: string) => {
+  const accounts = await AccountModel.find({ userId })
+    .select("provider createdAt")
+    .sort({ createdAt: 1 })
+    .lean();
+
+  return { accounts };
+};
+
+/**
+ * The function `linkAccountService` links an OAuth provider account to a signed-in user. Linking an
+ * account that already belongs to the user is a no-op.
+ * @param {string} userId - The unique identifier of the user the account is linked to.
+ * @param data - The `provider` and the `providerId` it identifies the account with.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the `user` the account is linked to.
+ */
+export const linkAccountService = async (
+  userId: string,
+  data: { provider: string; providerId: string },
+  auditContext: AuditContextType
+) => {
+  const { provider, providerId } = data;
+
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  const existingAccount = await AccountModel.findOne({ provider, providerId });
+  if (existingAccount) {
+    if (existingAccount.userId.equals(user._id as mongoose.Types.ObjectId)) {
+      return { user };
+    }
+    throw new BadRequestException(
+      `This ${provider.toLowerCase()} account is already linked to another user`
+    );
+  }
+
+  const providerAccount = await AccountModel.exists({ userId, provider });
+  if (providerAccount) {
+    throw new BadRequestException(
+      `A ${provider.toLowerCase()} account is already linked. Unlink it first`
+    );
+  }
+
+  await AccountModel.create({ userId: user._id, provider, providerId });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.ACCOUNT_LINKED,
+    actor: user._id as mongoose.Types.ObjectId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+    after: { provider, via: "LINK_ACTION" },
+  });
+
+  return { user };
+};
+
+/**
+ * The function `unlinkAccountService` removes a login method from a user, as long as another one
+ * is left. Unlinking the email account also removes the password.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} provider - The provider to unlink.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the unlinked `provider`.
+ */
+export const unlinkAccountService = async (
+  userId: string,
+  provider: string,
+  auditContext: AuditContextType
+) => {
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+
+    const accounts = await AccountModel.find({ userId }).session(session);
+    const account = accounts.find((account) => account.provider === provider);
+    if (!account) {
+      throw new NotFoundException(
+        `No ${provider.toLowerCase()} account is linked`
+      );
+    }
+    if (accounts.length <= 1) {
+      throw new BadRequestException(
+        "You can't unlink your only login method. Link another one first"
+      );
+    }
+
+    await account.deleteOne({ session });
+    if (provider === ProviderEnum.EMAIL) {
+      await UserModel.updateOne(
+        { _id: userId },
+        { $unset: { password: 1 } },
+        { session }
+      );
+    }
+
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.ACCOUNT_UNLINKED,
+        actor: userId,
+        targetType: "User",
+        targetId: userId,
+        before: { provider },
+      },
+      session
+    );
+
+    await session.commitTransaction();
+    session.endSession();
+    return { provider };
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+};
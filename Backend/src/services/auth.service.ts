@@ -11,27 +11,99 @@ import {
 } from "../utils/appError";
 import MemberModel from "../models/member.model";
 import { ProviderEnum } from "../enums/account-provider.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { AuditContextType } from "../utils/audit-context";
+import { recordAuditLogService } from "./audit-log.service";
+import {
+  assertEmailVerified,
+  sendEmailVerificationService,
+} from "./email-verification.service";
+import {
+  assertLoginNotThrottled,
+  clearFailedLoginsService,
+  recordFailedLoginService,
+} from "./login-throttle.service";
 
-export const loginOrCreateAccountService = async (data: {
-  provider: string;
-  displayName: string;
-  providerId: string;
-  picture?: string;
-  email?: string;
-}) => {
-  const { providerId, provider, displayName, picture, email } = data;
+export const loginOrCreateAccountService = async (
+  data: {
+    provider: string;
+    displayName: string;
+    providerId: string;
+    picture?: string;
+    email?: string;
+    emailVerified?: boolean;
+  },
+  auditContext: AuditContextType
+) => {
+  const { providerId, provider, displayName, picture, email, emailVerified } =
+    data;
 
   const session = await mongoose.startSession();
   try {
     session.startTransaction();
     console.log("Started Session...");
-    let user = await UserModel.findOne({ email }).session(session);
+    // A known provider account always signs in the user it is linked to
+    const existingAccount = await AccountModel.findOne({
+      provider,
+      providerId,
+    }).session(session);
+    let user = existingAccount
+      ? await UserModel.findById(existingAccount.userId).session(session)
+      : null;
+
+    if (!user && email) {
+      user = await UserModel.findOne({ email }).session(session);
+      if (user) {
+        // Only an address the provider has verified may be matched to an existing user
+        if (!emailVerified) {
+          throw new BadRequestException(
+            `An account already uses this email. Log in and link your ${provider.toLowerCase()} account from your security settings`,
+            ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS
+          );
+        }
+        // Anyone can register an address they do not own, so an unverified local account is never
+        // joined to a provider; its password would keep working next to the real owner's login
+        if (!user.emailVerified) {
+          throw new BadRequestException(
+            `An unverified account already uses this email. Verify the address from that account, then link your ${provider.toLowerCase()} account from your security settings`,
+            ErrorCodeEnum.AUTH_EMAIL_ALREADY_EXISTS
+          );
+        }
+        const account = new AccountModel({
+          userId: user._id,
+          provider,
+          providerId,
+        });
+        await account.save({ session });
+
+        await recordAuditLogService(
+          auditContext,
+          {
+            action: AuditActionEnum.ACCOUNT_LINKED,
+            actor: user._id as mongoose.Types.ObjectId,
+            targetType: "User",
+            targetId: user._id as mongoose.Types.ObjectId,
+            after: { provider, via: "VERIFIED_EMAIL" },
+          },
+          session
+        );
+      }
+    }
+
     if (!user) {
+      if (!email) {
+        throw new BadRequestException(
+          `Your ${provider.toLowerCase()} account did not share an email address`
+        );
+      }
       // create new user if it doesn't exist
       user = new UserModel({
         email,
         name: displayName,
         profilePicture: picture || null,
+        emailVerified: !!emailVerified,
+        emailVerifiedAt: emailVerified ? new Date() : null,
       });
       await user.save({ session });
       const account = new AccountModel({
@@ -51,6 +123,7 @@ export const loginOrCreateAccountService = async (data: {
 
       const ownerRole = await RoleModel.findOne({
         name: Roles.OWNER,
+        workspace: null,
       }).session(session);
 
       if (!ownerRole) {
@@ -65,7 +138,50 @@ export const loginOrCreateAccountService = async (data: {
       await member.save({ session });
       user.currentWorkspace = workspace._id as mongoose.Types.ObjectId;
       await user.save({ session });
+
+      await recordAuditLogService(
+        auditContext,
+        {
+          action: AuditActionEnum.USER_REGISTERED,
+          actor: user._id as mongoose.Types.ObjectId,
+          workspace: workspace._id as mongoose.Types.ObjectId,
+          targetType: "User",
+          targetId: user._id as mongoose.Types.ObjectId,
+          after: { email: user.email, provider },
+        },
+        session
+      );
+    } else if (emailVerified && !user.emailVerified && user.email === email) {
+      // The provider proved ownership of the address. Unverified accounts are never auto-linked,
+      // so this provider was linked by the signed-in user and their password stays
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save({ session });
+
+      await recordAuditLogService(
+        auditContext,
+        {
+          action: AuditActionEnum.EMAIL_VERIFIED,
+          actor: user._id as mongoose.Types.ObjectId,
+          targetType: "User",
+          targetId: user._id as mongoose.Types.ObjectId,
+          after: { email: user.email, via: provider },
+        },
+        session
+      );
     }
+
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.USER_LOGGED_IN,
+        actor: user._id as mongoose.Types.ObjectId,
+        targetType: "User",
+        targetId: user._id as mongoose.Types.ObjectId,
+        after: { provider },
+      },
+      session
+    );
     await session.commitTransaction();
     session.endSession();
     console.log("Ended Session...");
@@ -78,11 +194,14 @@ export const loginOrCreateAccountService = async (data: {
   }
 };
 
-export const registerUserService = async (body: {
-  email: string;
-  name: string;
-  password: string;
-}) => {
+export const registerUserService = async (
+  body: {
+    email: string;
+    name: string;
+    password: string;
+  },
+  auditContext: AuditContextType
+) => {
   const { email, name, password } = body;
   const session = await mongoose.startSession();
 
@@ -118,6 +237,7 @@ export const registerUserService = async (body: {
 
     const ownerRole = await RoleModel.findOne({
       name: Roles.OWNER,
+      workspace: null,
     }).session(session);
 
     if (!ownerRole) {
@@ -135,9 +255,28 @@ export const registerUserService = async (body: {
     user.currentWorkspace = workspace._id as mongoose.Types.ObjectId;
     await user.save({ session });
 
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.USER_REGISTERED,
+        actor: user._id as mongoose.Types.ObjectId,
+        workspace: workspace._id as mongoose.Types.ObjectId,
+        targetType: "User",
+        targetId: user._id as mongoose.Types.ObjectId,
+        after: { email: user.email, provider: ProviderEnum.EMAIL },
+      },
+      session
+    );
+
     await session.commitTransaction();
     session.endSession();
     console.log("Ended Session...");
+
+    // The account exists either way; a failed email can be sent again from the resend endpoint
+    await sendEmailVerificationService(user, auditContext).catch((error) =>
+      console.error("Failed to send verification email:", error)
+    );
+
     return { userId: user._id, workspaceId: workspace._id };
   } catch (error) {
     await session.abortTransaction();
@@ -150,13 +289,24 @@ export const verifyUserService = async ({
   email,
   password,
   provider = ProviderEnum.EMAIL,
+  auditContext,
 }: {
   email: string;
   password: string;
   provider?: string;
+  auditContext: AuditContextType;
 }) => {
+  await assertLoginNotThrottled(email, auditContext);
+
   const account = await AccountModel.findOne({ provider, providerId: email });
   if (!account) {
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.USER_LOGIN_FAILED,
+      actor: null,
+      after: { email, reason: "UNKNOWN_ACCOUNT" },
+    });
+    // Unknown emails count too, so lockouts don't reveal which accounts exist
+    await recordFailedLoginService(email, auditContext);
     throw new NotFoundException("Invalid email or password");
   }
 
@@ -168,8 +318,30 @@ export const verifyUserService = async ({
 
   const isMatch = await user.comparePassword(password);
   if (!isMatch) {
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.USER_LOGIN_FAILED,
+      actor: user._id as mongoose.Types.ObjectId,
+      targetType: "User",
+      targetId: user._id as mongoose.Types.ObjectId,
+      after: { email, reason: "INVALID_PASSWORD" },
+    });
+    await recordFailedLoginService(email, auditContext);
     throw new UnauthorizedException("Invalid email or password");
   }
 
+  await clearFailedLoginsService(email);
+  assertEmailVerified(user, "login");
+
+  // With two-factor on, the login is recorded once the code has been verified
+  if (!user.twoFactorEnabled) {
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.USER_LOGGED_IN,
+      actor: user._id as mongoose.Types.ObjectId,
+      targetType: "User",
+      targetId: user._id as mongoose.Types.ObjectId,
+      after: { provider },
+    });
+  }
+
   return user.omitPassword();
 };
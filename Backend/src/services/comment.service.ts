@@ -0,0 +1,286 @@
+import mongoose from "mongoose";
+import { NotificationTypeEnum } from "../enums/notification.enum";
+import CommentModel from "../models/comment.model";
+import MemberModel from "../models/member.model";
+import TaskModel from "../models/task.model";
+import { UserDocument } from "../models/user.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { notifyUsersService } from "./notification.service";
+
+// The `@` must not follow a handle character, so addresses such as bob@acme.com are not mentions.
+// A handle never ends in punctuation, so "@bob." mentions bob.
+const MENTION_REGEX = /(?<![\w.-])@([\w.-]*\w)/g;
+
+const normalizeHandle = (value: string) =>
+  value.replace(/\s+/g, "").toLowerCase();
+
+/**
+ * The function `resolveMentionsInWorkspace` turns the `@name` handles found in a comment into user
+ * IDs. A handle matches a member when it equals their name with whitespace removed or the local part
+ * of their email, ignoring case. Only members of the workspace can be mentioned.
+ * @param {string} workspaceId - The workspace whose members can be mentioned.
+ * @param {string} content - The comment content to scan for handles.
+ * @returns The IDs of the mentioned members.
+ */
+const resolveMentionsInWorkspace = async (
+  workspaceId: string,
+  content: string
+) => {
+  const handles = new Set(
+    Array.from(content.matchAll(MENTION_REGEX), (match) =>
+      normalizeHandle(match[1] as string)
+    )
+  );
+  if (handles.size === 0) return [];
+
+  const members = await MemberModel.find({ workspaceId }).populate<{
+    userId: UserDocument;
+  }>("userId", "_id name email");
+
+  return members
+    .filter((member) => {
+      const user = member.userId;
+      if (!user) return false;
+      const nameHandle = normalizeHandle(user.name || "");
+      const emailHandle = normalizeHandle(user.email.split("@")[0] || "");
+      return handles.has(nameHandle) || handles.has(emailHandle);
+    })
+    .map((member) => member.userId._id as mongoose.Types.ObjectId);
+};
+
+const getTaskInWorkspace = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({
+    _id: taskId,
+    workspace: workspaceId,
+  });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to the specified workspace"
+    );
+  }
+
+  return task;
+};
+
+/**
+ * The function `createCommentService` adds a comment, or a reply to another comment, on a task.
+ * Replies to a reply are attached to the top-level comment so threads stay one level deep.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task being discussed.
+ * @param {string} userId - The author of the comment.
+ * @param body - An object with the `content` and an optional `parentComment` to reply to.
+ * @returns An object containing the created `comment`.
+ */
+export const createCommentService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: {
+    content: string;
+    parentComment?: string | undefined;
+  }
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  let parentCommentId: mongoose.Types.ObjectId | null = null;
+  if (body.parentComment) {
+    const parent = await CommentModel.findOne({
+      _id: body.parentComment,
+      task: task._id,
+    });
+    if (!parent) {
+      throw new NotFoundException("Parent comment not found on this task");
+    }
+    parentCommentId =
+      parent.parentComment || (parent._id as mongoose.Types.ObjectId);
+  }
+
+  const mentions = await resolveMentionsInWorkspace(workspaceId, body.content);
+
+  const comment = new CommentModel({
+    content: body.content,
+    task: task._id,
+    workspace: workspaceId,
+    author: userId,
+    parentComment: parentCommentId,
+    mentions,
+  });
+  await comment.save();
+
+  await notifyUsersService({
+    type: NotificationTypeEnum.TASK_MENTIONED,
+    recipients: mentions,
+    actor: userId,
+    task,
+    data: { comment: comment._id },
+  });
+
+  return { comment };
+};
+
+/**
+ * The function `getTaskCommentsService` lists the top-level comments of a task, newest first, with
+ * their replies attached in chronological order.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task.
+ * @param pagination - The `pageSize` and `pageNumber` applied to top-level comments.
+ * @returns An object containing the `comments` and the `pagination` details.
+ */
+export const getTaskCommentsService = async (
+  workspaceId: string,
+  taskId: string,
+  pagination: {
+    pageSize: number;
+    pageNumber: number;
+  }
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const query = { task: task._id, parentComment: null };
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [topLevelComments, totalCount] = await Promise.all([
+    CommentModel.find(query)
+      .skip(skip)
+      .limit(pageSize)
+      .sort({ createdAt: -1 })
+      .populate("author", "_id name profilePicture")
+      .populate("mentions", "_id name"),
+    CommentModel.countDocuments(query),
+  ]);
+
+  const replies = await CommentModel.find({
+    parentComment: { $in: topLevelComments.map((comment) => comment._id) },
+  })
+    .sort({ createdAt: 1 })
+    .populate("author", "_id name profilePicture")
+    .populate("mentions", "_id name");
+
+  const comments = topLevelComments.map((comment) => ({
+    ...comment.toObject(),
+    replies: replies.filter((reply) =>
+      reply.parentComment?.equals(comment._id as mongoose.Types.ObjectId)
+    ),
+  }));
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  return {
+    comments,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages,
+      skip,
+    },
+  };
+};
+
+/**
+ * The function `updateCommentService` edits a comment. Only its author may edit it; the previous
+ * content is kept in `editHistory` and mentions are resolved again.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task.
+ * @param {string} commentId - The unique identifier of the comment to edit.
+ * @param {string} userId - The user performing the edit.
+ * @param body - An object with the new `content`.
+ * @returns An object containing the updated `comment`.
+ */
+export const updateCommentService = async (
+  workspaceId: string,
+  taskId: string,
+  commentId: string,
+  userId: string,
+  body: { content: string }
+) => {
+  const comment = await CommentModel.findOne({
+    _id: commentId,
+    task: taskId,
+    workspace: workspaceId,
+  });
+
+  if (!comment) {
+    throw new NotFoundException("Comment not found");
+  }
+
+  if (comment.author.toString() !== userId.toString()) {
+    throw new UnauthorizedException("You can only edit your own comments");
+  }
+
+  if (comment.content === body.content) {
+    throw new BadRequestException("Comment content is unchanged");
+  }
+
+  const previousMentions = comment.mentions.map((mention) => String(mention));
+
+  comment.editHistory.push({ content: comment.content, editedAt: new Date() });
+  comment.content = body.content;
+  comment.mentions = await resolveMentionsInWorkspace(
+    workspaceId,
+    body.content
+  );
+  await comment.save();
+
+  // Only people added to the comment by the edit hear about it
+  const task = await TaskModel.findById(comment.task);
+  if (task) {
+    await notifyUsersService({
+      type: NotificationTypeEnum.TASK_MENTIONED,
+      recipients: comment.mentions.filter(
+        (mention) => !previousMentions.includes(String(mention))
+      ),
+      actor: userId,
+      task,
+      data: { comment: comment._id },
+    });
+  }
+
+  return { comment };
+};
+
+/**
+ * The function `deleteCommentService` deletes a comment together with its replies. Authors can
+ * delete their own comments; moderators can delete any comment.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task.
+ * @param {string} commentId - The unique identifier of the comment to delete.
+ * @param {string} userId - The user performing the deletion.
+ * @param {boolean} canModerate - Whether the user's role allows deleting other people's comments.
+ * @returns The `deleteCommentService` function is returning nothing (`undefined`).
+ */
+export const deleteCommentService = async (
+  workspaceId: string,
+  taskId: string,
+  commentId: string,
+  userId: string,
+  canModerate: boolean
+) => {
+  const comment = await CommentModel.findOne({
+    _id: commentId,
+    task: taskId,
+    workspace: workspaceId,
+  });
+
+  if (!comment) {
+    throw new NotFoundException("Comment not found");
+  }
+
+  if (comment.author.toString() !== userId.toString() && !canModerate) {
+    throw new UnauthorizedException(
+      "You do not have the necessary permissions to delete this comment"
+    );
+  }
+
+  await CommentModel.deleteMany({ parentComment: comment._id });
+  await comment.deleteOne();
+
+  return;
+};
@@ -0,0 +1,142 @@
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { sendMail } from "../mail/mail.transport";
+import { emailVerificationEmail } from "../mail/templates";
+import EmailVerificationTokenModel from "../models/email-verification-token.model";
+import UserModel, { UserDocument } from "../models/user.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { generateToken, hashToken } from "../utils/token";
+import { recordAuditLogService } from "./audit-log.service";
+
+/**
+ * The function `assertEmailVerified` blocks an action for users whose email address has not been
+ * verified, when `EMAIL_VERIFICATION_REQUIRED_FOR` is configured to guard that action.
+ * @param user - The user performing the action.
+ * @param {"login" | "join"} action - `login` for password sign-in, `join` for joining a workspace.
+ */
+export const assertEmailVerified = (
+  user: Pick<UserDocument, "emailVerified">,
+  action: "login" | "join"
+) => {
+  if (user.emailVerified) return;
+
+  if (config.EMAIL_VERIFICATION_REQUIRED_FOR === action) {
+    throw new UnauthorizedException(
+      action === "login"
+        ? "Please verify your email address before logging in"
+        : "Please verify your email address before joining a workspace",
+      ErrorCodeEnum.AUTH_EMAIL_NOT_VERIFIED
+    );
+  }
+};
+
+/**
+ * The function `sendEmailVerificationService` mails a single-use verification link to a user and
+ * invalidates any link sent before it.
+ * @param user - The user whose email address should be verified.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const sendEmailVerificationService = async (
+  user: UserDocument,
+  auditContext: AuditContextType
+) => {
+  // Only the most recent link stays valid
+  await EmailVerificationTokenModel.deleteMany({
+    userId: user._id,
+    usedAt: null,
+  });
+
+  const token = generateToken();
+  const expiresAt = new Date(
+    Date.now() +
+      Number(config.EMAIL_VERIFICATION_EXPIRES_IN_HOURS) * 60 * 60 * 1000
+  );
+  await EmailVerificationTokenModel.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt,
+  });
+
+  const { subject, text } = emailVerificationEmail({
+    name: user.name,
+    verifyUrl: `${config.FRONTEND_ORIGIN}/verify-email?token=${token}`,
+    expiresAt,
+  });
+  await sendMail({ to: user.email, subject, text });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.EMAIL_VERIFICATION_SENT,
+    actor: user._id as mongoose.Types.ObjectId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+  });
+};
+
+/**
+ * The function `resendEmailVerificationService` sends a new verification link. Nothing is revealed
+ * about whether the email is registered; unknown and already verified emails are silently ignored.
+ * @param {string} email - The email address the link was requested for.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const resendEmailVerificationService = async (
+  email: string,
+  auditContext: AuditContextType
+) => {
+  const user = await UserModel.findOne({ email: email.toLowerCase() });
+  if (!user || user.emailVerified) return;
+
+  await sendEmailVerificationService(user, auditContext);
+};
+
+/**
+ * The function `verifyEmailService` marks the email address of a user as verified using a token
+ * from a verification email. The token is consumed atomically so it cannot be used twice.
+ * @param {string} token - The token from the verification email.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const verifyEmailService = async (
+  token: string,
+  auditContext: AuditContextType
+) => {
+  const verificationToken = await EmailVerificationTokenModel.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+  if (!verificationToken) {
+    throw new BadRequestException(
+      "This verification link is invalid or has expired",
+      ErrorCodeEnum.AUTH_INVALID_TOKEN
+    );
+  }
+
+  const user = await UserModel.findById(verificationToken.userId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  if (!user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.EMAIL_VERIFIED,
+      actor: user._id as mongoose.Types.ObjectId,
+      targetType: "User",
+      targetId: user._id as mongoose.Types.ObjectId,
+      after: { email: user.email },
+    });
+  }
+};
@@ -0,0 +1,182 @@
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import EpicModel from "../models/epic.model";
+import TaskModel from "../models/task.model";
+import { NotFoundException } from "../utils/appError";
+import { getStatusKeysInCategory } from "../utils/workflow";
+import { getProjectInWorkspace } from "./project.service";
+import { recordBulkTaskUpdateService } from "./task-activity.service";
+
+/**
+ * The function `assertEpicInProject` checks that an epic belongs to the project a task is being
+ * grouped in.
+ * @param {string} projectId - The project the task belongs to.
+ * @param {string} epicId - The epic the task is being added to.
+ */
+export const assertEpicInProject = async (
+  projectId: string,
+  epicId: string
+) => {
+  const epic = await EpicModel.findOne({ _id: epicId, project: projectId });
+
+  if (!epic) {
+    throw new NotFoundException(
+      "Epic not found or does not belong to the specified project"
+    );
+  }
+
+  return epic;
+};
+
+/**
+ * The function `createEpicService` adds an epic to a project.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} userId - The user creating the epic.
+ * @param body - The `name` and optional `description` of the epic.
+ * @returns An object containing the created `epic`.
+ */
+export const createEpicService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: { name: string; description?: string | null | undefined }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const epic = await EpicModel.create({
+    name: body.name,
+    description: body.description || null,
+    project: project._id,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { epic };
+};
+
+/**
+ * The function `getProjectEpicsService` lists the epics of a project with their progress and the
+ * number of milestones their tasks are spread over.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @returns An object containing the `epics`, each with a `progress` and a `milestoneCount`.
+ */
+export const getProjectEpicsService = async (
+  workspaceId: string,
+  projectId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const [epics, taskCounts] = await Promise.all([
+    EpicModel.find({ project: project._id }).sort({ createdAt: 1 }).lean(),
+    TaskModel.aggregate([
+      { $match: { project: project._id, epic: { $ne: null } } },
+      {
+        $group: {
+          _id: "$epic",
+          totalTasks: { $sum: 1 },
+          completedTasks: {
+            $sum: {
+              $cond: [
+                {
+                  $in: [
+                    "$status",
+                    getStatusKeysInCategory(
+                      project,
+                      TaskStatusCategoryEnum.DONE
+                    ),
+                  ],
+                },
+                1,
+                0,
+              ],
+            },
+          },
+          milestones: { $addToSet: "$milestone" },
+        },
+      },
+    ]),
+  ]);
+
+  const countsByEpic = new Map(
+    taskCounts.map((count) => [String(count._id), count])
+  );
+
+  return {
+    epics: epics.map((epic) => {
+      const counts = countsByEpic.get(String(epic._id));
+      const totalTasks = counts?.totalTasks || 0;
+      const completedTasks = counts?.completedTasks || 0;
+
+      return {
+        ...epic,
+        progress: {
+          totalTasks,
+          completedTasks,
+          percentage:
+            totalTasks > 0
+              ? Math.round((completedTasks / totalTasks) * 100)
+              : 0,
+        },
+        // Tasks without a milestone are not counted
+        milestoneCount: (counts?.milestones || []).filter(Boolean).length,
+      };
+    }),
+  };
+};
+
+/**
+ * The function `updateEpicService` changes the name and description of an epic.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} epicId - The unique identifier of the epic.
+ * @param body - The new `name` and `description`.
+ * @returns An object containing the updated `epic`.
+ */
+export const updateEpicService = async (
+  workspaceId: string,
+  projectId: string,
+  epicId: string,
+  body: { name: string; description?: string | null | undefined }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const epic = await assertEpicInProject(String(project._id), epicId);
+
+  epic.name = body.name;
+  epic.description = body.description || null;
+  await epic.save();
+
+  return { epic };
+};
+
+/**
+ * The function `deleteEpicService` deletes an epic. Its tasks stay in the project without an epic.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} epicId - The unique identifier of the epic to delete.
+ * @param {string} userId - The member deleting the epic, recorded in the history of its tasks.
+ * @returns The `deleteEpicService` function is returning nothing (`undefined`).
+ */
+export const deleteEpicService = async (
+  workspaceId: string,
+  projectId: string,
+  epicId: string,
+  userId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const epic = await assertEpicInProject(String(project._id), epicId);
+
+  const tasks = await TaskModel.find({ epic: epic._id });
+  await TaskModel.updateMany({ epic: epic._id }, { $set: { epic: null } });
+  await epic.deleteOne();
+
+  await recordBulkTaskUpdateService({
+    tasks,
+    workspace: workspaceId,
+    actor: userId,
+    field: "epic",
+    value: null,
+  });
+
+  return;
+};
@@ -0,0 +1,399 @@
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { InvitationStatusEnum } from "../enums/invitation-status.enum";
+import { Roles } from "../enums/role.enum";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import { sendMail } from "../mail/mail.transport";
+import { invitationEmail } from "../mail/templates";
+import InvitationModel, {
+  InvitationDocument,
+} from "../models/invitation.model";
+import MemberModel from "../models/member.model";
+import RoleModel, { RoleDocument } from "../models/roles-permission.model";
+import UserModel from "../models/user.model";
+import WorkspaceModel from "../models/workspace.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { generateToken, hashToken } from "../utils/token";
+import { recordAuditLogService } from "./audit-log.service";
+import { getFallbackRole } from "./member.service";
+import { assertCanGrantPermissions } from "./role.service";
+import { emitWorkspaceEvent } from "./workspace-event.service";
+
+const getInvitationExpiryDate = () =>
+  new Date(
+    Date.now() + Number(config.INVITATION_EXPIRES_IN_DAYS) * 24 * 60 * 60 * 1000
+  );
+
+/**
+ * Marks every pending invitation of the workspace whose expiry has passed as expired, so listings
+ * show the real state without a background job.
+ */
+const expireStaleInvitations = async (workspaceId: string) => {
+  await InvitationModel.updateMany(
+    {
+      workspace: workspaceId,
+      status: InvitationStatusEnum.PENDING,
+      expiresAt: { $lte: new Date() },
+    },
+    { $set: { status: InvitationStatusEnum.EXPIRED } }
+  );
+};
+
+const getPendingInvitationInWorkspace = async (
+  workspaceId: string,
+  invitationId: string
+) => {
+  await expireStaleInvitations(workspaceId);
+
+  const invitation = await InvitationModel.findOne({
+    _id: invitationId,
+    workspace: workspaceId,
+  });
+  if (!invitation) {
+    throw new NotFoundException("Invitation not found");
+  }
+  if (invitation.status !== InvitationStatusEnum.PENDING) {
+    throw new BadRequestException(
+      `This invitation is already ${invitation.status.toLowerCase()}`
+    );
+  }
+  return invitation;
+};
+
+const deliverInvitation = async (
+  invitation: InvitationDocument,
+  token: string
+) => {
+  const [workspace, inviter, role] = await Promise.all([
+    WorkspaceModel.findById(invitation.workspace).select("name"),
+    UserModel.findById(invitation.invitedBy).select("name"),
+    RoleModel.findById(invitation.role).select("name"),
+  ]);
+
+  const { subject, text } = invitationEmail({
+    workspaceName: workspace?.name || "a workspace",
+    inviterName: inviter?.name || "A teammate",
+    roleName: role?.name || Roles.MEMBER,
+    acceptUrl: `${config.FRONTEND_ORIGIN}/invite/${token}/accept`,
+    expiresAt: invitation.expiresAt,
+  });
+
+  await sendMail({ to: invitation.email, subject, text });
+};
+
+/**
+ * The function `createInvitationService` invites an email address to a workspace with a given role
+ * and mails a single-use link to accept it.
+ * @param {string} workspaceId - The unique identifier of the workspace the invitation is for.
+ * @param {string} userId - The unique identifier of the member sending the invitation.
+ * @param actorRole - The role of the member sending the invitation; the invited role cannot exceed
+ * it.
+ * @param body - The `email` to invite and the `roleId` the invitee will receive.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the created `invitation`.
+ */
+export const createInvitationService = async (
+  workspaceId: string,
+  userId: string,
+  actorRole: Pick<RoleDocument, "permissions">,
+  body: { email: string; roleId: string },
+  auditContext: AuditContextType
+) => {
+  const email = body.email.toLowerCase();
+
+  const role = await RoleModel.findOne({
+    _id: body.roleId,
+    workspace: { $in: [null, workspaceId] },
+  });
+  if (!role) {
+    throw new NotFoundException("Role not found in this workspace");
+  }
+  if (role.workspace === null && role.name === Roles.OWNER) {
+    throw new BadRequestException(
+      "Invitations cannot grant the owner role; transfer ownership instead"
+    );
+  }
+  assertCanGrantPermissions(actorRole, role.permissions);
+
+  const existingUser = await UserModel.findOne({ email });
+  if (existingUser) {
+    const existingMember = await MemberModel.exists({
+      userId: existingUser._id,
+      workspaceId,
+    });
+    if (existingMember) {
+      throw new BadRequestException(
+        "This user is already a member of the workspace"
+      );
+    }
+  }
+
+  await expireStaleInvitations(workspaceId);
+  const pendingInvitation = await InvitationModel.exists({
+    workspace: workspaceId,
+    email,
+    status: InvitationStatusEnum.PENDING,
+  });
+  if (pendingInvitation) {
+    throw new BadRequestException(
+      "A pending invitation already exists for this email; resend it instead"
+    );
+  }
+
+  const token = generateToken();
+  const invitation = new InvitationModel({
+    email,
+    workspace: workspaceId,
+    role: role._id,
+    invitedBy: userId,
+    tokenHash: hashToken(token),
+    expiresAt: getInvitationExpiryDate(),
+  });
+  await invitation.save();
+
+  await deliverInvitation(invitation, token);
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.INVITATION_CREATED,
+    workspace: workspaceId,
+    targetType: "Invitation",
+    targetId: invitation._id as mongoose.Types.ObjectId,
+    after: { email, role: role.name },
+  });
+
+  return { invitation };
+};
+
+/**
+ * The function `getWorkspaceInvitationsService` lists the invitations of a workspace, newest first.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param filters - An optional `status` to filter by.
+ * @param pagination - The `pageSize` and `pageNumber` to fetch.
+ * @returns An object containing the `invitations` and the `pagination` details.
+ */
+export const getWorkspaceInvitationsService = async (
+  workspaceId: string,
+  filters: { status?: string | undefined },
+  pagination: { pageSize: number; pageNumber: number }
+) => {
+  await expireStaleInvitations(workspaceId);
+
+  const query: Record<string, any> = { workspace: workspaceId };
+  if (filters.status) {
+    query.status = filters.status;
+  }
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [invitations, totalCount] = await Promise.all([
+    InvitationModel.find(query)
+      .skip(skip)
+      .limit(pageSize)
+      .sort({ createdAt: -1 })
+      .populate("role", "_id name")
+      .populate("invitedBy", "_id name profilePicture"),
+    InvitationModel.countDocuments(query),
+  ]);
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  return {
+    invitations,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages,
+      skip,
+    },
+  };
+};
+
+/**
+ * The function `resendInvitationService` mails a pending invitation again. A new token is issued and
+ * the expiry is extended, so links from earlier emails stop working.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} invitationId - The unique identifier of the invitation.
+ * @returns An object containing the updated `invitation`.
+ */
+export const resendInvitationService = async (
+  workspaceId: string,
+  invitationId: string
+) => {
+  const invitation = await getPendingInvitationInWorkspace(
+    workspaceId,
+    invitationId
+  );
+
+  const token = generateToken();
+  invitation.tokenHash = hashToken(token);
+  invitation.expiresAt = getInvitationExpiryDate();
+  invitation.sentCount += 1;
+  invitation.lastSentAt = new Date();
+  await invitation.save();
+
+  await deliverInvitation(invitation, token);
+
+  return { invitation };
+};
+
+/**
+ * The function `revokeInvitationService` cancels a pending invitation so its link can no longer be
+ * used.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} invitationId - The unique identifier of the invitation.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the revoked `invitation`.
+ */
+export const revokeInvitationService = async (
+  workspaceId: string,
+  invitationId: string,
+  auditContext: AuditContextType
+) => {
+  const invitation = await getPendingInvitationInWorkspace(
+    workspaceId,
+    invitationId
+  );
+
+  invitation.status = InvitationStatusEnum.REVOKED;
+  invitation.revokedAt = new Date();
+  await invitation.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.INVITATION_REVOKED,
+    workspace: workspaceId,
+    targetType: "Invitation",
+    targetId: invitation._id as mongoose.Types.ObjectId,
+    before: { email: invitation.email },
+  });
+
+  return { invitation };
+};
+
+/**
+ * The function `acceptInvitationService` adds the signed-in user to the workspace of an invitation
+ * with the role the invitation carries. The invitation must be pending, unexpired and addressed to
+ * the user's email; it is marked accepted in the same transaction as the membership is created.
+ * @param {string} userId - The unique identifier of the user accepting the invitation.
+ * @param {string} token - The token from the invitation email.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the `workspaceId` and the name of the assigned `role`.
+ */
+export const acceptInvitationService = async (
+  userId: string,
+  token: string,
+  auditContext: AuditContextType
+) => {
+  const invitation = await InvitationModel.findOne({
+    tokenHash: hashToken(token),
+  });
+  if (!invitation) {
+    throw new NotFoundException(
+      "Invalid invitation link",
+      ErrorCodeEnum.AUTH_INVALID_TOKEN
+    );
+  }
+
+  if (
+    invitation.status === InvitationStatusEnum.PENDING &&
+    invitation.expiresAt <= new Date()
+  ) {
+    invitation.status = InvitationStatusEnum.EXPIRED;
+    await invitation.save();
+  }
+  if (invitation.status !== InvitationStatusEnum.PENDING) {
+    throw new BadRequestException(
+      `This invitation is ${invitation.status.toLowerCase()}`,
+      ErrorCodeEnum.AUTH_INVALID_TOKEN
+    );
+  }
+
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+  if (user.email.toLowerCase() !== invitation.email) {
+    throw new UnauthorizedException(
+      "This invitation was sent to a different email address",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  const existingMember = await MemberModel.exists({
+    userId,
+    workspaceId: invitation.workspace,
+  });
+  if (existingMember) {
+    throw new BadRequestException(
+      "You are already a member of this workspace."
+    );
+  }
+
+  // The carried role may have been deleted since the invitation was sent
+  const role =
+    (await RoleModel.findById(invitation.role)) || (await getFallbackRole());
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const member = new MemberModel({
+      userId,
+      workspaceId: invitation.workspace,
+      role: role._id,
+    });
+    await member.save({ session });
+
+    invitation.status = InvitationStatusEnum.ACCEPTED;
+    invitation.acceptedBy = user._id as mongoose.Types.ObjectId;
+    invitation.acceptedAt = new Date();
+    await invitation.save({ session });
+
+    // Opening a link that was mailed to the address proves the user owns it
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save({ session });
+    }
+
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.MEMBER_JOINED,
+        workspace: invitation.workspace,
+        targetType: "Member",
+        targetId: userId,
+        after: {
+          role: role.name,
+          via: "INVITATION",
+          invitation: String(invitation._id),
+        },
+      },
+      session
+    );
+
+    await session.commitTransaction();
+    session.endSession();
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+
+  await emitWorkspaceEvent(
+    invitation.workspace,
+    WebhookEventEnum.MEMBER_JOINED,
+    { member: { userId, name: user.name, role: role.name } }
+  );
+
+  return { workspaceId: invitation.workspace, role: role.name };
+};
@@ -0,0 +1,201 @@
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import {
+  LoginAttemptScopeEnum,
+  LoginAttemptScopeEnumType,
+} from "../enums/login-attempt-scope.enum";
+import LoginAttemptModel from "../models/login-attempt.model";
+import MemberModel from "../models/member.model";
+import UserModel from "../models/user.model";
+import { NotFoundException, TooManyRequestsException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { recordAuditLogService } from "./audit-log.service";
+
+type ThrottleKeyType = {
+  scope: LoginAttemptScopeEnumType;
+  key: string;
+  maxAttempts: number;
+};
+
+const getThrottleKeys = (email: string, ip: string | null) => {
+  const keys: ThrottleKeyType[] = [
+    {
+      scope: LoginAttemptScopeEnum.ACCOUNT,
+      key: email.trim().toLowerCase(),
+      maxAttempts: Number(config.LOGIN_MAX_FAILED_ATTEMPTS_PER_ACCOUNT),
+    },
+  ];
+  if (ip) {
+    keys.push({
+      scope: LoginAttemptScopeEnum.IP,
+      key: ip,
+      maxAttempts: Number(config.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP),
+    });
+  }
+  return keys;
+};
+
+const throwTooManyAttempts = (lockedUntil: Date) => {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+  );
+  throw new TooManyRequestsException(
+    `Too many failed login attempts. Try again in ${
+      retryAfter < 60
+        ? `${retryAfter} second(s)`
+        : `${Math.ceil(retryAfter / 60)} minute(s)`
+    }`,
+    retryAfter
+  );
+};
+
+/**
+ * The function `assertLoginNotThrottled` rejects a login attempt while the account or the client
+ * address is locked out after too many failed attempts.
+ * @param {string} email - The email the login is attempted for.
+ * @param auditContext - The request details; its `ip` identifies the client.
+ */
+export const assertLoginNotThrottled = async (
+  email: string,
+  auditContext: AuditContextType
+) => {
+  const locked = await LoginAttemptModel.find({
+    $or: getThrottleKeys(email, auditContext.ip).map(({ scope, key }) => ({
+      scope,
+      key,
+    })),
+    lockedUntil: { $gt: new Date() },
+  });
+  if (!locked.length) return;
+
+  // The longest lock wins when both the account and the address are locked
+  const lockedUntil = new Date(
+    Math.max(...locked.map((attempt) => attempt.lockedUntil!.getTime()))
+  );
+  throwTooManyAttempts(lockedUntil);
+};
+
+/**
+ * The function `recordFailedLoginService` counts a failed login against the account and the client
+ * address. Once either reaches its limit, every further failure locks it for twice as long as the
+ * previous one, up to `LOGIN_LOCKOUT_MAX_MINUTES`, and the lockout is thrown right away.
+ * @param {string} email - The email the login was attempted for.
+ * @param auditContext - The request details; its `ip` identifies the client.
+ */
+export const recordFailedLoginService = async (
+  email: string,
+  auditContext: AuditContextType
+) => {
+  const now = new Date();
+  const windowMs = Number(config.LOGIN_ATTEMPT_WINDOW_MINUTES) * 60 * 1000;
+  let lockedUntil: Date | null = null;
+
+  for (const { scope, key, maxAttempts } of getThrottleKeys(
+    email,
+    auditContext.ip
+  )) {
+    // Counted atomically so concurrent attempts from several instances all register
+    const attempt = await LoginAttemptModel.findOneAndUpdate(
+      { scope, key },
+      {
+        $inc: { failedCount: 1 },
+        $set: {
+          lastFailedAt: now,
+          expiresAt: new Date(now.getTime() + windowMs),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    if (attempt.failedCount < maxAttempts) continue;
+
+    const lockMs = Math.min(
+      Number(config.LOGIN_LOCKOUT_BASE_SECONDS) *
+        1000 *
+        2 ** (attempt.failedCount - maxAttempts),
+      Number(config.LOGIN_LOCKOUT_MAX_MINUTES) * 60 * 1000
+    );
+    const until = new Date(now.getTime() + lockMs);
+    attempt.lockedUntil = until;
+    // Keep the failures around for a full window after the lock ends
+    attempt.expiresAt = new Date(until.getTime() + windowMs);
+    await attempt.save();
+
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.USER_LOGIN_LOCKED,
+      actor: null,
+      after: {
+        scope,
+        key,
+        failedCount: attempt.failedCount,
+        lockedUntil: until,
+      },
+    });
+
+    if (!lockedUntil || until > lockedUntil) {
+      lockedUntil = until;
+    }
+  }
+
+  if (lockedUntil) {
+    throwTooManyAttempts(lockedUntil);
+  }
+};
+
+/**
+ * The function `clearFailedLoginsService` forgets the failed logins of an account after it signed
+ * in successfully. Failures counted against the client address are kept.
+ * @param {string} email - The email of the account that signed in.
+ */
+export const clearFailedLoginsService = async (email: string) => {
+  await LoginAttemptModel.deleteOne({
+    scope: LoginAttemptScopeEnum.ACCOUNT,
+    key: email.trim().toLowerCase(),
+  });
+};
+
+/**
+ * The function `unlockMemberLoginService` lifts the login lockout of a workspace member and resets
+ * their failed attempts.
+ * @param {string} workspaceId - The unique identifier of the workspace the member belongs to.
+ * @param {string} memberUserId - The unique identifier of the user to unlock.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object with `wasLocked`, telling whether the account was locked at the time.
+ */
+export const unlockMemberLoginService = async (
+  workspaceId: string,
+  memberUserId: string,
+  auditContext: AuditContextType
+) => {
+  const member = await MemberModel.exists({
+    userId: memberUserId,
+    workspaceId,
+  });
+  if (!member) {
+    throw new NotFoundException("Member not found in this workspace");
+  }
+
+  const user = await UserModel.findById(memberUserId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  const attempt = await LoginAttemptModel.findOneAndDelete({
+    scope: LoginAttemptScopeEnum.ACCOUNT,
+    key: user.email,
+  });
+  const wasLocked = !!attempt?.lockedUntil && attempt.lockedUntil > new Date();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.USER_LOGIN_UNLOCKED,
+    workspace: workspaceId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+    before: attempt
+      ? { failedCount: attempt.failedCount, lockedUntil: attempt.lockedUntil }
+      : null,
+  });
+
+  return { wasLocked };
+};
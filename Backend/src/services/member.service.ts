@@ -1,13 +1,38 @@
+import mongoose from "mongoose";
+import { AuditActionEnum } from "../enums/audit-action.enum";
 import { ErrorCodeEnum } from "../enums/error-code.enum";
 import { Roles } from "../enums/role.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import { AccessTokenScopeType } from "../models/access-token.model";
 import MemberModel from "../models/member.model";
-import RoleModel from "../models/roles-permission.model";
+import NotificationModel from "../models/notification.model";
+import RoleModel, { RoleDocument } from "../models/roles-permission.model";
+import TaskModel from "../models/task.model";
+import UserModel from "../models/user.model";
 import WorkspaceModel from "../models/workspace.model";
 import {
   BadRequestException,
   NotFoundException,
   UnauthorizedException,
 } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { recordAuditLogService } from "./audit-log.service";
+import { assertEmailVerified } from "./email-verification.service";
+import { recordTaskActivityService } from "./task-activity.service";
+import { emitWorkspaceEvent } from "./workspace-event.service";
+
+/**
+ * The function `getFallbackRole` returns the built-in MEMBER role, which is what members fall back
+ * to when their custom role is removed.
+ */
+export const getFallbackRole = async () => {
+  const role = await RoleModel.findOne({ name: Roles.MEMBER, workspace: null });
+  if (!role) {
+    throw new NotFoundException("Member role not found");
+  }
+  return role;
+};
 
 /**
  * The function `getMemberRoleInWorkspace` retrieves the role of a member in a workspace based on the
@@ -18,14 +43,24 @@ import {
  * @param {string} workspaceId - The `workspaceId` parameter is a unique identifier for a workspace in
  * the system. It is used to retrieve information about a specific workspace, such as its members and
  * roles.
- * @returns The function `getMemberRoleInWorkspace` returns an object with the role name of the member
- * in the specified workspace. The object has a property `role` which contains the name of the role
- * that the member has in the workspace.
+ * @param accessToken - The scope of the personal access token the request authenticated with, if any.
+ * @returns The function `getMemberRoleInWorkspace` returns an object with the role document of the
+ * member in the specified workspace. The object has a property `role` which contains the role's
+ * `name` and `permissions`, so `roleGuard` checks against what the role actually grants. If the
+ * member's role has been deleted, the built-in MEMBER role is used instead.
  */
 export const getMemberRoleInWorkspace = async (
   userId: string,
-  workspaceId: string
+  workspaceId: string,
+  accessToken: AccessTokenScopeType | undefined
 ) => {
+  if (accessToken && accessToken.workspaceId !== String(workspaceId)) {
+    throw new UnauthorizedException(
+      "This access token can't be used in this workspace",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
   const workspace = await WorkspaceModel.findById(workspaceId);
   if (!workspace) {
     throw new NotFoundException("Workspace not found");
@@ -42,21 +77,53 @@ export const getMemberRoleInWorkspace = async (
       ErrorCodeEnum.ACCESS_UNAUTHORIZED
     );
   }
-  const roleName = member.role?.name;
 
-  return { role: roleName };
+  if (workspace.requireTwoFactor) {
+    const user = await UserModel.findById(userId).select("twoFactorEnabled");
+    if (!user?.twoFactorEnabled) {
+      throw new UnauthorizedException(
+        "This workspace requires two-factor authentication. Turn it on in your security settings to continue",
+        ErrorCodeEnum.AUTH_TWO_FACTOR_REQUIRED
+      );
+    }
+  }
+
+  const role = member.role || (await getFallbackRole());
+  if (accessToken) {
+    // A token only keeps the permissions its owner's role still grants; the role is never saved
+    role.permissions = role.permissions.filter((permission) =>
+      accessToken.permissions.includes(permission)
+    );
+  }
+
+  return { role };
 };
 
 export const joinWorkspaceByInviteService = async (
   userId: string,
-  inviteCode: string
+  inviteCode: string,
+  auditContext: AuditContextType
 ) => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+  assertEmailVerified(user, "join");
+
   // Find workspace by invite code
   const workspace = await WorkspaceModel.findOne({ inviteCode });
   if (!workspace) {
     throw new NotFoundException("Invalid invite code or workspace not found");
   }
 
+  const { isActive, reason } = workspace.getInviteLinkStatus();
+  if (!isActive) {
+    throw new BadRequestException(
+      reason || "This invite link is not active",
+      ErrorCodeEnum.INVITE_LINK_INACTIVE
+    );
+  }
+
   // check if user is already a member
   const existingMember = await MemberModel.findOne({
     userId,
@@ -69,8 +136,39 @@ export const joinWorkspaceByInviteService = async (
     );
   }
 
+  // Claim a use atomically so concurrent joins cannot exceed the limit
+  const claimed = await WorkspaceModel.findOneAndUpdate(
+    {
+      _id: workspace._id,
+      inviteCode,
+      inviteLinkEnabled: { $ne: false },
+      $and: [
+        {
+          $or: [
+            { inviteExpiresAt: null },
+            { inviteExpiresAt: { $gt: new Date() } },
+          ],
+        },
+        {
+          $or: [
+            { inviteMaxUses: null },
+            { $expr: { $lt: ["$inviteUseCount", "$inviteMaxUses"] } },
+          ],
+        },
+      ],
+    },
+    { $inc: { inviteUseCount: 1 } }
+  );
+  if (!claimed) {
+    throw new BadRequestException(
+      "This invite link is no longer active",
+      ErrorCodeEnum.INVITE_LINK_INACTIVE
+    );
+  }
+
   const role = await RoleModel.findOne({
     name: Roles.MEMBER,
+    workspace: null,
   });
 
   if (!role) {
@@ -85,5 +183,285 @@ export const joinWorkspaceByInviteService = async (
   });
   await newMember.save();
 
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.MEMBER_JOINED,
+    workspace: workspace._id as mongoose.Types.ObjectId,
+    targetType: "Member",
+    targetId: userId,
+    after: { role: role.name, via: "INVITE_CODE" },
+  });
+
+  await emitWorkspaceEvent(
+    workspace._id as mongoose.Types.ObjectId,
+    WebhookEventEnum.MEMBER_JOINED,
+    {
+      member: { userId, name: user.name, role: role.name },
+    }
+  );
+
   return { workspaceId: workspace._id, role: role.name };
 };
+
+type MemberTaskOptions = {
+  reassignTasksTo?: string | null | undefined;
+};
+
+/**
+ * Takes a member out of a workspace inside a transaction: their assigned tasks are unassigned or
+ * handed to another member, the workspace keeps at least one owner, and the user's
+ * `currentWorkspace` is moved elsewhere if it pointed here.
+ */
+const detachMemberFromWorkspace = async (
+  workspaceId: string,
+  memberUserId: string,
+  actorId: string,
+  options: MemberTaskOptions
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  const member = await MemberModel.findOne({
+    userId: memberUserId,
+    workspaceId,
+  }).populate("role");
+  if (!member) {
+    throw new NotFoundException("Member not found in the workspace");
+  }
+
+  const ownerRole = await RoleModel.findOne({
+    name: Roles.OWNER,
+    workspace: null,
+  });
+  if (!ownerRole) {
+    throw new NotFoundException("Owner role not found");
+  }
+  // `workspace.owner` counts even without the OWNER role, so it never points at a non-member
+  const isOwner =
+    String(member.role?._id) === String(ownerRole._id) ||
+    workspace.owner.equals(memberUserId);
+  let nextOwnerId: mongoose.Types.ObjectId | null = null;
+
+  if (isOwner) {
+    const otherOwner = await MemberModel.findOne({
+      workspaceId,
+      role: ownerRole._id,
+      userId: { $ne: memberUserId },
+    });
+    if (!otherOwner) {
+      throw new BadRequestException(
+        "The last owner cannot leave or be removed. Transfer ownership first."
+      );
+    }
+    nextOwnerId = otherOwner.userId;
+  }
+
+  const reassignTo = options.reassignTasksTo || null;
+  if (reassignTo) {
+    if (reassignTo === String(memberUserId)) {
+      throw new BadRequestException(
+        "Tasks cannot be reassigned to the member being removed"
+      );
+    }
+    const assignee = await MemberModel.exists({
+      userId: reassignTo,
+      workspaceId,
+    });
+    if (!assignee) {
+      throw new BadRequestException(
+        "Tasks can only be reassigned to a member of this workspace"
+      );
+    }
+  }
+
+  const affectedTasks = await TaskModel.find({
+    workspace: workspaceId,
+    assignedTo: memberUserId,
+  });
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    await TaskModel.updateMany(
+      { workspace: workspaceId, assignedTo: memberUserId },
+      { $set: { assignedTo: reassignTo } }
+    ).session(session);
+
+    if (nextOwnerId && workspace.owner.equals(memberUserId)) {
+      workspace.owner = nextOwnerId;
+      await workspace.save({ session });
+    }
+
+    await member.deleteOne({ session });
+
+    // The inbox links to tasks of this workspace, which the user can no longer open
+    await NotificationModel.deleteMany({
+      recipient: memberUserId,
+      workspace: workspaceId,
+    }).session(session);
+
+    const user = await UserModel.findById(memberUserId).session(session);
+    if (user?.currentWorkspace?.equals(workspaceId)) {
+      const otherMembership = await MemberModel.findOne({
+        userId: memberUserId,
+        workspaceId: { $ne: workspaceId },
+      }).session(session);
+
+      user.currentWorkspace = otherMembership
+        ? otherMembership.workspaceId
+        : null;
+      await user.save({ session });
+    }
+
+    await session.commitTransaction();
+    session.endSession();
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+
+  for (const task of affectedTasks) {
+    await recordTaskActivityService({
+      task: task._id as mongoose.Types.ObjectId,
+      workspace: workspaceId,
+      actor: actorId,
+      action: TaskActivityActionEnum.UPDATED,
+      changes: [
+        {
+          field: "assignedTo",
+          oldValue: String(memberUserId),
+          newValue: reassignTo,
+        },
+      ],
+    });
+  }
+
+  return {
+    role: member.role?.name ?? null,
+    tasksAffected: affectedTasks.length,
+    reassignedTo: reassignTo,
+  };
+};
+
+/**
+ * The function `removeMemberService` removes another member from a workspace. The removed member's
+ * tasks are unassigned, or reassigned when `reassignTasksTo` is given.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} memberUserId - The user ID of the member to remove.
+ * @param actor - The user ID and role of the member performing the removal; members whose role
+ * grants permissions the actor lacks cannot be removed.
+ * @param options - The optional `reassignTasksTo` user ID.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object with the number of `tasksAffected` and who they were `reassignedTo`.
+ */
+export const removeMemberService = async (
+  workspaceId: string,
+  memberUserId: string,
+  actor: { userId: string; role: Pick<RoleDocument, "permissions"> },
+  options: MemberTaskOptions,
+  auditContext: AuditContextType
+) => {
+  if (String(actor.userId) === memberUserId) {
+    throw new BadRequestException(
+      "You cannot remove yourself. Leave the workspace instead."
+    );
+  }
+
+  const member = await MemberModel.findOne({
+    userId: memberUserId,
+    workspaceId,
+  }).populate("role");
+  if (!member) {
+    throw new NotFoundException("Member not found in the workspace");
+  }
+
+  const memberPermissions = member.role?.permissions || [];
+  if (memberPermissions.some((p) => !actor.role.permissions.includes(p))) {
+    throw new UnauthorizedException(
+      "You cannot remove a member whose role has permissions you do not have",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  const result = await detachMemberFromWorkspace(
+    workspaceId,
+    memberUserId,
+    actor.userId,
+    options
+  );
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.MEMBER_REMOVED,
+    workspace: workspaceId,
+    targetType: "Member",
+    targetId: memberUserId,
+    before: { role: result.role },
+    after: {
+      tasksAffected: result.tasksAffected,
+      reassignedTo: result.reassignedTo,
+    },
+  });
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.MEMBER_REMOVED, {
+    member: { userId: memberUserId, role: result.role },
+    tasksAffected: result.tasksAffected,
+    reassignedTo: result.reassignedTo,
+  });
+
+  return {
+    tasksAffected: result.tasksAffected,
+    reassignedTo: result.reassignedTo,
+  };
+};
+
+/**
+ * The function `leaveWorkspaceService` lets the signed-in user leave a workspace. The last owner of
+ * a workspace cannot leave until ownership has been transferred.
+ * @param {string} workspaceId - The unique identifier of the workspace to leave.
+ * @param {string} userId - The unique identifier of the user leaving.
+ * @param options - The optional `reassignTasksTo` user ID for the user's assigned tasks.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object with the user's new `currentWorkspace` and the number of `tasksAffected`.
+ */
+export const leaveWorkspaceService = async (
+  workspaceId: string,
+  userId: string,
+  options: MemberTaskOptions,
+  auditContext: AuditContextType
+) => {
+  const result = await detachMemberFromWorkspace(
+    workspaceId,
+    userId,
+    userId,
+    options
+  );
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.MEMBER_LEFT,
+    workspace: workspaceId,
+    targetType: "Member",
+    targetId: userId,
+    before: { role: result.role },
+    after: {
+      tasksAffected: result.tasksAffected,
+      reassignedTo: result.reassignedTo,
+    },
+  });
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.MEMBER_LEFT, {
+    member: { userId: userId, role: result.role },
+    tasksAffected: result.tasksAffected,
+    reassignedTo: result.reassignedTo,
+  });
+
+  const user = await UserModel.findById(userId).select("currentWorkspace");
+
+  return {
+    currentWorkspace: user?.currentWorkspace ?? null,
+    tasksAffected: result.tasksAffected,
+  };
+};
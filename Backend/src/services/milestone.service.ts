@@ -0,0 +1,207 @@
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import MilestoneModel from "../models/milestone.model";
+import TaskModel from "../models/task.model";
+import { NotFoundException } from "../utils/appError";
+import { getStatusKeysInCategory } from "../utils/workflow";
+import { getProjectInWorkspace } from "./project.service";
+import { recordBulkTaskUpdateService } from "./task-activity.service";
+
+/**
+ * The function `assertMilestoneInProject` checks that a milestone belongs to the project a task is
+ * being planned in.
+ * @param {string} projectId - The project the task belongs to.
+ * @param {string} milestoneId - The milestone the task is being planned for.
+ */
+export const assertMilestoneInProject = async (
+  projectId: string,
+  milestoneId: string
+) => {
+  const milestone = await MilestoneModel.findOne({
+    _id: milestoneId,
+    project: projectId,
+  });
+
+  if (!milestone) {
+    throw new NotFoundException(
+      "Milestone not found or does not belong to the specified project"
+    );
+  }
+
+  return milestone;
+};
+
+/**
+ * The function `createMilestoneService` adds a milestone with a target date to a project.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} userId - The user creating the milestone.
+ * @param body - The `name`, optional `description` and `targetDate` of the milestone.
+ * @returns An object containing the created `milestone`.
+ */
+export const createMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: {
+    name: string;
+    description?: string | null | undefined;
+    targetDate: string;
+  }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const milestone = await MilestoneModel.create({
+    name: body.name,
+    description: body.description || null,
+    targetDate: new Date(body.targetDate),
+    project: project._id,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { milestone };
+};
+
+/**
+ * The function `getProjectMilestonesService` lists the milestones of a project by target date, with
+ * their progress computed from the tasks planned for each one.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @returns An object containing the `milestones`, each with a `progress` and an `isOverdue` flag.
+ */
+export const getProjectMilestonesService = async (
+  workspaceId: string,
+  projectId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const [milestones, taskCounts] = await Promise.all([
+    MilestoneModel.find({ project: project._id })
+      .sort({ targetDate: 1 })
+      .lean(),
+    TaskModel.aggregate([
+      { $match: { project: project._id, milestone: { $ne: null } } },
+      {
+        $group: {
+          _id: "$milestone",
+          totalTasks: { $sum: 1 },
+          completedTasks: {
+            $sum: {
+              $cond: [
+                {
+                  $in: [
+                    "$status",
+                    getStatusKeysInCategory(
+                      project,
+                      TaskStatusCategoryEnum.DONE
+                    ),
+                  ],
+                },
+                1,
+                0,
+              ],
+            },
+          },
+        },
+      },
+    ]),
+  ]);
+
+  const countsByMilestone = new Map(
+    taskCounts.map((count) => [String(count._id), count])
+  );
+  const now = new Date();
+
+  return {
+    milestones: milestones.map((milestone) => {
+      const counts = countsByMilestone.get(String(milestone._id));
+      const totalTasks = counts?.totalTasks || 0;
+      const completedTasks = counts?.completedTasks || 0;
+
+      return {
+        ...milestone,
+        progress: {
+          totalTasks,
+          completedTasks,
+          percentage:
+            totalTasks > 0
+              ? Math.round((completedTasks / totalTasks) * 100)
+              : 0,
+        },
+        isOverdue: milestone.targetDate < now && completedTasks < totalTasks,
+      };
+    }),
+  };
+};
+
+/**
+ * The function `updateMilestoneService` changes the name, description and target date of a
+ * milestone.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} milestoneId - The unique identifier of the milestone.
+ * @param body - The new `name`, `description` and `targetDate`.
+ * @returns An object containing the updated `milestone`.
+ */
+export const updateMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  milestoneId: string,
+  body: {
+    name: string;
+    description?: string | null | undefined;
+    targetDate: string;
+  }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const milestone = await assertMilestoneInProject(
+    String(project._id),
+    milestoneId
+  );
+
+  milestone.name = body.name;
+  milestone.description = body.description || null;
+  milestone.targetDate = new Date(body.targetDate);
+  await milestone.save();
+
+  return { milestone };
+};
+
+/**
+ * The function `deleteMilestoneService` deletes a milestone. Its tasks stay in the project without
+ * a milestone.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} milestoneId - The unique identifier of the milestone to delete.
+ * @param {string} userId - The member deleting the milestone, recorded in the history of its tasks.
+ * @returns The `deleteMilestoneService` function is returning nothing (`undefined`).
+ */
+export const deleteMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  milestoneId: string,
+  userId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const milestone = await assertMilestoneInProject(
+    String(project._id),
+    milestoneId
+  );
+
+  const tasks = await TaskModel.find({ milestone: milestone._id });
+  await TaskModel.updateMany(
+    { milestone: milestone._id },
+    { $set: { milestone: null } }
+  );
+  await milestone.deleteOne();
+
+  await recordBulkTaskUpdateService({
+    tasks,
+    workspace: workspaceId,
+    actor: userId,
+    field: "milestone",
+    value: null,
+  });
+
+  return;
+};
@@ -0,0 +1,184 @@
+import mongoose from "mongoose";
+import { NotificationTypeEnumType } from "../enums/notification.enum";
+import NotificationModel from "../models/notification.model";
+import { TaskDocument } from "../models/task.model";
+import UserModel from "../models/user.model";
+import { NotFoundException } from "../utils/appError";
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+/**
+ * The function `notifyUsersService` adds a notification about a task to the inbox of each
+ * recipient. The user who made the change and users who opted out of the type are skipped. A
+ * failure here never fails the change that caused the notification.
+ * @param notification - The `type`, the `recipients`, the `actor` who made the change, the `task`
+ * it is about and any extra `data` to show with it.
+ */
+export const notifyUsersService = async (notification: {
+  type: NotificationTypeEnumType;
+  recipients: (ObjectIdLike | null | undefined)[];
+  actor: ObjectIdLike;
+  task: TaskDocument;
+  data?: Record<string, unknown>;
+}) => {
+  const { type, actor, task } = notification;
+
+  const recipientIds = [
+    ...new Set(
+      notification.recipients
+        .filter((recipient) => !!recipient)
+        .map((recipient) => String(recipient))
+    ),
+  ].filter((recipient) => recipient !== String(actor));
+  if (recipientIds.length === 0) return;
+
+  try {
+    const recipients = await UserModel.find({
+      _id: { $in: recipientIds },
+      notificationOptOuts: { $ne: type },
+    }).select("_id");
+    if (recipients.length === 0) return;
+
+    await NotificationModel.insertMany(
+      recipients.map((recipient) => ({
+        recipient: recipient._id,
+        workspace: task.workspace,
+        actor,
+        type,
+        task: task._id,
+        data: {
+          taskCode: task.taskCode,
+          taskTitle: task.title,
+          project: task.project,
+          ...notification.data,
+        },
+      }))
+    );
+  } catch (error) {
+    console.error(`Failed to create ${type} notifications:`, error);
+  }
+};
+
+/**
+ * The function `getUserNotificationsService` lists the notifications in a user's inbox, newest
+ * first.
+ * @param {string} userId - The unique identifier of the user.
+ * @param filters - Set `unreadOnly` to leave out notifications that were read.
+ * @param pagination - The `pageSize` and `pageNumber` to return.
+ * @returns An object with the `notifications`, the `unreadCount` and the `pagination` details.
+ */
+export const getUserNotificationsService = async (
+  userId: string,
+  filters: { unreadOnly?: boolean | undefined },
+  pagination: { pageSize: number; pageNumber: number }
+) => {
+  const query: Record<string, unknown> = { recipient: userId };
+  if (filters.unreadOnly) {
+    query.readAt = null;
+  }
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [notifications, totalCount, unreadCount] = await Promise.all([
+    NotificationModel.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(pageSize)
+      .populate("actor", "_id name profilePicture")
+      .lean(),
+    NotificationModel.countDocuments(query),
+    NotificationModel.countDocuments({ recipient: userId, readAt: null }),
+  ]);
+
+  return {
+    notifications,
+    unreadCount,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages: Math.ceil(totalCount / pageSize),
+      skip,
+    },
+  };
+};
+
+/**
+ * The function `markNotificationReadService` marks one notification in a user's inbox as read.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} notificationId - The unique identifier of the notification.
+ * @returns An object with the updated `notification`.
+ */
+export const markNotificationReadService = async (
+  userId: string,
+  notificationId: string
+) => {
+  const notification = await NotificationModel.findOne({
+    _id: notificationId,
+    recipient: userId,
+  });
+  if (!notification) {
+    throw new NotFoundException("Notification not found");
+  }
+
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  return { notification };
+};
+
+/**
+ * The function `markAllNotificationsReadService` marks every unread notification in a user's inbox
+ * as read.
+ * @param {string} userId - The unique identifier of the user.
+ * @returns An object with the number of notifications `updated`.
+ */
+export const markAllNotificationsReadService = async (userId: string) => {
+  const result = await NotificationModel.updateMany(
+    { recipient: userId, readAt: null },
+    { $set: { readAt: new Date() } }
+  );
+
+  return { updated: result.modifiedCount };
+};
+
+/**
+ * The function `getNotificationPreferencesService` returns the notification types a user opted out
+ * of.
+ * @param {string} userId - The unique identifier of the user.
+ * @returns An object with the user's `optOuts`.
+ */
+export const getNotificationPreferencesService = async (userId: string) => {
+  const user = await UserModel.findById(userId).select("notificationOptOuts");
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  return { optOuts: user.notificationOptOuts };
+};
+
+/**
+ * The function `updateNotificationPreferencesService` replaces the notification types a user opted
+ * out of. Opting out only affects notifications created afterwards.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {NotificationTypeEnumType[]} optOuts - The types the user no longer wants.
+ * @returns An object with the user's `optOuts`.
+ */
+export const updateNotificationPreferencesService = async (
+  userId: string,
+  optOuts: NotificationTypeEnumType[]
+) => {
+  const user = await UserModel.findByIdAndUpdate(
+    userId,
+    { $set: { notificationOptOuts: [...new Set(optOuts)] } },
+    { new: true }
+  ).select("notificationOptOuts");
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  return { optOuts: user.notificationOptOuts };
+};
@@ -0,0 +1,109 @@
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ProviderEnum } from "../enums/account-provider.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { sendMail } from "../mail/mail.transport";
+import { passwordResetEmail } from "../mail/templates";
+import AccountModel from "../models/account.model";
+import PasswordResetTokenModel from "../models/password-reset-token.model";
+import UserModel from "../models/user.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { generateToken, hashToken } from "../utils/token";
+import { recordAuditLogService } from "./audit-log.service";
+import { destroyUserSessionsService } from "./session.service";
+
+/**
+ * The function `requestPasswordResetService` mails a single-use reset link to an email/password
+ * account. Nothing is revealed about whether the email is registered; unknown emails and accounts
+ * without a password are silently ignored.
+ * @param {string} email - The email address the reset was requested for.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const requestPasswordResetService = async (
+  email: string,
+  auditContext: AuditContextType
+) => {
+  const account = await AccountModel.findOne({
+    provider: ProviderEnum.EMAIL,
+    providerId: email.toLowerCase(),
+  });
+  if (!account) return;
+
+  const user = await UserModel.findById(account.userId);
+  if (!user) return;
+
+  // Only the most recent link stays valid
+  await PasswordResetTokenModel.deleteMany({ userId: user._id, usedAt: null });
+
+  const token = generateToken();
+  const expiresAt = new Date(
+    Date.now() + Number(config.PASSWORD_RESET_EXPIRES_IN_MINUTES) * 60 * 1000
+  );
+  await PasswordResetTokenModel.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt,
+  });
+
+  const { subject, text } = passwordResetEmail({
+    name: user.name,
+    resetUrl: `${config.FRONTEND_ORIGIN}/reset-password?token=${token}`,
+    expiresAt,
+  });
+  await sendMail({ to: user.email, subject, text });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.PASSWORD_RESET_REQUESTED,
+    actor: user._id as mongoose.Types.ObjectId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+  });
+};
+
+/**
+ * The function `resetPasswordService` sets a new password using a token from a reset email. The
+ * token is consumed atomically so it cannot be used twice, and every existing session of the user
+ * is destroyed afterwards.
+ * @param body - The `token` from the email and the new `password`.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const resetPasswordService = async (
+  body: { token: string; password: string },
+  auditContext: AuditContextType
+) => {
+  const resetToken = await PasswordResetTokenModel.findOneAndUpdate(
+    {
+      tokenHash: hashToken(body.token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+  if (!resetToken) {
+    throw new BadRequestException(
+      "This password reset link is invalid or has expired",
+      ErrorCodeEnum.AUTH_INVALID_TOKEN
+    );
+  }
+
+  const user = await UserModel.findById(resetToken.userId);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+
+  user.password = body.password;
+  await user.save();
+
+  const { destroyedCount } = await destroyUserSessionsService(String(user._id));
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.PASSWORD_RESET_COMPLETED,
+    actor: user._id as mongoose.Types.ObjectId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+    after: { sessionsRevoked: destroyedCount },
+  });
+};
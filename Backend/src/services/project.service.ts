@@ -1,9 +1,28 @@
 import { notDeepEqual } from "assert";
-import ProjectModel from "../models/project.model";
-import { NotFoundException } from "../utils/appError";
+import ProjectModel, {
+  ProjectStatusType,
+  ProjectTransitionType,
+} from "../models/project.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
 import TaskModel from "../models/task.model";
+import SprintModel from "../models/sprint.model";
+import MilestoneModel from "../models/milestone.model";
+import EpicModel from "../models/epic.model";
+import CommentModel from "../models/comment.model";
+import TaskActivityModel from "../models/task-activity.model";
 import mongoose from "mongoose";
-import { TaskStatusEnum } from "../enums/task.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import { AuditContextType } from "../utils/audit-context";
+import {
+  emptyCategoryCounts,
+  getProjectStatus,
+  getProjectStatuses,
+  getStatusKeysInCategory,
+} from "../utils/workflow";
+import { recordAuditLogService } from "./audit-log.service";
+import { emitWorkspaceEvent } from "./workspace-event.service";
 
 /**
  * The function `createProjectService` creates a new project associated with a user and workspace in a
@@ -35,6 +54,10 @@ export const createProjectService = async (
 
   await project.save();
 
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.PROJECT_CREATED, {
+    project,
+  });
+
   return { project };
 };
 
@@ -102,7 +125,7 @@ export const getProjectByIdAndWorkspaceIdService = async (
   const project = await ProjectModel.findOne({
     _id: projectId,
     workspace: workspaceId,
-  }).select("_id emoji name description");
+  }).select("_id emoji name description statuses transitions");
 
   if (!project) {
     throw new NotFoundException(
@@ -112,6 +135,32 @@ export const getProjectByIdAndWorkspaceIdService = async (
   return { project };
 };
 
+/**
+ * The function `getProjectInWorkspace` loads a project of a workspace for the services that plan
+ * work inside it, such as sprints, milestones and epics.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} projectId - The unique identifier of the project.
+ * @returns The project document. A `NotFoundException` is thrown if the project is not found or
+ * does not belong to the workspace.
+ */
+export const getProjectInWorkspace = async (
+  workspaceId: string,
+  projectId: string
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to the specified workspace"
+    );
+  }
+
+  return project;
+};
+
 /**
  * This TypeScript function retrieves project analytics including total tasks, overdue tasks, and
  * completed tasks using Mongoose aggregate.
@@ -124,8 +173,9 @@ export const getProjectByIdAndWorkspaceIdService = async (
  * which contains the following analytics data:
  * - `totalTasks`: The total number of tasks in the project.
  * - `overdueTasks`: The number of tasks in the project that are overdue (due date is before the
- * current date and status is not 'DONE').
- * - `completedTasks`: The number of tasks in the
+ * current date and status is not in the done category).
+ * - `completedTasks`: The number of tasks in a status of the done category.
+ * - `tasksByCategory`: The number of tasks in each status category of the project's workflow.
  */
 export const getProjectAnalyticsService = async (
   workspaceId: string,
@@ -140,6 +190,10 @@ export const getProjectAnalyticsService = async (
   }
 
   const currentDate = new Date();
+  const doneStatuses = getStatusKeysInCategory(
+    project,
+    TaskStatusCategoryEnum.DONE
+  );
 
   //  USING MONGOOSE AGGREGATE
   const taskAnalytics = await TaskModel.aggregate([
@@ -156,7 +210,7 @@ export const getProjectAnalyticsService = async (
             $match: {
               dueDate: { $lt: currentDate },
               status: {
-                $ne: TaskStatusEnum.DONE,
+                $nin: doneStatuses,
               },
             },
           },
@@ -167,20 +221,31 @@ export const getProjectAnalyticsService = async (
         completedTasks: [
           {
             $match: {
-              status: TaskStatusEnum.DONE,
+              status: { $in: doneStatuses },
             },
           },
           { $count: "count" },
         ],
+        statusCounts: [{ $group: { _id: "$status", count: { $sum: 1 } } }],
       },
     },
   ]);
 
   const _analytics = taskAnalytics[0];
+
+  const tasksByCategory = emptyCategoryCounts();
+  _analytics.statusCounts.forEach(
+    ({ _id: status, count }: { _id: string; count: number }) => {
+      const category = getProjectStatus(project, status)?.category;
+      if (category) tasksByCategory[category] += count;
+    }
+  );
+
   const analytics = {
     totalTasks: _analytics.totalTasks[0]?.count || 0,
     overdueTasks: _analytics.overdueTasks[0]?.count || 0,
     completedTasks: _analytics.completedTasks[0]?.count || 0,
+    tasksByCategory,
   };
 
   return {
@@ -225,6 +290,102 @@ export const updateProjectService = async (
 
   await project.save();
 
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.PROJECT_UPDATED, {
+    project,
+  });
+
+  return { project };
+};
+
+/**
+ * The function `updateProjectWorkflowService` replaces the ordered statuses of a project and the
+ * transitions allowed between them. A status can only be removed once no task uses it, and at least
+ * one status must count as done.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param body - The `statuses`, each with a `key`, `name` and `category`, and the `transitions`
+ * between status keys. No transitions means tasks can move freely.
+ * @returns An object containing the updated `project`.
+ */
+export const updateProjectWorkflowService = async (
+  workspaceId: string,
+  projectId: string,
+  body: {
+    statuses: ProjectStatusType[];
+    transitions: ProjectTransitionType[];
+  }
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to the specified workspace"
+    );
+  }
+
+  const keys = body.statuses.map((status) => status.key);
+  if (new Set(keys).size !== keys.length) {
+    throw new BadRequestException("Each status must have a unique key");
+  }
+
+  if (
+    !body.statuses.some(
+      (status) => status.category === TaskStatusCategoryEnum.DONE
+    )
+  ) {
+    throw new BadRequestException(
+      "At least one status must be in the done category"
+    );
+  }
+
+  const unknownKey = body.transitions
+    .flatMap((transition) => [transition.from, transition.to])
+    .find((key) => !keys.includes(key));
+  if (unknownKey) {
+    throw new BadRequestException(
+      `Transition refers to unknown status "${unknownKey}"`
+    );
+  }
+
+  const removedKeys = getProjectStatuses(project)
+    .map((status) => status.key)
+    .filter((key) => !keys.includes(key));
+  if (removedKeys.length > 0) {
+    const tasksInUse = await TaskModel.aggregate([
+      { $match: { project: project._id, status: { $in: removedKeys } } },
+      { $group: { _id: "$status", count: { $sum: 1 } } },
+    ]);
+    if (tasksInUse.length > 0) {
+      throw new BadRequestException(
+        `Move the tasks out of ${tasksInUse
+          .map(({ _id, count }) => `"${_id}" (${count})`)
+          .join(", ")} before removing ${
+          tasksInUse.length === 1 ? "it" : "them"
+        }`
+      );
+    }
+  }
+
+  // Duplicates and self-transitions carry no meaning and are dropped
+  const transitions = body.transitions.filter(
+    (transition, index, all) =>
+      transition.from !== transition.to &&
+      all.findIndex(
+        (other) => other.from === transition.from && other.to === transition.to
+      ) === index
+  );
+
+  project.statuses = body.statuses;
+  project.transitions = transitions;
+  await project.save();
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.PROJECT_UPDATED, {
+    project,
+  });
+
   return { project };
 };
 
@@ -235,12 +396,14 @@ export const updateProjectService = async (
  * identifier of the workspace to which the project belongs.
  * @param {string} projectId - The `projectId` parameter represents the unique identifier of the
  * project that you want to delete.
+ * @param auditContext - The request details recorded in the audit log.
  * @returns The `deleteProjectService` function is returning the deleted project after deleting it from
  * the database.
  */
 export const deleteProjectService = async (
   workspaceId: string,
-  projectId: string
+  projectId: string,
+  auditContext: AuditContextType
 ) => {
   const project = await ProjectModel.findOne({
     _id: projectId,
@@ -252,10 +415,45 @@ export const deleteProjectService = async (
       "Project not found or does not belong to the specified workspace"
     );
   }
+  const tasks = await TaskModel.find({ project: project._id }).select("_id");
+  const taskIds = tasks.map((task) => task._id);
+
   await project.deleteOne();
   await TaskModel.deleteMany({
     project: project._id,
   });
+  await SprintModel.deleteMany({ project: project._id });
+  await MilestoneModel.deleteMany({ project: project._id });
+  await EpicModel.deleteMany({ project: project._id });
+  await CommentModel.deleteMany({
+    task: { $in: taskIds },
+  });
+  await TaskActivityModel.deleteMany({
+    task: { $in: taskIds },
+  });
+
+  // Tasks in other projects can no longer be blocked by the deleted ones
+  await TaskModel.updateMany(
+    { workspace: workspaceId, blockedBy: { $in: taskIds } },
+    { $pull: { blockedBy: { $in: taskIds } } }
+  );
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.PROJECT_DELETED,
+    workspace: workspaceId,
+    targetType: "Project",
+    targetId: project._id as mongoose.Types.ObjectId,
+    before: {
+      name: project.name,
+      emoji: project.emoji,
+      taskCount: tasks.length,
+    },
+  });
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.PROJECT_DELETED, {
+    project,
+    deletedTaskCount: tasks.length,
+  });
 
   return project;
 };
@@ -0,0 +1,62 @@
+import mongoose from "mongoose";
+import { getPubSub } from "../realtime/pubsub";
+import { generateToken } from "../utils/token";
+
+export type RealtimeEventType = {
+  id: string;
+  event: string;
+  workspaceId: string;
+  data: Record<string, unknown>;
+  occurredAt: string;
+};
+
+const workspaceChannel = (workspaceId: string) => `workspace:${workspaceId}`;
+
+/**
+ * The function `publishWorkspaceEvent` broadcasts an event to every stream open on the workspace,
+ * on this and, depending on the pub/sub adapter, other instances. A failure here never fails the
+ * change that caused the event.
+ * @param {string} workspaceId - The workspace the event happened in.
+ * @param {string} event - The event name, e.g. `task.updated`.
+ * @param data - The event payload.
+ */
+export const publishWorkspaceEvent = async (
+  workspaceId: string | mongoose.Types.ObjectId,
+  event: string,
+  data: Record<string, unknown>
+) => {
+  const realtimeEvent: RealtimeEventType = {
+    id: generateToken(8),
+    event,
+    workspaceId: String(workspaceId),
+    data,
+    occurredAt: new Date().toISOString(),
+  };
+
+  try {
+    await getPubSub().publish(
+      workspaceChannel(String(workspaceId)),
+      JSON.stringify(realtimeEvent)
+    );
+  } catch (error) {
+    console.error(`Failed to publish realtime event ${event}:`, error);
+  }
+};
+
+/**
+ * The function `subscribeToWorkspaceEvents` listens to the events of a workspace.
+ * @param {string} workspaceId - The workspace to listen to.
+ * @param listener - Called with each event as it is published.
+ * @returns A function that stops listening.
+ */
+export const subscribeToWorkspaceEvents = (
+  workspaceId: string,
+  listener: (event: RealtimeEventType) => void
+) =>
+  getPubSub().subscribe(workspaceChannel(workspaceId), (message) => {
+    try {
+      listener(JSON.parse(message));
+    } catch (error) {
+      console.error("Failed to handle realtime event:", error);
+    }
+  });
@@ -0,0 +1,258 @@
+import mongoose from "mongoose";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { PermissionType } from "../enums/role.enum";
+import { InvitationStatusEnum } from "../enums/invitation-status.enum";
+import InvitationModel from "../models/invitation.model";
+import MemberModel from "../models/member.model";
+import RoleModel, { RoleDocument } from "../models/roles-permission.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { recordAuditLogService } from "./audit-log.service";
+import { getFallbackRole } from "./member.service";
+
+/**
+ * Makes sure a custom role never grants more than the role of the member defining it.
+ */
+export const assertCanGrantPermissions = (
+  actorRole: Pick<RoleDocument, "permissions">,
+  permissions: string[]
+) => {
+  const missing = permissions.filter(
+    (permission) =>
+      !actorRole.permissions.includes(permission as PermissionType)
+  );
+  if (missing.length > 0) {
+    throw new UnauthorizedException(
+      `You cannot grant permissions you do not have: ${missing.join(", ")}`
+    );
+  }
+};
+
+const getCustomRoleInWorkspace = async (
+  workspaceId: string,
+  roleId: string
+) => {
+  const role = await RoleModel.findOne({ _id: roleId, workspace: workspaceId });
+  if (!role) {
+    throw new NotFoundException(
+      "Role not found or is not a custom role of this workspace"
+    );
+  }
+  return role;
+};
+
+/**
+ * The function `createRoleService` defines a custom role for a workspace from a subset of the
+ * `Permissions` enum.
+ * @param {string} workspaceId - The unique identifier of the workspace the role belongs to.
+ * @param actorRole - The role of the member creating it; the new role cannot exceed it.
+ * @param body - The `name`, optional `description` and `permissions` of the role.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the created `role`.
+ */
+export const createRoleService = async (
+  workspaceId: string,
+  actorRole: Pick<RoleDocument, "permissions">,
+  body: {
+    name: string;
+    description?: string | undefined;
+    permissions: string[];
+  },
+  auditContext: AuditContextType
+) => {
+  assertCanGrantPermissions(actorRole, body.permissions);
+
+  const existingRole = await RoleModel.findOne({
+    workspace: workspaceId,
+    name: body.name,
+  });
+  if (existingRole) {
+    throw new BadRequestException("A role with this name already exists");
+  }
+
+  const role = new RoleModel({
+    name: body.name,
+    description: body.description || null,
+    workspace: workspaceId,
+    permissions: Array.from(new Set(body.permissions)),
+  });
+  await role.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.ROLE_CREATED,
+    workspace: workspaceId,
+    targetType: "Role",
+    targetId: role._id as mongoose.Types.ObjectId,
+    after: { name: role.name, permissions: role.permissions },
+  });
+
+  return { role };
+};
+
+/**
+ * The function `getWorkspaceRolesService` lists the built-in roles together with the custom roles
+ * of a workspace, including the number of members holding each role.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @returns An object containing the `roles`.
+ */
+export const getWorkspaceRolesService = async (workspaceId: string) => {
+  const roles = await RoleModel.find({
+    workspace: { $in: [null, workspaceId] },
+  })
+    .sort({ workspace: 1, createdAt: 1 })
+    .lean();
+
+  const memberCounts = await MemberModel.aggregate([
+    { $match: { workspaceId: new mongoose.Types.ObjectId(workspaceId) } },
+    { $group: { _id: "$role", count: { $sum: 1 } } },
+  ]);
+
+  const rolesWithCounts = roles.map((role) => ({
+    ...role,
+    isCustom: role.workspace !== null,
+    memberCount:
+      memberCounts.find((entry) => entry._id.equals(role._id))?.count || 0,
+  }));
+
+  return { roles: rolesWithCounts };
+};
+
+/**
+ * The function `updateRoleService` renames a custom role or changes its permissions. Built-in roles
+ * cannot be edited.
+ * @param {string} workspaceId - The unique identifier of the workspace the role belongs to.
+ * @param {string} roleId - The unique identifier of the custom role.
+ * @param actorRole - The role of the member editing it; the role cannot exceed it.
+ * @param body - The optional new `name`, `description` and `permissions`.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the updated `role`.
+ */
+export const updateRoleService = async (
+  workspaceId: string,
+  roleId: string,
+  actorRole: Pick<RoleDocument, "permissions">,
+  body: {
+    name?: string | undefined;
+    description?: string | undefined;
+    permissions?: string[] | undefined;
+  },
+  auditContext: AuditContextType
+) => {
+  const role = await getCustomRoleInWorkspace(workspaceId, roleId);
+
+  const before = { name: role.name, permissions: [...role.permissions] };
+
+  if (body.name && body.name !== role.name) {
+    const nameTaken = await RoleModel.exists({
+      workspace: workspaceId,
+      name: body.name,
+    });
+    if (nameTaken) {
+      throw new BadRequestException("A role with this name already exists");
+    }
+    role.name = body.name;
+  }
+  if (body.description !== undefined) role.description = body.description;
+  if (body.permissions) {
+    assertCanGrantPermissions(actorRole, body.permissions);
+    role.permissions = Array.from(
+      new Set(body.permissions)
+    ) as PermissionType[];
+  }
+
+  await role.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.ROLE_UPDATED,
+    workspace: workspaceId,
+    targetType: "Role",
+    targetId: role._id as mongoose.Types.ObjectId,
+    before,
+    after: { name: role.name, permissions: role.permissions },
+  });
+
+  return { role };
+};
+
+/**
+ * The function `deleteRoleService` deletes a custom role. Members holding it are moved to the given
+ * replacement role, or to the built-in MEMBER role when none is given.
+ * @param {string} workspaceId - The unique identifier of the workspace the role belongs to.
+ * @param {string} roleId - The unique identifier of the custom role to delete.
+ * @param {string} [replacementRoleId] - The role members are moved to.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object with the number of `reassignedMembers`.
+ */
+export const deleteRoleService = async (
+  workspaceId: string,
+  roleId: string,
+  replacementRoleId: string | undefined,
+  auditContext: AuditContextType
+) => {
+  const role = await getCustomRoleInWorkspace(workspaceId, roleId);
+
+  let replacementRole: RoleDocument;
+  if (replacementRoleId) {
+    const found = await RoleModel.findOne({
+      _id: replacementRoleId,
+      workspace: { $in: [null, workspaceId] },
+    });
+    if (!found || String(found._id) === roleId) {
+      throw new BadRequestException("Invalid replacement role");
+    }
+    replacementRole = found;
+  } else {
+    replacementRole = await getFallbackRole();
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+
+    const { modifiedCount } = await MemberModel.updateMany(
+      { workspaceId, role: role._id },
+      { $set: { role: replacementRole._id } }
+    ).session(session);
+
+    // Pending invitations carrying the role grant the replacement when accepted
+    await InvitationModel.updateMany(
+      {
+        workspace: workspaceId,
+        role: role._id,
+        status: InvitationStatusEnum.PENDING,
+      },
+      { $set: { role: replacementRole._id } }
+    ).session(session);
+
+    await role.deleteOne({ session });
+
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.ROLE_DELETED,
+        workspace: workspaceId,
+        targetType: "Role",
+        targetId: role._id as mongoose.Types.ObjectId,
+        before: { name: role.name, permissions: role.permissions },
+        after: {
+          reassignedTo: replacementRole.name,
+          reassignedMembers: modifiedCount,
+        },
+      },
+      session
+    );
+
+    await session.commitTransaction();
+    session.endSession();
+
+    return { reassignedMembers: modifiedCount };
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+};
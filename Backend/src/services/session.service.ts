@@ -0,0 +1,200 @@
+import mongoose from "mongoose";
+import { SESSION_COLLECTION_NAME } from "../config/session.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import UserSessionModel from "../models/user-session.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { describeUserAgent } from "../utils/user-agent";
+import { recordAuditLogService } from "./audit-log.service";
+
+// Saves a write on every request; "last seen" only needs to be roughly right
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * The function `destroyUserSessionsService` signs a user out everywhere by deleting their sessions
+ * from the Mongo session store.
+ * @param {string} userId - The unique identifier of the user whose sessions are removed.
+ * @param {string} [exceptSessionId] - A session to keep, such as the one making the request.
+ * @returns An object with the number of `destroyedCount` sessions.
+ */
+export const destroyUserSessionsService = async (
+  userId: string,
+  exceptSessionId?: string
+) => {
+  // Sessions are stored as JSON strings holding the serialized passport user
+  const query: Record<string, any> = {
+    session: {
+      $regex: `"passport":\\{"user":\\{[^}]*"_id":"${String(userId)}"`,
+    },
+  };
+  if (exceptSessionId) {
+    query._id = { $ne: exceptSessionId };
+  }
+
+  const { deletedCount } = await mongoose.connection
+    .collection(SESSION_COLLECTION_NAME)
+    .deleteMany(query);
+
+  await UserSessionModel.updateMany(
+    {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { sessionId: { $ne: exceptSessionId } }),
+    },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  return { destroyedCount: deletedCount };
+};
+
+/**
+ * The function `trackUserSessionService` records the device behind a signed-in session the first
+ * time it is used, and keeps its "last seen" time and IP up to date.
+ * @param data - The `sessionId`, the signed-in `userId` and when the session cookie `expiresAt`.
+ * @param {AuditContextType} auditContext - The IP and user agent of the request.
+ * @returns An object with `isRevoked` set when the session has been signed out remotely.
+ */
+export const trackUserSessionService = async (
+  data: { sessionId: string; userId: string; expiresAt: Date },
+  auditContext: AuditContextType
+) => {
+  const { sessionId, userId, expiresAt } = data;
+  const now = new Date();
+
+  const userSession = await UserSessionModel.findOneAndUpdate(
+    { sessionId },
+    {
+      $setOnInsert: {
+        userId,
+        device: describeUserAgent(auditContext.userAgent),
+        ip: auditContext.ip,
+        userAgent: auditContext.userAgent,
+        lastSeenAt: now,
+        expiresAt,
+      },
+    },
+    { upsert: true, new: true }
+  );
+
+  if (userSession.revokedAt) {
+    return { isRevoked: true };
+  }
+
+  if (
+    now.getTime() - userSession.lastSeenAt.getTime() >
+    LAST_SEEN_UPDATE_INTERVAL_MS
+  ) {
+    await UserSessionModel.updateOne(
+      { _id: userSession._id },
+      { $set: { lastSeenAt: now, ip: auditContext.ip } }
+    );
+  }
+  return { isRevoked: false };
+};
+
+/**
+ * The function `endUserSessionService` forgets a session that was signed out normally.
+ * @param {string} sessionId - The identifier of the session in the session store.
+ */
+export const endUserSessionService = async (sessionId: string) => {
+  await UserSessionModel.deleteOne({ sessionId });
+};
+
+/**
+ * The function `getUserSessionsService` lists a user's active sessions, most recently used first.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} currentSessionId - The session making the request, which is flagged `isCurrent`.
+ * @returns An object with the user's `sessions`.
+ */
+export const getUserSessionsService = async (
+  userId: string,
+  currentSessionId: string
+) => {
+  const userSessions = await UserSessionModel.find({
+    userId,
+    revokedAt: null,
+  })
+    .sort({ lastSeenAt: -1 })
+    .lean();
+
+  const sessions = userSessions.map((userSession) => ({
+    _id: userSession._id,
+    device: userSession.device,
+    ip: userSession.ip,
+    userAgent: userSession.userAgent,
+    lastSeenAt: userSession.lastSeenAt,
+    createdAt: userSession.createdAt,
+    isCurrent: userSession.sessionId === currentSessionId,
+  }));
+
+  return { sessions };
+};
+
+/**
+ * The function `revokeUserSessionService` signs one of the user's other devices out. The device is
+ * rejected on its very next request.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} userSessionId - The `_id` of the session record to revoke.
+ * @param {string} currentSessionId - The session making the request, which can't revoke itself.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ */
+export const revokeUserSessionService = async (
+  userId: string,
+  userSessionId: string,
+  currentSessionId: string,
+  auditContext: AuditContextType
+) => {
+  const userSession = await UserSessionModel.findOne({
+    _id: userSessionId,
+    userId,
+    revokedAt: null,
+  });
+  if (!userSession) {
+    throw new NotFoundException("Session not found");
+  }
+  if (userSession.sessionId === currentSessionId) {
+    throw new BadRequestException("Log out to end your current session");
+  }
+
+  userSession.revokedAt = new Date();
+  await userSession.save();
+
+  await mongoose.connection
+    .collection<{ _id: string }>(SESSION_COLLECTION_NAME)
+    .deleteOne({ _id: userSession.sessionId });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.SESSION_REVOKED,
+    targetType: "User",
+    targetId: userId,
+    before: { device: userSession.device, ip: userSession.ip },
+  });
+};
+
+/**
+ * The function `revokeOtherUserSessionsService` signs the user out on every device except the one
+ * making the request.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} currentSessionId - The session to keep.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the number of `destroyedCount` sessions.
+ */
+export const revokeOtherUserSessionsService = async (
+  userId: string,
+  currentSessionId: string,
+  auditContext: AuditContextType
+) => {
+  const { destroyedCount } = await destroyUserSessionsService(
+    userId,
+    currentSessionId
+  );
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.OTHER_SESSIONS_REVOKED,
+    targetType: "User",
+    targetId: userId,
+    after: { sessionsRevoked: destroyedCount },
+  });
+
+  return { destroyedCount };
+};
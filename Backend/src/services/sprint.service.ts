@@ -0,0 +1,349 @@
+import mongoose from "mongoose";
+import { SprintStatusEnum } from "../enums/sprint.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import SprintModel from "../models/sprint.model";
+import TaskModel from "../models/task.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import {
+  emptyCategoryCounts,
+  getProjectStatus,
+  getStatusKeysInCategory,
+} from "../utils/workflow";
+import { getProjectInWorkspace } from "./project.service";
+import { recordBulkTaskUpdateService } from "./task-activity.service";
+
+const getSprintInProject = async (projectId: string, sprintId: string) => {
+  const sprint = await SprintModel.findOne({
+    _id: sprintId,
+    project: projectId,
+  });
+
+  if (!sprint) {
+    throw new NotFoundException(
+      "Sprint not found or does not belong to the specified project"
+    );
+  }
+
+  return sprint;
+};
+
+/**
+ * The function `assertSprintAcceptsTasks` checks that tasks of a project can be planned into a
+ * sprint: it must belong to the same project and must not be closed.
+ * @param {string} projectId - The project the task belongs to.
+ * @param {string} sprintId - The sprint the task is being planned into.
+ */
+export const assertSprintAcceptsTasks = async (
+  projectId: string,
+  sprintId: string
+) => {
+  const sprint = await getSprintInProject(projectId, sprintId);
+
+  if (sprint.status === SprintStatusEnum.CLOSED) {
+    throw new BadRequestException("Tasks cannot be added to a closed sprint");
+  }
+
+  return sprint;
+};
+
+/**
+ * The function `createSprintService` plans a new sprint for a project.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} userId - The user creating the sprint.
+ * @param body - The `name`, optional `goal` and the `startDate` and `endDate` of the sprint.
+ * @returns An object containing the created `sprint`.
+ */
+export const createSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: {
+    name: string;
+    goal?: string | null | undefined;
+    startDate: string;
+    endDate: string;
+  }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const sprint = await SprintModel.create({
+    name: body.name,
+    goal: body.goal || null,
+    startDate: new Date(body.startDate),
+    endDate: new Date(body.endDate),
+    project: project._id,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { sprint };
+};
+
+/**
+ * The function `getProjectSprintsService` lists the sprints of a project in date order, with the
+ * number of tasks and completed tasks currently in each one.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @returns An object containing the `sprints` and the number of tasks left in the `backlog`.
+ */
+export const getProjectSprintsService = async (
+  workspaceId: string,
+  projectId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+
+  const [sprints, taskCounts, backlogCount] = await Promise.all([
+    SprintModel.find({ project: project._id }).sort({ startDate: 1 }).lean(),
+    TaskModel.aggregate([
+      { $match: { project: project._id, sprint: { $ne: null } } },
+      {
+        $group: {
+          _id: "$sprint",
+          taskCount: { $sum: 1 },
+          completedTaskCount: {
+            $sum: {
+              $cond: [
+                {
+                  $in: [
+                    "$status",
+                    getStatusKeysInCategory(
+                      project,
+                      TaskStatusCategoryEnum.DONE
+                    ),
+                  ],
+                },
+                1,
+                0,
+              ],
+            },
+          },
+        },
+      },
+    ]),
+    TaskModel.countDocuments({ project: project._id, sprint: null }),
+  ]);
+
+  const countsBySprint = new Map(
+    taskCounts.map((count) => [String(count._id), count])
+  );
+
+  return {
+    sprints: sprints.map((sprint) => ({
+      ...sprint,
+      taskCount: countsBySprint.get(String(sprint._id))?.taskCount || 0,
+      completedTaskCount:
+        countsBySprint.get(String(sprint._id))?.completedTaskCount || 0,
+    })),
+    backlog: { taskCount: backlogCount },
+  };
+};
+
+/**
+ * The function `updateSprintService` changes the name, goal and dates of a sprint that is not
+ * closed yet.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} sprintId - The unique identifier of the sprint.
+ * @param body - The new `name`, `goal`, `startDate` and `endDate`.
+ * @returns An object containing the updated `sprint`.
+ */
+export const updateSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string,
+  body: {
+    name: string;
+    goal?: string | null | undefined;
+    startDate: string;
+    endDate: string;
+  }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const sprint = await getSprintInProject(String(project._id), sprintId);
+
+  if (sprint.status === SprintStatusEnum.CLOSED) {
+    throw new BadRequestException("A closed sprint cannot be changed");
+  }
+
+  sprint.name = body.name;
+  sprint.goal = body.goal || null;
+  sprint.startDate = new Date(body.startDate);
+  sprint.endDate = new Date(body.endDate);
+  await sprint.save();
+
+  return { sprint };
+};
+
+/**
+ * The function `startSprintService` makes a planned sprint the active sprint of its project. A
+ * project runs one sprint at a time.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} sprintId - The unique identifier of the sprint to start.
+ * @returns An object containing the started `sprint`.
+ */
+export const startSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const sprint = await getSprintInProject(String(project._id), sprintId);
+
+  if (sprint.status !== SprintStatusEnum.PLANNED) {
+    throw new BadRequestException("Only a planned sprint can be started");
+  }
+
+  const activeSprint = await SprintModel.exists({
+    project: project._id,
+    status: SprintStatusEnum.ACTIVE,
+  });
+  if (activeSprint) {
+    throw new BadRequestException(
+      "Close the active sprint before starting another one"
+    );
+  }
+
+  sprint.status = SprintStatusEnum.ACTIVE;
+  await sprint.save();
+
+  return { sprint };
+};
+
+/**
+ * The function `closeSprintService` closes the active sprint of a project. Unfinished tasks move to
+ * the sprint given in `carryOverTo`, or back to the project backlog, and the sprint's metrics are
+ * saved in its `summary`.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} sprintId - The unique identifier of the sprint to close.
+ * @param {string} userId - The member closing the sprint, recorded in the history of moved tasks.
+ * @param body - The `carryOverTo` sprint for unfinished tasks, or `null` for the backlog.
+ * @returns An object containing the closed `sprint`.
+ */
+export const closeSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string,
+  userId: string,
+  body: { carryOverTo: string | null }
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const sprint = await getSprintInProject(String(project._id), sprintId);
+
+  if (sprint.status !== SprintStatusEnum.ACTIVE) {
+    throw new BadRequestException("Only the active sprint can be closed");
+  }
+
+  let carryOverSprint = null;
+  if (body.carryOverTo) {
+    if (String(body.carryOverTo) === String(sprint._id)) {
+      throw new BadRequestException(
+        "Unfinished tasks cannot be carried over to the sprint being closed"
+      );
+    }
+    carryOverSprint = await assertSprintAcceptsTasks(
+      String(project._id),
+      body.carryOverTo
+    );
+  }
+
+  const tasks = await TaskModel.find({ sprint: sprint._id });
+
+  const tasksByCategory = emptyCategoryCounts();
+  tasks.forEach((task) => {
+    const category = getProjectStatus(project, task.status)?.category;
+    if (category) tasksByCategory[category] += 1;
+  });
+
+  const doneStatuses = getStatusKeysInCategory(
+    project,
+    TaskStatusCategoryEnum.DONE
+  );
+  const unfinishedTasks = tasks.filter(
+    (task) => !doneStatuses.includes(task.status)
+  );
+  const unfinishedTaskIds = unfinishedTasks.map((task) => task._id);
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    await TaskModel.updateMany(
+      { _id: { $in: unfinishedTaskIds } },
+      { $set: { sprint: carryOverSprint?._id || null } },
+      { session }
+    );
+
+    sprint.status = SprintStatusEnum.CLOSED;
+    sprint.closedAt = new Date();
+    sprint.summary = {
+      totalTasks: tasks.length,
+      completedTasks: tasks.length - unfinishedTaskIds.length,
+      carriedOverTasks: unfinishedTaskIds.length,
+      tasksByCategory,
+      carriedOverTo:
+        (carryOverSprint?._id as mongoose.Types.ObjectId | undefined) || null,
+    };
+    await sprint.save({ session });
+
+    await session.commitTransaction();
+    session.endSession();
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+
+  await recordBulkTaskUpdateService({
+    tasks: unfinishedTasks,
+    workspace: workspaceId,
+    actor: userId,
+    field: "sprint",
+    value: carryOverSprint?._id || null,
+  });
+
+  return { sprint };
+};
+
+/**
+ * The function `deleteSprintService` deletes a sprint that has not been closed. Its tasks go back
+ * to the project backlog.
+ * @param {string} workspaceId - The unique identifier of the workspace the project belongs to.
+ * @param {string} projectId - The unique identifier of the project.
+ * @param {string} sprintId - The unique identifier of the sprint to delete.
+ * @param {string} userId - The member deleting the sprint, recorded in the history of its tasks.
+ * @returns The `deleteSprintService` function is returning nothing (`undefined`).
+ */
+export const deleteSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string,
+  userId: string
+) => {
+  const project = await getProjectInWorkspace(workspaceId, projectId);
+  const sprint = await getSprintInProject(String(project._id), sprintId);
+
+  // Closed sprints are the record of past work and stay
+  if (sprint.status === SprintStatusEnum.CLOSED) {
+    throw new BadRequestException("A closed sprint cannot be deleted");
+  }
+
+  const tasks = await TaskModel.find({ sprint: sprint._id });
+  await TaskModel.updateMany(
+    { sprint: sprint._id },
+    { $set: { sprint: null } }
+  );
+  await sprint.deleteOne();
+
+  await recordBulkTaskUpdateService({
+    tasks,
+    workspace: workspaceId,
+    actor: userId,
+    field: "sprint",
+    value: null,
+  });
+
+  return;
+};
@@ -0,0 +1,212 @@
+import mongoose from "mongoose";
+import {
+  TaskActivityActionEnum,
+  TaskActivityActionEnumType,
+} from "../enums/task-activity.enum";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import EpicModel from "../models/epic.model";
+import MilestoneModel from "../models/milestone.model";
+import SprintModel from "../models/sprint.model";
+import TaskActivityModel, {
+  TaskFieldChange,
+} from "../models/task-activity.model";
+import { TaskDocument } from "../models/task.model";
+import UserModel from "../models/user.model";
+import { emitWorkspaceEvent } from "./workspace-event.service";
+
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "assignedTo",
+  "dueDate",
+  "sprint",
+  "milestone",
+  "epic",
+] as const;
+
+// Fields that point at a sprint, milestone or epic, whose names the timeline shows
+const PLAN_FIELDS = ["sprint", "milestone", "epic"];
+
+type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number];
+type TaskSnapshot = Partial<Record<TrackedTaskField, unknown>>;
+
+// Store ids and dates as plain strings so history stays readable and comparable
+const normalizeValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  return value;
+};
+
+/**
+ * The function `snapshotTask` picks the tracked fields of a task in their normalized form.
+ */
+export const snapshotTask = (task: TaskDocument): TaskSnapshot =>
+  Object.fromEntries(
+    TRACKED_TASK_FIELDS.map((field) => [field, normalizeValue(task[field])])
+  );
+
+/**
+ * The function `diffTaskSnapshots` compares two snapshots and returns one entry per tracked field
+ * whose value changed.
+ */
+export const diffTaskSnapshots = (
+  before: TaskSnapshot,
+  after: TaskSnapshot
+): TaskFieldChange[] =>
+  TRACKED_TASK_FIELDS.filter(
+    (field) => (before[field] ?? null) !== (after[field] ?? null)
+  ).map((field) => ({
+    field,
+    oldValue: before[field] ?? null,
+    newValue: after[field] ?? null,
+  }));
+
+/**
+ * The function `recordTaskActivityService` appends an entry to a task's history. Updates that did
+ * not change any tracked field are not recorded.
+ * @param data - The `task` and `workspace` the entry belongs to, the `actor` who made the change,
+ * the `action` taken and the field-level `changes`.
+ */
+export const recordTaskActivityService = async (data: {
+  task: mongoose.Types.ObjectId | string;
+  workspace: mongoose.Types.ObjectId | string;
+  actor: mongoose.Types.ObjectId | string;
+  action: TaskActivityActionEnumType;
+  changes: TaskFieldChange[];
+}) => {
+  if (
+    data.action === TaskActivityActionEnum.UPDATED &&
+    data.changes.length === 0
+  ) {
+    return;
+  }
+
+  await TaskActivityModel.create(data);
+};
+
+/**
+ * The function `recordBulkTaskUpdateService` records a change of one field made to many tasks at
+ * once, such as unfinished tasks carried over when a sprint closes. Each task gets its history entry
+ * and a `task.updated` event, as it would for a change made through `updateTaskService`.
+ * @param data - The `tasks` as they were before the change, their `workspace`, the `actor` who made
+ * the change, the `field` that changed and its `value` after the change.
+ */
+export const recordBulkTaskUpdateService = async (data: {
+  tasks: TaskDocument[];
+  workspace: mongoose.Types.ObjectId | string;
+  actor: mongoose.Types.ObjectId | string;
+  field: TrackedTaskField;
+  value: unknown;
+}) => {
+  const { tasks, workspace, actor, field, value } = data;
+
+  for (const task of tasks) {
+    const before = snapshotTask(task);
+    const changes = diffTaskSnapshots(before, {
+      ...before,
+      [field]: normalizeValue(value),
+    });
+
+    await recordTaskActivityService({
+      task: task._id as mongoose.Types.ObjectId,
+      workspace,
+      actor,
+      action: TaskActivityActionEnum.UPDATED,
+      changes,
+    });
+    if (changes.length === 0) continue;
+
+    await emitWorkspaceEvent(workspace, WebhookEventEnum.TASK_UPDATED, {
+      task: { ...task.toObject(), [field]: value },
+      changes,
+    });
+  }
+};
+
+/**
+ * The function `getTaskHistoryService` returns the history of a task, newest first.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task.
+ * @param pagination - The `pageSize` and `pageNumber` of the history page to fetch.
+ * @returns An object containing the `activities`, a `users` map of id to name for the assignees
+ * they mention, a `plans` map of id to name for the sprints, milestones and epics they mention, and
+ * the `pagination` details.
+ */
+export const getTaskHistoryService = async (
+  workspaceId: string,
+  taskId: string,
+  pagination: {
+    pageSize: number;
+    pageNumber: number;
+  }
+) => {
+  const query = { task: taskId, workspace: workspaceId };
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [activities, totalCount] = await Promise.all([
+    TaskActivityModel.find(query)
+      .skip(skip)
+      .limit(pageSize)
+      .sort({ createdAt: -1 })
+      .populate("actor", "_id name profilePicture"),
+    TaskActivityModel.countDocuments(query),
+  ]);
+
+  // Assignee changes store user ids; attach display names for the timeline
+  const assigneeIds = new Set<string>();
+  activities.forEach((activity) =>
+    activity.changes
+      .filter((change) => change.field === "assignedTo")
+      .forEach((change) =>
+        [change.oldValue, change.newValue].forEach(
+          (value) => value && assigneeIds.add(value as string)
+        )
+      )
+  );
+  const assignees = await UserModel.find({
+    _id: { $in: Array.from(assigneeIds) },
+  }).select("_id name");
+
+  const planIds = new Set<string>();
+  activities.forEach((activity) =>
+    activity.changes
+      .filter((change) => PLAN_FIELDS.includes(change.field))
+      .forEach((change) =>
+        [change.oldValue, change.newValue].forEach(
+          (value) => value && planIds.add(value as string)
+        )
+      )
+  );
+  const planQuery = { _id: { $in: Array.from(planIds) } };
+  const plans = (
+    await Promise.all([
+      SprintModel.find(planQuery).select("_id name"),
+      MilestoneModel.find(planQuery).select("_id name"),
+      EpicModel.find(planQuery).select("_id name"),
+    ])
+  ).flat();
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  return {
+    activities,
+    users: Object.fromEntries(
+      assignees.map((user) => [String(user._id), user.name])
+    ),
+    plans: Object.fromEntries(
+      plans.map((plan) => [String(plan._id), plan.name])
+    ),
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages,
+      skip,
+    },
+  };
+};
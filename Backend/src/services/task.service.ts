@@ -1,8 +1,53 @@
-import { TaskPriorityEnum, TaskStatusEnum } from "../enums/task.enum";
+import mongoose from "mongoose";
+import {
+  TaskPriorityEnum,
+  TaskStatusCategoryEnum,
+  WipLimitModeEnum,
+} from "../enums/task.enum";
+import CommentModel from "../models/comment.model";
 import MemberModel from "../models/member.model";
-import ProjectModel from "../models/project.model";
-import TaskModel from "../models/task.model";
+import ProjectModel, {
+  ProjectDocument,
+  ProjectStatusType,
+} from "../models/project.model";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import { NotificationTypeEnum } from "../enums/notification.enum";
+import { WebhookEventEnum } from "../enums/webhook.enum";
 import { BadRequestException, NotFoundException } from "../utils/appError";
+import { rankBetween } from "../utils/rank";
+import {
+  DEFAULT_PROJECT_STATUSES,
+  getProjectStatus,
+  getProjectStatuses,
+  isDoneStatus,
+  isTransitionAllowed,
+} from "../utils/workflow";
+import {
+  diffTaskSnapshots,
+  recordTaskActivityService,
+  snapshotTask,
+} from "./task-activity.service";
+import { emitWorkspaceEvent } from "./workspace-event.service";
+import { notifyUsersService } from "./notification.service";
+import { assertSprintAcceptsTasks } from "./sprint.service";
+import { assertMilestoneInProject } from "./milestone.service";
+import { assertEpicInProject } from "./epic.service";
+
+// The board shows at most this many tasks per column
+const BOARD_COLUMN_LIMIT = 100;
+
+/**
+ * The function `getNextSubtaskOrder` returns the order that places a new subtask after its
+ * siblings. It follows the highest order rather than the count, which repeats after a deletion.
+ */
+const getNextSubtaskOrder = async (parentTask: string) => {
+  const last = await TaskModel.findOne({ parentTask })
+    .sort({ subtaskOrder: -1 })
+    .select("subtaskOrder");
+  return (last?.subtaskOrder ?? -1) + 1;
+};
 
 /**
  * The function `createTaskService` creates a new task within a project, performing validations such as
@@ -19,7 +64,9 @@ import { BadRequestException, NotFoundException } from "../utils/appError";
  * on the user's permissions within the workspace or project
  * @param body - The `createTaskService` function is designed to create a new task within a project in
  * a specific workspace. The function takes in several parameters to create the task:
- * @returns The `createTaskService` function returns an object containing the newly created task.
+ * A full status with a hard WIP limit is rejected unless `overrideWipLimit` is set.
+ * @returns The `createTaskService` function returns an object containing the newly created task and
+ * a `warning` when the task went over a soft WIP limit.
  */
 export const createTaskService = async (
   workspaceId: string,
@@ -29,12 +76,29 @@ export const createTaskService = async (
     title: string;
     description?: string | undefined;
     priority: string;
-    status: string;
+    status?: string | undefined;
     assignedTo?: string | null | undefined;
     dueDate?: string | undefined;
+    parentTask?: string | null | undefined;
+    sprint?: string | null | undefined;
+    milestone?: string | null | undefined;
+    epic?: string | null | undefined;
+    overrideWipLimit?: boolean | undefined;
   }
 ) => {
-  const { title, description, priority, status, assignedTo, dueDate } = body;
+  const {
+    title,
+    description,
+    priority,
+    status,
+    assignedTo,
+    dueDate,
+    parentTask,
+    sprint,
+    milestone,
+    epic,
+    overrideWipLimit,
+  } = body;
 
   const project = await ProjectModel.findById(projectId);
 
@@ -54,21 +118,272 @@ export const createTaskService = async (
     }
   }
 
+  if (parentTask) {
+    const parent = await TaskModel.findOne({
+      _id: parentTask,
+      workspace: workspaceId,
+      project: projectId,
+    });
+    if (!parent) {
+      throw new NotFoundException(
+        "Parent task not found or does not belong to this project"
+      );
+    }
+    // Only one level of nesting is supported
+    if (parent.parentTask) {
+      throw new BadRequestException("A subtask cannot have its own subtasks");
+    }
+  }
+
+  if (sprint) {
+    await assertSprintAcceptsTasks(projectId, sprint);
+  }
+  if (milestone) {
+    await assertMilestoneInProject(projectId, milestone);
+  }
+  if (epic) {
+    await assertEpicInProject(projectId, epic);
+  }
+
+  const initialStatus = status || getProjectStatuses(project)[0]?.key || "";
+  if (!getProjectStatus(project, initialStatus)) {
+    throw new BadRequestException(
+      `"${initialStatus}" is not a status of this project`
+    );
+  }
+
+  const warning = await checkWipLimit(project, initialStatus, overrideWipLimit);
+
   const task = new TaskModel({
     title,
     description,
     priority: priority || TaskPriorityEnum.MEDIUM,
-    status: status || TaskStatusEnum.TODO,
+    status: initialStatus,
     assignedTo,
     createdBy: userId,
     workspace: workspaceId,
     project: projectId,
     dueDate,
+    parentTask: parentTask || null,
+    subtaskOrder: parentTask ? await getNextSubtaskOrder(parentTask) : null,
+    sprint: sprint || null,
+    milestone: milestone || null,
+    epic: epic || null,
+    rank: await getTopRankInColumn(workspaceId, initialStatus),
   });
 
   await task.save();
 
-  return { task };
+  await recordTaskActivityService({
+    task: task._id as mongoose.Types.ObjectId,
+    workspace: workspaceId,
+    actor: userId,
+    action: TaskActivityActionEnum.CREATED,
+    changes: diffTaskSnapshots({}, snapshotTask(task)),
+  });
+
+  await notifyUsersService({
+    type: NotificationTypeEnum.TASK_ASSIGNED,
+    recipients: [task.assignedTo],
+    actor: userId,
+    task,
+  });
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.TASK_CREATED, {
+    task,
+  });
+
+  return { task, warning };
+};
+
+/**
+ * The function `checkWipLimit` compares the number of tasks in a status of a project with the
+ * status's WIP limit. A hard limit rejects the change unless `overrideWipLimit` is set; a soft
+ * limit only produces a warning.
+ * @returns A warning when the status is already full, or `null`.
+ */
+const checkWipLimit = async (
+  project: ProjectDocument,
+  status: string,
+  overrideWipLimit: boolean | undefined
+) => {
+  const target = getProjectStatus(project, status);
+  if (!target?.wipLimit) return null;
+
+  const taskCount = await TaskModel.countDocuments({
+    project: project._id,
+    status,
+  });
+  if (taskCount < target.wipLimit) return null;
+
+  const message = `"${target.name}" already holds ${taskCount} of its ${target.wipLimit} tasks`;
+  if (target.wipLimitMode === WipLimitModeEnum.HARD && !overrideWipLimit) {
+    throw new BadRequestException(
+      message,
+      ErrorCodeEnum.TASK_WIP_LIMIT_REACHED
+    );
+  }
+  return message;
+};
+
+/**
+ * The function `assertTaskCanMoveTo` checks a status change against the project's workflow: the
+ * status must exist and the transition must be allowed. Moving a task into an active or done status
+ * is also rejected while one of its blockers is still open, unless `overrideBlockers` is set.
+ */
+const assertTaskCanMoveTo = async (
+  task: TaskDocument,
+  project: ProjectDocument,
+  status: string,
+  overrideBlockers: boolean | undefined
+) => {
+  if (status === task.status) return;
+
+  const target = getProjectStatus(project, status);
+  if (!target) {
+    throw new BadRequestException(
+      `"${status}" is not a status of this project`
+    );
+  }
+
+  if (!isTransitionAllowed(project, task.status, status)) {
+    const current = getProjectStatus(project, task.status);
+    throw new BadRequestException(
+      `Tasks cannot move from "${current?.name || task.status}" to "${
+        target.name
+      }" in this project`,
+      ErrorCodeEnum.TASK_TRANSITION_NOT_ALLOWED
+    );
+  }
+
+  const isStarting = target.category !== TaskStatusCategoryEnum.BACKLOG;
+
+  if (isStarting && !overrideBlockers && task.blockedBy.length > 0) {
+    const blockers = await TaskModel.find({
+      _id: { $in: task.blockedBy },
+    })
+      .select("taskCode status project")
+      .populate<{ project: ProjectDocument | null }>(
+        "project",
+        "statuses transitions"
+      );
+
+    // Blockers can live in other projects, so each is checked against its own workflow
+    const openBlockers = blockers.filter(
+      (blocker) => !isDoneStatus(blocker.project || {}, blocker.status)
+    );
+
+    if (openBlockers.length > 0) {
+      throw new BadRequestException(
+        `Task is blocked by ${openBlockers
+          .map((blocker) => blocker.taskCode)
+          .join(", ")}`,
+        ErrorCodeEnum.TASK_BLOCKED
+      );
+    }
+  }
+};
+
+/**
+ * The function `handleTaskUpdated` records the history entry, notifications and workspace event
+ * that follow a saved change to a task.
+ */
+const handleTaskUpdated = async (
+  workspaceId: string,
+  userId: string,
+  task: TaskDocument,
+  updatedTask: TaskDocument
+) => {
+  const taskChanges = diffTaskSnapshots(
+    snapshotTask(task),
+    snapshotTask(updatedTask)
+  );
+
+  await recordTaskActivityService({
+    task: updatedTask._id as mongoose.Types.ObjectId,
+    workspace: workspaceId,
+    actor: userId,
+    action: TaskActivityActionEnum.UPDATED,
+    changes: taskChanges,
+  });
+
+  if (
+    updatedTask.assignedTo &&
+    String(updatedTask.assignedTo) !== String(task.assignedTo)
+  ) {
+    await notifyUsersService({
+      type: NotificationTypeEnum.TASK_ASSIGNED,
+      recipients: [updatedTask.assignedTo],
+      actor: userId,
+      task: updatedTask,
+    });
+  }
+  if (updatedTask.status !== task.status) {
+    await notifyUsersService({
+      type: NotificationTypeEnum.TASK_STATUS_CHANGED,
+      recipients: [updatedTask.createdBy],
+      actor: userId,
+      task: updatedTask,
+      data: { oldStatus: task.status, newStatus: updatedTask.status },
+    });
+  }
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.TASK_UPDATED, {
+    task: updatedTask,
+    changes: taskChanges,
+  });
+};
+
+/**
+ * The function `ensureColumnRanked` gives the tasks of a board column that have no rank yet, such
+ * as tasks created before ranks existed, one after the ranked tasks, newest first. Once a column is
+ * ranked this is a single indexed lookup. It writes, so only write paths and the rank seeder call
+ * it; loading a board never does.
+ */
+export const ensureColumnRanked = async (workspaceId: string, status: string) => {
+  const unrankedTasks = await TaskModel.find({
+    workspace: workspaceId,
+    status,
+    rank: null,
+  })
+    .sort({ createdAt: -1 })
+    .select("_id");
+  if (unrankedTasks.length === 0) return;
+
+  const lastRanked = await TaskModel.findOne({
+    workspace: workspaceId,
+    status,
+    rank: { $ne: null },
+  })
+    .sort({ rank: -1 })
+    .select("rank");
+
+  let rank = lastRanked?.rank ?? null;
+  await TaskModel.bulkWrite(
+    unrankedTasks.map((task) => {
+      rank = rankBetween(rank, null);
+      return {
+        updateOne: {
+          filter: { _id: task._id, rank: null },
+          update: { $set: { rank } },
+        },
+      };
+    })
+  );
+};
+
+/**
+ * The function `getTopRankInColumn` returns a rank that places a task above every other task of a
+ * board column.
+ */
+const getTopRankInColumn = async (workspaceId: string, status: string) => {
+  await ensureColumnRanked(workspaceId, status);
+
+  const first = await TaskModel.findOne({ workspace: workspaceId, status })
+    .sort({ rank: 1 })
+    .select("rank");
+
+  return rankBetween(null, first?.rank ?? null);
 };
 
 /**
@@ -83,15 +398,20 @@ export const createTaskService = async (
  * @param {string} taskId - The `taskId` parameter in the `updateTaskService` function represents the
  * unique identifier of the task that you want to update. It is used to locate the specific task in the
  * database and apply the changes specified in the `body` parameter.
+ * @param {string} userId - The user making the change, recorded in the task history.
  * @param body - The `updateTaskService` function is designed to update a task within a project in a
  * specific workspace. The `body` parameter contains the following properties:
+ * The status change must be allowed by the project's workflow, and moving the task into an active or
+ * done status is rejected while one of its blockers is still open, unless `overrideBlockers` is set.
+ * Moving it into a full status follows the same WIP limit rules as `createTaskService`.
  * @returns The `updateTaskService` function returns an object containing the updated task as
- * `updatedTask`.
+ * `updatedTask` and a soft WIP limit `warning`, if any.
  */
 export const updateTaskService = async (
   workspaceId: string,
   projectId: string,
   taskId: string,
+  userId: string,
   body: {
     title: string;
     description?: string | undefined;
@@ -99,8 +419,15 @@ export const updateTaskService = async (
     status: string;
     assignedTo?: string | null | undefined;
     dueDate?: string | undefined;
+    sprint?: string | null | undefined;
+    milestone?: string | null | undefined;
+    epic?: string | null | undefined;
+    overrideBlockers?: boolean | undefined;
+    overrideWipLimit?: boolean | undefined;
   }
 ) => {
+  const { overrideBlockers, overrideWipLimit, ...changes } = body;
+
   const project = await ProjectModel.findById(projectId);
 
   if (!project || project.workspace.toString() !== workspaceId.toString()) {
@@ -117,10 +444,34 @@ export const updateTaskService = async (
     );
   }
 
+  await assertTaskCanMoveTo(task, project, changes.status, overrideBlockers);
+
+  if (changes.sprint && String(changes.sprint) !== String(task.sprint)) {
+    await assertSprintAcceptsTasks(projectId, changes.sprint);
+  }
+  if (
+    changes.milestone &&
+    String(changes.milestone) !== String(task.milestone)
+  ) {
+    await assertMilestoneInProject(projectId, changes.milestone);
+  }
+  if (changes.epic && String(changes.epic) !== String(task.epic)) {
+    await assertEpicInProject(projectId, changes.epic);
+  }
+
+  const isMoving = changes.status !== task.status;
+  const warning = isMoving
+    ? await checkWipLimit(project, changes.status, overrideWipLimit)
+    : null;
+
   const updatedTask = await TaskModel.findByIdAndUpdate(
     taskId,
     {
-      ...body,
+      ...changes,
+      // A task moved from the table lands at the top of its new column
+      ...(isMoving && {
+        rank: await getTopRankInColumn(workspaceId, changes.status),
+      }),
     },
     { new: true }
   );
@@ -129,40 +480,31 @@ export const updateTaskService = async (
     throw new BadRequestException("Failed to updated task");
   }
 
-  return { updatedTask };
+  await handleTaskUpdated(workspaceId, userId, task, updatedTask);
+
+  return { updatedTask, warning };
+};
+
+type TaskFilters = {
+  projectId?: string | undefined;
+  // A sprint id, or "backlog" for tasks outside every sprint
+  sprintId?: string | undefined;
+  // A milestone or epic id, or "none" for tasks without one
+  milestoneId?: string | undefined;
+  epicId?: string | undefined;
+  status?: string[] | undefined;
+  priority?: string[] | undefined;
+  assignedTo?: string[] | undefined;
+  keyword?: string | undefined;
+  dueDate?: string | undefined;
+  topLevelOnly?: boolean | undefined;
 };
 
 /**
- * The function `getAllTasksService` retrieves tasks based on specified filters and pagination
- * settings.
- * @param {string} workspaceId - The `workspaceId` parameter is a string that represents the unique
- * identifier of the workspace for which you want to retrieve tasks.
- * @param filters - The `filters` parameter in the `getAllTasksService` function is an object that can
- * contain the following properties:
- * @param pagination - The `pagination` parameter in the `getAllTasksService` function is an object
- * with two properties:
- * @returns The `getAllTasksService` function returns an object containing the following properties:
- * - `tasks`: An array of tasks that match the specified filters and pagination criteria.
- * - `pagination`: An object containing pagination information including:
- *   - `pageSize`: The number of tasks per page.
- *   - `pageNumber`: The current page number.
- *   - `totalCount`: The total number of tasks that match the filters.
+ * The function `buildTaskFilterQuery` turns the task filters shared by the table and the board into
+ * a query.
  */
-export const getAllTasksService = async (
-  workspaceId: string,
-  filters: {
-    projectId?: string | undefined;
-    status?: string[] | undefined;
-    priority?: string[] | undefined;
-    assignedTo?: string[] | undefined;
-    keyword?: string | undefined;
-    dueDate?: string | undefined;
-  },
-  pagination: {
-    pageSize: number;
-    pageNumber: number;
-  }
-) => {
+const buildTaskFilterQuery = (workspaceId: string, filters: TaskFilters) => {
   const query: Record<string, any> = {
     workspace: workspaceId,
   };
@@ -170,6 +512,16 @@ export const getAllTasksService = async (
   if (filters.projectId) {
     query.project = filters.projectId;
   }
+  if (filters.sprintId) {
+    query.sprint = filters.sprintId === "backlog" ? null : filters.sprintId;
+  }
+  if (filters.milestoneId) {
+    query.milestone =
+      filters.milestoneId === "none" ? null : filters.milestoneId;
+  }
+  if (filters.epicId) {
+    query.epic = filters.epicId === "none" ? null : filters.epicId;
+  }
   if (filters.status && filters.status?.length > 0) {
     query.status = { $in: filters.status };
   }
@@ -190,6 +542,76 @@ export const getAllTasksService = async (
     };
   }
 
+  if (filters.topLevelOnly) {
+    query.parentTask = null;
+  }
+
+  return query;
+};
+
+// Blockers are loaded with the workflow of their own project, so open ones can be told apart
+const BLOCKERS_WITH_WORKFLOW = {
+  path: "blockedBy",
+  select: "_id taskCode title status project",
+  populate: { path: "project", select: "statuses" },
+};
+
+type PopulatedBlocker = {
+  _id: mongoose.Types.ObjectId;
+  taskCode: string;
+  title: string;
+  status: string;
+  project: { statuses?: ProjectStatusType[] } | null;
+};
+
+/**
+ * The function `withOpenBlockers` turns a task whose blockers were loaded with
+ * `BLOCKERS_WITH_WORKFLOW` into a plain object with its `blockedBy` tasks and the `openBlockers`
+ * among them, i.e. those not in a done status of their project.
+ */
+const withOpenBlockers = (task: TaskDocument) => {
+  const blockers = (task.blockedBy as unknown as PopulatedBlocker[]).map(
+    ({ _id, taskCode, title, status, project }) => ({
+      blocker: { _id, taskCode, title, status },
+      isOpen: !isDoneStatus(project || {}, status),
+    })
+  );
+
+  return {
+    ...task.toObject(),
+    blockedBy: blockers.map(({ blocker }) => blocker),
+    openBlockers: blockers
+      .filter(({ isOpen }) => isOpen)
+      .map(({ blocker }) => blocker),
+  };
+};
+
+/**
+ * The function `getAllTasksService` retrieves tasks based on specified filters and pagination
+ * settings.
+ * @param {string} workspaceId - The `workspaceId` parameter is a string that represents the unique
+ * identifier of the workspace for which you want to retrieve tasks.
+ * @param filters - The `filters` parameter in the `getAllTasksService` function is an object that can
+ * contain the following properties:
+ * @param pagination - The `pagination` parameter in the `getAllTasksService` function is an object
+ * with two properties:
+ * @returns The `getAllTasksService` function returns an object containing the following properties:
+ * - `tasks`: An array of tasks that match the specified filters and pagination criteria.
+ * - `pagination`: An object containing pagination information including:
+ *   - `pageSize`: The number of tasks per page.
+ *   - `pageNumber`: The current page number.
+ *   - `totalCount`: The total number of tasks that match the filters.
+ */
+export const getAllTasksService = async (
+  workspaceId: string,
+  filters: TaskFilters,
+  pagination: {
+    pageSize: number;
+    pageNumber: number;
+  }
+) => {
+  const query = buildTaskFilterQuery(workspaceId, filters);
+
   // Pagination Setup
   const { pageSize, pageNumber } = pagination;
   const skip = (pageNumber - 1) * pageSize;
@@ -200,7 +622,11 @@ export const getAllTasksService = async (
       .limit(pageSize)
       .sort({ createdAt: -1 })
       .populate("assignedTo", "_id name profilePicture -password")
-      .populate("project", "_id emoji name"),
+      .populate("project", "_id emoji name")
+      .populate("sprint", "_id name status")
+      .populate("milestone", "_id name targetDate")
+      .populate("epic", "_id name")
+      .populate(BLOCKERS_WITH_WORKFLOW),
 
     TaskModel.countDocuments(query),
   ]);
@@ -208,7 +634,7 @@ export const getAllTasksService = async (
   const totalPages = Math.ceil(totalCount / pageSize);
 
   return {
-    tasks,
+    tasks: tasks.map(withOpenBlockers),
     pagination: {
       pageSize,
       pageNumber,
@@ -219,6 +645,200 @@ export const getAllTasksService = async (
   };
 };
 
+/**
+ * The function `getBoardStatuses` returns the columns of a board: the statuses of one project, or
+ * of every project in the workspace with shared keys shown once.
+ */
+const getBoardStatuses = async (
+  workspaceId: string,
+  projectId: string | undefined
+) => {
+  if (projectId) {
+    const project = await ProjectModel.findOne({
+      _id: projectId,
+      workspace: workspaceId,
+    }).select("statuses");
+    if (!project) {
+      throw new NotFoundException(
+        "Project not found or does not belong to this workspace"
+      );
+    }
+    return getProjectStatuses(project);
+  }
+
+  const projects = await ProjectModel.find({ workspace: workspaceId })
+    .sort({ createdAt: 1 })
+    .select("statuses");
+  const statuses = new Map(
+    DEFAULT_PROJECT_STATUSES.map((status) => [status.key, status])
+  );
+  projects.forEach((project) =>
+    getProjectStatuses(project).forEach(
+      (status) => !statuses.has(status.key) && statuses.set(status.key, status)
+    )
+  );
+  // WIP limits belong to a single project, so the workspace board shows none
+  return Array.from(statuses.values()).map(({ key, name, category }) => ({
+    key,
+    name,
+    category,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  }));
+};
+
+/**
+ * The function `getTaskBoardService` returns the tasks matching the filters grouped into one column
+ * per status, each in board order. A project board follows the project's workflow; the workspace
+ * board shows every status used by its projects.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param filters - The same filters as `getAllTasksService`; a `status` filter limits the columns
+ * that are filled.
+ * @returns An object with the `columns`, each with its `status` key, `name`, `category`, WIP
+ * limit and `wipCount`, `tasks` and `totalCount`.
+ */
+export const getTaskBoardService = async (
+  workspaceId: string,
+  filters: TaskFilters
+) => {
+  const query = buildTaskFilterQuery(workspaceId, filters);
+  const statuses = await getBoardStatuses(workspaceId, filters.projectId);
+
+  const columns = await Promise.all(
+    statuses.map(
+      async ({ key: status, name, category, wipLimit, wipLimitMode }) => {
+        const column = { status, name, category, wipLimit, wipLimitMode };
+        if (filters.status?.length && !filters.status.includes(status)) {
+          return { ...column, tasks: [], totalCount: 0, wipCount: null };
+        }
+
+        const columnQuery = { ...query, status };
+        const [tasks, totalCount, wipCount] = await Promise.all([
+          TaskModel.find(columnQuery)
+            // Tasks not ranked yet by the seeder or a move come first, newest first
+            .sort({ rank: 1, createdAt: -1 })
+            .limit(BOARD_COLUMN_LIMIT)
+            .populate("assignedTo", "_id name profilePicture -password")
+            .populate("project", "_id emoji name"),
+          TaskModel.countDocuments(columnQuery),
+          // The limit applies to the whole status, whatever the filters hide
+          wipLimit
+            ? TaskModel.countDocuments({ project: filters.projectId, status })
+            : null,
+        ]);
+
+        return { ...column, tasks, totalCount, wipCount };
+      }
+    )
+  );
+
+  return { columns };
+};
+
+/**
+ * The function `reorderTaskService` moves a task on the board: into a status column, between the
+ * tasks it was dropped between. Only the moved task gets a new rank.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} taskId - The unique identifier of the task being moved.
+ * @param {string} userId - The user moving the task, recorded in the task history.
+ * @param body - The target `status`, the `beforeTaskId` shown above the drop position and the
+ * `afterTaskId` shown below it, either `null` at the ends of the column. Without an `afterTaskId`
+ * the task goes after the last task of the column, including tasks cut off the board. The move
+ * follows the same workflow, blocker and WIP limit rules as `updateTaskService`.
+ * @returns An object with the moved `task` and a soft WIP limit `warning`, if any.
+ */
+export const reorderTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: {
+    status: string;
+    beforeTaskId?: string | null | undefined;
+    afterTaskId?: string | null | undefined;
+    overrideBlockers?: boolean | undefined;
+    overrideWipLimit?: boolean | undefined;
+  }
+) => {
+  const {
+    status,
+    beforeTaskId,
+    afterTaskId,
+    overrideBlockers,
+    overrideWipLimit,
+  } = body;
+
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to the specified workspace"
+    );
+  }
+
+  const project = await ProjectModel.findById(task.project);
+  if (!project) {
+    throw new NotFoundException("Project not found");
+  }
+
+  await assertTaskCanMoveTo(task, project, status, overrideBlockers);
+  const warning =
+    status !== task.status
+      ? await checkWipLimit(project, status, overrideWipLimit)
+      : null;
+  await ensureColumnRanked(workspaceId, status);
+
+  const getNeighbour = async (neighbourId: string | null | undefined) => {
+    if (!neighbourId) return null;
+    const neighbour = await TaskModel.findOne({
+      _id: neighbourId,
+      workspace: workspaceId,
+      status,
+    }).select("rank");
+    if (!neighbour || String(neighbour._id) === String(task._id)) {
+      throw new BadRequestException(
+        "The board has changed since it was loaded. Refresh and try again"
+      );
+    }
+    return neighbour;
+  };
+  const [before, after] = await Promise.all([
+    getNeighbour(beforeTaskId),
+    getNeighbour(afterTaskId),
+  ]);
+
+  let beforeRank = before?.rank ?? null;
+  const afterRank = after?.rank ?? null;
+  if (!afterTaskId) {
+    // Columns are cut off at BOARD_COLUMN_LIMIT, so the last visible task may not be the last one;
+    // a drop at the end goes after the last task of the whole column
+    const last = await TaskModel.findOne({
+      workspace: workspaceId,
+      status,
+      _id: { $ne: task._id },
+    })
+      .sort({ rank: -1 })
+      .select("rank");
+    beforeRank = last?.rank ?? beforeRank;
+  }
+  if (beforeRank !== null && afterRank !== null && beforeRank >= afterRank) {
+    throw new BadRequestException(
+      "The board has changed since it was loaded. Refresh and try again"
+    );
+  }
+
+  const updatedTask = await TaskModel.findByIdAndUpdate(
+    task._id,
+    { status, rank: rankBetween(beforeRank, afterRank) },
+    { new: true }
+  );
+  if (!updatedTask) {
+    throw new BadRequestException("Failed to move task");
+  }
+
+  await handleTaskUpdated(workspaceId, userId, task, updatedTask);
+
+  return { task: updatedTask, warning };
+};
+
 /**
  * The function `getTaskByIdService` retrieves a task by its ID within a specific workspace and
  * project, handling error cases appropriately.
@@ -234,7 +854,8 @@ export const getAllTasksService = async (
  * @returns The `getTaskByIdService` function returns the task object that matches the provided
  * `taskId`, `workspaceId`, and `projectId`. The task object is populated with the `assignedTo` field,
  * which includes the `_id`, `name`, and `profilePicture` properties of the user assigned to the task
- * (excluding the `password` field).
+ * (excluding the `password` field). It also carries the task's `subtasks`, the tasks it is
+ * `blocking`, and a `checklistProgress` summary of its checklist items.
  */
 export const getTaskByIdService = async (
   workspaceId: string,
@@ -253,13 +874,44 @@ export const getTaskByIdService = async (
     _id: taskId,
     workspace: workspaceId,
     project: projectId,
-  }).populate("assignedTo", "_id name profilePicture -password");
+  })
+    .populate("assignedTo", "_id name profilePicture -password")
+    .populate(BLOCKERS_WITH_WORKFLOW);
 
   if (!task) {
     throw new Error("Task not found");
   }
 
-  return task;
+  const subtasks = await TaskModel.find({
+    parentTask: task._id,
+    workspace: workspaceId,
+  })
+    .sort({ subtaskOrder: 1, createdAt: 1 })
+    .populate("assignedTo", "_id name profilePicture -password");
+
+  const blocking = await TaskModel.find({
+    blockedBy: task._id,
+    workspace: workspaceId,
+  }).select("_id taskCode title status");
+
+  const totalItems = task.checklist.length;
+  const completedItems = task.checklist.filter(
+    (item) => item.isCompleted
+  ).length;
+
+  const checklistProgress = {
+    total: totalItems,
+    completed: completedItems,
+    percentage:
+      totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0,
+  };
+
+  return {
+    ...withOpenBlockers(task),
+    subtasks,
+    blocking,
+    checklistProgress,
+  };
 };
 
 /**
@@ -270,11 +922,17 @@ export const getTaskByIdService = async (
  * @param {string} taskId - The `taskId` parameter in the `deleteTaskService` function is the unique
  * identifier of the task that needs to be deleted. It is used to find and delete the task from the
  * database.
+ * @param {string} userId - The user deleting the task, recorded in the task history.
+ * @param {string} childStrategy - The `childStrategy` parameter decides what happens to the subtasks
+ * of the deleted task: `cascade` deletes them along with it, `reparent` keeps them as top-level
+ * tasks of the same project.
  * @returns The `deleteTaskService` function is returning nothing (`undefined`).
  */
 export const deleteTaskService = async (
   workspaceId: string,
-  taskId: string
+  taskId: string,
+  userId: string,
+  childStrategy: "cascade" | "reparent" = "cascade"
 ) => {
   const task = await TaskModel.findOneAndDelete({
     _id: taskId,
@@ -287,5 +945,328 @@ export const deleteTaskService = async (
     );
   }
 
+  const removedTasks = [task];
+
+  if (childStrategy === "reparent") {
+    await TaskModel.updateMany(
+      { parentTask: task._id },
+      { $set: { parentTask: task.parentTask, subtaskOrder: null } }
+    );
+  } else {
+    const subtasks = await TaskModel.find({ parentTask: task._id });
+    removedTasks.push(...subtasks);
+    await TaskModel.deleteMany({ parentTask: task._id });
+  }
+
+  const removedTaskIds = removedTasks.map((removed) => removed._id);
+
+  await Promise.all(
+    removedTasks.map((removed) =>
+      recordTaskActivityService({
+        task: removed._id as mongoose.Types.ObjectId,
+        workspace: workspaceId,
+        actor: userId,
+        action: TaskActivityActionEnum.DELETED,
+        changes: diffTaskSnapshots(snapshotTask(removed), {}),
+      })
+    )
+  );
+
+  await CommentModel.deleteMany({ task: { $in: removedTaskIds } });
+
+  // Deleted tasks can no longer block anything
+  await TaskModel.updateMany(
+    { workspace: workspaceId, blockedBy: { $in: removedTaskIds } },
+    { $pull: { blockedBy: { $in: removedTaskIds } } }
+  );
+
+  await Promise.all(
+    removedTasks.map((removed) =>
+      emitWorkspaceEvent(workspaceId, WebhookEventEnum.TASK_DELETED, {
+        task: removed,
+      })
+    )
+  );
+
   return;
 };
+
+/**
+ * The function `getTaskInWorkspace` loads a task and makes sure it belongs to the given workspace.
+ * It is shared by the checklist and dependency services below.
+ */
+const getTaskInWorkspace = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({
+    _id: taskId,
+    workspace: workspaceId,
+  });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to the specified workspace"
+    );
+  }
+
+  return task;
+};
+
+/**
+ * The function `addChecklistItemService` appends a new checklist item to the end of a task's
+ * checklist.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task receiving the item.
+ * @param body - An object with the `title` of the checklist item.
+ * @returns An object containing the updated `checklist` of the task.
+ */
+export const addChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  body: { title: string }
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  task.checklist.push({ title: body.title });
+  await task.save();
+
+  return { checklist: task.checklist };
+};
+
+/**
+ * The function `updateChecklistItemService` renames a checklist item and/or toggles its completion
+ * state, recording who completed it and when.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task owning the item.
+ * @param {string} itemId - The unique identifier of the checklist item.
+ * @param {string} userId - The user performing the change.
+ * @param body - An object with optional `title` and `isCompleted` properties.
+ * @returns An object containing the updated `checklist` of the task.
+ */
+export const updateChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  itemId: string,
+  userId: string,
+  body: {
+    title?: string | undefined;
+    isCompleted?: boolean | undefined;
+  }
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const item = task.checklist.id(itemId);
+  if (!item) {
+    throw new NotFoundException("Checklist item not found");
+  }
+
+  if (body.title) item.title = body.title;
+
+  if (body.isCompleted !== undefined && body.isCompleted !== item.isCompleted) {
+    item.isCompleted = body.isCompleted;
+    item.completedBy = body.isCompleted
+      ? new mongoose.Types.ObjectId(userId)
+      : null;
+    item.completedAt = body.isCompleted ? new Date() : null;
+  }
+
+  await task.save();
+
+  return { checklist: task.checklist };
+};
+
+/**
+ * The function `reorderChecklistService` rewrites the order of a task's checklist. The provided
+ * `itemIds` must contain every item of the checklist exactly once.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task owning the checklist.
+ * @param {string[]} itemIds - The checklist item IDs in their new order.
+ * @returns An object containing the reordered `checklist` of the task.
+ */
+export const reorderChecklistService = async (
+  workspaceId: string,
+  taskId: string,
+  itemIds: string[]
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const uniqueIds = new Set(itemIds);
+  if (
+    uniqueIds.size !== itemIds.length ||
+    itemIds.length !== task.checklist.length ||
+    itemIds.some((id) => !task.checklist.id(id))
+  ) {
+    throw new BadRequestException(
+      "Item IDs must list every checklist item of the task exactly once"
+    );
+  }
+
+  const reordered = itemIds.map((id) => task.checklist.id(id)!.toObject());
+  task.set("checklist", reordered);
+  await task.save();
+
+  return { checklist: task.checklist };
+};
+
+/**
+ * The function `reorderSubtasksService` rewrites the order of a task's subtasks. The provided
+ * `subtaskIds` must contain every subtask of the task exactly once.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the parent task.
+ * @param {string[]} subtaskIds - The subtask IDs in their new order.
+ * @returns An object containing the reordered `subtasks` of the task.
+ */
+export const reorderSubtasksService = async (
+  workspaceId: string,
+  taskId: string,
+  subtaskIds: string[]
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+  const subtasks = await TaskModel.find({ parentTask: task._id }).select(
+    "_id"
+  );
+
+  const uniqueIds = new Set(subtaskIds);
+  if (
+    uniqueIds.size !== subtaskIds.length ||
+    subtaskIds.length !== subtasks.length ||
+    subtasks.some((subtask) => !uniqueIds.has(String(subtask._id)))
+  ) {
+    throw new BadRequestException(
+      "Subtask IDs must list every subtask of the task exactly once"
+    );
+  }
+
+  await TaskModel.bulkWrite(
+    subtaskIds.map((id, index) => ({
+      updateOne: {
+        filter: { _id: id, parentTask: task._id },
+        update: { $set: { subtaskOrder: index } },
+      },
+    }))
+  );
+
+  const reordered = await TaskModel.find({ parentTask: task._id })
+    .sort({ subtaskOrder: 1 })
+    .populate("assignedTo", "_id name profilePicture -password");
+
+  return { subtasks: reordered };
+};
+
+/**
+ * The function `deleteChecklistItemService` removes a single item from a task's checklist.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the task owning the item.
+ * @param {string} itemId - The unique identifier of the checklist item to remove.
+ * @returns An object containing the updated `checklist` of the task.
+ */
+export const deleteChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  itemId: string
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const item = task.checklist.id(itemId);
+  if (!item) {
+    throw new NotFoundException("Checklist item not found");
+  }
+
+  item.deleteOne();
+  await task.save();
+
+  return { checklist: task.checklist };
+};
+
+/**
+ * The function `addTaskDependencyService` records that `blockerTaskId` blocks `taskId`. Both tasks
+ * must live in the same workspace, and the link is rejected when it would close a cycle.
+ * @param {string} workspaceId - The unique identifier of the workspace both tasks belong to.
+ * @param {string} taskId - The unique identifier of the task being blocked.
+ * @param {string} blockerTaskId - The unique identifier of the task that blocks it.
+ * @returns An object containing the updated `task`.
+ */
+export const addTaskDependencyService = async (
+  workspaceId: string,
+  taskId: string,
+  blockerTaskId: string
+) => {
+  if (taskId === blockerTaskId) {
+    throw new BadRequestException("A task cannot block itself");
+  }
+
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const blocker = await TaskModel.findOne({
+    _id: blockerTaskId,
+    workspace: workspaceId,
+  });
+  if (!blocker) {
+    throw new NotFoundException(
+      "Blocking task not found or does not belong to the specified workspace"
+    );
+  }
+
+  if (
+    task.blockedBy.some((id) =>
+      id.equals(blocker._id as mongoose.Types.ObjectId)
+    )
+  ) {
+    throw new BadRequestException("This dependency already exists");
+  }
+
+  // Walk everything the blocker is (transitively) blocked by. Reaching the
+  // task means it already blocks the blocker, so the new link would loop.
+  const visited = new Set<string>();
+  let frontier = [blocker._id];
+  while (frontier.length > 0) {
+    const ancestors = await TaskModel.find({
+      _id: { $in: frontier },
+      workspace: workspaceId,
+    }).select("blockedBy");
+
+    frontier = [];
+    for (const ancestor of ancestors) {
+      for (const id of ancestor.blockedBy) {
+        if (id.equals(task._id as mongoose.Types.ObjectId)) {
+          throw new BadRequestException("This dependency would create a cycle");
+        }
+        if (!visited.has(id.toString())) {
+          visited.add(id.toString());
+          frontier.push(id);
+        }
+      }
+    }
+  }
+
+  task.blockedBy.push(blocker._id as mongoose.Types.ObjectId);
+  await task.save();
+
+  return { task };
+};
+
+/**
+ * The function `removeTaskDependencyService` removes the link saying `blockerTaskId` blocks
+ * `taskId`.
+ * @param {string} workspaceId - The unique identifier of the workspace the task belongs to.
+ * @param {string} taskId - The unique identifier of the blocked task.
+ * @param {string} blockerTaskId - The unique identifier of the blocking task.
+ * @returns An object containing the updated `task`.
+ */
+export const removeTaskDependencyService = async (
+  workspaceId: string,
+  taskId: string,
+  blockerTaskId: string
+) => {
+  const task = await getTaskInWorkspace(workspaceId, taskId);
+
+  const index = task.blockedBy.findIndex(
+    (id) => id.toString() === blockerTaskId
+  );
+  if (index === -1) {
+    throw new NotFoundException("Dependency not found");
+  }
+
+  task.blockedBy.splice(index, 1);
+  await task.save();
+
+  return { task };
+};
@@ -0,0 +1,318 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import MemberModel from "../models/member.model";
+import UserModel, { UserDocument } from "../models/user.model";
+import WorkspaceModel from "../models/workspace.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { hashToken } from "../utils/token";
+import {
+  generateTotpSecret,
+  getTotpProvisioningUri,
+  verifyTotpCode,
+} from "../utils/totp";
+import { recordAuditLogService } from "./audit-log.service";
+import {
+  assertLoginNotThrottled,
+  clearFailedLoginsService,
+  recordFailedLoginService,
+} from "./login-throttle.service";
+
+const RECOVERY_CODE_COUNT = 10;
+
+const TWO_FACTOR_FIELDS =
+  "+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep";
+
+// Hyphens and case are ignored so codes can be typed the way they are displayed
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const value = crypto.randomBytes(5).toString("hex");
+    return `${value.slice(0, 5)}-${value.slice(5)}`;
+  });
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+};
+
+const findUserWithTwoFactor = async (userId: string) => {
+  const user = await UserModel.findById(userId).select(TWO_FACTOR_FIELDS);
+  if (!user) {
+    throw new NotFoundException("User not found");
+  }
+  return user;
+};
+
+/**
+ * Checks a code against the user's authenticator secret and recovery codes. Both are consumed
+ * atomically: a TOTP time step cannot be used twice, and a recovery code is removed when used.
+ * @returns The method that matched, or `null` when the code is invalid.
+ */
+const consumeTwoFactorCode = async (user: UserDocument, code: string) => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+  const step = verifyTotpCode(user.twoFactorSecret, code);
+  if (step !== null) {
+    const updated = await UserModel.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+    return updated.modifiedCount ? ("TOTP" as const) : null;
+  }
+
+  const updated = await UserModel.updateOne(
+    {
+      _id: user._id,
+      twoFactorRecoveryCodes: hashToken(normalizeRecoveryCode(code)),
+    },
+    {
+      $pull: { twoFactorRecoveryCodes: hashToken(normalizeRecoveryCode(code)) },
+    }
+  );
+  return updated.modifiedCount ? ("RECOVERY_CODE" as const) : null;
+};
+
+const assertValidTwoFactorCode = async (user: UserDocument, code: string) => {
+  const method = await consumeTwoFactorCode(user, code);
+  if (!method) {
+    throw new BadRequestException(
+      "Invalid two-factor code",
+      ErrorCodeEnum.AUTH_TWO_FACTOR_INVALID_CODE
+    );
+  }
+  return method;
+};
+
+/**
+ * The function `setupTwoFactorService` starts two-factor enrolment by generating a new secret. The
+ * secret stays pending until `enableTwoFactorService` confirms a code from the authenticator app.
+ * @param {string} userId - The unique identifier of the user enrolling.
+ * @returns An object with the base32 `secret` and the `otpauthUri` to render as a QR code.
+ */
+export const setupTwoFactorService = async (userId: string) => {
+  const user = await findUserWithTwoFactor(userId);
+  if (user.twoFactorEnabled) {
+    throw new BadRequestException("Two-factor authentication is already on");
+  }
+
+  const secret = generateTotpSecret();
+  user.twoFactorPendingSecret = secret;
+  await user.save();
+
+  return {
+    secret,
+    otpauthUri: getTotpProvisioningUri({
+      secret,
+      accountName: user.email,
+      issuer: config.TWO_FACTOR_ISSUER,
+    }),
+  };
+};
+
+/**
+ * The function `enableTwoFactorService` finishes enrolment once the user proves their authenticator
+ * app produces valid codes for the pending secret.
+ * @param {string} userId - The unique identifier of the user enrolling.
+ * @param {string} code - A current code from the authenticator app.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns The one-time `recoveryCodes`; they are only ever shown this once.
+ */
+export const enableTwoFactorService = async (
+  userId: string,
+  code: string,
+  auditContext: AuditContextType
+) => {
+  const user = await findUserWithTwoFactor(userId);
+  if (user.twoFactorEnabled) {
+    throw new BadRequestException("Two-factor authentication is already on");
+  }
+  if (!user.twoFactorPendingSecret) {
+    throw new BadRequestException("Start the two-factor setup first");
+  }
+
+  const step = verifyTotpCode(user.twoFactorPendingSecret, code);
+  if (step === null) {
+    throw new BadRequestException(
+      "Invalid two-factor code",
+      ErrorCodeEnum.AUTH_TWO_FACTOR_INVALID_CODE
+    );
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  user.twoFactorEnabled = true;
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = null;
+  user.twoFactorRecoveryCodes = hashes;
+  user.twoFactorLastUsedStep = step;
+  await user.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.TWO_FACTOR_ENABLED,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+  });
+
+  return { recoveryCodes: codes };
+};
+
+/**
+ * The function `disableTwoFactorService` turns two-factor authentication off after checking a code.
+ * It is refused while the user belongs to a workspace that requires two-factor authentication.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} code - A code from the authenticator app or an unused recovery code.
+ * @param auditContext - The request details recorded in the audit log.
+ */
+export const disableTwoFactorService = async (
+  userId: string,
+  code: string,
+  auditContext: AuditContextType
+) => {
+  const user = await findUserWithTwoFactor(userId);
+  if (!user.twoFactorEnabled) {
+    throw new BadRequestException("Two-factor authentication is not on");
+  }
+
+  const memberships = await MemberModel.find({ userId }).select("workspaceId");
+  const requiringWorkspace = await WorkspaceModel.findOne({
+    _id: { $in: memberships.map((member) => member.workspaceId) },
+    requireTwoFactor: true,
+  }).select("name");
+  if (requiringWorkspace) {
+    throw new BadRequestException(
+      `The "${requiringWorkspace.name}" workspace requires two-factor authentication`,
+      ErrorCodeEnum.AUTH_TWO_FACTOR_REQUIRED
+    );
+  }
+
+  const method = await assertValidTwoFactorCode(user, code);
+
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = null;
+  user.twoFactorPendingSecret = null;
+  user.twoFactorRecoveryCodes = [];
+  user.twoFactorLastUsedStep = null;
+  await user.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.TWO_FACTOR_DISABLED,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+    after: { method },
+  });
+};
+
+/**
+ * The function `regenerateRecoveryCodesService` replaces all recovery codes of a user with new ones.
+ * @param {string} userId - The unique identifier of the user.
+ * @param {string} code - A code from the authenticator app or an unused recovery code.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns The new one-time `recoveryCodes`.
+ */
+export const regenerateRecoveryCodesService = async (
+  userId: string,
+  code: string,
+  auditContext: AuditContextType
+) => {
+  const user = await findUserWithTwoFactor(userId);
+  if (!user.twoFactorEnabled) {
+    throw new BadRequestException("Two-factor authentication is not on");
+  }
+
+  await assertValidTwoFactorCode(user, code);
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await UserModel.updateOne(
+    { _id: user._id },
+    { $set: { twoFactorRecoveryCodes: hashes } }
+  );
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.TWO_FACTOR_RECOVERY_CODES_REGENERATED,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+  });
+
+  return { recoveryCodes: codes };
+};
+
+/**
+ * The function `getTwoFactorStatusService` returns whether two-factor authentication is on and how
+ * many recovery codes are left.
+ * @param {string} userId - The unique identifier of the user.
+ */
+export const getTwoFactorStatusService = async (userId: string) => {
+  const user = await findUserWithTwoFactor(userId);
+  return {
+    enabled: user.twoFactorEnabled,
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+  };
+};
+
+/**
+ * The function `verifyTwoFactorLoginService` completes the second step of a login. Wrong codes count
+ * as failed logins for the account, so guessing codes runs into the same lockout as passwords.
+ * @param {string} userId - The unique identifier of the user who passed the password step.
+ * @param {string} code - A code from the authenticator app or an unused recovery code.
+ * @param {string} provider - The provider the first step was completed with.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns The user, without the password.
+ */
+export const verifyTwoFactorLoginService = async (
+  userId: string,
+  code: string,
+  provider: string,
+  auditContext: AuditContextType
+) => {
+  const user = await findUserWithTwoFactor(userId);
+
+  await assertLoginNotThrottled(user.email, auditContext);
+
+  const method = await consumeTwoFactorCode(user, code);
+  if (!method) {
+    await recordAuditLogService(auditContext, {
+      action: AuditActionEnum.USER_LOGIN_FAILED,
+      actor: user._id as mongoose.Types.ObjectId,
+      targetType: "User",
+      targetId: user._id as mongoose.Types.ObjectId,
+      after: { email: user.email, reason: "INVALID_TWO_FACTOR_CODE" },
+    });
+    await recordFailedLoginService(user.email, auditContext);
+    throw new UnauthorizedException(
+      "Invalid two-factor code",
+      ErrorCodeEnum.AUTH_TWO_FACTOR_INVALID_CODE
+    );
+  }
+
+  await clearFailedLoginsService(user.email);
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.USER_LOGGED_IN,
+    actor: user._id as mongoose.Types.ObjectId,
+    targetType: "User",
+    targetId: user._id as mongoose.Types.ObjectId,
+    after: { provider, twoFactor: method },
+  });
+
+  // Reload without the two-factor fields; the result is stored in the session
+  const sessionUser = await UserModel.findById(userId);
+  if (!sessionUser) {
+    throw new NotFoundException("User not found");
+  }
+  return sessionUser.omitPassword();
+};
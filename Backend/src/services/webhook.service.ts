@@ -0,0 +1,459 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import {
+  WebhookDeliveryStatusEnum,
+  WebhookEventEnumType,
+} from "../enums/webhook.enum";
+import WebhookModel from "../models/webhook.model";
+import WebhookDeliveryModel from "../models/webhook-delivery.model";
+import { NotFoundException } from "../utils/appError";
+import { AuditContextType } from "../utils/audit-context";
+import { resolvesToPublicAddress } from "../utils/network";
+import { generateToken } from "../utils/token";
+import { recordAuditLogService } from "./audit-log.service";
+
+// How often the worker looks for deliveries that are due for a retry
+const WORKER_POLL_INTERVAL_MS = 10 * 1000;
+const WORKER_BATCH_SIZE = 20;
+// Only the start of a successful response is kept for the delivery log
+const RESPONSE_BODY_MAX_LENGTH = 1000;
+
+const generateWebhookSecret = () => `whsec_${generateToken(24)}`;
+
+const getWebhookInWorkspace = async (
+  workspaceId: string,
+  webhookId: string
+) => {
+  const webhook = await WebhookModel.findOne({
+    _id: webhookId,
+    workspace: workspaceId,
+  });
+  if (!webhook) {
+    throw new NotFoundException("Webhook not found");
+  }
+  return webhook;
+};
+
+/**
+ * Signs `<timestamp>.<body>` with the webhook secret, so receivers can check both that the request
+ * came from us and that it is recent.
+ */
+const signPayload = (secret: string, timestamp: number, body: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+const getRetryDelayMs = (attempts: number) =>
+  Number(config.WEBHOOK_RETRY_BASE_SECONDS) * 1000 * 2 ** (attempts - 1);
+
+/**
+ * Sends one attempt of a delivery. The delivery is claimed first, so a delivery picked up by the
+ * worker and by an immediate send at the same time is only sent once.
+ */
+const attemptDelivery = async (deliveryId: string) => {
+  const timeoutMs = Number(config.WEBHOOK_TIMEOUT_SECONDS) * 1000;
+  const now = new Date();
+
+  const delivery = await WebhookDeliveryModel.findOneAndUpdate(
+    {
+      _id: deliveryId,
+      status: WebhookDeliveryStatusEnum.PENDING,
+      nextAttemptAt: { $lte: now },
+    },
+    {
+      // Leases the delivery; if this process dies mid-attempt, the worker retries it later
+      $set: {
+        nextAttemptAt: new Date(now.getTime() + timeoutMs * 2),
+        lastAttemptAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { new: true }
+  );
+  if (!delivery) return;
+
+  const webhook = await WebhookModel.findById(delivery.webhook).select(
+    "+secret"
+  );
+  if (!webhook || !webhook.enabled) {
+    delivery.status = WebhookDeliveryStatusEnum.FAILED;
+    delivery.nextAttemptAt = null;
+    delivery.error = "The webhook was deleted or disabled";
+    await delivery.save();
+    return;
+  }
+
+  const body = JSON.stringify({
+    id: delivery._id,
+    event: delivery.event,
+    workspaceId: delivery.workspace,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    // Replays and retries are checked too; the host may resolve elsewhere by now
+    if (!(await resolvesToPublicAddress(webhook.url))) {
+      throw new Error("The webhook URL does not resolve to a public address");
+    }
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "TeamSync-Webhooks",
+        "X-TeamSync-Event": delivery.event,
+        "X-TeamSync-Delivery": String(delivery._id),
+        "X-TeamSync-Timestamp": String(timestamp),
+        "X-TeamSync-Signature": `sha256=${signPayload(
+          webhook.secret,
+          timestamp,
+          body
+        )}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    responseStatus = response.status;
+    // Error and redirect bodies are not kept, so the log cannot be used to read other services
+    if (response.ok) {
+      responseBody = (await response.text()).slice(
+        0,
+        RESPONSE_BODY_MAX_LENGTH
+      );
+    } else {
+      error = `The endpoint responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "The request failed";
+  }
+
+  delivery.responseStatus = responseStatus;
+  delivery.responseBody = responseBody;
+  delivery.error = error;
+  if (!error) {
+    delivery.status = WebhookDeliveryStatusEnum.SUCCEEDED;
+    delivery.nextAttemptAt = null;
+  } else if (delivery.attempts >= Number(config.WEBHOOK_MAX_ATTEMPTS)) {
+    delivery.status = WebhookDeliveryStatusEnum.FAILED;
+    delivery.nextAttemptAt = null;
+  } else {
+    delivery.nextAttemptAt = new Date(
+      Date.now() + getRetryDelayMs(delivery.attempts)
+    );
+  }
+  await delivery.save();
+};
+
+// Sends right away instead of waiting for the next worker poll; failures are left for the worker
+const sendInBackground = (deliveryId: string) => {
+  setImmediate(() => {
+    attemptDelivery(deliveryId).catch((error) =>
+      console.error("Webhook delivery failed:", error)
+    );
+  });
+};
+
+/**
+ * The function `dispatchWebhookEvent` queues a delivery of an event to every enabled webhook of the
+ * workspace that subscribes to it. A failure here never fails the change that caused the event.
+ * @param {string} workspaceId - The workspace the event happened in.
+ * @param {WebhookEventEnumType} event - The event name, e.g. `task.created`.
+ * @param data - The event payload, sent as the `data` field of the request body.
+ */
+export const dispatchWebhookEvent = async (
+  workspaceId: string | mongoose.Types.ObjectId,
+  event: WebhookEventEnumType,
+  data: Record<string, unknown>
+) => {
+  try {
+    const webhooks = await WebhookModel.find({
+      workspace: workspaceId,
+      enabled: true,
+      events: event,
+    }).select("_id");
+    if (webhooks.length === 0) return;
+
+    // Round-trips ids and dates through JSON so the stored payload matches what is sent
+    const payload = JSON.parse(JSON.stringify(data));
+    const deliveries = await WebhookDeliveryModel.insertMany(
+      webhooks.map((webhook) => ({
+        webhook: webhook._id,
+        workspace: workspaceId,
+        event,
+        payload,
+      }))
+    );
+    deliveries.forEach((delivery) => sendInBackground(String(delivery._id)));
+  } catch (error) {
+    console.error(`Failed to dispatch webhook event ${event}:`, error);
+  }
+};
+
+/**
+ * The function `startWebhookDeliveryWorker` periodically sends the deliveries that are due, which
+ * covers retries and deliveries interrupted by a restart.
+ */
+export const startWebhookDeliveryWorker = () => {
+  let isRunning = false;
+  const timer = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      const dueDeliveries = await WebhookDeliveryModel.find({
+        status: WebhookDeliveryStatusEnum.PENDING,
+        nextAttemptAt: { $lte: new Date() },
+      })
+        .sort({ nextAttemptAt: 1 })
+        .limit(WORKER_BATCH_SIZE)
+        .select("_id");
+      for (const delivery of dueDeliveries) {
+        await attemptDelivery(String(delivery._id));
+      }
+    } catch (error) {
+      console.error("Webhook delivery worker failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  }, WORKER_POLL_INTERVAL_MS);
+  // The worker alone should not keep the process alive
+  timer.unref();
+};
+
+/**
+ * The function `createWebhookService` subscribes a URL to events of a workspace.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} userId - The member creating the webhook.
+ * @param body - The `url`, optional `description` and the `events` to subscribe to.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the `webhook` and its signing `secret`, which is only returned here and
+ * when it is rotated.
+ */
+export const createWebhookService = async (
+  workspaceId: string,
+  userId: string,
+  body: {
+    url: string;
+    description?: string | null | undefined;
+    events: string[];
+  },
+  auditContext: AuditContextType
+) => {
+  const secret = generateWebhookSecret();
+  const webhook = await WebhookModel.create({
+    workspace: workspaceId,
+    url: body.url,
+    description: body.description || null,
+    events: body.events,
+    secret,
+    createdBy: userId,
+  });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.WEBHOOK_CREATED,
+    workspace: workspaceId,
+    targetType: "Webhook",
+    targetId: webhook._id as mongoose.Types.ObjectId,
+    after: { url: webhook.url, events: webhook.events },
+  });
+
+  const { secret: _secret, ...webhookData } = webhook.toObject();
+  return { webhook: webhookData, secret };
+};
+
+/**
+ * The function `getWorkspaceWebhooksService` lists the webhooks of a workspace, newest first.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @returns An object with the workspace `webhooks`.
+ */
+export const getWorkspaceWebhooksService = async (workspaceId: string) => {
+  const webhooks = await WebhookModel.find({ workspace: workspaceId })
+    .sort({ createdAt: -1 })
+    .lean();
+
+  return { webhooks };
+};
+
+/**
+ * The function `updateWebhookService` changes the URL, description, events or enabled state of a
+ * webhook.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} webhookId - The unique identifier of the webhook.
+ * @param body - The fields to change.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the updated `webhook`.
+ */
+export const updateWebhookService = async (
+  workspaceId: string,
+  webhookId: string,
+  body: {
+    url?: string | undefined;
+    description?: string | null | undefined;
+    events?: string[] | undefined;
+    enabled?: boolean | undefined;
+  },
+  auditContext: AuditContextType
+) => {
+  const webhook = await getWebhookInWorkspace(workspaceId, webhookId);
+  const before = {
+    url: webhook.url,
+    events: webhook.events,
+    enabled: webhook.enabled,
+  };
+
+  webhook.set({
+    ...(body.url !== undefined && { url: body.url }),
+    ...(body.description !== undefined && {
+      description: body.description || null,
+    }),
+    ...(body.events !== undefined && { events: body.events }),
+    ...(body.enabled !== undefined && { enabled: body.enabled }),
+  });
+  await webhook.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.WEBHOOK_UPDATED,
+    workspace: workspaceId,
+    targetType: "Webhook",
+    targetId: webhook._id as mongoose.Types.ObjectId,
+    before,
+    after: {
+      url: webhook.url,
+      events: webhook.events,
+      enabled: webhook.enabled,
+    },
+  });
+
+  return { webhook };
+};
+
+/**
+ * The function `rotateWebhookSecretService` replaces the signing secret of a webhook. Deliveries
+ * are signed with the new secret from the next attempt on.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} webhookId - The unique identifier of the webhook.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ * @returns An object with the new `secret`.
+ */
+export const rotateWebhookSecretService = async (
+  workspaceId: string,
+  webhookId: string,
+  auditContext: AuditContextType
+) => {
+  const webhook = await getWebhookInWorkspace(workspaceId, webhookId);
+
+  const secret = generateWebhookSecret();
+  webhook.secret = secret;
+  await webhook.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.WEBHOOK_UPDATED,
+    workspace: workspaceId,
+    targetType: "Webhook",
+    targetId: webhook._id as mongoose.Types.ObjectId,
+    after: { secretRotated: true },
+  });
+
+  return { secret };
+};
+
+/**
+ * The function `deleteWebhookService` deletes a webhook together with its delivery log.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} webhookId - The unique identifier of the webhook.
+ * @param {AuditContextType} auditContext - The request context recorded in the audit log.
+ */
+export const deleteWebhookService = async (
+  workspaceId: string,
+  webhookId: string,
+  auditContext: AuditContextType
+) => {
+  const webhook = await getWebhookInWorkspace(workspaceId, webhookId);
+
+  await webhook.deleteOne();
+  await WebhookDeliveryModel.deleteMany({ webhook: webhook._id });
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.WEBHOOK_DELETED,
+    workspace: workspaceId,
+    targetType: "Webhook",
+    targetId: webhook._id as mongoose.Types.ObjectId,
+    before: { url: webhook.url, events: webhook.events },
+  });
+};
+
+/**
+ * The function `getWebhookDeliveriesService` returns the delivery log of a webhook, newest first.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} webhookId - The unique identifier of the webhook.
+ * @param pagination - The `pageSize` and `pageNumber` to return.
+ * @returns An object with the `deliveries` and the `pagination` details.
+ */
+export const getWebhookDeliveriesService = async (
+  workspaceId: string,
+  webhookId: string,
+  pagination: { pageSize: number; pageNumber: number }
+) => {
+  const webhook = await getWebhookInWorkspace(workspaceId, webhookId);
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [deliveries, totalCount] = await Promise.all([
+    WebhookDeliveryModel.find({ webhook: webhook._id })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(pageSize)
+      .lean(),
+    WebhookDeliveryModel.countDocuments({ webhook: webhook._id }),
+  ]);
+
+  return {
+    deliveries,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages: Math.ceil(totalCount / pageSize),
+      skip,
+    },
+  };
+};
+
+/**
+ * The function `replayWebhookDeliveryService` sends the payload of an earlier delivery again, as a
+ * new delivery with its own retries.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} deliveryId - The unique identifier of the delivery to replay.
+ * @returns An object with the new `delivery`.
+ */
+export const replayWebhookDeliveryService = async (
+  workspaceId: string,
+  deliveryId: string
+) => {
+  const original = await WebhookDeliveryModel.findOne({
+    _id: deliveryId,
+    workspace: workspaceId,
+  });
+  if (!original) {
+    throw new NotFoundException("Delivery not found");
+  }
+
+  const delivery = await WebhookDeliveryModel.create({
+    webhook: original.webhook,
+    workspace: original.workspace,
+    event: original.event,
+    payload: original.payload,
+    replayOf: original._id,
+  });
+  sendInBackground(String(delivery._id));
+
+  return { delivery };
+};
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+import { WebhookEventEnumType } from "../enums/webhook.enum";
+import { publishWorkspaceEvent } from "./realtime.service";
+import { dispatchWebhookEvent } from "./webhook.service";
+
+/**
+ * The function `emitWorkspaceEvent` announces a change in a workspace to the open real-time
+ * streams and to the webhooks subscribed to the event. It is called by the services after the
+ * change is saved and never throws.
+ * @param {string} workspaceId - The workspace the change happened in.
+ * @param {WebhookEventEnumType} event - The event name, e.g. `task.created`.
+ * @param data - The event payload.
+ */
+export const emitWorkspaceEvent = async (
+  workspaceId: string | mongoose.Types.ObjectId,
+  event: WebhookEventEnumType,
+  data: Record<string, unknown>
+) => {
+  await Promise.all([
+    publishWorkspaceEvent(workspaceId, event, data),
+    dispatchWebhookEvent(workspaceId, event, data),
+  ]);
+};
@@ -1,14 +1,38 @@
 import mongoose from "mongoose";
 import { Roles } from "../enums/role.enum";
 import MemberModel from "../models/member.model";
+import InvitationModel from "../models/invitation.model";
 import RoleModel from "../models/roles-permission.model";
 import UserModel from "../models/user.model";
-import WorkspaceModel from "../models/workspace.model";
-import { BadRequestException, NotFoundException } from "../utils/appError";
+import WorkspaceModel, { WorkspaceDocument } from "../models/workspace.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
 import TaskModel from "../models/task.model";
-import { TaskStatusEnum } from "../enums/task.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
 import ProjectModel from "../models/project.model";
+import CommentModel from "../models/comment.model";
+import TaskActivityModel from "../models/task-activity.model";
+import SprintModel from "../models/sprint.model";
+import MilestoneModel from "../models/milestone.model";
+import EpicModel from "../models/epic.model";
+import NotificationModel from "../models/notification.model";
+import WebhookModel from "../models/webhook.model";
+import WebhookDeliveryModel from "../models/webhook-delivery.model";
+import AccessTokenModel from "../models/access-token.model";
 import { getMemberRoleInWorkspace } from "./member.service";
+import { recordAuditLogService } from "./audit-log.service";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+import { AuditContextType } from "../utils/audit-context";
+import {
+  buildStatusCategoryQuery,
+  emptyCategoryCounts,
+} from "../utils/workflow";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import { emitWorkspaceEvent } from "./workspace-event.service";
 
 /**
  * The function `createWorkspaceService` creates a new workspace for a user with the specified name and
@@ -36,7 +60,10 @@ export const createWorkspaceService = async (
     throw new NotFoundException("User not found");
   }
 
-  const ownerRole = await RoleModel.findOne({ name: Roles.OWNER });
+  const ownerRole = await RoleModel.findOne({
+    name: Roles.OWNER,
+    workspace: null,
+  });
 
   if (!ownerRole) {
     throw new NotFoundException("Owner role not found");
@@ -150,7 +177,11 @@ export const getWorkspaceMembersService = async (workspaceId: string) => {
     .populate("userId", "name email profilepicture -password")
     .populate("role", "name");
 
-  const roles = await RoleModel.find({}, { name: 1, _id: 1 })
+  // Built-in roles plus the custom roles defined for this workspace
+  const roles = await RoleModel.find(
+    { workspace: { $in: [null, workspaceId] } },
+    { name: 1, _id: 1, workspace: 1 }
+  )
     .select("-permission")
     .lean();
 
@@ -164,12 +195,21 @@ export const getWorkspaceMembersService = async (workspaceId: string) => {
  * identifier of the workspace for which you want to retrieve analytics data.
  * @returns The `getWorkspaceAnalyticsService` function returns an object containing analytics data for
  * a specific workspace. The object includes the total number of tasks in the workspace, the number of
- * overdue tasks (tasks with due dates before the current date and not marked as done), and the number
- * of completed tasks in the workspace.
+ * overdue tasks (tasks with due dates before the current date and not in a done status), the number
+ * of completed tasks and the number of tasks in each status category.
  */
 export const getWorkspaceAnalyticsService = async (workspaceId: string) => {
   const currentDate = new Date();
 
+  // Each project decides which of its statuses count as done
+  const projects = await ProjectModel.find({ workspace: workspaceId }).select(
+    "_id statuses"
+  );
+  const doneQuery = buildStatusCategoryQuery(
+    projects,
+    TaskStatusCategoryEnum.DONE
+  );
+
   const totalTasks = await TaskModel.countDocuments({
     workspace: workspaceId,
   });
@@ -177,18 +217,29 @@ export const getWorkspaceAnalyticsService = async (workspaceId: string) => {
   const overdueTask = await TaskModel.countDocuments({
     workspace: workspaceId,
     dueDate: { $lt: currentDate },
-    status: { $ne: TaskStatusEnum.DONE },
+    $nor: [doneQuery],
   });
 
   const completedTasks = await TaskModel.countDocuments({
     workspace: workspaceId,
-    status: TaskStatusEnum.DONE,
+    ...doneQuery,
   });
 
+  const tasksByCategory = emptyCategoryCounts();
+  await Promise.all(
+    Object.values(TaskStatusCategoryEnum).map(async (category) => {
+      tasksByCategory[category] = await TaskModel.countDocuments({
+        workspace: workspaceId,
+        ...buildStatusCategoryQuery(projects, category),
+      });
+    })
+  );
+
   const analytics = {
     totalTasks,
     overdueTask,
     completedTasks,
+    tasksByCategory,
   };
 
   return { analytics };
@@ -205,20 +256,25 @@ export const getWorkspaceAnalyticsService = async (workspaceId: string) => {
  * @param {string} roleId - The `roleId` parameter in the `changeMemberRoleService` function represents
  * the unique identifier of the role that you want to assign to a member in a workspace. This ID is
  * used to retrieve the specific role from the database before assigning it to the member.
+ * @param auditContext - The request details recorded in the audit log.
  * @returns The `changeMemberRoleService` function returns an object with the updated `member` after
  * changing their role.
  */
 export const changeMemberRoleService = async (
   workspaceId: string,
   memberId: string,
-  roleId: string
+  roleId: string,
+  auditContext: AuditContextType
 ) => {
   const workspace = await WorkspaceModel.findById(workspaceId);
   if (!workspace) {
     throw new NotFoundException("Workspace not found");
   }
 
-  const role = await RoleModel.findById(roleId);
+  const role = await RoleModel.findOne({
+    _id: roleId,
+    workspace: { $in: [null, workspaceId] },
+  });
   if (!role) {
     throw new NotFoundException("Role not found");
   }
@@ -229,12 +285,52 @@ export const changeMemberRoleService = async (
   });
 
   if (!member) {
-    throw new Error("Member not found in the workspace");
+    throw new BadRequestException("Member not found in the workspace");
+  }
+
+  if (workspace.owner.equals(memberId)) {
+    throw new BadRequestException(
+      "The role of the workspace owner cannot be changed. Transfer ownership first with PUT /workspace/:id/transfer-ownership"
+    );
+  }
+
+  const previousRole = await RoleModel.findById(member.role);
+
+  // Demoting the last OWNER would leave nobody able to manage the workspace
+  if (
+    previousRole?.name === Roles.OWNER &&
+    !previousRole.workspace &&
+    String(role._id) !== String(previousRole._id)
+  ) {
+    const otherOwners = await MemberModel.countDocuments({
+      workspaceId,
+      role: previousRole._id,
+      userId: { $ne: memberId },
+    });
+    if (otherOwners === 0) {
+      throw new BadRequestException(
+        "The last owner of a workspace cannot be demoted"
+      );
+    }
   }
 
   member.role = role;
   await member.save();
 
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.MEMBER_ROLE_CHANGED,
+    workspace: workspaceId,
+    targetType: "Member",
+    targetId: memberId,
+    before: { role: previousRole?.name ?? null },
+    after: { role: role.name },
+  });
+
+  await emitWorkspaceEvent(workspaceId, WebhookEventEnum.MEMBER_ROLE_CHANGED, {
+    member: { userId: memberId, role: role.name },
+    previousRole: previousRole?.name ?? null,
+  });
+
   return {
     member,
   };
@@ -275,6 +371,289 @@ export const updateWorkspaceByIdService = async (
   };
 };
 
+/* TRANSFER OWNERSHIP */
+
+/**
+ * The function `transferWorkspaceOwnershipService` hands a workspace over to another member. In one
+ * transaction the workspace `owner` is updated, the new owner receives the OWNER role and the
+ * previous owner is moved to ADMIN.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} userId - The unique identifier of the current owner making the transfer.
+ * @param body - The `newOwnerId` and the workspace name typed by the owner as `confirmation`.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the updated `workspace`.
+ */
+export const transferWorkspaceOwnershipService = async (
+  workspaceId: string,
+  userId: string,
+  body: { newOwnerId: string; confirmation: string },
+  auditContext: AuditContextType
+) => {
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const workspace = await WorkspaceModel.findById(workspaceId).session(
+      session
+    );
+    if (!workspace) {
+      throw new NotFoundException("Workspace not found");
+    }
+
+    if (!workspace.owner.equals(userId)) {
+      throw new UnauthorizedException(
+        "Only the current owner can transfer ownership of this workspace",
+        ErrorCodeEnum.ACCESS_UNAUTHORIZED
+      );
+    }
+
+    if (body.confirmation !== workspace.name) {
+      throw new BadRequestException(
+        "Type the workspace name exactly to confirm the transfer"
+      );
+    }
+
+    if (workspace.owner.equals(body.newOwnerId)) {
+      throw new BadRequestException("You already own this workspace");
+    }
+
+    const newOwnerMember = await MemberModel.findOne({
+      userId: body.newOwnerId,
+      workspaceId,
+    }).session(session);
+    if (!newOwnerMember) {
+      throw new BadRequestException(
+        "Ownership can only be transferred to a member of this workspace"
+      );
+    }
+
+    const previousOwnerMember = await MemberModel.findOne({
+      userId,
+      workspaceId,
+    }).session(session);
+    if (!previousOwnerMember) {
+      throw new NotFoundException("Owner membership not found");
+    }
+
+    const [ownerRole, adminRole] = await Promise.all([
+      RoleModel.findOne({ name: Roles.OWNER, workspace: null }).session(
+        session
+      ),
+      RoleModel.findOne({ name: Roles.ADMIN, workspace: null }).session(
+        session
+      ),
+    ]);
+    if (!ownerRole || !adminRole) {
+      throw new NotFoundException("Owner or admin role not found");
+    }
+
+    const previousRoleOfNewOwner = await RoleModel.findById(
+      newOwnerMember.role
+    ).session(session);
+
+    workspace.owner = newOwnerMember.userId;
+    await workspace.save({ session });
+
+    newOwnerMember.role = ownerRole;
+    await newOwnerMember.save({ session });
+
+    previousOwnerMember.role = adminRole;
+    await previousOwnerMember.save({ session });
+
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.OWNERSHIP_TRANSFERRED,
+        workspace: workspaceId,
+        targetType: "Workspace",
+        targetId: workspaceId,
+        before: {
+          owner: String(userId),
+          newOwnerRole: previousRoleOfNewOwner?.name ?? null,
+        },
+        after: {
+          owner: String(newOwnerMember.userId),
+          previousOwnerRole: adminRole.name,
+        },
+      },
+      session
+    );
+
+    await session.commitTransaction();
+    session.endSession();
+
+    return { workspace };
+  } catch (error) {
+    await session.abortTransaction();
+    session.endSession();
+    throw error;
+  }
+};
+
+/* INVITE LINK */
+
+const formatInviteLink = (workspace: WorkspaceDocument) => ({
+  inviteCode: workspace.inviteCode,
+  enabled: workspace.inviteLinkEnabled,
+  maxUses: workspace.inviteMaxUses,
+  useCount: workspace.inviteUseCount,
+  expiresAt: workspace.inviteExpiresAt,
+  ...workspace.getInviteLinkStatus(),
+});
+
+/**
+ * The function `getInviteLinkService` returns the invite code of a workspace together with its
+ * settings and whether it can currently be used to join.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @returns An object containing the `inviteLink` details.
+ */
+export const getInviteLinkService = async (workspaceId: string) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  return { inviteLink: formatInviteLink(workspace) };
+};
+
+/**
+ * The function `resetInviteCodeService` generates a new invite code for a workspace, so links
+ * shared before stop working. The usage count starts again from zero.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the updated `inviteLink` details.
+ */
+export const resetInviteCodeService = async (
+  workspaceId: string,
+  auditContext: AuditContextType
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  workspace.resetInviteCode();
+  await workspace.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.INVITE_CODE_RESET,
+    workspace: workspaceId,
+    targetType: "Workspace",
+    targetId: workspaceId,
+  });
+
+  return { inviteLink: formatInviteLink(workspace) };
+};
+
+/**
+ * The function `updateInviteLinkService` enables or disables joining by invite link and sets its
+ * usage limit and expiry. Pass `null` to remove a limit or an expiry.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param body - The optional `enabled`, `maxUses` and `expiresAt` settings.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the updated `inviteLink` details.
+ */
+export const updateInviteLinkService = async (
+  workspaceId: string,
+  body: {
+    enabled?: boolean | undefined;
+    maxUses?: number | null | undefined;
+    expiresAt?: string | null | undefined;
+  },
+  auditContext: AuditContextType
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  const before = {
+    enabled: workspace.inviteLinkEnabled,
+    maxUses: workspace.inviteMaxUses,
+    expiresAt: workspace.inviteExpiresAt,
+  };
+
+  if (body.enabled !== undefined) workspace.inviteLinkEnabled = body.enabled;
+  if (body.maxUses !== undefined) workspace.inviteMaxUses = body.maxUses;
+  if (body.expiresAt !== undefined) {
+    workspace.inviteExpiresAt = body.expiresAt
+      ? new Date(body.expiresAt)
+      : null;
+  }
+
+  await workspace.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.INVITE_LINK_UPDATED,
+    workspace: workspaceId,
+    targetType: "Workspace",
+    targetId: workspaceId,
+    before,
+    after: {
+      enabled: workspace.inviteLinkEnabled,
+      maxUses: workspace.inviteMaxUses,
+      expiresAt: workspace.inviteExpiresAt,
+    },
+  });
+
+  return { inviteLink: formatInviteLink(workspace) };
+};
+
+/**
+ * The function `updateTwoFactorRequirementService` lets the workspace owner require two-factor
+ * authentication from every member. Members without it lose access to the workspace until they turn
+ * it on, so the owner must have it on before requiring it.
+ * @param {string} workspaceId - The unique identifier of the workspace.
+ * @param {string} userId - The unique identifier of the owner making the change.
+ * @param body - `required`, whether members must use two-factor authentication.
+ * @param auditContext - The request details recorded in the audit log.
+ * @returns An object containing the updated `workspace`.
+ */
+export const updateTwoFactorRequirementService = async (
+  workspaceId: string,
+  userId: string,
+  body: { required: boolean },
+  auditContext: AuditContextType
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  if (!workspace.owner.equals(userId)) {
+    throw new UnauthorizedException(
+      "Only the workspace owner can change the two-factor requirement",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  if (body.required) {
+    const owner = await UserModel.findById(userId).select("twoFactorEnabled");
+    if (!owner?.twoFactorEnabled) {
+      throw new BadRequestException(
+        "Turn on two-factor authentication for your own account first",
+        ErrorCodeEnum.AUTH_TWO_FACTOR_REQUIRED
+      );
+    }
+  }
+
+  const before = { requireTwoFactor: workspace.requireTwoFactor };
+  workspace.requireTwoFactor = body.required;
+  await workspace.save();
+
+  await recordAuditLogService(auditContext, {
+    action: AuditActionEnum.TWO_FACTOR_REQUIREMENT_UPDATED,
+    workspace: workspaceId,
+    targetType: "Workspace",
+    targetId: workspaceId,
+    before,
+    after: { requireTwoFactor: workspace.requireTwoFactor },
+  });
+
+  return { workspace };
+};
+
 /**
  * The function `deleteWorkspaceService` deletes a workspace along with its associated projects, tasks,
  * and members, and updates the user's current workspace if necessary.
@@ -284,13 +663,15 @@ export const updateWorkspaceByIdService = async (
  * the unique identifier of the user who is attempting to delete a workspace. This parameter is used to
  * verify if the user has the necessary authorization to delete the workspace, as well as to update the
  * user's current workspace if it matches the
+ * @param auditContext - The request details recorded in the audit log.
  * @returns The `deleteWorkspaceService` function returns an object with the `currentWorkspace`
  * property, which contains the updated current workspace of the user after deleting the specified
  * workspace.
  */
 export const deleteWorkspaceService = async (
   workspaceId: string,
-  userId: string
+  userId: string,
+  auditContext: AuditContextType
 ) => {
   const session = await mongoose.startSession();
   session.startTransaction();
@@ -320,10 +701,48 @@ export const deleteWorkspaceService = async (
 
     await TaskModel.deleteMany({ workspace: workspace._id }).session(session);
 
+    await CommentModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    await TaskActivityModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    await SprintModel.deleteMany({ workspace: workspace._id }).session(session);
+
+    await MilestoneModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    await EpicModel.deleteMany({ workspace: workspace._id }).session(session);
+
     await MemberModel.deleteMany({ workspaceId: workspace._id }).session(
       session
     );
 
+    await RoleModel.deleteMany({ workspace: workspace._id }).session(session);
+
+    await InvitationModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    await NotificationModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    // Removing the deliveries also drops the queued ones, so the worker stops sending them
+    await WebhookModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await WebhookDeliveryModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+
+    await AccessTokenModel.deleteMany({ workspaceId: workspace._id }).session(
+      session
+    );
+
     // Update the user's currentWorkspace if it matches the deleted workspace
     if (user?.currentWorkspace?.equals(workspaceId)) {
       const memberWorkspace = await MemberModel.findOne({ userId }).session(
@@ -341,6 +760,18 @@ export const deleteWorkspaceService = async (
 
     await workspace.deleteOne({ session });
 
+    await recordAuditLogService(
+      auditContext,
+      {
+        action: AuditActionEnum.WORKSPACE_DELETED,
+        workspace: workspace._id as mongoose.Types.ObjectId,
+        targetType: "Workspace",
+        targetId: workspace._id as mongoose.Types.ObjectId,
+        before: { name: workspace.name, owner: workspace.owner.toString() },
+      },
+      session
+    );
+
     await session.commitTransaction();
     session.endSession();
 
@@ -69,3 +69,21 @@ export class UnauthorizedException extends AppError {
     );
   }
 }
+
+export class TooManyRequestsException extends AppError {
+  // Seconds until the client may try again
+  public retryAfter: number;
+
+  constructor(
+    message = "Too Many Requests",
+    retryAfter: number,
+    errorCode?: ErrorCodeEnumType
+  ) {
+    super(
+      message,
+      HTTPSTATUS.TOO_MANY_REQUESTS,
+      errorCode || ErrorCodeEnum.AUTH_TOO_MANY_ATTEMPTS
+    );
+    this.retryAfter = retryAfter;
+  }
+}
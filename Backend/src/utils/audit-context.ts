@@ -0,0 +1,13 @@
+import { Request } from "express";
+
+export type AuditContextType = {
+  actorId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+export const getAuditContext = (req: Request): AuditContextType => ({
+  actorId: req.user?._id ? String(req.user._id) : null,
+  ip: req.ip || req.socket?.remoteAddress || null,
+  userAgent: req.get("user-agent") || null,
+});
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toCsvCell } from "./csv";
+
+describe("toCsvCell", () => {
+  it("leaves plain values as they are", () => {
+    assert.equal(toCsvCell("TASK_CREATED"), "TASK_CREATED");
+    assert.equal(toCsvCell(null), "");
+    assert.equal(toCsvCell(undefined), "");
+  });
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    assert.equal(toCsvCell('say "hi", then'), '"say ""hi"", then"');
+    assert.equal(toCsvCell("two\nlines"), '"two\nlines"');
+  });
+
+  it("writes objects as quoted JSON", () => {
+    assert.equal(toCsvCell({ a: 1, b: 2 }), '"{""a"":1,""b"":2}"');
+  });
+
+  it("neutralizes values a spreadsheet would run as a formula", () => {
+    assert.equal(toCsvCell('=HYPERLINK("x")'), '"\'=HYPERLINK(""x"")"');
+    assert.equal(toCsvCell("+1"), "'+1");
+    assert.equal(toCsvCell("-2+3"), "'-2+3");
+    assert.equal(toCsvCell("@SUM(A1)"), "'@SUM(A1)");
+    assert.equal(toCsvCell("\tcmd"), "'\tcmd");
+    assert.equal(toCsvCell("\rcmd"), '"\'\rcmd"');
+  });
+});
@@ -0,0 +1,15 @@
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+
+/**
+ * Renders one CSV cell. Objects are written as JSON, and text that a spreadsheet would run as a
+ * formula is prefixed with `'` so it opens as plain text.
+ */
+export const toCsvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "string" ? value : JSON.stringify(value);
+  if (FORMULA_PREFIX_REGEX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
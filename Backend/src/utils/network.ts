@@ -0,0 +1,54 @@
+import dns from "dns";
+import net from "net";
+
+// Loopback, link-local, private, shared and reserved ranges a server-side request must never reach
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4")
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6")
+);
+
+export const isPublicAddress = (address: string) => {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as the IPv4 address they carry
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped?.[1] ?? address;
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(ip, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Resolves the host of a URL and tells whether every address it resolves to is public. Checked
+ * right before each request, so a host that is later pointed at an internal address is refused.
+ */
+export const resolvesToPublicAddress = async (url: string) => {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  if (net.isIP(hostname)) return isPublicAddress(hostname);
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  return (
+    addresses.length > 0 &&
+    addresses.every(({ address }) => isPublicAddress(address))
+  );
+};
@@ -0,0 +1,40 @@
+// Ranks are strings compared character by character, so a new rank can always be found between two
+// neighbours without touching any other task
+const RANK_DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+const digitAt = (rank: string, index: number) =>
+  RANK_DIGITS.indexOf(rank.charAt(index));
+
+/**
+ * The function `rankBetween` returns a rank that sorts after `before` and before `after`. Pass
+ * `null` for an open end. Generated ranks never end in the lowest digit, so there is always room
+ * in front of them.
+ * @param {string | null} before - The rank of the item above, or `null` for the start.
+ * @param {string | null} after - The rank of the item below, or `null` for the end.
+ * @returns The new rank.
+ */
+export const rankBetween = (before: string | null, after: string | null) => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot rank between "${before}" and "${after}"`);
+  }
+
+  let rank = "";
+  // Once the new rank is below `after` at some position, the rest of `after` no longer matters
+  let boundedByAfter = after !== null;
+  for (let index = 0; ; index++) {
+    const low =
+      before !== null && index < before.length ? digitAt(before, index) : 0;
+    const high =
+      boundedByAfter && after !== null && index < after.length
+        ? digitAt(after, index)
+        : RANK_DIGITS.length;
+
+    if (high - low > 1) {
+      return rank + RANK_DIGITS.charAt(Math.floor((low + high) / 2));
+    }
+    if (high - low === 1) {
+      boundedByAfter = false;
+    }
+    rank += RANK_DIGITS.charAt(low);
+  }
+};
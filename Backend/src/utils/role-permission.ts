@@ -11,6 +11,8 @@ export const RolePermissions: Record<RoleType, Array<PermissionType>> = {
     Permissions.DELETE_WORKSPACE,
     Permissions.EDIT_WORKSPACE,
     Permissions.MANAGE_WORKSPACE_SETTINGS,
+    Permissions.VIEW_AUDIT_LOG,
+    Permissions.MANAGE_ROLES,
 
     Permissions.ADD_MEMBER,
     Permissions.CHANGE_MEMBER_ROLE,
@@ -1,19 +1,24 @@
 import { PermissionType } from "../enums/role.enum";
+import { RoleDocument } from "../models/roles-permission.model";
 import { UnauthorizedException } from "./appError";
-import { RolePermissions } from "./role-permission";
 
-export const roleGuard = (
-  role: keyof typeof RolePermissions,
+export const hasPermissions = (
+  role: Pick<RoleDocument, "permissions">,
   requiredPermissions: PermissionType[]
 ) => {
-  const Permissions = RolePermissions[role];
+  const Permissions = role.permissions;
 
-  // If the role doesn't exist or lacks required permissions, throw an exception
-  const hasPermissions = requiredPermissions.every((permission) =>
+  return requiredPermissions.every((permission) =>
     Permissions.includes(permission)
   );
+};
 
-  if (!hasPermissions) {
+export const roleGuard = (
+  role: Pick<RoleDocument, "permissions">,
+  requiredPermissions: PermissionType[]
+) => {
+  // If the role doesn't exist or lacks required permissions, throw an exception
+  if (!hasPermissions(role, requiredPermissions)) {
     throw new UnauthorizedException(
       "You do not have the necessary permissions to perform this action"
     );
@@ -0,0 +1,8 @@
+import crypto from "crypto";
+
+export const generateToken = (bytes: number = 32) =>
+  crypto.randomBytes(bytes).toString("hex");
+
+// Tokens are stored hashed so a database leak does not expose usable links
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
@@ -0,0 +1,32 @@
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Turns a user agent into a short, readable device name such as "Chrome on macOS". The order of the
+ * patterns matters: most browsers also name the engines they are compatible with.
+ */
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return "Unknown device";
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) =>
+    pattern.test(userAgent)
+  )?.[1];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+};
@@ -0,0 +1,127 @@
+import {
+  TaskStatusCategoryEnum,
+  TaskStatusCategoryEnumType,
+  TaskStatusEnum,
+  WipLimitModeEnum,
+} from "../enums/task.enum";
+import {
+  ProjectStatusType,
+  ProjectTransitionType,
+} from "../models/project.model";
+
+type ProjectWorkflow = {
+  statuses?: ProjectStatusType[] | null;
+  transitions?: ProjectTransitionType[] | null;
+};
+
+// Projects created before workflows existed behave as if they had these statuses
+export const DEFAULT_PROJECT_STATUSES: ProjectStatusType[] = [
+  {
+    key: TaskStatusEnum.BACKLOG,
+    name: "Backlog",
+    category: TaskStatusCategoryEnum.BACKLOG,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  },
+  {
+    key: TaskStatusEnum.TODO,
+    name: "Todo",
+    category: TaskStatusCategoryEnum.BACKLOG,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  },
+  {
+    key: TaskStatusEnum.IN_PROGRESS,
+    name: "In Progress",
+    category: TaskStatusCategoryEnum.ACTIVE,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  },
+  {
+    key: TaskStatusEnum.IN_REVIEW,
+    name: "In Review",
+    category: TaskStatusCategoryEnum.ACTIVE,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  },
+  {
+    key: TaskStatusEnum.DONE,
+    name: "Done",
+    category: TaskStatusCategoryEnum.DONE,
+    wipLimit: null,
+    wipLimitMode: WipLimitModeEnum.SOFT,
+  },
+];
+
+/**
+ * The function `getProjectStatuses` returns the ordered statuses of a project's workflow.
+ */
+export const getProjectStatuses = (project: ProjectWorkflow) =>
+  project.statuses && project.statuses.length > 0
+    ? project.statuses
+    : DEFAULT_PROJECT_STATUSES;
+
+/**
+ * The function `getProjectStatus` looks up one status of a project's workflow by its key.
+ */
+export const getProjectStatus = (project: ProjectWorkflow, key: string) =>
+  getProjectStatuses(project).find((status) => status.key === key);
+
+/**
+ * The function `getStatusKeysInCategory` returns the keys of a project's statuses that belong to
+ * `category`.
+ */
+export const getStatusKeysInCategory = (
+  project: ProjectWorkflow,
+  category: TaskStatusCategoryEnumType
+) =>
+  getProjectStatuses(project)
+    .filter((status) => status.category === category)
+    .map((status) => status.key);
+
+/**
+ * The function `isDoneStatus` tells whether a status of a project's workflow closes its tasks.
+ */
+export const isDoneStatus = (project: ProjectWorkflow, key: string) =>
+  getProjectStatus(project, key)?.category === TaskStatusCategoryEnum.DONE;
+
+/**
+ * The function `isTransitionAllowed` checks a move between two statuses against the project's
+ * allowed transitions. A project without transitions allows every move.
+ */
+export const isTransitionAllowed = (
+  project: ProjectWorkflow,
+  from: string,
+  to: string
+) => {
+  const transitions = project.transitions || [];
+  if (from === to || transitions.length === 0) return true;
+  return transitions.some(
+    (transition) => transition.from === from && transition.to === to
+  );
+};
+
+/**
+ * The function `buildStatusCategoryQuery` matches the tasks of `projects` whose status belongs to
+ * `category`, following each project's own workflow.
+ */
+export const buildStatusCategoryQuery = (
+  projects: (ProjectWorkflow & { _id: unknown })[],
+  category: TaskStatusCategoryEnumType
+) => {
+  if (projects.length === 0) return { _id: { $in: [] } };
+  return {
+    $or: projects.map((project) => ({
+      project: project._id,
+      status: { $in: getStatusKeysInCategory(project, category) },
+    })),
+  };
+};
+
+/**
+ * The function `emptyCategoryCounts` returns a zero count for every status category.
+ */
+export const emptyCategoryCounts = () =>
+  Object.fromEntries(
+    Object.values(TaskStatusCategoryEnum).map((category) => [category, 0])
+  ) as Record<TaskStatusCategoryEnumType, number>;
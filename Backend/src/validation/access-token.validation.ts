@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { permissionsSchema } from "./role.validation";
+import { workspaceIdSchema } from "./workspace.validation";
+
+export const accessTokenIdSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Access token ID is required" });
+
+export const createAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(100),
+  workspaceId: workspaceIdSchema,
+  permissions: permissionsSchema,
+  // Leave empty for a token that doesn't expire
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { AuditActionEnum } from "../enums/audit-action.enum";
+
+const dateStringSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format. Please provide a valid date string",
+  });
+
+export const auditLogFiltersSchema = z.object({
+  action: z
+    .string()
+    .trim()
+    .optional()
+    .transform((val) => (val ? val.split(",") : undefined))
+    .pipe(
+      z
+        .array(z.enum(Object.values(AuditActionEnum) as [string, ...string[]]))
+        .optional()
+    ),
+  actorId: z.string().trim().min(1).optional(),
+  from: dateStringSchema.optional(),
+  to: dateStringSchema.optional(),
+});
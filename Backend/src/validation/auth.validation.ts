@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { ProviderEnum } from "../enums/account-provider.enum";
+import { workspaceIdSchema } from "./workspace.validation";
 
 export const emailSchema = z
   .string()
@@ -18,3 +20,46 @@ export const loginSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
 });
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1, { message: "Reset token is required" }),
+  password: passwordSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, { message: "Verification token is required" }),
+});
+
+export const resendVerificationSchema = z.object({
+  email: emailSchema,
+});
+
+// A 6-digit authenticator code or a one-time recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, { message: "Code is required" }).max(32),
+});
+
+export const linkAccountSchema = z.object({
+  provider: z.enum([ProviderEnum.GOOGLE, ProviderEnum.GITHUB]),
+  workspaceId: workspaceIdSchema,
+});
+
+export const unlinkAccountSchema = z.object({
+  provider: z.enum([
+    ProviderEnum.GOOGLE,
+    ProviderEnum.GITHUB,
+    ProviderEnum.EMAIL,
+  ]),
+});
+
+export const userSessionIdSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Session ID is required" });
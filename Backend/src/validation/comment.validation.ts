@@ -0,0 +1,14 @@
+import z from "zod";
+
+export const commentIdSchema = z.string().trim().min(1);
+
+export const contentSchema = z.string().trim().min(1).max(5000);
+
+export const createCommentSchema = z.object({
+  content: contentSchema,
+  parentComment: commentIdSchema.optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: contentSchema,
+});
@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const epicIdSchema = z.string().trim().min(1);
+
+const epicBodySchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const createEpicSchema = epicBodySchema;
+
+export const updateEpicSchema = epicBodySchema;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { InvitationStatusEnum } from "../enums/invitation-status.enum";
+import { emailSchema } from "./auth.validation";
+
+export const invitationIdSchema = z.string().trim().min(1);
+
+export const invitationTokenSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Invitation token is required" });
+
+export const invitationStatusSchema = z.enum(
+  Object.values(InvitationStatusEnum) as [string, ...string[]]
+);
+
+export const createInvitationSchema = z.object({
+  email: emailSchema,
+  roleId: z.string().trim().min(1),
+});
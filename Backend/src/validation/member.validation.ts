@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const memberIdSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Member ID is required" });
+
+// Without `reassignTasksTo`, the member's assigned tasks are left unassigned
+export const memberTasksHandlingSchema = z.object({
+  reassignTasksTo: z.string().trim().min(1).nullable().optional(),
+});
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const milestoneIdSchema = z.string().trim().min(1);
+
+const milestoneBodySchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(1000).nullable().optional(),
+  targetDate: z
+    .string()
+    .trim()
+    .refine((val) => !isNaN(Date.parse(val)), {
+      message: "Invalid date format. Please provide a valid date string",
+    }),
+});
+
+export const createMilestoneSchema = milestoneBodySchema;
+
+export const updateMilestoneSchema = milestoneBodySchema;
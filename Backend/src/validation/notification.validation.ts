@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { NotificationTypeEnum } from "../enums/notification.enum";
+
+export const notificationIdSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Notification ID is required" });
+
+export const notificationFiltersSchema = z.object({
+  unreadOnly: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export const notificationPreferencesSchema = z.object({
+  optOuts: z.array(z.enum(Object.values(NotificationTypeEnum))),
+});
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { TaskStatusCategoryEnum, WipLimitModeEnum } from "../enums/task.enum";
 
 export const emojiSchema = z.string().trim().optional();
 export const nameSchema = z.string().trim().min(1).max(255);
@@ -16,3 +17,33 @@ export const updateProjectSchema = z.object({
   name: nameSchema,
   description: descriptionSchema,
 });
+
+export const statusKeySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .regex(/^[A-Z0-9_]+$/, {
+    message:
+      "Status keys may only contain uppercase letters, digits and underscores",
+  });
+
+export const updateProjectWorkflowSchema = z.object({
+  statuses: z
+    .array(
+      z.object({
+        key: statusKeySchema,
+        name: z.string().trim().min(1).max(50),
+        category: z.enum(Object.values(TaskStatusCategoryEnum)),
+        wipLimit: z.number().int().min(1).max(1000).nullable().default(null),
+        wipLimitMode: z
+          .enum(Object.values(WipLimitModeEnum))
+          .default(WipLimitModeEnum.SOFT),
+      })
+    )
+    .min(1)
+    .max(20),
+  transitions: z
+    .array(z.object({ from: statusKeySchema, to: statusKeySchema }))
+    .default([]),
+});
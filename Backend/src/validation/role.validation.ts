@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { Permissions, Roles } from "../enums/role.enum";
+
+export const roleIdSchema = z.string().trim().min(1);
+
+export const roleNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Role name is required" })
+  .max(50)
+  .refine((val) => !Object.values(Roles).includes(val.toUpperCase() as never), {
+    message: "This name is reserved for a built-in role",
+  });
+
+export const permissionsSchema = z
+  .array(z.enum(Object.values(Permissions) as [string, ...string[]]))
+  .min(1);
+
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: z.string().trim().max(255).optional(),
+  permissions: permissionsSchema,
+});
+
+export const updateRoleSchema = z.object({
+  name: roleNameSchema.optional(),
+  description: z.string().trim().max(255).optional(),
+  permissions: permissionsSchema.optional(),
+});
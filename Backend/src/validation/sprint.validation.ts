@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const sprintIdSchema = z.string().trim().min(1);
+
+const sprintDateSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format. Please provide a valid date string",
+  });
+
+const sprintDatesSchema = z
+  .object({
+    name: z.string().trim().min(1).max(255),
+    goal: z.string().trim().max(1000).nullable().optional(),
+    startDate: sprintDateSchema,
+    endDate: sprintDateSchema,
+  })
+  .refine((data) => Date.parse(data.endDate) > Date.parse(data.startDate), {
+    message: "The end date must be after the start date",
+    path: ["endDate"],
+  });
+
+export const createSprintSchema = sprintDatesSchema;
+
+export const updateSprintSchema = sprintDatesSchema;
+
+export const closeSprintSchema = z.object({
+  // Where unfinished tasks go; `null` sends them back to the project backlog
+  carryOverTo: sprintIdSchema.nullable().default(null),
+});
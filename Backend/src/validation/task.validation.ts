@@ -1,5 +1,5 @@
 import z from "zod";
-import { TaskPriorityEnum, TaskStatusEnum } from "../enums/task.enum";
+import { TaskPriorityEnum } from "../enums/task.enum";
 
 export const titleSchema = z.string().trim().min(1).max(255);
 export const descriptionSchema = z.string().trim().optional();
@@ -10,9 +10,8 @@ export const prioritySchema = z.enum(
   Object.values(TaskPriorityEnum) as [string, ...string[]]
 );
 
-export const statusSchema = z.enum(
-  Object.values(TaskStatusEnum) as [string, ...string[]]
-);
+// A key of the project's workflow; the task services check that it exists
+export const statusSchema = z.string().trim().min(1).max(50);
 
 export const dueDateSchema = z
   .string()
@@ -29,13 +28,25 @@ export const dueDateSchema = z
 
 export const taskIdSchema = z.string().trim().min(1);
 
+// `null` keeps the task in the project backlog
+export const sprintSchema = z.string().trim().min(1).nullable().optional();
+
+export const milestoneSchema = z.string().trim().min(1).nullable().optional();
+
+export const epicSchema = z.string().trim().min(1).nullable().optional();
+
 export const createTaskSchema = z.object({
   title: titleSchema,
   description: descriptionSchema,
   priority: prioritySchema,
-  status: statusSchema,
+  // Left out, the task starts in the first status of the project's workflow
+  status: statusSchema.optional(),
   assignedTo: assignedToSchema,
   dueDate: dueDateSchema,
+  sprint: sprintSchema,
+  milestone: milestoneSchema,
+  epic: epicSchema,
+  overrideWipLimit: z.boolean().optional(),
 });
 
 export const updateTaskSchema = z.object({
@@ -45,4 +56,45 @@ export const updateTaskSchema = z.object({
   status: statusSchema,
   assignedTo: assignedToSchema,
   dueDate: dueDateSchema,
+  sprint: sprintSchema,
+  milestone: milestoneSchema,
+  epic: epicSchema,
+  overrideBlockers: z.boolean().optional(),
+  overrideWipLimit: z.boolean().optional(),
+});
+
+export const reorderTaskSchema = z.object({
+  status: statusSchema,
+  // The tasks shown above and below the drop position; null at either end of the column
+  beforeTaskId: taskIdSchema.nullable().optional(),
+  afterTaskId: taskIdSchema.nullable().optional(),
+  overrideBlockers: z.boolean().optional(),
+  overrideWipLimit: z.boolean().optional(),
+});
+
+export const checklistItemIdSchema = z.string().trim().min(1);
+
+export const childTaskStrategySchema = z
+  .enum(["cascade", "reparent"])
+  .default("cascade");
+
+export const createChecklistItemSchema = z.object({
+  title: titleSchema,
+});
+
+export const updateChecklistItemSchema = z.object({
+  title: titleSchema.optional(),
+  isCompleted: z.boolean().optional(),
+});
+
+export const reorderChecklistSchema = z.object({
+  itemIds: z.array(checklistItemIdSchema).min(1),
+});
+
+export const reorderSubtasksSchema = z.object({
+  subtaskIds: z.array(taskIdSchema).min(1),
+});
+
+export const addDependencySchema = z.object({
+  blockerTaskId: taskIdSchema,
 });
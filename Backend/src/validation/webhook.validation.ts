@@ -0,0 +1,50 @@
+import net from "net";
+import { z } from "zod";
+import { config } from "../config/app.config";
+import { WebhookEventEnum } from "../enums/webhook.enum";
+import { isPublicAddress } from "../utils/network";
+
+export const webhookIdSchema = z.string().trim().min(1);
+
+export const webhookDeliveryIdSchema = z.string().trim().min(1);
+
+// Deliveries carry workspace data, so production endpoints must use TLS
+export const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url({ message: "Enter a valid URL" })
+  .max(2048)
+  .refine(
+    (url) =>
+      url.startsWith("https://") ||
+      (config.NODE_ENV !== "production" && url.startsWith("http://")),
+    { message: "The webhook URL must use https" }
+  )
+  // Hosts are resolved and checked again on every delivery; this only gives early feedback
+  .refine(
+    (url) => {
+      const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+      if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+        return false;
+      }
+      return !net.isIP(hostname) || isPublicAddress(hostname);
+    },
+    { message: "The webhook URL must point to a public host" }
+  );
+
+export const webhookEventsSchema = z
+  .array(z.enum(Object.values(WebhookEventEnum) as [string, ...string[]]))
+  .min(1, { message: "Select at least one event" });
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(255).nullable().optional(),
+  events: webhookEventsSchema,
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(255).nullable().optional(),
+  events: webhookEventsSchema.optional(),
+  enabled: z.boolean().optional(),
+});
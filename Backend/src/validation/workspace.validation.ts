@@ -18,6 +18,15 @@ export const changeRoleSchema = z.object({
   memberId: z.string().trim().min(1),
 });
 
+export const transferOwnershipSchema = z.object({
+  newOwnerId: z.string().trim().min(1),
+  // The workspace name, typed by the current owner to confirm the transfer
+  confirmation: z
+    .string()
+    .trim()
+    .min(1, { message: "Confirmation is required" }),
+});
+
 export const createWorkspaceSchema = z.object({
   name: nameSchema,
   description: descriptionSchema,
@@ -27,3 +36,20 @@ export const updateWorkspaceSchema = z.object({
   name: nameSchema,
   description: descriptionSchema,
 });
+
+export const updateInviteLinkSchema = z.object({
+  enabled: z.boolean().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  expiresAt: z
+    .string()
+    .trim()
+    .refine((val) => !isNaN(Date.parse(val)), {
+      message: "Invalid date format. Please provide a valid date string.",
+    })
+    .nullable()
+    .optional(),
+});
+
+export const updateTwoFactorRequirementSchema = z.object({
+  required: z.boolean(),
+});
@@ -10,6 +10,7 @@ import {
 import { Separator } from "./ui/separator";
 import { Link, useLocation } from "react-router-dom";
 import useWorkspaceId from "@/hooks/use-workspace-id";
+import NotificationBell from "./notifications/notification-bell";
 
 const Header = () => {
   const location = useLocation();
@@ -58,6 +59,9 @@ const Header = () => {
           </BreadcrumbList>
         </Breadcrumb>
       </div>
+      <div className="flex items-center px-3">
+        <NotificationBell />
+      </div>
     </header>
   );
 };
@@ -0,0 +1,177 @@
+import { formatDistanceToNow } from "date-fns";
+import { Bell, Loader } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import {
+  getNotificationsQueryFn,
+  markAllNotificationsReadMutationFn,
+  markNotificationReadMutationFn,
+} from "@/lib/api";
+import { transformStatusEnum } from "@/lib/helper";
+import { cn } from "@/lib/utils";
+import { NotificationType } from "@/types/api.type";
+import NotificationPreferences from "./notification-preferences";
+
+const describeNotification = (notification: NotificationType) => {
+  const actor = notification.actor?.name || "Someone";
+  const task = notification.data.taskCode || "a task";
+  switch (notification.type) {
+    case "TASK_ASSIGNED":
+      return `${actor} assigned you ${task}`;
+    case "TASK_MENTIONED":
+      return `${actor} mentioned you on ${task}`;
+    case "TASK_STATUS_CHANGED":
+      return `${actor} moved ${task} to ${transformStatusEnum(
+        notification.data.newStatus || ""
+      ).toLowerCase()}`;
+  }
+};
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isPending } = useQuery({
+    queryKey: ["notifications"],
+    queryFn: () => getNotificationsQueryFn(),
+    refetchInterval: 60 * 1000,
+  });
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const { mutate: markRead } = useMutation({
+    mutationFn: markNotificationReadMutationFn,
+  });
+  const { mutate: markAllRead, isPending: isMarkingAll } = useMutation({
+    mutationFn: markAllNotificationsReadMutationFn,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["notifications"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleOpen = (notification: NotificationType) => {
+    if (!notification.readAt) {
+      markRead(notification._id, { onSuccess, onError });
+    }
+    if (notification.data.project) {
+      navigate(
+        `/workspace/${notification.workspace}/project/${notification.data.project}`
+      );
+    }
+  };
+
+  const handleMarkAllRead = () => {
+    if (isMarkingAll) return;
+    markAllRead(undefined, { onSuccess, onError });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={`Notifications, ${unreadCount} unread`}
+        >
+          <Bell />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full
+               bg-destructive text-white text-[11px] leading-[18px] font-semibold text-center"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[360px] p-3">
+        <Tabs defaultValue="inbox">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <TabsList>
+              <TabsTrigger value="inbox">Inbox</TabsTrigger>
+              <TabsTrigger value="preferences">Preferences</TabsTrigger>
+            </TabsList>
+            <Button
+              variant="link"
+              className="px-0 h-auto text-xs"
+              disabled={isMarkingAll || unreadCount === 0}
+              onClick={handleMarkAllRead}
+            >
+              Mark all read
+            </Button>
+          </div>
+
+          <TabsContent value="inbox">
+            {isPending ? (
+              <Loader className="w-5 h-5 animate-spin place-self-center flex" />
+            ) : null}
+
+            {!isPending && notifications.length === 0 && (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                You're all caught up.
+              </p>
+            )}
+
+            <div className="flex flex-col max-h-[360px] overflow-y-auto">
+              {notifications.map((notification) => (
+                <button
+                  key={notification._id}
+                  type="button"
+                  className={cn(
+                    "flex items-start gap-2 text-left rounded-md px-2 py-2 hover:bg-muted",
+                    !notification.readAt && "bg-muted/50"
+                  )}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      notification.readAt ? "bg-transparent" : "bg-primary"
+                    )}
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm">
+                      {describeNotification(notification)}
+                    </span>
+                    <span className="block text-sm text-muted-foreground truncate">
+                      {notification.data.taskTitle}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="preferences">
+            <NotificationPreferences />
+          </TabsContent>
+        </Tabs>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,70 @@
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "@/hooks/use-toast";
+import {
+  getNotificationPreferencesQueryFn,
+  updateNotificationPreferencesMutationFn,
+} from "@/lib/api";
+import { NotificationTypeType } from "@/types/api.type";
+
+const NOTIFICATION_TYPES: { type: NotificationTypeType; label: string }[] = [
+  { type: "TASK_ASSIGNED", label: "A task is assigned to me" },
+  { type: "TASK_MENTIONED", label: "I'm mentioned in a comment" },
+  { type: "TASK_STATUS_CHANGED", label: "A task I created changes status" },
+];
+
+const NotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isPending } = useQuery({
+    queryKey: ["notification-preferences"],
+    queryFn: getNotificationPreferencesQueryFn,
+  });
+  const optOuts = data?.optOuts || [];
+
+  const { mutate, isPending: isUpdating } = useMutation({
+    mutationFn: updateNotificationPreferencesMutationFn,
+  });
+
+  const handleToggle = (type: NotificationTypeType, enabled: boolean) => {
+    if (isUpdating) return;
+    mutate(
+      enabled ? optOuts.filter((value) => value !== type) : [...optOuts, type],
+      {
+        onSuccess: (data) => {
+          queryClient.setQueryData(["notification-preferences"], data);
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  if (isPending) {
+    return <Loader className="w-5 h-5 animate-spin place-self-center flex" />;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 p-1">
+      <p className="text-sm text-muted-foreground">Notify me when:</p>
+      {NOTIFICATION_TYPES.map(({ type, label }) => (
+        <label key={type} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={!optOuts.includes(type)}
+            disabled={isUpdating}
+            onCheckedChange={(checked) => handleToggle(type, checked === true)}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default NotificationPreferences;
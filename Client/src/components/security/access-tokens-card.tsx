@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PermissionType } from "@/constant";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import usePermissions from "@/hooks/use-permissions";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createAccessTokenMutationFn,
+  getAccessTokensQueryFn,
+  revokeAccessTokenMutationFn,
+} from "@/lib/api";
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+const AccessTokensCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  // A token can only be given permissions the user has in this workspace
+  const availablePermissions = usePermissions(
+    authData?.user,
+    workspaceData?.workspace
+  );
+
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState<PermissionType[]>([]);
+  const [expiry, setExpiry] = useState("30");
+  // The token is only returned once, right after it is created
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey: ["access-tokens"],
+    queryFn: getAccessTokensQueryFn,
+  });
+  const accessTokens = data?.accessTokens || [];
+
+  const { mutate: createToken, isPending: isCreating } = useMutation({
+    mutationFn: createAccessTokenMutationFn,
+  });
+  const { mutate: revokeToken, isPending: isRevoking } = useMutation({
+    mutationFn: revokeAccessTokenMutationFn,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const togglePermission = (permission: PermissionType, checked: boolean) => {
+    setPermissions((prev) =>
+      checked
+        ? [...prev, permission]
+        : prev.filter((value) => value !== permission)
+    );
+  };
+
+  const handleCreate = () => {
+    if (isCreating || !name.trim() || permissions.length === 0) return;
+    createToken(
+      {
+        name: name.trim(),
+        workspaceId,
+        permissions,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({ queryKey: ["access-tokens"] });
+          setCreatedToken(data.token);
+          setName("");
+          setPermissions([]);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleRevoke = (accessTokenId: string) => {
+    if (isRevoking) return;
+    revokeToken(accessTokenId, {
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({ queryKey: ["access-tokens"] });
+        toast({
+          title: "Success",
+          description: data.message,
+          variant: "success",
+        });
+      },
+      onError,
+    });
+  };
+
+  const handleCopyToken = () => {
+    if (!createdToken) return;
+    navigator.clipboard.writeText(createdToken).then(() => {
+      toast({
+        title: "Copied",
+        description: "Access token copied to clipboard",
+        variant: "success",
+      });
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Personal access tokens
+        </h1>
+      </div>
+
+      {createdToken && (
+        <div className="mb-5 rounded-md border p-4">
+          <p className="text-sm font-medium mb-1">Your new access token</p>
+          <p className="text-sm text-muted-foreground mb-3">
+            Copy it now and store it somewhere safe. It won't be shown again.
+          </p>
+          <code className="block rounded-md bg-muted px-3 py-2 text-sm break-all mb-3">
+            {createdToken}
+          </code>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyToken}>
+              Copy
+            </Button>
+            <Button variant="ghost" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3">
+        <p className="text-sm text-muted-foreground">
+          Scripts can call the API with a token in an{" "}
+          <code>Authorization: Bearer</code> header. A token only works in the
+          workspace it was created in, with the permissions you pick.
+        </p>
+        <div className="grid gap-2">
+          <Label htmlFor="access-token-name">Name</Label>
+          <Input
+            id="access-token-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Nightly sync script"
+            className="!h-[40px]"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label>Permissions</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {availablePermissions.map((permission) => (
+              <label
+                key={permission}
+                className="flex items-center gap-2 text-sm"
+              >
+                <Checkbox
+                  checked={permissions.includes(permission)}
+                  onCheckedChange={(checked) =>
+                    togglePermission(permission, checked === true)
+                  }
+                />
+                {permission.replace(/_/g, " ").toLowerCase()}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <Label>Expires after</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="!h-[40px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          className="h-[40px] text-white font-semibold place-self-end"
+          disabled={isCreating || !name.trim() || permissions.length === 0}
+          onClick={handleCreate}
+        >
+          {isCreating && <Loader className="animate-spin" />}
+          Create token
+        </Button>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex mt-4" />
+      ) : null}
+
+      {accessTokens.length > 0 && (
+        <div className="flex flex-col gap-3 mt-5">
+          {accessTokens.map((accessToken) => (
+            <div
+              key={accessToken._id}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {accessToken.name}{" "}
+                  <code className="text-xs text-muted-foreground">
+                    {accessToken.tokenPrefix}…
+                  </code>
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {accessToken.workspaceId?.name} ·{" "}
+                  {accessToken.expiresAt
+                    ? `Expires ${format(accessToken.expiresAt, "PPP")}`
+                    : "No expiry"}{" "}
+                  ·{" "}
+                  {accessToken.lastUsedAt
+                    ? `Last used ${format(accessToken.lastUsedAt, "PPP")}`
+                    : "Never used"}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                className="h-[40px] shrink-0"
+                disabled={isRevoking}
+                onClick={() => handleRevoke(accessToken._id)}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessTokensCard;
@@ -0,0 +1,160 @@
+import { useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { baseURL } from "@/lib/base-url";
+import {
+  getLinkedAccountsQueryFn,
+  startLinkAccountMutationFn,
+  unlinkAccountMutationFn,
+} from "@/lib/api";
+import { AccountProviderType } from "@/types/api.type";
+
+const PROVIDERS: { provider: AccountProviderType; label: string }[] = [
+  { provider: "EMAIL", label: "Email and password" },
+  { provider: "GOOGLE", label: "Google" },
+  { provider: "GITHUB", label: "GitHub" },
+];
+
+const ConnectedAccountsCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { data, isPending } = useQuery({
+    queryKey: ["linked-accounts"],
+    queryFn: getLinkedAccountsQueryFn,
+  });
+  const accounts = data?.accounts || [];
+
+  const { mutate: startLink, isPending: isLinking } = useMutation({
+    mutationFn: startLinkAccountMutationFn,
+  });
+  const { mutate: unlink, isPending: isUnlinking } = useMutation({
+    mutationFn: unlinkAccountMutationFn,
+  });
+
+  // The provider's callback returns here with the result of the link
+  useEffect(() => {
+    const link = searchParams.get("link");
+    if (!link) return;
+    toast({
+      title: link === "success" ? "Success" : "Error",
+      description:
+        link === "success"
+          ? "Account linked successfully"
+          : searchParams.get("message") || "Failed to link account",
+      variant: link === "success" ? "success" : "destructive",
+    });
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleLink = (provider: AccountProviderType) => {
+    if (isLinking || provider === "EMAIL") return;
+    startLink(
+      { provider, workspaceId },
+      {
+        onSuccess: () => {
+          window.location.href = `${baseURL}/auth/${provider.toLowerCase()}`;
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleUnlink = (provider: AccountProviderType) => {
+    if (isUnlinking) return;
+    unlink(provider, {
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({ queryKey: ["linked-accounts"] });
+        toast({
+          title: "Success",
+          description: data.message,
+          variant: "success",
+        });
+      },
+      onError,
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Connected accounts
+        </h1>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+      ) : null}
+
+      {!isPending && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-muted-foreground">
+            Link other accounts to log in with any of them. You need to keep at
+            least one.
+          </p>
+          {PROVIDERS.map(({ provider, label }) => {
+            const account = accounts.find(
+              (account) => account.provider === provider
+            );
+            // Email login can't be linked from here; it comes from signing up with a password
+            if (!account && provider === "EMAIL") return null;
+            return (
+              <div
+                key={provider}
+                className="flex items-center justify-between gap-2"
+              >
+                <div>
+                  <p className="text-sm font-medium">{label}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {account
+                      ? `Linked on ${new Date(
+                          account.createdAt
+                        ).toLocaleDateString()}`
+                      : "Not linked"}
+                  </p>
+                </div>
+                {account ? (
+                  <Button
+                    variant="outline"
+                    className="h-[40px]"
+                    disabled={isUnlinking || accounts.length <= 1}
+                    onClick={() => handleUnlink(provider)}
+                  >
+                    Unlink
+                  </Button>
+                ) : (
+                  <Button
+                    className="h-[40px] text-white font-semibold"
+                    disabled={isLinking}
+                    onClick={() => handleLink(provider)}
+                  >
+                    Link
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConnectedAccountsCard;
@@ -0,0 +1,129 @@
+import { formatDistanceToNow } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import {
+  getUserSessionsQueryFn,
+  revokeOtherUserSessionsMutationFn,
+  revokeUserSessionMutationFn,
+} from "@/lib/api";
+
+const SessionsCard = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isPending } = useQuery({
+    queryKey: ["user-sessions"],
+    queryFn: getUserSessionsQueryFn,
+  });
+  const sessions = data?.sessions || [];
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+  const { mutate: revoke, isPending: isRevoking } = useMutation({
+    mutationFn: revokeUserSessionMutationFn,
+  });
+  const { mutate: revokeOthers, isPending: isRevokingOthers } = useMutation({
+    mutationFn: revokeOtherUserSessionsMutationFn,
+  });
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["user-sessions"] });
+    toast({
+      title: "Success",
+      description: data.message,
+      variant: "success",
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleRevoke = (sessionId: string) => {
+    if (isRevoking) return;
+    revoke(sessionId, { onSuccess, onError });
+  };
+
+  const handleRevokeOthers = () => {
+    if (isRevokingOthers) return;
+    revokeOthers(undefined, { onSuccess, onError });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Active sessions
+        </h1>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+      ) : null}
+
+      {!isPending && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-muted-foreground">
+            These devices are logged in to your account. Sign out any you don't
+            recognise.
+          </p>
+          {sessions.map((session) => (
+            <div
+              key={session._id}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  {session.device}
+                  {session.isCurrent && (
+                    <Badge variant="outline">This device</Badge>
+                  )}
+                </p>
+                <p
+                  className="text-sm text-muted-foreground truncate"
+                  title={session.userAgent || undefined}
+                >
+                  {session.ip || "Unknown IP"} · Last active{" "}
+                  {formatDistanceToNow(new Date(session.lastSeenAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  variant="outline"
+                  className="h-[40px] shrink-0"
+                  disabled={isRevoking}
+                  onClick={() => handleRevoke(session._id)}
+                >
+                  Sign out
+                </Button>
+              )}
+            </div>
+          ))}
+          {hasOtherSessions && (
+            <Button
+              variant="destructive"
+              className="h-[40px] place-self-end"
+              disabled={isRevokingOthers}
+              onClick={handleRevokeOthers}
+            >
+              {isRevokingOthers && <Loader className="animate-spin" />}
+              Sign out all other sessions
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionsCard;
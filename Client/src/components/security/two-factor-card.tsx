@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import {
+  disableTwoFactorMutationFn,
+  enableTwoFactorMutationFn,
+  getTwoFactorStatusQueryFn,
+  regenerateRecoveryCodesMutationFn,
+  setupTwoFactorMutationFn,
+} from "@/lib/api";
+
+const TwoFactorCard = () => {
+  const queryClient = useQueryClient();
+
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<{
+    secret: string;
+    otpauthUri: string;
+  } | null>(null);
+  // Recovery codes are only returned once, right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const { data, isPending } = useQuery({
+    queryKey: ["two-factor"],
+    queryFn: getTwoFactorStatusQueryFn,
+  });
+  const twoFactor = data?.twoFactor;
+
+  const { mutate: startSetup, isPending: isStarting } = useMutation({
+    mutationFn: setupTwoFactorMutationFn,
+  });
+  const { mutate: enable, isPending: isEnabling } = useMutation({
+    mutationFn: enableTwoFactorMutationFn,
+  });
+  const { mutate: disable, isPending: isDisabling } = useMutation({
+    mutationFn: disableTwoFactorMutationFn,
+  });
+  const { mutate: regenerate, isPending: isRegenerating } = useMutation({
+    mutationFn: regenerateRecoveryCodesMutationFn,
+  });
+
+  const onSuccess = () => {
+    setCode("");
+    queryClient.invalidateQueries({ queryKey: ["two-factor"] });
+    queryClient.invalidateQueries({ queryKey: ["authUser"] });
+  };
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleStartSetup = () => {
+    if (isStarting) return;
+    startSetup(undefined, {
+      onSuccess: (data) => {
+        setSetup({ secret: data.secret, otpauthUri: data.otpauthUri });
+      },
+      onError,
+    });
+  };
+
+  const handleEnable = () => {
+    if (isEnabling || !code) return;
+    enable(
+      { code },
+      {
+        onSuccess: (data) => {
+          onSuccess();
+          setSetup(null);
+          setRecoveryCodes(data.recoveryCodes);
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleDisable = () => {
+    if (isDisabling || !code) return;
+    disable(
+      { code },
+      {
+        onSuccess: (data) => {
+          onSuccess();
+          setRecoveryCodes([]);
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleRegenerate = () => {
+    if (isRegenerating || !code) return;
+    regenerate(
+      { code },
+      {
+        onSuccess: (data) => {
+          onSuccess();
+          setRecoveryCodes(data.recoveryCodes);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleCopyRecoveryCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes.join("\n")).then(() => {
+      toast({
+        title: "Copied",
+        description: "Recovery codes copied to clipboard",
+        variant: "success",
+      });
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Two-factor authentication
+        </h1>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+      ) : null}
+
+      {recoveryCodes.length > 0 && (
+        <div className="mb-5 rounded-md border p-4">
+          <p className="text-sm font-medium mb-1">Your recovery codes</p>
+          <p className="text-sm text-muted-foreground mb-3">
+            Store them somewhere safe. Each code can be used once to sign in if
+            you lose access to your authenticator app. They won't be shown
+            again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm mb-3">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopyRecoveryCodes}>
+              Copy
+            </Button>
+            <Button variant="ghost" onClick={() => setRecoveryCodes([])}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {twoFactor && !twoFactor.enabled && !setup && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-muted-foreground">
+            Protect your account with a code from an authenticator app in
+            addition to your password.
+          </p>
+          <Button
+            className="h-[40px] text-white font-semibold place-self-end"
+            disabled={isStarting}
+            onClick={handleStartSetup}
+          >
+            {isStarting && <Loader className="animate-spin" />}
+            Set up two-factor authentication
+          </Button>
+        </div>
+      )}
+
+      {twoFactor && !twoFactor.enabled && setup && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-muted-foreground">
+            Add TeamSync to your authenticator app, either by{" "}
+            <a href={setup.otpauthUri} className="underline underline-offset-4">
+              opening this link
+            </a>{" "}
+            on your phone or by entering this key:
+          </p>
+          <code className="rounded-md bg-muted px-3 py-2 text-sm break-all">
+            {setup.secret}
+          </code>
+          <p className="text-sm text-muted-foreground">
+            Then enter the 6-digit code the app shows to finish.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              className="!h-[40px]"
+            />
+            <Button
+              className="h-[40px] text-white font-semibold"
+              disabled={isEnabling || !code}
+              onClick={handleEnable}
+            >
+              {isEnabling && <Loader className="animate-spin" />}
+              Turn on
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {twoFactor?.enabled && (
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is on. You have{" "}
+            {twoFactor.recoveryCodesRemaining} unused recovery code(s) left.
+            Enter a code from your authenticator app or a recovery code to make
+            changes.
+          </p>
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Authenticator or recovery code"
+            autoComplete="one-time-code"
+            className="!h-[40px]"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              className="h-[40px]"
+              disabled={isRegenerating || !code}
+              onClick={handleRegenerate}
+            >
+              {isRegenerating && <Loader className="animate-spin" />}
+              New recovery codes
+            </Button>
+            <Button
+              variant="destructive"
+              className="h-[40px]"
+              disabled={isDisabling || !code}
+              onClick={handleDisable}
+            >
+              {isDisabling && <Loader className="animate-spin" />}
+              Turn off
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorCard;
@@ -0,0 +1,28 @@
+import { ShieldAlert } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+
+const TwoFactorRequiredNotice = () => {
+  const workspaceId = useWorkspaceId();
+
+  return (
+    <div className="w-full max-w-md mx-auto py-20 flex flex-col items-center text-center gap-3">
+      <ShieldAlert className="w-10 h-10 text-muted-foreground" />
+      <h2 className="text-lg font-semibold">
+        Two-factor authentication required
+      </h2>
+      <p className="text-sm text-muted-foreground">
+        This workspace requires every member to use two-factor authentication.
+        Turn it on for your account to continue.
+      </p>
+      <Button asChild>
+        <Link to={`/workspace/${workspaceId}/security`}>
+          Go to security settings
+        </Link>
+      </Button>
+    </div>
+  );
+};
+
+export default TwoFactorRequiredNotice;
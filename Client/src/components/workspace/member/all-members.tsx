@@ -1,4 +1,6 @@
-import { ChevronDown, Loader } from "lucide-react";
+import { useState } from "react";
+import { ChevronDown, Loader, LockOpen, UserMinus } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -16,78 +18,240 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { getAvatarColor } from "@/lib/helper";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import {
+  removeWorkspaceMemberMutationFn,
+  unlockMemberLoginMutationFn,
+} from "@/lib/api";
+import { Permissions } from "@/constant";
+import { toast } from "@/hooks/use-toast";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import usePermissions from "@/hooks/use-permissions";
+import { AllMembersInWorkspaceResponseType } from "@/types/api.type";
+import ReassignTasksSelect from "./reassign-tasks-select";
+
+type MemberType = AllMembersInWorkspaceResponseType["members"][number];
+
 const AllMembers = () => {
-  const isPending = false;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const [memberToRemove, setMemberToRemove] = useState<MemberType | null>(null);
+  const [reassignTasksTo, setReassignTasksTo] = useState<string | null>(null);
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const { data, isPending } = useGetWorkspaceMembers(workspaceId);
+
+  const user = authData?.user;
+  const members = data?.members || [];
+  const permissions = usePermissions(user, workspaceData?.workspace);
+  const canRemoveMember = permissions.includes(Permissions.REMOVE_MEMBER);
+  const canUnlockLogin = permissions.includes(
+    Permissions.MANAGE_WORKSPACE_SETTINGS
+  );
+
+  const { mutate, isPending: isRemoving } = useMutation({
+    mutationFn: removeWorkspaceMemberMutationFn,
+  });
+
+  const { mutate: unlockLogin, isPending: isUnlocking } = useMutation({
+    mutationFn: unlockMemberLoginMutationFn,
+  });
 
   const isLoading = false;
+
+  const handleUnlockLogin = (member: MemberType) => {
+    if (isUnlocking) return;
+    unlockLogin(
+      { workspaceId, memberId: member.userId._id },
+      {
+        onSuccess: (data) => {
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleCloseDialog = () => {
+    setMemberToRemove(null);
+    setReassignTasksTo(null);
+  };
+
+  const handleConfirmRemove = () => {
+    if (!memberToRemove || isRemoving) return;
+    mutate(
+      {
+        workspaceId,
+        memberId: memberToRemove.userId._id,
+        data: { reassignTasksTo },
+      },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({ queryKey: ["members", workspaceId] });
+          queryClient.invalidateQueries({
+            queryKey: ["workspace", workspaceId],
+          });
+          handleCloseDialog();
+          toast({
+            title: "Success",
+            description: `${memberToRemove.userId.name} was removed. ${data.tasksAffected} task(s) updated.`,
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
   return (
     <div className="grid gap-6 pt-2">
       {isPending ? (
         <Loader className="w-8 h-8 animate-spin place-self-center flex" />
       ) : null}
-      <div className="flex items-center justify-between space-x-4">
-        <div className="flex items-center space-x-4">
-          <Avatar className="h-8 w-8">
-            <AvatarImage src="/avatars/01.png" alt="Image" />
-            <AvatarFallback className={`${getAvatarColor("OM")}`}>
-              OM
-            </AvatarFallback>
-          </Avatar>
-          <div>
-            <p className="text-sm font-medium leading-none">Sofia Davis</p>
-            <p className="text-sm text-muted-foreground">m@example.com</p>
-          </div>
-        </div>
-        <div className="flex items-center gap-3">
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                size="sm"
-                className="ml-auto min-w-24 capitalize disabled:opacity-95 disabled:pointer-events-none"
-              >
-                Owner <ChevronDown className="text-muted-foreground" />
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="p-0" align="end">
-              <Command>
-                <CommandInput placeholder="Select new role..." />
-                <CommandList>
-                  {isLoading ? (
-                    <Loader className="w-8 h-8 animate-spin place-self-center flex my-4" />
-                  ) : (
-                    <>
-                      <CommandEmpty>No roles found.</CommandEmpty>
-                      <CommandGroup>
-                        <CommandItem className="teamaspace-y-1 flex flex-col items-start px-4 py-2">
-                          <p>Owner</p>
-                          <p className="text-sm text-muted-foreground">
-                            Admin-level access to all resources.
-                          </p>
-                        </CommandItem>
-                        <CommandItem className="disabled:pointer-events-none gap-1 mb-1 flex flex-col items-start px-4 py-1 cursor-pointer">
-                          <p>Admin</p>
-                          <p className="text-sm text-muted-foreground">
-                            Can view, create, edit tasks, project and manage
-                            settings.
-                          </p>
-                        </CommandItem>
-                        <CommandItem className="disabled:pointer-events-none gap-1 mb-1 flex flex-col items-start px-4 py-1 cursor-pointer">
-                          <p>Member</p>
-                          <p className="text-sm text-muted-foreground">
-                            Can view,edit only task created by.
-                          </p>
-                        </CommandItem>
-                      </CommandGroup>
-                    </>
+      {members.map((member) => {
+        const name = member.userId?.name;
+        const initials = getAvatarFallbackText(name);
+        const isCurrentUser = member.userId._id === user?._id;
+        return (
+          <div
+            key={member._id}
+            className="flex items-center justify-between space-x-4"
+          >
+            <div className="flex items-center space-x-4">
+              <Avatar className="h-8 w-8">
+                <AvatarImage
+                  src={member.userId?.profilePicture || ""}
+                  alt="Image"
+                />
+                <AvatarFallback className={getAvatarColor(initials)}>
+                  {initials}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="text-sm font-medium leading-none">
+                  {name}
+                  {isCurrentUser && (
+                    <span className="text-muted-foreground"> (you)</span>
                   )}
-                </CommandList>
-              </Command>
-            </PopoverContent>
-          </Popover>
-        </div>
-      </div>
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {member.userId.email}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto min-w-24 capitalize disabled:opacity-95 disabled:pointer-events-none"
+                  >
+                    {member.role.name.toLowerCase()}{" "}
+                    <ChevronDown className="text-muted-foreground" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="p-0" align="end">
+                  <Command>
+                    <CommandInput placeholder="Select new role..." />
+                    <CommandList>
+                      {isLoading ? (
+                        <Loader className="w-8 h-8 animate-spin place-self-center flex my-4" />
+                      ) : (
+                        <>
+                          <CommandEmpty>No roles found.</CommandEmpty>
+                          <CommandGroup>
+                            <CommandItem className="teamaspace-y-1 flex flex-col items-start px-4 py-2">
+                              <p>Owner</p>
+                              <p className="text-sm text-muted-foreground">
+                                Admin-level access to all resources.
+                              </p>
+                            </CommandItem>
+                            <CommandItem className="disabled:pointer-events-none gap-1 mb-1 flex flex-col items-start px-4 py-1 cursor-pointer">
+                              <p>Admin</p>
+                              <p className="text-sm text-muted-foreground">
+                                Can view, create, edit tasks, project and manage
+                                settings.
+                              </p>
+                            </CommandItem>
+                            <CommandItem className="disabled:pointer-events-none gap-1 mb-1 flex flex-col items-start px-4 py-1 cursor-pointer">
+                              <p>Member</p>
+                              <p className="text-sm text-muted-foreground">
+                                Can view,edit only task created by.
+                              </p>
+                            </CommandItem>
+                          </CommandGroup>
+                        </>
+                      )}
+                    </CommandList>
+                  </Command>
+                </PopoverContent>
+              </Popover>
+              {canUnlockLogin && !isCurrentUser && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Unlock sign-in"
+                  disabled={isUnlocking}
+                  onClick={() => handleUnlockLogin(member)}
+                >
+                  <LockOpen />
+                </Button>
+              )}
+              {canRemoveMember && !isCurrentUser && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Remove member"
+                  onClick={() => setMemberToRemove(member)}
+                >
+                  <UserMinus className="text-destructive" />
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <ConfirmDialog
+        isOpen={!!memberToRemove}
+        isLoading={isRemoving}
+        onClose={handleCloseDialog}
+        onConfirm={handleConfirmRemove}
+        title={`Remove ${memberToRemove?.userId.name || "member"}?`}
+        description="They will lose access to this workspace immediately."
+        confirmText="Remove"
+        cancelText="Cancel"
+      >
+        <ReassignTasksSelect
+          members={members}
+          excludeUserId={memberToRemove?.userId._id || ""}
+          value={reassignTasksTo}
+          onChange={setReassignTasksTo}
+        />
+      </ConfirmDialog>
     </div>
   );
 };
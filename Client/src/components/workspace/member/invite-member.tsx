@@ -2,13 +2,32 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { getInviteLinkQueryFn } from "@/lib/api";
+import { BASE_ROUTE } from "@/routes/common/routePaths";
+import { useQuery } from "@tanstack/react-query";
 import { CheckIcon, CopyIcon } from "lucide-react";
 import { useState } from "react";
 
 const InviteMember = () => {
+  const workspaceId = useWorkspaceId();
   const [copied, setCopied] = useState(false);
 
-  const inviteUrl = "http://example.com/link/to/document";
+  const { data } = useQuery({
+    queryKey: ["invite-link", workspaceId],
+    queryFn: () => getInviteLinkQueryFn(workspaceId),
+    enabled: !!workspaceId,
+  });
+
+  const inviteLink = data?.inviteLink;
+  const isActive = inviteLink?.isActive ?? false;
+
+  const inviteUrl = inviteLink
+    ? `${window.location.origin}${BASE_ROUTE.INVITE_URL.replace(
+        ":inviteCode",
+        inviteLink.inviteCode
+      )}`
+    : "";
 
   const handleCopy = () => {
     if (inviteUrl) {
@@ -33,6 +52,12 @@ const InviteMember = () => {
         disable and create a new invite link for this Workspace at any time.
       </p>
 
+      {inviteLink && !isActive && (
+        <p className="text-sm text-destructive pt-2">
+          {inviteLink.reason || "This invite link is not active"}
+        </p>
+      )}
+
       <div className="flex py-3 gap-2">
         <Label htmlFor="link" className="sr-only">
           Link
@@ -41,11 +66,11 @@ const InviteMember = () => {
           id="link"
           disabled={true}
           className="disabled:opacity-100 disabled:pointer-events-none"
-          value={inviteUrl}
+          value={isActive ? inviteUrl : "Invite link is inactive"}
           readOnly
         />
         <Button
-          disabled={false}
+          disabled={!isActive}
           className="shrink-0"
           size="icon"
           onClick={handleCopy}
@@ -53,6 +78,19 @@ const InviteMember = () => {
           {copied ? <CheckIcon /> : <CopyIcon />}
         </Button>
       </div>
+
+      {inviteLink &&
+        isActive &&
+        (inviteLink.maxUses || inviteLink.expiresAt) && (
+          <p className="text-xs text-muted-foreground">
+            {inviteLink.maxUses &&
+              `${inviteLink.useCount} of ${inviteLink.maxUses} uses. `}
+            {inviteLink.expiresAt &&
+              `Expires on ${new Date(
+                inviteLink.expiresAt
+              ).toLocaleDateString()}.`}
+          </p>
+        )}
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { toast } from "@/hooks/use-toast";
+import { leaveWorkspaceMutationFn } from "@/lib/api";
+import ReassignTasksSelect from "./reassign-tasks-select";
+
+const LeaveWorkspaceCard = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+
+  const [open, setOpen] = useState(false);
+  const [reassignTasksTo, setReassignTasksTo] = useState<string | null>(null);
+
+  const { data: authData } = useAuth();
+  const { data: membersData } = useGetWorkspaceMembers(workspaceId);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: leaveWorkspaceMutationFn,
+  });
+
+  const handleConfirm = () => {
+    if (isPending) return;
+    mutate(
+      { workspaceId, data: { reassignTasksTo } },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({ queryKey: ["authUser"] });
+          setOpen(false);
+          navigate(
+            data.currentWorkspace ? `/workspace/${data.currentWorkspace}` : "/"
+          );
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h5 className="text-base font-semibold">Leave workspace</h5>
+          <p className="text-sm text-muted-foreground">
+            You will lose access to its projects and tasks. The last owner must
+            transfer ownership before leaving.
+          </p>
+        </div>
+        <Button
+          variant="destructive"
+          className="shrink-0"
+          onClick={() => setOpen(true)}
+        >
+          Leave
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        isOpen={open}
+        isLoading={isPending}
+        onClose={() => setOpen(false)}
+        onConfirm={handleConfirm}
+        title="Leave this workspace?"
+        description="You will need a new invitation to join again."
+        confirmText="Leave"
+        cancelText="Cancel"
+      >
+        <ReassignTasksSelect
+          members={membersData?.members || []}
+          excludeUserId={authData?.user._id || ""}
+          value={reassignTasksTo}
+          onChange={setReassignTasksTo}
+        />
+      </ConfirmDialog>
+    </>
+  );
+};
+
+export default LeaveWorkspaceCard;
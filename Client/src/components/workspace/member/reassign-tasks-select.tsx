@@ -0,0 +1,47 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AllMembersInWorkspaceResponseType } from "@/types/api.type";
+
+const UNASSIGNED = "unassigned";
+
+const ReassignTasksSelect = (props: {
+  members: AllMembersInWorkspaceResponseType["members"];
+  excludeUserId: string;
+  value: string | null;
+  onChange: (userId: string | null) => void;
+}) => {
+  const { members, excludeUserId, value, onChange } = props;
+
+  const options = members.filter(
+    (member) => member.userId._id !== excludeUserId
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm font-medium">Their assigned tasks</p>
+      <Select
+        value={value || UNASSIGNED}
+        onValueChange={(val) => onChange(val === UNASSIGNED ? null : val)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Leave unassigned</SelectItem>
+          {options.map((member) => (
+            <SelectItem key={member.userId._id} value={member.userId._id}>
+              Reassign to {member.userId.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default ReassignTasksSelect;
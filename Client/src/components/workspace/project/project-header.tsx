@@ -1,18 +1,25 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { useParams } from "react-router-dom";
 import CreateTaskDialog from "../task/create-task-dialog";
 import EditProjectDialog from "./edit-project-dialog";
+import ProjectWorkflowDialog from "./project-workflow-dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useGetProjectQuery from "@/hooks/api/use-get-project";
 
 const ProjectHeader = () => {
   const param = useParams();
   const projectId = param.projectId as string;
 
-  const isPending = false;
-  const isError = false;
+  const workspaceId = useWorkspaceId();
+
+  const { data, isPending, isError } = useGetProjectQuery(
+    workspaceId,
+    projectId
+  );
+  const project = data?.project;
 
   // Fallback if no project data is found
-  const projectEmoji = "📊";
-  const projectName = "Untitled project";
+  const projectEmoji = project?.emoji || "📊";
+  const projectName = project?.name || "Untitled project";
 
   const renderContent = () => {
     if (isPending) return <span>Loading...</span>;
@@ -30,7 +37,8 @@ const ProjectHeader = () => {
         <h2 className="flex items-center gap-3 text-xl font-medium truncate tracking-tight">
           {renderContent()}
         </h2>
-        <EditProjectDialog project={{} as any} />
+        <EditProjectDialog project={project} />
+        <ProjectWorkflowDialog project={project} />
       </div>
       <CreateTaskDialog projectId={projectId} />
     </div>
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useParams } from "react-router-dom";
+import { Loader, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Permissions } from "@/constant";
+import useAuth from "@/hooks/api/use-auth";
+import useGetProjectEpicsQuery from "@/hooks/api/use-get-project-epics";
+import useGetProjectMilestonesQuery from "@/hooks/api/use-get-project-milestones";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import usePermissions from "@/hooks/use-permissions";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createEpicMutationFn,
+  createMilestoneMutationFn,
+  deleteEpicMutationFn,
+  deleteMilestoneMutationFn,
+} from "@/lib/api";
+import { ProgressType } from "@/types/api.type";
+
+type ItemToDelete = { type: "milestone" | "epic"; _id: string; name: string };
+
+const ProgressRow = (props: {
+  name: string;
+  details: string;
+  progress: ProgressType;
+  isOverdue?: boolean;
+  onDelete?: () => void;
+}) => {
+  const { name, details, progress, isOverdue, onDelete } = props;
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{name}</p>
+          <p
+            className={`text-xs ${
+              isOverdue ? "text-destructive" : "text-muted-foreground"
+            }`}
+          >
+            {details}
+          </p>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <span className="text-sm text-muted-foreground">
+            {progress.completedTasks}/{progress.totalTasks}
+          </span>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title={`Delete ${name}`}
+              onClick={onDelete}
+            >
+              <Trash2 />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress
+        value={progress.percentage}
+        indicatorClassName={isOverdue ? "bg-destructive" : undefined}
+      />
+    </div>
+  );
+};
+
+const ProjectMilestones = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const permissions = usePermissions(authData?.user, workspaceData?.workspace);
+  const canEditProject = permissions.includes(Permissions.EDIT_PROJECT);
+
+  const [milestoneName, setMilestoneName] = useState("");
+  const [targetDate, setTargetDate] = useState("");
+  const [epicName, setEpicName] = useState("");
+  const [itemToDelete, setItemToDelete] = useState<ItemToDelete | null>(null);
+
+  const { data: milestonesData, isPending: isMilestonesPending } =
+    useGetProjectMilestonesQuery(workspaceId, projectId);
+  const { data: epicsData, isPending: isEpicsPending } =
+    useGetProjectEpicsQuery(workspaceId, projectId);
+  const milestones = milestonesData?.milestones || [];
+  const epics = epicsData?.epics || [];
+
+  const { mutate: createMilestone, isPending: isCreatingMilestone } =
+    useMutation({ mutationFn: createMilestoneMutationFn });
+  const { mutate: createEpic, isPending: isCreatingEpic } = useMutation({
+    mutationFn: createEpicMutationFn,
+  });
+  const { mutate: deleteMilestone, isPending: isDeletingMilestone } =
+    useMutation({ mutationFn: deleteMilestoneMutationFn });
+  const { mutate: deleteEpic, isPending: isDeletingEpic } = useMutation({
+    mutationFn: deleteEpicMutationFn,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({
+      queryKey: ["project-milestones", workspaceId, projectId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["project-epics", workspaceId, projectId],
+    });
+    toast({
+      title: "Success",
+      description: data.message,
+      variant: "success",
+    });
+  };
+
+  const handleCreateMilestone = () => {
+    if (isCreatingMilestone || !milestoneName.trim() || !targetDate) return;
+    createMilestone(
+      {
+        workspaceId,
+        projectId,
+        data: { name: milestoneName.trim(), targetDate },
+      },
+      {
+        onSuccess: (data) => {
+          setMilestoneName("");
+          setTargetDate("");
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleCreateEpic = () => {
+    if (isCreatingEpic || !epicName.trim()) return;
+    createEpic(
+      { workspaceId, projectId, data: { name: epicName.trim() } },
+      {
+        onSuccess: (data) => {
+          setEpicName("");
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!itemToDelete) return;
+    const options = {
+      onSuccess: (data: { message: string }) => {
+        setItemToDelete(null);
+        onSuccess(data);
+      },
+      onError,
+    };
+    if (itemToDelete.type === "milestone") {
+      deleteMilestone(
+        { workspaceId, projectId, milestoneId: itemToDelete._id },
+        options
+      );
+    } else {
+      deleteEpic({ workspaceId, projectId, epicId: itemToDelete._id }, options);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="w-full">
+        <div className="mb-5 border-b">
+          <h1 className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5 text-center sm:text-left">
+            Milestones
+          </h1>
+        </div>
+
+        {isMilestonesPending ? (
+          <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+        ) : null}
+
+        <div className="flex flex-col gap-4">
+          {milestones.map((milestone) => (
+            <ProgressRow
+              key={milestone._id}
+              name={milestone.name}
+              details={`${milestone.isOverdue ? "Overdue · " : ""}Due ${format(
+                new Date(milestone.targetDate),
+                "MMM d, yyyy"
+              )}`}
+              progress={milestone.progress}
+              isOverdue={milestone.isOverdue}
+              onDelete={
+                canEditProject
+                  ? () =>
+                      setItemToDelete({
+                        type: "milestone",
+                        _id: milestone._id,
+                        name: milestone.name,
+                      })
+                  : undefined
+              }
+            />
+          ))}
+          {!isMilestonesPending && milestones.length === 0 && (
+            <p className="text-sm text-muted-foreground">No milestones yet</p>
+          )}
+        </div>
+
+        {canEditProject && (
+          <div className="flex flex-col sm:flex-row gap-2 mt-4">
+            <Input
+              value={milestoneName}
+              onChange={(e) => setMilestoneName(e.target.value)}
+              placeholder="Milestone name"
+              className="!h-[40px]"
+            />
+            <Input
+              type="date"
+              value={targetDate}
+              onChange={(e) => setTargetDate(e.target.value)}
+              className="!h-[40px] sm:w-[170px]"
+            />
+            <Button
+              variant="outline"
+              className="h-[40px]"
+              disabled={
+                isCreatingMilestone || !milestoneName.trim() || !targetDate
+              }
+              onClick={handleCreateMilestone}
+            >
+              {isCreatingMilestone && <Loader className="animate-spin" />}
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="w-full">
+        <div className="mb-5 border-b">
+          <h1 className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5 text-center sm:text-left">
+            Epics
+          </h1>
+        </div>
+
+        {isEpicsPending ? (
+          <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+        ) : null}
+
+        <div className="flex flex-col gap-4">
+          {epics.map((epic) => (
+            <ProgressRow
+              key={epic._id}
+              name={epic.name}
+              details={`Across ${epic.milestoneCount} ${
+                epic.milestoneCount === 1 ? "milestone" : "milestones"
+              }`}
+              progress={epic.progress}
+              onDelete={
+                canEditProject
+                  ? () =>
+                      setItemToDelete({
+                        type: "epic",
+                        _id: epic._id,
+                        name: epic.name,
+                      })
+                  : undefined
+              }
+            />
+          ))}
+          {!isEpicsPending && epics.length === 0 && (
+            <p className="text-sm text-muted-foreground">No epics yet</p>
+          )}
+        </div>
+
+        {canEditProject && (
+          <div className="flex flex-col sm:flex-row gap-2 mt-4">
+            <Input
+              value={epicName}
+              onChange={(e) => setEpicName(e.target.value)}
+              placeholder="Epic name"
+              className="!h-[40px]"
+            />
+            <Button
+              variant="outline"
+              className="h-[40px]"
+              disabled={isCreatingEpic || !epicName.trim()}
+              onClick={handleCreateEpic}
+            >
+              {isCreatingEpic && <Loader className="animate-spin" />}
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!itemToDelete}
+        isLoading={isDeletingMilestone || isDeletingEpic}
+        onClose={() => setItemToDelete(null)}
+        onConfirm={handleDelete}
+        title={`Delete ${itemToDelete?.type || "item"}`}
+        description={`${
+          itemToDelete?.name || "It"
+        } will be removed. Its tasks stay in the project.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default ProjectMilestones;
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useParams } from "react-router-dom";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Permissions, SprintStatusEnum } from "@/constant";
+import useAuth from "@/hooks/api/use-auth";
+import useGetProjectSprintsQuery from "@/hooks/api/use-get-project-sprints";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import usePermissions from "@/hooks/use-permissions";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  closeSprintMutationFn,
+  createSprintMutationFn,
+  deleteSprintMutationFn,
+  startSprintMutationFn,
+} from "@/lib/api";
+import { SprintType } from "@/types/api.type";
+
+const BACKLOG_VALUE = "backlog";
+
+const formatSprintDates = (sprint: SprintType) =>
+  `${format(new Date(sprint.startDate), "MMM d")} – ${format(
+    new Date(sprint.endDate),
+    "MMM d, yyyy"
+  )}`;
+
+const ProjectSprints = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const permissions = usePermissions(authData?.user, workspaceData?.workspace);
+  const canEditProject = permissions.includes(Permissions.EDIT_PROJECT);
+
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [sprintToClose, setSprintToClose] = useState<SprintType | null>(null);
+  const [carryOverTo, setCarryOverTo] = useState(BACKLOG_VALUE);
+  const [sprintToDelete, setSprintToDelete] = useState<SprintType | null>(null);
+
+  const { data, isPending } = useGetProjectSprintsQuery(workspaceId, projectId);
+  const sprints = data?.sprints || [];
+  const openSprints = sprints.filter(
+    (sprint) => sprint.status !== SprintStatusEnum.CLOSED
+  );
+
+  const { mutate: createSprint, isPending: isCreating } = useMutation({
+    mutationFn: createSprintMutationFn,
+  });
+  const { mutate: startSprint, isPending: isStarting } = useMutation({
+    mutationFn: startSprintMutationFn,
+  });
+  const { mutate: closeSprint, isPending: isClosing } = useMutation({
+    mutationFn: closeSprintMutationFn,
+  });
+  const { mutate: deleteSprint, isPending: isDeleting } = useMutation({
+    mutationFn: deleteSprintMutationFn,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({
+      queryKey: ["project-sprints", workspaceId, projectId],
+    });
+    // Closing and deleting sprints move tasks, so the board is stale too
+    queryClient.invalidateQueries({ queryKey: ["task-board", workspaceId] });
+    toast({
+      title: "Success",
+      description: data.message,
+      variant: "success",
+    });
+  };
+
+  const canCreate = !!name.trim() && !!startDate && endDate > startDate;
+
+  const handleCreate = () => {
+    if (isCreating || !canCreate) return;
+    createSprint(
+      {
+        workspaceId,
+        projectId,
+        data: {
+          name: name.trim(),
+          goal: goal.trim() || null,
+          startDate,
+          endDate,
+        },
+      },
+      {
+        onSuccess: (data) => {
+          setName("");
+          setGoal("");
+          setStartDate("");
+          setEndDate("");
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleStart = (sprintId: string) => {
+    if (isStarting) return;
+    startSprint({ workspaceId, projectId, sprintId }, { onSuccess, onError });
+  };
+
+  const handleClose = () => {
+    if (isClosing || !sprintToClose) return;
+    closeSprint(
+      {
+        workspaceId,
+        projectId,
+        sprintId: sprintToClose._id,
+        data: {
+          carryOverTo: carryOverTo === BACKLOG_VALUE ? null : carryOverTo,
+        },
+      },
+      {
+        onSuccess: (data) => {
+          setSprintToClose(null);
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (isDeleting || !sprintToDelete) return;
+    deleteSprint(
+      { workspaceId, projectId, sprintId: sprintToDelete._id },
+      {
+        onSuccess: (data) => {
+          setSprintToDelete(null);
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const renderSprintDetails = (sprint: SprintType) => {
+    if (sprint.status === SprintStatusEnum.CLOSED && sprint.summary) {
+      const carriedOverTo = sprints.find(
+        (other) => other._id === sprint.summary?.carriedOverTo
+      );
+      return (
+        <p className="text-sm text-muted-foreground">
+          {sprint.summary.completedTasks} of {sprint.summary.totalTasks} tasks
+          completed
+          {sprint.summary.carriedOverTasks > 0 &&
+            ` · ${sprint.summary.carriedOverTasks} carried over to ${
+              carriedOverTo?.name || "the backlog"
+            }`}
+        </p>
+      );
+    }
+    return (
+      <p className="text-sm text-muted-foreground">
+        {sprint.completedTaskCount || 0} of {sprint.taskCount || 0} tasks
+        completed
+      </p>
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1 className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5 text-center sm:text-left">
+          Sprints
+        </h1>
+        <p className="text-muted-foreground text-sm leading-tight pb-2">
+          {data?.backlog.taskCount || 0} tasks in the backlog
+        </p>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+      ) : null}
+
+      {sprints.length > 0 && (
+        <div className="flex flex-col gap-3 mb-5">
+          {sprints.map((sprint) => (
+            <div
+              key={sprint._id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{sprint.name}</p>
+                  <Badge variant="outline" className="capitalize">
+                    {sprint.status.toLowerCase()}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {formatSprintDates(sprint)}
+                  {sprint.goal && ` · ${sprint.goal}`}
+                </p>
+                {renderSprintDetails(sprint)}
+              </div>
+              {canEditProject && sprint.status !== SprintStatusEnum.CLOSED && (
+                <div className="flex flex-wrap items-center gap-2 shrink-0">
+                  {sprint.status === SprintStatusEnum.PLANNED && (
+                    <Button
+                      variant="outline"
+                      className="h-[40px]"
+                      disabled={isStarting}
+                      onClick={() => handleStart(sprint._id)}
+                    >
+                      Start
+                    </Button>
+                  )}
+                  {sprint.status === SprintStatusEnum.ACTIVE && (
+                    <Button
+                      variant="outline"
+                      className="h-[40px]"
+                      onClick={() => {
+                        setCarryOverTo(BACKLOG_VALUE);
+                        setSprintToClose(sprint);
+                      }}
+                    >
+                      Close
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    className="h-[40px]"
+                    onClick={() => setSprintToDelete(sprint)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEditProject && (
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label htmlFor="sprint-name">Name</Label>
+              <Input
+                id="sprint-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Sprint 1"
+                className="!h-[40px]"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sprint-goal">Goal</Label>
+              <Input
+                id="sprint-goal"
+                value={goal}
+                onChange={(e) => setGoal(e.target.value)}
+                placeholder="Optional"
+                className="!h-[40px]"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sprint-start">Start date</Label>
+              <Input
+                id="sprint-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="!h-[40px]"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sprint-end">End date</Label>
+              <Input
+                id="sprint-end"
+                type="date"
+                min={startDate || undefined}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="!h-[40px]"
+              />
+            </div>
+          </div>
+          <Button
+            className="h-[40px] text-white font-semibold place-self-end"
+            disabled={isCreating || !canCreate}
+            onClick={handleCreate}
+          >
+            {isCreating && <Loader className="animate-spin" />}
+            Plan sprint
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!sprintToClose}
+        isLoading={isClosing}
+        onClose={() => setSprintToClose(null)}
+        onConfirm={handleClose}
+        title={`Close ${sprintToClose?.name || "sprint"}`}
+        description="Unfinished tasks leave the sprint. Choose where they go."
+        confirmText="Close sprint"
+        cancelText="Cancel"
+      >
+        <Select value={carryOverTo} onValueChange={setCarryOverTo}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BACKLOG_VALUE}>Project backlog</SelectItem>
+            {openSprints
+              .filter((sprint) => sprint._id !== sprintToClose?._id)
+              .map((sprint) => (
+                <SelectItem key={sprint._id} value={sprint._id}>
+                  {sprint.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        isOpen={!!sprintToDelete}
+        isLoading={isDeleting}
+        onClose={() => setSprintToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete sprint"
+        description={`${
+          sprintToDelete?.name || "This sprint"
+        } will be removed and its tasks moved back to the backlog.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default ProjectSprints;
@@ -0,0 +1,394 @@
+import { useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Loader,
+  Plus,
+  Trash2,
+  Workflow,
+} from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_PROJECT_STATUSES,
+  TaskStatusCategoryEnum,
+  TaskStatusCategoryEnumType,
+  WipLimitModeEnum,
+  WipLimitModeEnumType,
+} from "@/constant";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { updateProjectWorkflowMutationFn } from "@/lib/api";
+import {
+  ProjectStatusType,
+  ProjectTransitionType,
+  ProjectType,
+} from "@/types/api.type";
+
+type EditableStatus = ProjectStatusType & { isNew?: boolean };
+
+const CATEGORY_LABELS: Record<TaskStatusCategoryEnumType, string> = {
+  BACKLOG: "Backlog",
+  ACTIVE: "Active",
+  DONE: "Done",
+};
+
+// New statuses get a key derived from their name; existing keys never change
+const toStatusKey = (name: string, taken: string[]) => {
+  const base =
+    name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "STATUS";
+  let key = base;
+  for (let suffix = 2; taken.includes(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+};
+
+const ProjectWorkflowDialog = (props: { project?: ProjectType }) => {
+  const { project } = props;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [statuses, setStatuses] = useState<EditableStatus[]>([]);
+  const [transitions, setTransitions] = useState<ProjectTransitionType[]>([]);
+  const [restrictTransitions, setRestrictTransitions] = useState(false);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updateProjectWorkflowMutationFn,
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      const projectStatuses = project?.statuses?.length
+        ? project.statuses
+        : DEFAULT_PROJECT_STATUSES;
+      setStatuses(projectStatuses.map((status) => ({ ...status })));
+      setTransitions(project?.transitions || []);
+      setRestrictTransitions(!!project?.transitions?.length);
+    }
+    setIsOpen(open);
+  };
+
+  const handleRename = (index: number, name: string) => {
+    setStatuses((current) =>
+      current.map((status, i) => {
+        if (i !== index) return status;
+        if (!status.isNew) return { ...status, name };
+        const taken = current
+          .filter((_, j) => j !== index)
+          .map((other) => other.key);
+        return { ...status, name, key: toStatusKey(name, taken) };
+      })
+    );
+  };
+
+  const handleCategoryChange = (
+    index: number,
+    category: TaskStatusCategoryEnumType
+  ) => {
+    setStatuses((current) =>
+      current.map((status, i) =>
+        i === index ? { ...status, category } : status
+      )
+    );
+  };
+
+  const handleWipLimitChange = (
+    index: number,
+    changes: Pick<ProjectStatusType, "wipLimit" | "wipLimitMode">
+  ) => {
+    setStatuses((current) =>
+      current.map((status, i) =>
+        i === index ? { ...status, ...changes } : status
+      )
+    );
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setStatuses((current) => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      if (moved) next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleRemove = (index: number) => {
+    const removed = statuses[index];
+    setStatuses((current) => current.filter((_, i) => i !== index));
+    setTransitions((current) =>
+      current.filter(
+        (transition) =>
+          transition.from !== removed?.key && transition.to !== removed?.key
+      )
+    );
+  };
+
+  const handleAdd = () => {
+    setStatuses((current) => [
+      ...current,
+      {
+        key: toStatusKey(
+          "New status",
+          current.map((status) => status.key)
+        ),
+        name: "New status",
+        category: TaskStatusCategoryEnum.ACTIVE,
+        isNew: true,
+      },
+    ]);
+  };
+
+  const isAllowed = (from: string, to: string) =>
+    transitions.some(
+      (transition) => transition.from === from && transition.to === to
+    );
+
+  const toggleTransition = (from: string, to: string) => {
+    setTransitions((current) =>
+      isAllowed(from, to)
+        ? current.filter(
+            (transition) => !(transition.from === from && transition.to === to)
+          )
+        : [...current, { from, to }]
+    );
+  };
+
+  const handleSave = () => {
+    if (!project?._id || isPending) return;
+    mutate(
+      {
+        workspaceId,
+        projectId: project._id,
+        data: {
+          statuses: statuses.map(
+            ({ key, name, category, wipLimit, wipLimitMode }) => ({
+              key,
+              name: name.trim(),
+              category,
+              wipLimit: wipLimit || null,
+              wipLimitMode: wipLimitMode || WipLimitModeEnum.SOFT,
+            })
+          ),
+          transitions: restrictTransitions ? transitions : [],
+        },
+      },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({
+            queryKey: ["project", workspaceId, project._id],
+          });
+          queryClient.invalidateQueries({
+            queryKey: ["task-board", workspaceId],
+          });
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+          setIsOpen(false);
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog modal={true} open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger className="mt-1.5" asChild>
+        <button title="Edit workflow">
+          <Workflow className="w-5 h-5" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto border-0">
+        <div className="mb-5 border-b">
+          <h1 className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5 text-center sm:text-left">
+            Workflow
+          </h1>
+          <p className="text-muted-foreground text-sm leading-tight pb-2">
+            The statuses tasks in this project move through, in board order. The
+            category decides how a status counts in analytics and blockers. A
+            WIP limit caps how many tasks a status holds: a hard limit blocks
+            moves, a soft one only warns.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {statuses.map((status, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={status.name}
+                onChange={(e) => handleRename(index, e.target.value)}
+                className="h-9 flex-1"
+              />
+              <Select
+                value={status.category}
+                onValueChange={(value) =>
+                  handleCategoryChange(
+                    index,
+                    value as TaskStatusCategoryEnumType
+                  )
+                }
+              >
+                <SelectTrigger className="h-9 w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(TaskStatusCategoryEnum).map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {CATEGORY_LABELS[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No limit"
+                title="WIP limit"
+                value={status.wipLimit ?? ""}
+                onChange={(e) =>
+                  handleWipLimitChange(index, {
+                    wipLimit: e.target.value
+                      ? Math.max(1, parseInt(e.target.value, 10) || 1)
+                      : null,
+                  })
+                }
+                className="h-9 w-[90px]"
+              />
+              <Select
+                value={status.wipLimitMode || WipLimitModeEnum.SOFT}
+                disabled={!status.wipLimit}
+                onValueChange={(value) =>
+                  handleWipLimitChange(index, {
+                    wipLimitMode: value as WipLimitModeEnumType,
+                  })
+                }
+              >
+                <SelectTrigger className="h-9 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WipLimitModeEnum.SOFT}>Soft</SelectItem>
+                  <SelectItem value={WipLimitModeEnum.HARD}>Hard</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <ArrowUp />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === statuses.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <ArrowDown />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={statuses.length === 1}
+                onClick={() => handleRemove(index)}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+            <Plus />
+            Add status
+          </Button>
+        </div>
+
+        <div className="space-y-3 pt-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="restrict-transitions"
+              checked={restrictTransitions}
+              onCheckedChange={(checked) => setRestrictTransitions(!!checked)}
+            />
+            <Label htmlFor="restrict-transitions">
+              Only allow selected transitions
+            </Label>
+          </div>
+
+          {restrictTransitions && (
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th className="p-1 text-left font-medium text-muted-foreground">
+                      From \ To
+                    </th>
+                    {statuses.map((to) => (
+                      <th key={to.key} className="p-1 font-medium">
+                        {to.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {statuses.map((from) => (
+                    <tr key={from.key}>
+                      <td className="p-1 font-medium">{from.name}</td>
+                      {statuses.map((to) => (
+                        <td key={to.key} className="p-1 text-center">
+                          {from.key !== to.key && (
+                            <Checkbox
+                              checked={isAllowed(from.key, to.key)}
+                              onCheckedChange={() =>
+                                toggleTransition(from.key, to.key)
+                              }
+                            />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <Button disabled={isPending || !project?._id} onClick={handleSave}>
+            {isPending && <Loader className="animate-spin" />}
+            Save workflow
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectWorkflowDialog;
@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { format } from "date-fns";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarIcon, Loader } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar } from "@/components/ui/calendar";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  getInviteLinkQueryFn,
+  resetInviteLinkMutationFn,
+  updateInviteLinkMutationFn,
+} from "@/lib/api";
+
+const InviteLinkSettingsCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  // Local state: the shared confirm-dialog query param is used by the delete card on this page
+  const [open, setOpen] = useState(false);
+  const onOpenDialog = () => setOpen(true);
+  const onCloseDialog = () => setOpen(false);
+
+  const { data } = useQuery({
+    queryKey: ["invite-link", workspaceId],
+    queryFn: () => getInviteLinkQueryFn(workspaceId),
+    enabled: !!workspaceId,
+  });
+  const inviteLink = data?.inviteLink;
+
+  const { mutate: updateInviteLink, isPending: isUpdating } = useMutation({
+    mutationFn: updateInviteLinkMutationFn,
+  });
+  const { mutate: resetInviteLink, isPending: isResetting } = useMutation({
+    mutationFn: resetInviteLinkMutationFn,
+  });
+
+  const formSchema = z.object({
+    enabled: z.boolean(),
+    maxUses: z
+      .string()
+      .trim()
+      .refine((val) => !val || (Number.isInteger(+val) && +val > 0), {
+        message: "Max uses must be a positive whole number",
+      }),
+    expiresAt: z.date().nullable(),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      enabled: true,
+      maxUses: "",
+      expiresAt: null,
+    },
+  });
+
+  useEffect(() => {
+    if (inviteLink) {
+      form.reset({
+        enabled: inviteLink.enabled,
+        maxUses: inviteLink.maxUses ? `${inviteLink.maxUses}` : "",
+        expiresAt: inviteLink.expiresAt ? new Date(inviteLink.expiresAt) : null,
+      });
+    }
+  }, [form, inviteLink]);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["invite-link", workspaceId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isUpdating) return;
+    updateInviteLink(
+      {
+        workspaceId,
+        data: {
+          enabled: values.enabled,
+          maxUses: values.maxUses ? Number(values.maxUses) : null,
+          // The link stays valid until the end of the selected day
+          expiresAt: values.expiresAt
+            ? new Date(
+                new Date(values.expiresAt).setHours(23, 59, 59, 999)
+              ).toISOString()
+            : null,
+        },
+      },
+      {
+        onSuccess: () => {
+          onSuccess();
+          toast({
+            title: "Success",
+            description: "Invite link settings updated",
+            variant: "success",
+          });
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleConfirmReset = () => {
+    if (isResetting) return;
+    resetInviteLink(workspaceId, {
+      onSuccess: () => {
+        onSuccess();
+        onCloseDialog();
+        toast({
+          title: "Success",
+          description: "A new invite link has been generated",
+          variant: "success",
+        });
+      },
+      onError,
+    });
+  };
+
+  return (
+    <>
+      <div className="w-full">
+        <div className="mb-5 border-b">
+          <h1
+            className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+          >
+            Invite Link
+          </h1>
+        </div>
+
+        {inviteLink && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {inviteLink.isActive
+              ? `The invite link is active and has been used ${inviteLink.useCount} time(s).`
+              : inviteLink.reason}
+          </p>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <div className="mb-4">
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    </FormControl>
+                    <FormLabel className="text-sm">
+                      Allow joining with the invite link
+                    </FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="mb-4">
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                      Max uses
+                      <span className="text-xs font-extralight ml-2">
+                        Leave empty for unlimited
+                      </span>
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        className="!h-[48px]"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="mb-4">
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                      Expires on
+                      <span className="text-xs font-extralight ml-2">
+                        Optional
+                      </span>
+                    </FormLabel>
+                    <div className="flex gap-2">
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant={"outline"}
+                              className={cn(
+                                "w-full flex-1 pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                            >
+                              {field.value ? (
+                                format(field.value, "PPP")
+                              ) : (
+                                <span>Never</span>
+                              )}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value ?? undefined}
+                            onSelect={(date) => field.onChange(date ?? null)}
+                            disabled={(date) =>
+                              date < new Date(new Date().setHours(0, 0, 0, 0))
+                            }
+                            initialFocus
+                            defaultMonth={new Date()}
+                            fromMonth={new Date()}
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      {field.value && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          onClick={() => field.onChange(null)}
+                        >
+                          Clear
+                        </Button>
+                      )}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                className="h-[40px]"
+                onClick={onOpenDialog}
+              >
+                Reset Link
+              </Button>
+              <Button
+                className="h-[40px] text-white font-semibold"
+                disabled={isUpdating}
+                type="submit"
+              >
+                {isUpdating && <Loader className="animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+
+      <ConfirmDialog
+        isOpen={open}
+        isLoading={isResetting}
+        onClose={onCloseDialog}
+        onConfirm={handleConfirmReset}
+        title="Reset invite link"
+        description="The current invite link will stop working immediately. Anyone who needs to join will need the new link."
+        confirmText="Reset"
+        cancelText="Cancel"
+      />
+    </>
+  );
+};
+
+export default InviteLinkSettingsCard;
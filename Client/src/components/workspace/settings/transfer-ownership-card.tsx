@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { toast } from "@/hooks/use-toast";
+import { transferWorkspaceOwnershipMutationFn } from "@/lib/api";
+
+const TransferOwnershipCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const [open, setOpen] = useState(false);
+  const [newOwnerId, setNewOwnerId] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const { data: membersData } = useGetWorkspaceMembers(workspaceId);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: transferWorkspaceOwnershipMutationFn,
+  });
+
+  const workspace = workspaceData?.workspace;
+  const isOwner = !!workspace && workspace.owner === authData?.user._id;
+  if (!isOwner) return null;
+
+  const candidates = (membersData?.members || []).filter(
+    (member) => member.userId._id !== workspace.owner
+  );
+
+  const handleClose = () => {
+    setOpen(false);
+    setConfirmation("");
+  };
+
+  const handleConfirm = () => {
+    if (isPending) return;
+    if (confirmation !== workspace.name) {
+      toast({
+        title: "Error",
+        description: "Type the workspace name exactly to confirm",
+        variant: "destructive",
+      });
+      return;
+    }
+    mutate(
+      { workspaceId, data: { newOwnerId, confirmation } },
+      {
+        onSuccess: () => {
+          queryClient.invalidateQueries({
+            queryKey: ["workspace", workspaceId],
+          });
+          queryClient.invalidateQueries({ queryKey: ["members", workspaceId] });
+          handleClose();
+          setNewOwnerId("");
+          toast({
+            title: "Success",
+            description: "Workspace ownership transferred",
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <div className="w-full">
+        <div className="mb-5 border-b">
+          <h1
+            className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+          >
+            Transfer Ownership
+          </h1>
+        </div>
+
+        <div className="flex flex-col items-start justify-between py-0 gap-3">
+          <p>
+            Make another member the owner of this workspace. You will become an
+            admin and lose owner-only permissions such as deleting the
+            workspace.
+          </p>
+          <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select the new owner" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((member) => (
+                <SelectItem key={member.userId._id} value={member.userId._id}>
+                  {member.userId.name} ({member.userId.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            className="shrink-0 flex place-self-end h-[40px]"
+            variant="destructive"
+            disabled={!newOwnerId}
+            onClick={() => setOpen(true)}
+          >
+            Transfer Ownership
+          </Button>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={open}
+        isLoading={isPending}
+        onClose={handleClose}
+        onConfirm={handleConfirm}
+        title={`Transfer ${workspace.name}`}
+        description="This cannot be undone without the new owner's help."
+        confirmText="Transfer"
+        cancelText="Cancel"
+      >
+        <p className="text-sm mb-2">
+          Type <strong>{workspace.name}</strong> to confirm.
+        </p>
+        <Input
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder={workspace.name}
+        />
+      </ConfirmDialog>
+    </>
+  );
+};
+
+export default TransferOwnershipCard;
@@ -0,0 +1,98 @@
+import { Loader } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import { toast } from "@/hooks/use-toast";
+import { updateTwoFactorRequirementMutationFn } from "@/lib/api";
+
+const TwoFactorRequirementCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updateTwoFactorRequirementMutationFn,
+  });
+
+  const workspace = workspaceData?.workspace;
+  const user = authData?.user;
+  const isOwner = !!workspace && workspace.owner === user?._id;
+  if (!isOwner) return null;
+
+  const required = !!workspace.requireTwoFactor;
+
+  const handleToggle = () => {
+    if (isPending) return;
+    mutate(
+      { workspaceId, data: { required: !required } },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({
+            queryKey: ["workspace", workspaceId],
+          });
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Two-factor Authentication
+        </h1>
+      </div>
+
+      <div className="flex flex-col items-start justify-between py-0 gap-3">
+        <p>
+          {required
+            ? "Every member must use two-factor authentication. Members without it can't open this workspace until they turn it on."
+            : "Require every member to use two-factor authentication to access this workspace."}
+        </p>
+        {!required && !user?.twoFactorEnabled && (
+          <p className="text-sm text-muted-foreground">
+            Turn it on for your own account in your{" "}
+            <Link
+              to={`/workspace/${workspaceId}/security`}
+              className="underline underline-offset-4"
+            >
+              security settings
+            </Link>{" "}
+            first.
+          </p>
+        )}
+        <Button
+          className="shrink-0 flex place-self-end h-[40px]"
+          variant={required ? "outline" : "default"}
+          disabled={isPending}
+          onClick={handleToggle}
+        >
+          {isPending && <Loader className="animate-spin" />}
+          {required ? "Stop requiring" : "Require two-factor"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorRequirementCard;
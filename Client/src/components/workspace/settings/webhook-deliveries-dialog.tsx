@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  getWebhookDeliveriesQueryFn,
+  replayWebhookDeliveryMutationFn,
+} from "@/lib/api";
+import {
+  WebhookDeliveryStatusType,
+  WebhookDeliveryType,
+  WebhookType,
+} from "@/types/api.type";
+
+const STATUS_VARIANTS: Record<
+  WebhookDeliveryStatusType,
+  "secondary" | "outline" | "destructive"
+> = {
+  PENDING: "secondary",
+  SUCCEEDED: "outline",
+  FAILED: "destructive",
+};
+
+const describeDelivery = (delivery: WebhookDeliveryType) => {
+  if (delivery.error) return delivery.error;
+  if (delivery.responseStatus) return `HTTP ${delivery.responseStatus}`;
+  return "Not sent yet";
+};
+
+const WebhookDeliveriesDialog = (props: {
+  webhook: WebhookType | null;
+  onClose: () => void;
+}) => {
+  const { webhook, onClose } = props;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const webhookId = webhook?._id || "";
+  const { data, isPending } = useQuery({
+    queryKey: ["webhook-deliveries", workspaceId, webhookId, pageNumber],
+    queryFn: () =>
+      getWebhookDeliveriesQueryFn({ workspaceId, webhookId, pageNumber }),
+    enabled: !!webhookId,
+    // Pending deliveries are retried in the background
+    refetchInterval: 15 * 1000,
+  });
+  const deliveries = data?.deliveries || [];
+  const totalPages = data?.pagination.totalPages || 1;
+
+  const { mutate: replay, isPending: isReplaying } = useMutation({
+    mutationFn: replayWebhookDeliveryMutationFn,
+  });
+
+  const handleClose = () => {
+    setPageNumber(1);
+    onClose();
+  };
+
+  const handleReplay = (deliveryId: string) => {
+    if (isReplaying) return;
+    replay(
+      { workspaceId, deliveryId },
+      {
+        onSuccess: (data) => {
+          setPageNumber(1);
+          queryClient.invalidateQueries({
+            queryKey: ["webhook-deliveries", workspaceId, webhookId],
+          });
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={!!webhook} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recent deliveries</DialogTitle>
+          <DialogDescription className="break-all">
+            {webhook?.url}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPending ? (
+          <Loader className="w-6 h-6 animate-spin place-self-center flex" />
+        ) : null}
+
+        {!isPending && deliveries.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Nothing has been sent to this webhook yet.
+          </p>
+        )}
+
+        <div className="flex flex-col gap-3 max-h-[60vh] overflow-y-auto">
+          {deliveries.map((delivery) => (
+            <div
+              key={delivery._id}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <code>{delivery.event}</code>
+                  <Badge variant={STATUS_VARIANTS[delivery.status]}>
+                    {delivery.status.toLowerCase()}
+                  </Badge>
+                  {delivery.replayOf && (
+                    <span className="text-xs text-muted-foreground">
+                      replay
+                    </span>
+                  )}
+                </p>
+                <p
+                  className="text-sm text-muted-foreground truncate"
+                  title={delivery.responseBody || undefined}
+                >
+                  {describeDelivery(delivery)} · {delivery.attempts}{" "}
+                  {delivery.attempts === 1 ? "attempt" : "attempts"} ·{" "}
+                  {formatDistanceToNow(new Date(delivery.createdAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                className="h-[40px] shrink-0"
+                disabled={isReplaying || delivery.status === "PENDING"}
+                onClick={() => handleReplay(delivery._id)}
+              >
+                Replay
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={pageNumber <= 1}
+              onClick={() => setPageNumber((page) => page - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              {pageNumber} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              disabled={pageNumber >= totalPages}
+              onClick={() => setPageNumber((page) => page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WebhookDeliveriesDialog;
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Permissions } from "@/constant";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import usePermissions from "@/hooks/use-permissions";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createWebhookMutationFn,
+  deleteWebhookMutationFn,
+  getWorkspaceWebhooksQueryFn,
+  rotateWebhookSecretMutationFn,
+  updateWebhookMutationFn,
+} from "@/lib/api";
+import { WebhookEventType, WebhookType } from "@/types/api.type";
+import WebhookDeliveriesDialog from "./webhook-deliveries-dialog";
+
+const WEBHOOK_EVENTS: WebhookEventType[] = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "project.created",
+  "project.updated",
+  "project.deleted",
+  "member.joined",
+  "member.left",
+  "member.removed",
+  "member.role_changed",
+];
+
+const WebhooksCard = () => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const permissions = usePermissions(authData?.user, workspaceData?.workspace);
+  const canManageWebhooks = permissions.includes(
+    Permissions.MANAGE_WORKSPACE_SETTINGS
+  );
+
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>([]);
+  // The signing secret is only returned when it is created or rotated
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [webhookToDelete, setWebhookToDelete] = useState<WebhookType | null>(
+    null
+  );
+  const [deliveriesWebhook, setDeliveriesWebhook] =
+    useState<WebhookType | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey: ["webhooks", workspaceId],
+    queryFn: () => getWorkspaceWebhooksQueryFn(workspaceId),
+    enabled: !!workspaceId && canManageWebhooks,
+  });
+  const webhooks = data?.webhooks || [];
+
+  const { mutate: createWebhook, isPending: isCreating } = useMutation({
+    mutationFn: createWebhookMutationFn,
+  });
+  const { mutate: updateWebhook, isPending: isUpdating } = useMutation({
+    mutationFn: updateWebhookMutationFn,
+  });
+  const { mutate: rotateSecret, isPending: isRotating } = useMutation({
+    mutationFn: rotateWebhookSecretMutationFn,
+  });
+  const { mutate: deleteWebhook, isPending: isDeleting } = useMutation({
+    mutationFn: deleteWebhookMutationFn,
+  });
+
+  if (!canManageWebhooks) return null;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["webhooks", workspaceId] });
+    toast({
+      title: "Success",
+      description: data.message,
+      variant: "success",
+    });
+  };
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((prev) =>
+      checked ? [...prev, event] : prev.filter((value) => value !== event)
+    );
+  };
+
+  const handleCreate = () => {
+    if (isCreating || !url.trim() || events.length === 0) return;
+    createWebhook(
+      { workspaceId, data: { url: url.trim(), events } },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({
+            queryKey: ["webhooks", workspaceId],
+          });
+          setRevealedSecret(data.secret);
+          setUrl("");
+          setEvents([]);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleToggleEnabled = (webhook: WebhookType) => {
+    if (isUpdating) return;
+    updateWebhook(
+      {
+        workspaceId,
+        webhookId: webhook._id,
+        data: { enabled: !webhook.enabled },
+      },
+      { onSuccess, onError }
+    );
+  };
+
+  const handleRotate = (webhookId: string) => {
+    if (isRotating) return;
+    rotateSecret(
+      { workspaceId, webhookId },
+      {
+        onSuccess: (data) => setRevealedSecret(data.secret),
+        onError,
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (isDeleting || !webhookToDelete) return;
+    deleteWebhook(
+      { workspaceId, webhookId: webhookToDelete._id },
+      {
+        onSuccess: (data) => {
+          setWebhookToDelete(null);
+          onSuccess(data);
+        },
+        onError,
+      }
+    );
+  };
+
+  const handleCopySecret = () => {
+    if (!revealedSecret) return;
+    navigator.clipboard.writeText(revealedSecret).then(() => {
+      toast({
+        title: "Copied",
+        description: "Signing secret copied to clipboard",
+        variant: "success",
+      });
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Webhooks
+        </h1>
+      </div>
+
+      {revealedSecret && (
+        <div className="mb-5 rounded-md border p-4">
+          <p className="text-sm font-medium mb-1">Signing secret</p>
+          <p className="text-sm text-muted-foreground mb-3">
+            Copy it now and store it somewhere safe. It won't be shown again.
+          </p>
+          <code className="block rounded-md bg-muted px-3 py-2 text-sm break-all mb-3">
+            {revealedSecret}
+          </code>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCopySecret}>
+              Copy
+            </Button>
+            <Button variant="ghost" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3">
+        <p className="text-sm text-muted-foreground">
+          We send a signed <code>POST</code> request to each URL when the events
+          it subscribes to happen. Verify the <code>X-TeamSync-Signature</code>{" "}
+          header, an HMAC-SHA256 of <code>{"{timestamp}.{body}"}</code> with the
+          signing secret. Failed deliveries are retried with backoff.
+        </p>
+        <div className="grid gap-2">
+          <Label htmlFor="webhook-url">Payload URL</Label>
+          <Input
+            id="webhook-url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/webhooks/teamsync"
+            className="!h-[40px]"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label>Events</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) =>
+                    toggleEvent(event, checked === true)
+                  }
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button
+          className="h-[40px] text-white font-semibold place-self-end"
+          disabled={isCreating || !url.trim() || events.length === 0}
+          onClick={handleCreate}
+        >
+          {isCreating && <Loader className="animate-spin" />}
+          Add webhook
+        </Button>
+      </div>
+
+      {isPending ? (
+        <Loader className="w-6 h-6 animate-spin place-self-center flex mt-4" />
+      ) : null}
+
+      {webhooks.length > 0 && (
+        <div className="flex flex-col gap-3 mt-5">
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook._id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{webhook.url}</p>
+                <p
+                  className="text-sm text-muted-foreground truncate"
+                  title={webhook.events.join(", ")}
+                >
+                  {webhook.events.length}{" "}
+                  {webhook.events.length === 1 ? "event" : "events"} ·{" "}
+                  {webhook.enabled ? "Active" : "Disabled"}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 shrink-0">
+                <label className="flex items-center gap-2 text-sm mr-1">
+                  <Checkbox
+                    checked={webhook.enabled}
+                    disabled={isUpdating}
+                    onCheckedChange={() => handleToggleEnabled(webhook)}
+                  />
+                  Enabled
+                </label>
+                <Button
+                  variant="outline"
+                  className="h-[40px]"
+                  onClick={() => setDeliveriesWebhook(webhook)}
+                >
+                  Deliveries
+                </Button>
+                <Button
+                  variant="outline"
+                  className="h-[40px]"
+                  disabled={isRotating}
+                  onClick={() => handleRotate(webhook._id)}
+                >
+                  Rotate secret
+                </Button>
+                <Button
+                  variant="outline"
+                  className="h-[40px]"
+                  onClick={() => setWebhookToDelete(webhook)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <WebhookDeliveriesDialog
+        webhook={deliveriesWebhook}
+        onClose={() => setDeliveriesWebhook(null)}
+      />
+
+      <ConfirmDialog
+        isOpen={!!webhookToDelete}
+        isLoading={isDeleting}
+        onClose={() => setWebhookToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete webhook"
+        description={`Deliveries to ${
+          webhookToDelete?.url || "this URL"
+        } will stop and its delivery log will be removed.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default WebhooksCard;
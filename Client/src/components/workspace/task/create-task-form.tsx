@@ -30,7 +30,8 @@ import { cn } from "@/lib/utils";
 import { Calendar } from "@/components/ui/calendar";
 import { transformOptions } from "@/lib/helper";
 import useWorkspaceId from "@/hooks/use-workspace-id";
-import { TaskPriorityEnum, TaskStatusEnum } from "@/constant";
+import useGetProjectQuery from "@/hooks/api/use-get-project";
+import { DEFAULT_PROJECT_STATUSES, TaskPriorityEnum } from "@/constant";
 
 export default function CreateTaskForm(props: {
   projectId?: string;
@@ -55,12 +56,8 @@ export default function CreateTaskForm(props: {
     projectId: z.string().trim().min(1, {
       message: "Project is required",
     }),
-    status: z.enum(
-      Object.values(TaskStatusEnum) as [keyof typeof TaskStatusEnum],
-      {
-        required_error: "Status is required",
-      }
-    ),
+    // Left empty, the server starts the task in the first status of the workflow
+    status: z.string().trim().optional(),
     priority: z.enum(
       Object.values(TaskPriorityEnum) as [keyof typeof TaskPriorityEnum],
       {
@@ -84,10 +81,20 @@ export default function CreateTaskForm(props: {
     },
   });
 
-  const taskStatusList = Object.values(TaskStatusEnum);
+  // Statuses come from the selected project's workflow, which may rename or replace the defaults
+  const selectedProjectId = form.watch("projectId");
+  const { data: projectData, isLoading: isStatusesLoading } =
+    useGetProjectQuery(workspaceId, selectedProjectId);
+  const projectStatuses = projectData?.project.statuses?.length
+    ? projectData.project.statuses
+    : DEFAULT_PROJECT_STATUSES;
+
   const taskPriorityList = Object.values(TaskPriorityEnum); // ["LOW", "MEDIUM", "HIGH", "URGENT"]
 
-  const statusOptions = transformOptions(taskStatusList);
+  const statusOptions = projectStatuses.map((status) => ({
+    label: status.name,
+    value: status.key,
+  }));
   const priorityOptions = transformOptions(taskPriorityList);
 
   const onSubmit = (values: z.infer<typeof formSchema>) => {
@@ -166,7 +173,11 @@ export default function CreateTaskForm(props: {
                     <FormItem>
                       <FormLabel>Project</FormLabel>
                       <Select
-                        onValueChange={field.onChange}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // Another project may not have the chosen status
+                          form.resetField("status");
+                        }}
                         defaultValue={field.value}
                       >
                         <FormControl>
@@ -292,10 +303,16 @@ export default function CreateTaskForm(props: {
                 name="status"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Status</FormLabel>
+                    <FormLabel>
+                      Status
+                      <span className="text-xs font-extralight ml-2">
+                        Optional
+                      </span>
+                    </FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value ?? ""}
+                      disabled={!selectedProjectId}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -306,9 +323,13 @@ export default function CreateTaskForm(props: {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
+                        {isStatusesLoading && (
+                          <div className="my-2">
+                            <Loader className="w-4 h-4 place-self-center flex animate-spin" />
+                          </div>
+                        )}
                         {statusOptions?.map((status) => (
                           <SelectItem
-                            className="!capitalize"
                             key={status.value}
                             value={status.value}
                           >
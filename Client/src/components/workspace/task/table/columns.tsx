@@ -15,10 +15,12 @@ import {
   formatStatusToEnum,
   getAvatarColor,
   getAvatarFallbackText,
+  transformStatusEnum,
 } from "@/lib/helper";
 import { priorities, statuses } from "./data";
 import { TaskType } from "@/types/api.type";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Ban } from "lucide-react";
 
 export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
   const columns: ColumnDef<TaskType>[] = [
@@ -52,6 +54,8 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
         <DataTableColumnHeader column={column} title="Title" />
       ),
       cell: ({ row }) => {
+        const openBlockers = row.original.openBlockers || [];
+
         return (
           <div className="flex space-x-2">
             <Badge variant="outline" className="capitalize shrink-0 h-[25px]">
@@ -60,6 +64,18 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
             <span className="block lg:max-w-[220px] max-w-[200px] font-medium">
               {row.original.title}
             </span>
+            {openBlockers.length > 0 && (
+              <Badge
+                variant="destructive"
+                className="shrink-0 h-[25px] gap-1"
+                title={`Blocked by ${openBlockers
+                  .map((blocker) => blocker.taskCode)
+                  .join(", ")}`}
+              >
+                <Ban className="h-3 w-3" />
+                Blocked
+              </Badge>
+            )}
           </div>
         );
       },
@@ -142,8 +158,18 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
           (status) => status.value === row.getValue("status")
         );
 
+        // Statuses from a project's custom workflow have no preset style
         if (!status) {
-          return null;
+          return (
+            <div className="flex lg:w-[120px] items-center">
+              <Badge
+                variant="outline"
+                className="flex w-auto p-1 px-2 gap-1 font-medium shadow-sm uppercase"
+              >
+                <span>{transformStatusEnum(row.getValue("status"))}</span>
+              </Badge>
+            </div>
+          );
         }
 
         const statusKey = formatStatusToEnum(
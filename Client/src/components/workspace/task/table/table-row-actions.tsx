@@ -13,6 +13,8 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
 import { TaskType } from "@/types/api.type";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import TaskHistoryDialog from "../task-history-dialog";
 
 interface DataTableRowActionsProps {
   row: Row<TaskType>;
@@ -20,6 +22,8 @@ interface DataTableRowActionsProps {
 
 export function DataTableRowActions({ row }: DataTableRowActionsProps) {
   const [openDeleteDialog, setOpenDialog] = useState(false);
+  const [openHistoryDialog, setOpenHistoryDialog] = useState(false);
+  const workspaceId = useWorkspaceId();
 
   const taskId = row.original._id as string;
   const taskCode = row.original.taskCode;
@@ -42,6 +46,12 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
           <DropdownMenuItem className="cursor-pointer">
             Edit Task
           </DropdownMenuItem>
+          <DropdownMenuItem
+            className="cursor-pointer"
+            onClick={() => setOpenHistoryDialog(true)}
+          >
+            View History
+          </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem
             className={`!text-destructive cursor-pointer ${taskId}`}
@@ -53,6 +63,14 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
         </DropdownMenuContent>
       </DropdownMenu>
 
+      <TaskHistoryDialog
+        isOpen={openHistoryDialog}
+        onClose={() => setOpenHistoryDialog(false)}
+        workspaceId={workspaceId}
+        taskId={taskId}
+        taskCode={taskCode}
+      />
+
       <ConfirmDialog
         isOpen={openDeleteDialog}
         isLoading={false}
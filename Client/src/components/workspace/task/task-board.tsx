@@ -0,0 +1,410 @@
+import { DragEvent, FC, useState } from "react";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Permissions, TaskPriorityEnum, WipLimitModeEnum } from "@/constant";
+import useAuth from "@/hooks/api/use-auth";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import usePermissions from "@/hooks/use-permissions";
+import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { getTaskBoardQueryFn, reorderTaskMutationFn } from "@/lib/api";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import { cn } from "@/lib/utils";
+import {
+  ReorderTaskPayloadType,
+  TaskBoardResponseType,
+  TaskType,
+} from "@/types/api.type";
+import { statuses } from "./table/data";
+
+type DropTarget = {
+  status: string;
+  index: number;
+};
+
+interface TaskBoardProps {
+  projectId?: string;
+}
+
+const TaskBoard: FC<TaskBoardProps> = ({ projectId }) => {
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { data: authData } = useAuth();
+  const { data: workspaceData } = useGetWorkspaceQuery(workspaceId);
+  const permissions = usePermissions(authData?.user, workspaceData?.workspace);
+  const canEditTask = permissions.includes(Permissions.EDIT_TASK);
+  const canEditProject = permissions.includes(Permissions.EDIT_PROJECT);
+
+  const [filters] = useTaskTableFilter();
+  const boardFilters = {
+    projectId: projectId || filters.projectId,
+    keyword: filters.keyword,
+    status: filters.status,
+    priority: filters.priority,
+    assignedTo: filters.assigneeId,
+    sprintId: filters.sprintId,
+    milestoneId: filters.milestoneId,
+    epicId: filters.epicId,
+  };
+  const queryKey = ["task-board", workspaceId, boardFilters];
+
+  const [draggedTask, setDraggedTask] = useState<TaskType | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  // A move rejected by a hard WIP limit, waiting for a project editor to confirm it
+  const [blockedMove, setBlockedMove] = useState<{
+    payload: ReorderTaskPayloadType;
+    message: string;
+  } | null>(null);
+
+  const { data, isPending } = useQuery({
+    queryKey,
+    queryFn: () => getTaskBoardQueryFn({ workspaceId, ...boardFilters }),
+    enabled: !!workspaceId,
+  });
+  const columns = data?.columns || [];
+
+  const { mutate: reorderTask, isPending: isMoving } = useMutation({
+    mutationFn: reorderTaskMutationFn,
+  });
+
+  const resetDrag = () => {
+    setDraggedTask(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOverCard = (
+    event: DragEvent<HTMLDivElement>,
+    status: string,
+    index: number
+  ) => {
+    if (!draggedTask) return;
+    event.preventDefault();
+    event.stopPropagation();
+    // Dropping on the lower half of a card places the task below it
+    const { top, height } = event.currentTarget.getBoundingClientRect();
+    const position = event.clientY - top > height / 2 ? index + 1 : index;
+    if (dropTarget?.status !== status || dropTarget.index !== position) {
+      setDropTarget({ status, index: position });
+    }
+  };
+
+  const handleDragOverColumn = (
+    event: DragEvent<HTMLDivElement>,
+    status: string,
+    taskCount: number
+  ) => {
+    if (!draggedTask) return;
+    event.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: taskCount });
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const task = draggedTask;
+    const target = dropTarget;
+    resetDrag();
+    if (!task || !target) return;
+
+    const column = columns.find((column) => column.status === target.status);
+    if (!column) return;
+
+    // Neighbours are read from the column as it will look once the task has moved
+    const draggedIndex = column.tasks.findIndex(
+      (columnTask) => columnTask._id === task._id
+    );
+    const index =
+      draggedIndex !== -1 && draggedIndex < target.index
+        ? target.index - 1
+        : target.index;
+    const remaining = column.tasks.filter(
+      (columnTask) => columnTask._id !== task._id
+    );
+    const before = remaining[index - 1] || null;
+    const after = remaining[index] || null;
+
+    if (task.status === target.status && draggedIndex === index) return;
+
+    const previousBoard =
+      queryClient.getQueryData<TaskBoardResponseType>(queryKey);
+    if (previousBoard) {
+      const movedTask = { ...task, status: target.status };
+      queryClient.setQueryData<TaskBoardResponseType>(queryKey, {
+        ...previousBoard,
+        columns: previousBoard.columns.map((boardColumn) => {
+          const tasks = boardColumn.tasks.filter(
+            (columnTask) => columnTask._id !== task._id
+          );
+          if (boardColumn.status === target.status) {
+            tasks.splice(index, 0, movedTask);
+          }
+          const countChange =
+            task.status === target.status
+              ? 0
+              : boardColumn.status === target.status
+              ? 1
+              : boardColumn.status === task.status
+              ? -1
+              : 0;
+          return {
+            ...boardColumn,
+            tasks,
+            totalCount: boardColumn.totalCount + countChange,
+            wipCount:
+              boardColumn.wipCount === null
+                ? null
+                : boardColumn.wipCount + countChange,
+          };
+        }),
+      });
+    }
+
+    submitMove(
+      {
+        workspaceId,
+        taskId: task._id,
+        data: {
+          status: target.status,
+          beforeTaskId: before?._id || null,
+          afterTaskId: after?._id || null,
+        },
+      },
+      previousBoard
+    );
+  };
+
+  const submitMove = (
+    payload: ReorderTaskPayloadType,
+    previousBoard?: TaskBoardResponseType
+  ) => {
+    reorderTask(payload, {
+      onSuccess: (data) => {
+        setBlockedMove(null);
+        queryClient.invalidateQueries({
+          queryKey: ["all-tasks", workspaceId],
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["task-board", workspaceId],
+        });
+        if (data.warning) {
+          toast({
+            title: "Over the WIP limit",
+            description: data.warning,
+          });
+        }
+      },
+      onError: (error: Error & { errorCode?: string }) => {
+        if (previousBoard) {
+          queryClient.setQueryData(queryKey, previousBoard);
+        }
+        queryClient.invalidateQueries({
+          queryKey: ["task-board", workspaceId],
+        });
+        if (error.errorCode === "TASK_WIP_LIMIT_REACHED" && canEditProject) {
+          setBlockedMove({ payload, message: error.message });
+          return;
+        }
+        setBlockedMove(null);
+        toast({
+          title:
+            error.errorCode === "TASK_BLOCKED"
+              ? "Task is blocked"
+              : error.errorCode === "TASK_WIP_LIMIT_REACHED"
+              ? "WIP limit reached"
+              : "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  if (isPending) {
+    return (
+      <div className="flex items-center justify-center py-10">
+        <Loader className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      <ConfirmDialog
+        isOpen={!!blockedMove}
+        isLoading={isMoving}
+        onClose={() => setBlockedMove(null)}
+        onConfirm={() =>
+          blockedMove &&
+          submitMove({
+            ...blockedMove.payload,
+            data: { ...blockedMove.payload.data, overrideWipLimit: true },
+          })
+        }
+        title="WIP limit reached"
+        description={`${blockedMove?.message}. Move the task anyway?`}
+        confirmText="Move anyway"
+        cancelText="Cancel"
+      />
+      {columns.map((column) => {
+        const status = statuses.find(
+          (option) => option.value === column.status
+        );
+        const Icon = status?.icon;
+        const isTarget = dropTarget?.status === column.status;
+        const isAtLimit =
+          column.wipLimit !== null && (column.wipCount ?? 0) >= column.wipLimit;
+
+        return (
+          <div
+            key={column.status}
+            className={cn(
+              "flex flex-col w-[272px] min-w-[272px] rounded-lg border bg-muted/40 p-2",
+              isTarget && "border-primary"
+            )}
+            onDragOver={(event) =>
+              handleDragOverColumn(event, column.status, column.tasks.length)
+            }
+            onDrop={handleDrop}
+          >
+            <div className="flex items-center justify-between px-1 pb-2">
+              <div className="flex items-center gap-1.5 text-sm font-medium">
+                {Icon && <Icon className="h-4 w-4 text-muted-foreground" />}
+                {column.name}
+              </div>
+              <span
+                className={cn(
+                  "text-xs text-muted-foreground",
+                  isAtLimit &&
+                    (column.wipLimitMode === WipLimitModeEnum.HARD
+                      ? "text-destructive font-medium"
+                      : "text-yellow-600 font-medium")
+                )}
+                title={
+                  column.wipLimit !== null
+                    ? `${
+                        column.wipLimitMode === WipLimitModeEnum.HARD
+                          ? "Hard"
+                          : "Soft"
+                      } WIP limit of ${column.wipLimit}`
+                    : undefined
+                }
+              >
+                {column.wipLimit !== null
+                  ? `${column.wipCount} / ${column.wipLimit}`
+                  : column.totalCount}
+              </span>
+            </div>
+
+            <div className="flex flex-col gap-2 min-h-[60px]">
+              {column.tasks.map((task, index) => (
+                <div key={task._id}>
+                  {isTarget && dropTarget.index === index && (
+                    <div className="h-0.5 mb-2 rounded bg-primary" />
+                  )}
+                  <TaskBoardCard
+                    task={task}
+                    draggable={canEditTask}
+                    isDragging={draggedTask?._id === task._id}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move";
+                      event.dataTransfer.setData("text/plain", task._id);
+                      setDraggedTask(task);
+                    }}
+                    onDragEnd={resetDrag}
+                    onDragOver={(event) =>
+                      handleDragOverCard(event, column.status, index)
+                    }
+                  />
+                </div>
+              ))}
+              {isTarget && dropTarget.index === column.tasks.length && (
+                <div className="h-0.5 rounded bg-primary" />
+              )}
+            </div>
+
+            {column.totalCount > column.tasks.length && (
+              <p className="pt-2 text-center text-xs text-muted-foreground">
+                Showing {column.tasks.length} of {column.totalCount} tasks
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface TaskBoardCardProps {
+  task: TaskType;
+  draggable: boolean;
+  isDragging: boolean;
+  onDragStart: (event: DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+  onDragOver: (event: DragEvent<HTMLDivElement>) => void;
+}
+
+const TaskBoardCard: FC<TaskBoardCardProps> = ({
+  task,
+  draggable,
+  isDragging,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+}) => {
+  const name = task.assignedTo?.name || "";
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={onDragOver}
+      className={cn(
+        "rounded-md border bg-background p-3 shadow-sm space-y-2",
+        draggable && "cursor-grab active:cursor-grabbing",
+        isDragging && "opacity-50"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">{task.taskCode}</span>
+        <Badge
+          variant={TaskPriorityEnum[task.priority]}
+          className="px-1.5 py-0 text-[10px] uppercase border-0 shadow-none"
+        >
+          {task.priority}
+        </Badge>
+      </div>
+      <p className="text-sm font-medium leading-snug line-clamp-2">
+        {task.title}
+      </p>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="truncate">
+          {task.project && `${task.project.emoji} ${task.project.name}`}
+        </span>
+        <div className="flex items-center gap-1.5 shrink-0">
+          {task.dueDate && <span>{format(task.dueDate, "MMM d")}</span>}
+          {name && (
+            <Avatar className="h-5 w-5">
+              <AvatarImage
+                src={task.assignedTo?.profilePicture || ""}
+                alt={name}
+              />
+              <AvatarFallback className={getAvatarColor(name)}>
+                {getAvatarFallbackText(name)}
+              </AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskBoard;
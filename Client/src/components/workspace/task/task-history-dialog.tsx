@@ -0,0 +1,29 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import TaskHistory from "./task-history";
+
+const TaskHistoryDialog = (props: {
+  isOpen: boolean;
+  onClose: () => void;
+  workspaceId: string;
+  taskId: string;
+  taskCode: string;
+}) => {
+  const { isOpen, onClose, workspaceId, taskId, taskCode } = props;
+  return (
+    <Dialog modal={true} open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto border-0">
+        <DialogHeader>
+          <DialogTitle>{taskCode} history</DialogTitle>
+        </DialogHeader>
+        {isOpen && <TaskHistory workspaceId={workspaceId} taskId={taskId} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskHistoryDialog;
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { getTaskHistoryQueryFn } from "@/lib/api";
+import {
+  getAvatarColor,
+  getAvatarFallbackText,
+  transformStatusEnum,
+} from "@/lib/helper";
+import { TaskActivityType } from "@/types/api.type";
+
+const fieldLabels: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  assignedTo: "assignee",
+  dueDate: "due date",
+  sprint: "sprint",
+  milestone: "milestone",
+  epic: "epic",
+};
+
+const PLAN_FIELDS = ["sprint", "milestone", "epic"];
+
+const formatValue = (
+  field: string,
+  value: string | null,
+  users: Record<string, string>,
+  plans: Record<string, string>
+) => {
+  if (value === null) return "none";
+  if (field === "assignedTo") return users[value] || "a former member";
+  if (PLAN_FIELDS.includes(field)) {
+    return plans[value] || `a deleted ${field}`;
+  }
+  if (field === "dueDate") return format(value, "PPP");
+  if (field === "status" || field === "priority") {
+    return transformStatusEnum(value);
+  }
+  return value;
+};
+
+const describeActivity = (
+  activity: TaskActivityType,
+  users: Record<string, string>,
+  plans: Record<string, string>
+) => {
+  if (activity.action === "CREATED") return ["created the task"];
+  if (activity.action === "DELETED") return ["deleted the task"];
+  return activity.changes.map(
+    (change) =>
+      `changed ${fieldLabels[change.field] || change.field} from ${formatValue(
+        change.field,
+        change.oldValue,
+        users,
+        plans
+      )} to ${formatValue(change.field, change.newValue, users, plans)}`
+  );
+};
+
+const TaskHistory = (props: { workspaceId: string; taskId: string }) => {
+  const { workspaceId, taskId } = props;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["task-history", workspaceId, taskId],
+    queryFn: () => getTaskHistoryQueryFn({ workspaceId, taskId }),
+    enabled: !!workspaceId && !!taskId,
+  });
+
+  const activities = data?.activities || [];
+  const users = data?.users || {};
+  const plans = data?.plans || {};
+
+  if (isLoading) {
+    return <Loader className="w-8 h-8 animate-spin place-self-center flex" />;
+  }
+
+  if (activities.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+    );
+  }
+
+  return (
+    <ol className="relative border-s border-gray-200 ml-3">
+      {activities.map((activity) => {
+        const name = activity.actor?.name || "";
+        return (
+          <li key={activity._id} className="mb-6 ms-6">
+            <span className="absolute -start-3 flex items-center justify-center">
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={activity.actor?.profilePicture || ""} />
+                <AvatarFallback className={getAvatarColor(name)}>
+                  {getAvatarFallbackText(name)}
+                </AvatarFallback>
+              </Avatar>
+            </span>
+            <time className="block text-xs text-muted-foreground">
+              {format(activity.createdAt, "PPP p")}
+            </time>
+            {describeActivity(activity, users, plans).map((line, index) => (
+              <p key={index} className="text-sm">
+                <span className="font-medium">{name}</span> {line}
+              </p>
+            ))}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default TaskHistory;
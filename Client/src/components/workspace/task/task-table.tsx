@@ -4,10 +4,17 @@ import { DataTable } from "./table/table";
 import { useParams } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { X } from "lucide-react";
+import { Columns3, List, X } from "lucide-react";
+import { parseAsStringEnum, useQueryState } from "nuqs";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DataTableFacetedFilter } from "./table/table-faceted-filter";
 import { priorities, statuses } from "./table/data";
 import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useGetProjectSprintsQuery from "@/hooks/api/use-get-project-sprints";
+import useGetProjectMilestonesQuery from "@/hooks/api/use-get-project-milestones";
+import useGetProjectEpicsQuery from "@/hooks/api/use-get-project-epics";
+import TaskBoard from "./task-board";
 
 type Filters = ReturnType<typeof useTaskTableFilter>[0];
 type SetFilters = ReturnType<typeof useTaskTableFilter>[1];
@@ -27,6 +34,10 @@ const TaskTable = () => {
   const [pageSize, setPageSize] = useState(10);
 
   const [filters, setFilters] = useTaskTableFilter();
+  const [view, setView] = useQueryState(
+    "view",
+    parseAsStringEnum(["table", "board"]).withDefault("table")
+  );
   const columns = getColumns(projectId);
 
   const totalCount = 0;
@@ -42,26 +53,55 @@ const TaskTable = () => {
 
   return (
     <div className="w-full relative">
-      <DataTable
-        isLoading={false}
-        data={[]}
-        columns={columns}
-        onPageChange={handlePageChange}
-        onPageSizeChange={handlePageSizeChange}
-        pagination={{
-          totalCount,
-          pageNumber,
-          pageSize,
-        }}
-        filtersToolbar={
+      <Tabs
+        value={view}
+        onValueChange={(value) => setView(value as "table" | "board")}
+        className="mb-3"
+      >
+        <TabsList>
+          <TabsTrigger value="table" className="gap-1.5">
+            <List className="h-4 w-4" />
+            Table
+          </TabsTrigger>
+          <TabsTrigger value="board" className="gap-1.5">
+            <Columns3 className="h-4 w-4" />
+            Board
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {view === "board" ? (
+        <div className="space-y-3">
           <DataTableFilterToolbar
             isLoading={false}
             projectId={projectId}
             filters={filters}
             setFilters={setFilters}
           />
-        }
-      />
+          <TaskBoard projectId={projectId} />
+        </div>
+      ) : (
+        <DataTable
+          isLoading={false}
+          data={[]}
+          columns={columns}
+          onPageChange={handlePageChange}
+          onPageSizeChange={handlePageSizeChange}
+          pagination={{
+            totalCount,
+            pageNumber,
+            pageSize,
+          }}
+          filtersToolbar={
+            <DataTableFilterToolbar
+              isLoading={false}
+              projectId={projectId}
+              filters={filters}
+              setFilters={setFilters}
+            />
+          }
+        />
+      )}
     </div>
   );
 };
@@ -72,7 +112,41 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
   filters,
   setFilters,
 }) => {
-  //const workspaceId = useWorkspaceId();
+  const workspaceId = useWorkspaceId();
+
+  // Project Sprints
+  const { data: sprintsData } = useGetProjectSprintsQuery(
+    workspaceId,
+    projectId
+  );
+  const sprintOptions = [
+    { label: "Backlog", value: "backlog" },
+    ...(sprintsData?.sprints || []).map((sprint) => ({
+      label: sprint.name,
+      value: sprint._id,
+    })),
+  ];
+
+  // Project Milestones and Epics
+  const { data: milestonesData } = useGetProjectMilestonesQuery(
+    workspaceId,
+    projectId
+  );
+  const { data: epicsData } = useGetProjectEpicsQuery(workspaceId, projectId);
+  const milestoneOptions = [
+    { label: "No milestone", value: "none" },
+    ...(milestonesData?.milestones || []).map((milestone) => ({
+      label: milestone.name,
+      value: milestone._id,
+    })),
+  ];
+  const epicOptions = [
+    { label: "No epic", value: "none" },
+    ...(epicsData?.epics || []).map((epic) => ({
+      label: epic.name,
+      value: epic._id,
+    })),
+  ];
 
   //Workspace Projects
   //const projectOptions = [];
@@ -140,6 +214,39 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
         />
       )}
 
+      {projectId && (
+        <DataTableFacetedFilter
+          title="Sprint"
+          multiSelect={false}
+          options={sprintOptions}
+          disabled={isLoading}
+          selectedValues={filters.sprintId ? [filters.sprintId] : []}
+          onFilterChange={(values) => handleFilterChange("sprintId", values)}
+        />
+      )}
+
+      {projectId && (
+        <DataTableFacetedFilter
+          title="Milestone"
+          multiSelect={false}
+          options={milestoneOptions}
+          disabled={isLoading}
+          selectedValues={filters.milestoneId ? [filters.milestoneId] : []}
+          onFilterChange={(values) => handleFilterChange("milestoneId", values)}
+        />
+      )}
+
+      {projectId && (
+        <DataTableFacetedFilter
+          title="Epic"
+          multiSelect={false}
+          options={epicOptions}
+          disabled={isLoading}
+          selectedValues={filters.epicId ? [filters.epicId] : []}
+          onFilterChange={(values) => handleFilterChange("epicId", values)}
+        />
+      )}
+
       {Object.values(filters).some(
         (value) => value !== null && value !== ""
       ) && (
@@ -154,6 +261,9 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
               priority: null,
               projectId: null,
               assigneeId: null,
+              sprintId: null,
+              milestoneId: null,
+              epicId: null,
             })
           }
         >
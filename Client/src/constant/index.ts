@@ -6,19 +6,54 @@ export const TaskStatusEnum = {
   DONE: "DONE",
 } as const;
 
+export const TaskStatusCategoryEnum = {
+  BACKLOG: "BACKLOG",
+  ACTIVE: "ACTIVE",
+  DONE: "DONE",
+} as const;
+
+export const SprintStatusEnum = {
+  PLANNED: "PLANNED",
+  ACTIVE: "ACTIVE",
+  CLOSED: "CLOSED",
+} as const;
+
+export const WipLimitModeEnum = {
+  HARD: "HARD",
+  SOFT: "SOFT",
+} as const;
+
 export const TaskPriorityEnum = {
   LOW: "LOW",
   MEDIUM: "MEDIUM",
   HIGH: "HIGH",
 } as const;
 export type TaskStatusEnumType = keyof typeof TaskStatusEnum;
+export type TaskStatusCategoryEnumType = keyof typeof TaskStatusCategoryEnum;
+export type SprintStatusEnumType = keyof typeof SprintStatusEnum;
+export type WipLimitModeEnumType = keyof typeof WipLimitModeEnum;
 export type TaskPriorityEnumType = keyof typeof TaskPriorityEnum;
 
+// Projects without a custom workflow use these statuses
+export const DEFAULT_PROJECT_STATUSES: {
+  key: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+}[] = [
+  { key: "BACKLOG", name: "Backlog", category: "BACKLOG" },
+  { key: "TODO", name: "Todo", category: "BACKLOG" },
+  { key: "IN_PROGRESS", name: "In Progress", category: "ACTIVE" },
+  { key: "IN_REVIEW", name: "In Review", category: "ACTIVE" },
+  { key: "DONE", name: "Done", category: "DONE" },
+];
+
 export const Permissions = {
   CREATE_WORKSPACE: "CREATE_WORKSPACE",
   DELETE_WORKSPACE: "DELETE_WORKSPACE",
   EDIT_WORKSPACE: "EDIT_WORKSPACE",
   MANAGE_WORKSPACE_SETTINGS: "MANAGE_WORKSPACE_SETTINGS",
+  VIEW_AUDIT_LOG: "VIEW_AUDIT_LOG",
+  MANAGE_ROLES: "MANAGE_ROLES",
   ADD_MEMBER: "ADD_MEMBER",
   CHANGE_MEMBER_ROLE: "CHANGE_MEMBER_ROLE",
   REMOVE_MEMBER: "REMOVE_MEMBER",
@@ -0,0 +1,15 @@
+import { getProjectEpicsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetProjectEpicsQuery = (workspaceId: string, projectId?: string) => {
+  const query = useQuery({
+    queryKey: ["project-epics", workspaceId, projectId],
+    queryFn: () =>
+      getProjectEpicsQueryFn({ workspaceId, projectId: projectId! }),
+    staleTime: 0,
+    enabled: !!workspaceId && !!projectId,
+  });
+  return query;
+};
+
+export default useGetProjectEpicsQuery;
@@ -0,0 +1,18 @@
+import { getProjectMilestonesQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetProjectMilestonesQuery = (
+  workspaceId: string,
+  projectId?: string
+) => {
+  const query = useQuery({
+    queryKey: ["project-milestones", workspaceId, projectId],
+    queryFn: () =>
+      getProjectMilestonesQueryFn({ workspaceId, projectId: projectId! }),
+    staleTime: 0,
+    enabled: !!workspaceId && !!projectId,
+  });
+  return query;
+};
+
+export default useGetProjectMilestonesQuery;
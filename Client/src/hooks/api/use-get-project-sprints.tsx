@@ -0,0 +1,15 @@
+import { getProjectSprintsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetProjectSprintsQuery = (workspaceId: string, projectId?: string) => {
+  const query = useQuery({
+    queryKey: ["project-sprints", workspaceId, projectId],
+    queryFn: () =>
+      getProjectSprintsQueryFn({ workspaceId, projectId: projectId! }),
+    staleTime: 0,
+    enabled: !!workspaceId && !!projectId,
+  });
+  return query;
+};
+
+export default useGetProjectSprintsQuery;
@@ -0,0 +1,15 @@
+import { getProjectByIdQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetProjectQuery = (workspaceId: string, projectId?: string) => {
+  const query = useQuery({
+    queryKey: ["project", workspaceId, projectId],
+    queryFn: () =>
+      getProjectByIdQueryFn({ workspaceId, projectId: projectId! }),
+    staleTime: 0,
+    enabled: !!workspaceId && !!projectId,
+  });
+  return query;
+};
+
+export default useGetProjectQuery;
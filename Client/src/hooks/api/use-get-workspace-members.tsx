@@ -0,0 +1,14 @@
+import { getMembersInWorkspaceQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetWorkspaceMembers = (workspaceId: string) => {
+  const query = useQuery({
+    queryKey: ["members", workspaceId],
+    queryFn: () => getMembersInWorkspaceQueryFn(workspaceId),
+    staleTime: Infinity,
+    enabled: !!workspaceId,
+  });
+  return query;
+};
+
+export default useGetWorkspaceMembers;
@@ -1,3 +1,15 @@
-const useGetWorkspaceQuery = () => {};
+import { getWorkspaceByIdQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useGetWorkspaceQuery = (workspaceId: string) => {
+  const query = useQuery({
+    queryKey: ["workspace", workspaceId],
+    queryFn: () => getWorkspaceByIdQueryFn(workspaceId),
+    staleTime: 0,
+    retry: 2,
+    enabled: !!workspaceId,
+  });
+  return query;
+};
 
 export default useGetWorkspaceQuery;
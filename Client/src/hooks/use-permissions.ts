@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { PermissionType } from "@/constant";
+import { UserType, WorkspaceWithMembersType } from "@/types/api.type";
+
+const usePermissions = (
+  user: UserType | undefined,
+  workspace: WorkspaceWithMembersType | undefined
+) => {
+  return useMemo<PermissionType[]>(() => {
+    if (!user || !workspace) return [];
+    const member = workspace.members.find(
+      (member) => member.userId === user._id
+    );
+    return member?.role.permissions || [];
+  }, [user, workspace]);
+};
+
+export default usePermissions;
@@ -17,6 +17,11 @@ const useTaskTableFilter = () => {
     keyword: parseAsString,
     projectId: parseAsString,
     assigneeId: parseAsString,
+    // A sprint id, or "backlog" for tasks outside every sprint
+    sprintId: parseAsString,
+    // A milestone or epic id, or "none" for tasks without one
+    milestoneId: parseAsString,
+    epicId: parseAsString,
   });
 };
 
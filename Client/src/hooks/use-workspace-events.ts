@@ -0,0 +1,89 @@
+import { useEffect } from "react";
+import { Query, useQueryClient } from "@tanstack/react-query";
+import { baseURL } from "@/lib/base-url";
+import { RealtimeEventType, WebhookEventType } from "@/types/api.type";
+
+// The first element of the query keys each kind of change makes stale; only queries whose key
+// also contains the workspace ID are touched
+const STALE_QUERY_ROOTS: Record<string, string[]> = {
+  task: [
+    "all-tasks",
+    "task-board",
+    "task",
+    "task-history",
+    "workspace-analytics",
+  ],
+  project: [
+    "all-projects",
+    "project",
+    "project-analytics",
+    "all-tasks",
+    "task-board",
+    "workspace-analytics",
+  ],
+  member: ["members", "workspace", "all-tasks", "task-board"],
+};
+
+const STREAM_EVENTS: WebhookEventType[] = [
+  "task.created",
+  "task.updated",
+  "task.deleted",
+  "project.created",
+  "project.updated",
+  "project.deleted",
+  "member.joined",
+  "member.left",
+  "member.removed",
+  "member.role_changed",
+];
+
+const isWorkspaceQuery = (query: Query, workspaceId: string) =>
+  query.queryKey.includes(workspaceId);
+
+/**
+ * Keeps the react-query caches of a workspace fresh by listening to its server-sent event stream.
+ */
+const useWorkspaceEvents = (workspaceId: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!workspaceId) return;
+
+    const source = new EventSource(
+      `${baseURL}/workspace/${workspaceId}/events`,
+      {
+        withCredentials: true,
+      }
+    );
+    let hasConnected = false;
+
+    const onOpen = () => {
+      // Changes made while reconnecting were missed, so refetch everything in the workspace
+      if (hasConnected) {
+        queryClient.invalidateQueries({
+          predicate: (query) => isWorkspaceQuery(query, workspaceId),
+        });
+      }
+      hasConnected = true;
+    };
+
+    const onEvent = (message: MessageEvent<string>) => {
+      const event: RealtimeEventType = JSON.parse(message.data);
+      const [resource] = event.event.split(".");
+      const roots = STALE_QUERY_ROOTS[resource || ""] || [];
+
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          roots.includes(String(query.queryKey[0])) &&
+          isWorkspaceQuery(query, workspaceId),
+      });
+    };
+
+    source.addEventListener("open", onOpen);
+    STREAM_EVENTS.forEach((name) => source.addEventListener(name, onEvent));
+
+    return () => source.close();
+  }, [workspaceId, queryClient]);
+};
+
+export default useWorkspaceEvents;
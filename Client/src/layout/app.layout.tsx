@@ -1,12 +1,26 @@
-import { Outlet } from "react-router-dom";
+import { Outlet, useLocation } from "react-router-dom";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 import { AuthProvider } from "@/context/auth-provider";
 import Asidebar from "@/components/asidebar/asidebar";
 import Header from "@/components/header";
 import CreateWorkspaceDialog from "@/components/workspace/create-workspace-dialog";
 import CreateProjectDialog from "@/components/workspace/project/create-project-dialog";
+import TwoFactorRequiredNotice from "@/components/security/two-factor-required-notice";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useGetWorkspaceQuery from "@/hooks/api/use-get-workspace";
+import useWorkspaceEvents from "@/hooks/use-workspace-events";
 
 const AppLayout = () => {
+  const workspaceId = useWorkspaceId();
+  const { pathname } = useLocation();
+  const { error } = useGetWorkspaceQuery(workspaceId);
+  useWorkspaceEvents(workspaceId);
+
+  // The security page stays reachable so members can turn two-factor on
+  const isTwoFactorRequired =
+    (error as { errorCode?: string } | null)?.errorCode ===
+      "AUTH_TWO_FACTOR_REQUIRED" && !pathname.endsWith("/security");
+
   return (
     <AuthProvider>
       <SidebarProvider>
@@ -16,7 +30,7 @@ const AppLayout = () => {
             <>
               <Header />
               <div className="px-3 lg:px-20 py-3">
-                <Outlet />
+                {isTwoFactorRequired ? <TwoFactorRequiredNotice /> : <Outlet />}
               </div>
             </>
             <CreateWorkspaceDialog />
@@ -1,8 +1,78 @@
 import API from "./axios-client";
 import {
+  AcceptInvitationResponseType,
+  AllMembersInWorkspaceResponseType,
+  AllInvitationsPayloadType,
+  AllInvitationsResponseType,
+  AllWebhooksResponseType,
+  AccountProviderType,
+  AccessTokensResponseType,
+  AuditLogPayloadType,
+  AuditLogResponseType,
+  CloseSprintPayloadType,
+  CreateAccessTokenPayloadType,
+  CreateAccessTokenResponseType,
+  CreateEpicPayloadType,
+  CreateInvitationPayloadType,
+  CreateMilestonePayloadType,
+  CreateSprintPayloadType,
+  CreateWebhookPayloadType,
+  CreateWebhookResponseType,
+  CreateWorkspaceResponseType,
   CurrentUserResponseType,
+  DeleteEpicPayloadType,
+  DeleteMilestonePayloadType,
+  ForgotPasswordType,
+  InvitationPayloadType,
+  InviteLinkResponseType,
+  LinkAccountPayloadType,
+  LinkedAccountsResponseType,
+  LeaveWorkspacePayloadType,
+  LeaveWorkspaceResponseType,
   LoginResponseType,
   loginType,
+  MessageResponseType,
+  NotificationPreferencesResponseType,
+  NotificationsPayloadType,
+  NotificationsResponseType,
+  NotificationTypeType,
+  ProjectByIdPayloadType,
+  ProjectByIdResponseType,
+  ProjectEpicsResponseType,
+  ProjectMilestonesResponseType,
+  ProjectResponseType,
+  ProjectSprintsResponseType,
+  RemoveWorkspaceMemberPayloadType,
+  RemoveWorkspaceMemberResponseType,
+  RecoveryCodesResponseType,
+  ReorderTaskPayloadType,
+  ReorderTaskResponseType,
+  ReplayWebhookDeliveryPayloadType,
+  ResendVerificationType,
+  ResetPasswordType,
+  SprintActionPayloadType,
+  SprintResponseType,
+  TaskBoardPayloadType,
+  TaskBoardResponseType,
+  TaskHistoryPayloadType,
+  TaskHistoryResponseType,
+  TransferOwnershipPayloadType,
+  TwoFactorCodeType,
+  TwoFactorSetupResponseType,
+  TwoFactorStatusResponseType,
+  UserSessionsResponseType,
+  UnlockMemberLoginPayloadType,
+  UnlockMemberLoginResponseType,
+  UpdateInviteLinkPayloadType,
+  UpdateProjectWorkflowPayloadType,
+  UpdateTwoFactorRequirementPayloadType,
+  UpdateWebhookPayloadType,
+  VerifyEmailType,
+  WebhookDeliveriesPayloadType,
+  WebhookDeliveriesResponseType,
+  WebhookPayloadType,
+  WebhookSecretResponseType,
+  WorkspaceByIdResponseType,
 } from "@/types/api.type";
 
 export const loginMutationFn = async (
@@ -14,6 +84,41 @@ export const loginMutationFn = async (
 
 export const registerMutationFn = async () => {};
 
+export const forgotPasswordMutationFn = async (
+  data: ForgotPasswordType
+): Promise<MessageResponseType> => {
+  const response = await API.post("/auth/forgot-password", data);
+  return response.data;
+};
+
+export const resetPasswordMutationFn = async (
+  data: ResetPasswordType
+): Promise<MessageResponseType> => {
+  const response = await API.post("/auth/reset-password", data);
+  return response.data;
+};
+
+export const verifyEmailMutationFn = async (
+  data: VerifyEmailType
+): Promise<MessageResponseType> => {
+  const response = await API.post("/auth/verify-email", data);
+  return response.data;
+};
+
+export const resendVerificationMutationFn = async (
+  data: ResendVerificationType
+): Promise<MessageResponseType> => {
+  const response = await API.post("/auth/resend-verification", data);
+  return response.data;
+};
+
+export const verifyTwoFactorLoginMutationFn = async (
+  data: TwoFactorCodeType
+): Promise<LoginResponseType> => {
+  const response = await API.post("/auth/2fa/verify", data);
+  return response.data;
+};
+
 export const logoutMutationFn = async () => {};
 
 export const getCurrentUserQueryFn =
@@ -22,6 +127,155 @@ export const getCurrentUserQueryFn =
     return response.data;
   };
 
+//********* TWO-FACTOR ****************
+//************* */
+
+export const getTwoFactorStatusQueryFn =
+  async (): Promise<TwoFactorStatusResponseType> => {
+    const response = await API.get(`/user/2fa`);
+    return response.data;
+  };
+
+export const setupTwoFactorMutationFn =
+  async (): Promise<TwoFactorSetupResponseType> => {
+    const response = await API.post(`/user/2fa/setup`);
+    return response.data;
+  };
+
+export const enableTwoFactorMutationFn = async (
+  data: TwoFactorCodeType
+): Promise<RecoveryCodesResponseType> => {
+  const response = await API.post(`/user/2fa/enable`, data);
+  return response.data;
+};
+
+export const disableTwoFactorMutationFn = async (
+  data: TwoFactorCodeType
+): Promise<MessageResponseType> => {
+  const response = await API.post(`/user/2fa/disable`, data);
+  return response.data;
+};
+
+export const regenerateRecoveryCodesMutationFn = async (
+  data: TwoFactorCodeType
+): Promise<RecoveryCodesResponseType> => {
+  const response = await API.post(`/user/2fa/recovery-codes`, data);
+  return response.data;
+};
+
+//********* LINKED ACCOUNTS ****************
+//************* */
+
+export const getLinkedAccountsQueryFn =
+  async (): Promise<LinkedAccountsResponseType> => {
+    const response = await API.get(`/user/accounts`);
+    return response.data;
+  };
+
+export const startLinkAccountMutationFn = async (
+  data: LinkAccountPayloadType
+): Promise<MessageResponseType> => {
+  const response = await API.post(`/user/accounts/link`, data);
+  return response.data;
+};
+
+export const unlinkAccountMutationFn = async (
+  provider: AccountProviderType
+): Promise<MessageResponseType> => {
+  const response = await API.delete(`/user/accounts/${provider}`);
+  return response.data;
+};
+
+//********* SESSIONS ****************
+//************* */
+
+export const getUserSessionsQueryFn =
+  async (): Promise<UserSessionsResponseType> => {
+    const response = await API.get(`/user/sessions`);
+    return response.data;
+  };
+
+export const revokeUserSessionMutationFn = async (
+  sessionId: string
+): Promise<MessageResponseType> => {
+  const response = await API.delete(`/user/sessions/${sessionId}`);
+  return response.data;
+};
+
+export const revokeOtherUserSessionsMutationFn =
+  async (): Promise<MessageResponseType> => {
+    const response = await API.post(`/user/sessions/revoke-others`);
+    return response.data;
+  };
+
+//********* ACCESS TOKENS ****************
+//************* */
+
+export const getAccessTokensQueryFn =
+  async (): Promise<AccessTokensResponseType> => {
+    const response = await API.get(`/user/access-tokens`);
+    return response.data;
+  };
+
+export const createAccessTokenMutationFn = async (
+  data: CreateAccessTokenPayloadType
+): Promise<CreateAccessTokenResponseType> => {
+  const response = await API.post(`/user/access-tokens`, data);
+  return response.data;
+};
+
+export const revokeAccessTokenMutationFn = async (
+  accessTokenId: string
+): Promise<MessageResponseType> => {
+  const response = await API.delete(`/user/access-tokens/${accessTokenId}`);
+  return response.data;
+};
+
+//********* NOTIFICATIONS ****************
+//************* */
+
+export const getNotificationsQueryFn = async ({
+  unreadOnly,
+  pageNumber = 1,
+  pageSize = 20,
+}: NotificationsPayloadType = {}): Promise<NotificationsResponseType> => {
+  const params = new URLSearchParams();
+  if (unreadOnly) params.append("unreadOnly", "true");
+  params.append("pageNumber", `${pageNumber}`);
+  params.append("pageSize", `${pageSize}`);
+
+  const response = await API.get(`/user/notifications?${params.toString()}`);
+  return response.data;
+};
+
+export const markNotificationReadMutationFn = async (
+  notificationId: string
+): Promise<MessageResponseType> => {
+  const response = await API.put(`/user/notifications/${notificationId}/read`);
+  return response.data;
+};
+
+export const markAllNotificationsReadMutationFn =
+  async (): Promise<MessageResponseType> => {
+    const response = await API.put(`/user/notifications/read-all`);
+    return response.data;
+  };
+
+export const getNotificationPreferencesQueryFn =
+  async (): Promise<NotificationPreferencesResponseType> => {
+    const response = await API.get(`/user/notification-preferences`);
+    return response.data;
+  };
+
+export const updateNotificationPreferencesMutationFn = async (
+  optOuts: NotificationTypeType[]
+): Promise<NotificationPreferencesResponseType> => {
+  const response = await API.put(`/user/notification-preferences`, {
+    optOuts,
+  });
+  return response.data;
+};
+
 //********* WORKSPACE ****************
 //************* */
 
@@ -29,7 +283,19 @@ export const createWorkspaceMutationFn = async () => {};
 
 export const editWorkspaceMutationFn = async () => {};
 
-export const getWorkspaceByIdQueryFn = async () => {};
+export const getWorkspaceByIdQueryFn = async (
+  workspaceId: string
+): Promise<WorkspaceByIdResponseType> => {
+  const response = await API.get(`/workspace/${workspaceId}`);
+  return response.data;
+};
+
+export const getMembersInWorkspaceQueryFn = async (
+  workspaceId: string
+): Promise<AllMembersInWorkspaceResponseType> => {
+  const response = await API.get(`/workspace/members/${workspaceId}`);
+  return response.data;
+};
 
 export const getAllWorkspacesUserIsMemberQueryFn = () => {};
 
@@ -39,10 +305,254 @@ export const changeWorkspaceMemberRoleMutationFn = async () => {};
 
 export const deleteWorkspaceMutationFn = async () => {};
 
+export const transferWorkspaceOwnershipMutationFn = async ({
+  workspaceId,
+  data,
+}: TransferOwnershipPayloadType): Promise<CreateWorkspaceResponseType> => {
+  const response = await API.put(
+    `/workspace/${workspaceId}/transfer-ownership`,
+    data
+  );
+  return response.data;
+};
+
+export const updateTwoFactorRequirementMutationFn = async ({
+  workspaceId,
+  data,
+}: UpdateTwoFactorRequirementPayloadType): Promise<CreateWorkspaceResponseType> => {
+  const response = await API.put(
+    `/workspace/${workspaceId}/two-factor-requirement`,
+    data
+  );
+  return response.data;
+};
+
+export const getInviteLinkQueryFn = async (
+  workspaceId: string
+): Promise<InviteLinkResponseType> => {
+  const response = await API.get(`/workspace/${workspaceId}/invite-link`);
+  return response.data;
+};
+
+export const resetInviteLinkMutationFn = async (
+  workspaceId: string
+): Promise<InviteLinkResponseType> => {
+  const response = await API.put(`/workspace/${workspaceId}/invite-link/reset`);
+  return response.data;
+};
+
+export const updateInviteLinkMutationFn = async ({
+  workspaceId,
+  data,
+}: UpdateInviteLinkPayloadType): Promise<InviteLinkResponseType> => {
+  const response = await API.put(
+    `/workspace/${workspaceId}/invite-link/update`,
+    data
+  );
+  return response.data;
+};
+
+const buildAuditLogParams = (
+  filters: Omit<AuditLogPayloadType, "workspaceId">
+) => {
+  const params = new URLSearchParams();
+  if (filters.action?.length) params.append("action", filters.action.join(","));
+  if (filters.actorId) params.append("actorId", filters.actorId);
+  if (filters.from) params.append("from", filters.from);
+  if (filters.to) params.append("to", filters.to);
+  if (filters.pageNumber) params.append("pageNumber", `${filters.pageNumber}`);
+  if (filters.pageSize) params.append("pageSize", `${filters.pageSize}`);
+  return params.toString();
+};
+
+export const getWorkspaceAuditLogsQueryFn = async ({
+  workspaceId,
+  ...filters
+}: AuditLogPayloadType): Promise<AuditLogResponseType> => {
+  const response = await API.get(
+    `/workspace/${workspaceId}/audit?${buildAuditLogParams(filters)}`
+  );
+  return response.data;
+};
+
+export const exportWorkspaceAuditLogsQueryFn = async ({
+  workspaceId,
+  ...filters
+}: AuditLogPayloadType): Promise<Blob> => {
+  const response = await API.get(
+    `/workspace/${workspaceId}/audit/export?${buildAuditLogParams(filters)}`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
 //*******MEMBER ****************
 
 export const invitedUserJoinWorkspaceMutationFn = async () => {};
 
+export const removeWorkspaceMemberMutationFn = async ({
+  workspaceId,
+  memberId,
+  data,
+}: RemoveWorkspaceMemberPayloadType): Promise<RemoveWorkspaceMemberResponseType> => {
+  const response = await API.put(
+    `/member/${memberId}/workspace/${workspaceId}/remove`,
+    data
+  );
+  return response.data;
+};
+
+export const unlockMemberLoginMutationFn = async ({
+  workspaceId,
+  memberId,
+}: UnlockMemberLoginPayloadType): Promise<UnlockMemberLoginResponseType> => {
+  const response = await API.put(
+    `/member/${memberId}/workspace/${workspaceId}/unlock-login`
+  );
+  return response.data;
+};
+
+export const leaveWorkspaceMutationFn = async ({
+  workspaceId,
+  data,
+}: LeaveWorkspacePayloadType): Promise<LeaveWorkspaceResponseType> => {
+  const response = await API.put(
+    `/member/workspace/${workspaceId}/leave`,
+    data
+  );
+  return response.data;
+};
+
+export const createInvitationMutationFn = async ({
+  workspaceId,
+  data,
+}: CreateInvitationPayloadType) => {
+  const response = await API.post(
+    `/invitation/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const getWorkspaceInvitationsQueryFn = async ({
+  workspaceId,
+  status,
+  pageNumber = 1,
+  pageSize = 20,
+}: AllInvitationsPayloadType): Promise<AllInvitationsResponseType> => {
+  const params = new URLSearchParams();
+  if (status) params.append("status", status);
+  params.append("pageNumber", `${pageNumber}`);
+  params.append("pageSize", `${pageSize}`);
+
+  const response = await API.get(
+    `/invitation/workspace/${workspaceId}/all?${params.toString()}`
+  );
+  return response.data;
+};
+
+export const resendInvitationMutationFn = async ({
+  workspaceId,
+  invitationId,
+}: InvitationPayloadType) => {
+  const response = await API.post(
+    `/invitation/${invitationId}/workspace/${workspaceId}/resend`
+  );
+  return response.data;
+};
+
+export const revokeInvitationMutationFn = async ({
+  workspaceId,
+  invitationId,
+}: InvitationPayloadType) => {
+  const response = await API.put(
+    `/invitation/${invitationId}/workspace/${workspaceId}/revoke`
+  );
+  return response.data;
+};
+
+export const acceptInvitationMutationFn = async (
+  token: string
+): Promise<AcceptInvitationResponseType> => {
+  const response = await API.post(`/invitation/${token}/accept`);
+  return response.data;
+};
+
+//********* WEBHOOKS ****************
+//************* */
+
+export const createWebhookMutationFn = async ({
+  workspaceId,
+  data,
+}: CreateWebhookPayloadType): Promise<CreateWebhookResponseType> => {
+  const response = await API.post(
+    `/webhook/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const getWorkspaceWebhooksQueryFn = async (
+  workspaceId: string
+): Promise<AllWebhooksResponseType> => {
+  const response = await API.get(`/webhook/workspace/${workspaceId}/all`);
+  return response.data;
+};
+
+export const updateWebhookMutationFn = async ({
+  workspaceId,
+  webhookId,
+  data,
+}: UpdateWebhookPayloadType) => {
+  const response = await API.put(
+    `/webhook/${webhookId}/workspace/${workspaceId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const rotateWebhookSecretMutationFn = async ({
+  workspaceId,
+  webhookId,
+}: WebhookPayloadType): Promise<WebhookSecretResponseType> => {
+  const response = await API.post(
+    `/webhook/${webhookId}/workspace/${workspaceId}/rotate-secret`
+  );
+  return response.data;
+};
+
+export const deleteWebhookMutationFn = async ({
+  workspaceId,
+  webhookId,
+}: WebhookPayloadType): Promise<MessageResponseType> => {
+  const response = await API.delete(
+    `/webhook/${webhookId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+export const getWebhookDeliveriesQueryFn = async ({
+  workspaceId,
+  webhookId,
+  pageNumber = 1,
+  pageSize = 20,
+}: WebhookDeliveriesPayloadType): Promise<WebhookDeliveriesResponseType> => {
+  const response = await API.get(
+    `/webhook/${webhookId}/workspace/${workspaceId}/deliveries?pageNumber=${pageNumber}&pageSize=${pageSize}`
+  );
+  return response.data;
+};
+
+export const replayWebhookDeliveryMutationFn = async ({
+  workspaceId,
+  deliveryId,
+}: ReplayWebhookDeliveryPayloadType): Promise<MessageResponseType> => {
+  const response = await API.post(
+    `/webhook/deliveries/${deliveryId}/workspace/${workspaceId}/replay`
+  );
+  return response.data;
+};
+
 //********* */
 //********* PROJECTS
 export const createProjectMutationFn = async () => {};
@@ -51,12 +561,161 @@ export const editProjectMutationFn = async () => {};
 
 export const getProjectsInWorkspaceQueryFn = async () => {};
 
-export const getProjectByIdQueryFn = async () => {};
+export const getProjectByIdQueryFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectByIdResponseType> => {
+  const response = await API.get(
+    `/project/${projectId}/workspace/${workspaceId}`
+  );
+  return response.data;
+};
 
 export const getProjectAnalyticsQueryFn = async () => {};
 
 export const deleteProjectMutationFn = async () => {};
 
+export const updateProjectWorkflowMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: UpdateProjectWorkflowPayloadType): Promise<ProjectResponseType> => {
+  const response = await API.put(
+    `/project/${projectId}/workspace/${workspaceId}/workflow`,
+    data
+  );
+  return response.data;
+};
+
+//********* SPRINTS ****************
+//************* */
+
+export const getProjectSprintsQueryFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectSprintsResponseType> => {
+  const response = await API.get(
+    `/sprint/project/${projectId}/workspace/${workspaceId}/all`
+  );
+  return response.data;
+};
+
+export const createSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: CreateSprintPayloadType): Promise<SprintResponseType> => {
+  const response = await API.post(
+    `/sprint/project/${projectId}/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const startSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+}: SprintActionPayloadType): Promise<SprintResponseType> => {
+  const response = await API.post(
+    `/sprint/${sprintId}/project/${projectId}/workspace/${workspaceId}/start`
+  );
+  return response.data;
+};
+
+export const closeSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+  data,
+}: CloseSprintPayloadType): Promise<SprintResponseType> => {
+  const response = await API.post(
+    `/sprint/${sprintId}/project/${projectId}/workspace/${workspaceId}/close`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+}: SprintActionPayloadType): Promise<MessageResponseType> => {
+  const response = await API.delete(
+    `/sprint/${sprintId}/project/${projectId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//********* MILESTONES AND EPICS ****************
+//************* */
+
+export const getProjectMilestonesQueryFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectMilestonesResponseType> => {
+  const response = await API.get(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/all`
+  );
+  return response.data;
+};
+
+export const createMilestoneMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: CreateMilestonePayloadType): Promise<MessageResponseType> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/create`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteMilestoneMutationFn = async ({
+  workspaceId,
+  projectId,
+  milestoneId,
+}: DeleteMilestonePayloadType): Promise<MessageResponseType> => {
+  const response = await API.delete(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/${milestoneId}/delete`
+  );
+  return response.data;
+};
+
+export const getProjectEpicsQueryFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectEpicsResponseType> => {
+  const response = await API.get(
+    `/project/${projectId}/workspace/${workspaceId}/epic/all`
+  );
+  return response.data;
+};
+
+export const createEpicMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: CreateEpicPayloadType): Promise<MessageResponseType> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/epic/create`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteEpicMutationFn = async ({
+  workspaceId,
+  projectId,
+  epicId,
+}: DeleteEpicPayloadType): Promise<MessageResponseType> => {
+  const response = await API.delete(
+    `/project/${projectId}/workspace/${workspaceId}/epic/${epicId}/delete`
+  );
+  return response.data;
+};
+
 //*******TASKS ********************************
 //************************* */
 
@@ -65,3 +724,47 @@ export const createTaskMutationFn = async () => {};
 export const getAllTasksQueryFn = async () => {};
 
 export const deleteTaskMutationFn = async () => {};
+
+export const getTaskBoardQueryFn = async ({
+  workspaceId,
+  ...filters
+}: TaskBoardPayloadType): Promise<TaskBoardResponseType> => {
+  const params = new URLSearchParams();
+  if (filters.projectId) params.append("projectId", filters.projectId);
+  if (filters.keyword) params.append("keyword", filters.keyword);
+  if (filters.status) params.append("status", filters.status);
+  if (filters.priority) params.append("priority", filters.priority);
+  if (filters.assignedTo) params.append("assignedTo", filters.assignedTo);
+  if (filters.sprintId) params.append("sprintId", filters.sprintId);
+  if (filters.milestoneId) params.append("milestoneId", filters.milestoneId);
+  if (filters.epicId) params.append("epicId", filters.epicId);
+
+  const response = await API.get(
+    `/task/workspace/${workspaceId}/board?${params.toString()}`
+  );
+  return response.data;
+};
+
+export const reorderTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: ReorderTaskPayloadType): Promise<ReorderTaskResponseType> => {
+  const response = await API.put(
+    `/task/${taskId}/workspace/${workspaceId}/reorder`,
+    data
+  );
+  return response.data;
+};
+
+export const getTaskHistoryQueryFn = async ({
+  workspaceId,
+  taskId,
+  pageNumber = 1,
+  pageSize = 20,
+}: TaskHistoryPayloadType): Promise<TaskHistoryResponseType> => {
+  const response = await API.get(
+    `/task/${taskId}/workspace/${workspaceId}/history?pageNumber=${pageNumber}&pageSize=${pageSize}`
+  );
+  return response.data;
+};
@@ -16,7 +16,11 @@ API.interceptors.response.use(
   },
   async (error) => {
     const { data, status } = error.response;
-    if (data === "Unauthorized" && status === 401) {
+    // A session signed out from another device goes back to the login page
+    if (
+      status === 401 &&
+      (data === "Unauthorized" || data?.errorCode === "AUTH_SESSION_REVOKED")
+    ) {
       window.location.href = "/";
     }
     return Promise.reject({
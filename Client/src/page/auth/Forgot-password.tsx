@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Logo from "@/components/logo";
+import { useMutation } from "@tanstack/react-query";
+import { forgotPasswordMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { Loader } from "lucide-react";
+import { AUTH_ROUTES } from "@/routes/common/routePaths";
+
+const ForgotPassword = () => {
+  const [sent, setSent] = useState(false);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: forgotPasswordMutationFn,
+  });
+
+  const formSchema = z.object({
+    email: z.string().trim().email("Invalid email address").min(1, {
+      message: "Email is required",
+    }),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPending) return;
+
+    mutate(values, {
+      onSuccess: () => {
+        setSent(true);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
+      <div className="flex w-full max-w-sm flex-col gap-6">
+        <Link
+          to="/"
+          className="flex items-center gap-2 self-center font-medium"
+        >
+          <Logo />
+          Team Sync.
+        </Link>
+        <div className="flex flex-col gap-6">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Forgot your password?</CardTitle>
+              <CardDescription>
+                {sent
+                  ? "If an account exists for this email, we've sent a link to reset your password."
+                  : "Enter your email and we'll send you a link to reset your password"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!sent && (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <div className="grid gap-3">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                              Email
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="m@example.com"
+                                className="!h-[48px]"
+                                {...field}
+                              />
+                            </FormControl>
+
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        disabled={isPending}
+                        type="submit"
+                        className="w-full"
+                      >
+                        {isPending && <Loader className="animate-spin" />}
+                        Send reset link
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              )}
+              <div className="text-center text-sm mt-4">
+                Remembered it?{" "}
+                <Link
+                  to={AUTH_ROUTES.SIGN_IN}
+                  className="underline underline-offset-4"
+                >
+                  Back to login
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -1,11 +1,16 @@
 import Logo from "@/components/logo";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 
 const GoogleOAuthFailure = () => {
   const navigate = useNavigate();
 
+  const [searchParams] = useSearchParams();
+  const providerName =
+    searchParams.get("provider") === "github" ? "GitHub" : "Google";
+  const message = searchParams.get("message");
+
   return (
     <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
       <div className="flex w-full max-w-sm flex-col gap-6">
@@ -22,7 +27,10 @@ const GoogleOAuthFailure = () => {
         <CardContent>
           <div style={{ textAlign: "center", marginTop: "50px" }}>
             <h1>Authentication Failed</h1>
-            <p>We couldn't sign you in with Google. Please try again.</p>
+            <p>
+              {message ||
+                `We couldn't sign you in with ${providerName}. Please try again.`}
+            </p>
 
             <Button onClick={() => navigate("/")} style={{ marginTop: "20px" }}>
               Back to Login
@@ -0,0 +1,173 @@
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Logo from "@/components/logo";
+import { useMutation } from "@tanstack/react-query";
+import { resetPasswordMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { Loader } from "lucide-react";
+import { AUTH_ROUTES } from "@/routes/common/routePaths";
+
+const ResetPassword = () => {
+  const navigate = useNavigate();
+
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: resetPasswordMutationFn,
+  });
+
+  const formSchema = z
+    .object({
+      password: z.string().trim().min(4, {
+        message: "Password must be at least 4 characters",
+      }),
+      confirmPassword: z.string().trim(),
+    })
+    .refine((values) => values.password === values.confirmPassword, {
+      message: "Passwords do not match",
+      path: ["confirmPassword"],
+    });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPending) return;
+
+    mutate(
+      { token, password: values.password },
+      {
+        onSuccess: (data) => {
+          toast({
+            title: "Success",
+            description: data.message,
+            variant: "success",
+          });
+          navigate(AUTH_ROUTES.SIGN_IN);
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
+      <div className="flex w-full max-w-sm flex-col gap-6">
+        <Link
+          to="/"
+          className="flex items-center gap-2 self-center font-medium"
+        >
+          <Logo />
+          Team Sync.
+        </Link>
+        <div className="flex flex-col gap-6">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Choose a new password</CardTitle>
+              <CardDescription>
+                {token
+                  ? "You will be signed out of all devices after the reset"
+                  : "This reset link is missing its token. Request a new one."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {token ? (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <div className="grid gap-3">
+                      <FormField
+                        control={form.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                              New password
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                type="password"
+                                className="!h-[48px]"
+                                {...field}
+                              />
+                            </FormControl>
+
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                              Confirm new password
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                type="password"
+                                className="!h-[48px]"
+                                {...field}
+                              />
+                            </FormControl>
+
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        disabled={isPending}
+                        type="submit"
+                        className="w-full"
+                      >
+                        {isPending && <Loader className="animate-spin" />}
+                        Reset password
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              ) : (
+                <Link to={AUTH_ROUTES.FORGOT_PASSWORD}>
+                  <Button className="w-full">Request a new link</Button>
+                </Link>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -21,10 +21,12 @@ import {
 import { Input } from "@/components/ui/input";
 import Logo from "@/components/logo";
 import GoogleOauthButton from "@/components/auth/google-oauth-button";
+import GithubOauthButton from "@/components/auth/github-oauth-button";
 import { useMutation } from "@tanstack/react-query";
 import { loginMutationFn } from "@/lib/api";
 import { toast } from "@/hooks/use-toast";
 import { Loader } from "lucide-react";
+import { AUTH_ROUTES } from "@/routes/common/routePaths";
 
 const SignIn = () => {
   const navigate = useNavigate();
@@ -58,17 +60,35 @@ const SignIn = () => {
 
     mutate(values, {
       onSuccess: (data) => {
+        if (data.twoFactorRequired) {
+          const nextUrl = searchParams.get("returnUrl");
+          navigate(
+            nextUrl
+              ? `${AUTH_ROUTES.TWO_FACTOR}?returnUrl=${encodeURIComponent(
+                  nextUrl
+                )}`
+              : AUTH_ROUTES.TWO_FACTOR
+          );
+          return;
+        }
         const user = data.user;
 
         const decodedUrl = returnUrl ? decodeURIComponent(returnUrl) : null;
         navigate(decodedUrl || `/workspace/${user.currentWorkspace}`);
       },
-      onError: (error) => {
+      onError: (error: Error & { errorCode?: string }) => {
         toast({
           title: "Error",
           description: error.message,
           variant: "destructive",
         });
+        if (error.errorCode === "AUTH_EMAIL_NOT_VERIFIED") {
+          navigate(
+            `${AUTH_ROUTES.VERIFY_EMAIL}?email=${encodeURIComponent(
+              values.email
+            )}`
+          );
+        }
       },
     });
   };
@@ -88,7 +108,7 @@ const SignIn = () => {
             <CardHeader className="text-center">
               <CardTitle className="text-xl">Welcome back</CardTitle>
               <CardDescription>
-                Login with your Email or Google account
+                Login with your Email, Google or GitHub account
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -97,6 +117,7 @@ const SignIn = () => {
                   <div className="grid gap-6">
                     <div className="flex flex-col gap-4">
                       <GoogleOauthButton label="Login" />
+                      <GithubOauthButton label="Login" />
                     </div>
                     <div className="relative text-center text-sm after:absolute after:inset-0 after:top-1/2 after:z-0 after:flex after:items-center after:border-t after:border-border">
                       <span className="relative z-10 bg-background px-2 text-muted-foreground">
@@ -136,12 +157,12 @@ const SignIn = () => {
                                 <FormLabel className="dark:text-[#f1f7feb5] text-sm">
                                   Password
                                 </FormLabel>
-                                <a
-                                  href="#"
+                                <Link
+                                  to={AUTH_ROUTES.FORGOT_PASSWORD}
                                   className="ml-auto text-sm underline-offset-4 hover:underline"
                                 >
                                   Forgot your password?
-                                </a>
+                                </Link>
                               </div>
                               <FormControl>
                                 <Input
@@ -21,6 +21,7 @@ import {
 import { Input } from "@/components/ui/input";
 import Logo from "@/components/logo";
 import GoogleOauthButton from "@/components/auth/google-oauth-button";
+import GithubOauthButton from "@/components/auth/github-oauth-button";
 
 const SignUp = () => {
   const formSchema = z.object({
@@ -63,7 +64,7 @@ const SignUp = () => {
             <CardHeader className="text-center">
               <CardTitle className="text-xl">Create an account</CardTitle>
               <CardDescription>
-                Signup with your Email or Google account
+                Signup with your Email, Google or GitHub account
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -72,6 +73,7 @@ const SignUp = () => {
                   <div className="grid gap-6">
                     <div className="flex flex-col gap-4">
                       <GoogleOauthButton label="Signup" />
+                      <GithubOauthButton label="Signup" />
                     </div>
                     <div className="relative text-center text-sm after:absolute after:inset-0 after:top-1/2 after:z-0 after:flex after:items-center after:border-t after:border-border">
                       <span className="relative z-10 bg-background px-2 text-muted-foreground">
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Logo from "@/components/logo";
+import { useMutation } from "@tanstack/react-query";
+import { verifyTwoFactorLoginMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { Loader } from "lucide-react";
+import { AUTH_ROUTES } from "@/routes/common/routePaths";
+
+const TwoFactor = () => {
+  const navigate = useNavigate();
+
+  const [searchParams] = useSearchParams();
+  const returnUrl = searchParams.get("returnUrl");
+
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: verifyTwoFactorLoginMutationFn,
+  });
+
+  const formSchema = z.object({
+    code: z.string().trim().min(6, {
+      message: "Code is required",
+    }),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPending) return;
+
+    mutate(values, {
+      onSuccess: (data) => {
+        const decodedUrl = returnUrl ? decodeURIComponent(returnUrl) : null;
+        navigate(decodedUrl || `/workspace/${data.user.currentWorkspace}`);
+      },
+      onError: (error) => {
+        form.reset({ code: "" });
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
+      <div className="flex w-full max-w-sm flex-col gap-6">
+        <Link
+          to="/"
+          className="flex items-center gap-2 self-center font-medium"
+        >
+          <Logo />
+          Team Sync.
+        </Link>
+        <div className="flex flex-col gap-6">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">
+                Two-factor authentication
+              </CardTitle>
+              <CardDescription>
+                {useRecoveryCode
+                  ? "Enter one of your unused recovery codes"
+                  : "Enter the 6-digit code from your authenticator app"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)}>
+                  <div className="grid gap-3">
+                    <FormField
+                      control={form.control}
+                      name="code"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                            {useRecoveryCode ? "Recovery code" : "Code"}
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={
+                                useRecoveryCode ? "xxxxx-xxxxx" : "123456"
+                              }
+                              autoComplete="one-time-code"
+                              inputMode={useRecoveryCode ? "text" : "numeric"}
+                              autoFocus
+                              className="!h-[48px]"
+                              {...field}
+                            />
+                          </FormControl>
+
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      disabled={isPending}
+                      type="submit"
+                      className="w-full"
+                    >
+                      {isPending && <Loader className="animate-spin" />}
+                      Verify
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+              <div className="text-center text-sm mt-4 grid gap-2">
+                <button
+                  type="button"
+                  className="underline underline-offset-4"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    form.reset({ code: "" });
+                  }}
+                >
+                  {useRecoveryCode
+                    ? "Use your authenticator app"
+                    : "Use a recovery code"}
+                </button>
+                <Link
+                  to={AUTH_ROUTES.SIGN_IN}
+                  className="underline underline-offset-4"
+                >
+                  Back to login
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactor;
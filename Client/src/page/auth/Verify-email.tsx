@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import Logo from "@/components/logo";
+import { useMutation } from "@tanstack/react-query";
+import { resendVerificationMutationFn, verifyEmailMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { Loader } from "lucide-react";
+import { AUTH_ROUTES } from "@/routes/common/routePaths";
+
+const VerifyEmail = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [verified, setVerified] = useState(false);
+  const [sent, setSent] = useState(false);
+  // Without a usable token, offer to send a new link instead
+  const [showResend, setShowResend] = useState(!token);
+
+  const { mutate: verifyEmail, isPending: isVerifying } = useMutation({
+    mutationFn: verifyEmailMutationFn,
+  });
+  const { mutate: resendVerification, isPending: isResending } = useMutation({
+    mutationFn: resendVerificationMutationFn,
+  });
+
+  const formSchema = z.object({
+    email: z.string().trim().email("Invalid email address").min(1, {
+      message: "Email is required",
+    }),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: searchParams.get("email") || "",
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleVerify = () => {
+    if (isVerifying) return;
+
+    verifyEmail(
+      { token },
+      {
+        onSuccess: () => {
+          setVerified(true);
+        },
+        onError: (error) => {
+          setShowResend(true);
+          onError(error);
+        },
+      }
+    );
+  };
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isResending) return;
+
+    resendVerification(values, {
+      onSuccess: () => {
+        setSent(true);
+      },
+      onError,
+    });
+  };
+
+  const description = verified
+    ? "Your email address has been verified. You can now log in."
+    : sent
+    ? "If this email still needs verification, we've sent a new link to it."
+    : showResend
+    ? "Enter your email and we'll send you a new verification link"
+    : "Confirm your email address to finish setting up your account";
+
+  return (
+    <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
+      <div className="flex w-full max-w-sm flex-col gap-6">
+        <Link
+          to="/"
+          className="flex items-center gap-2 self-center font-medium"
+        >
+          <Logo />
+          Team Sync.
+        </Link>
+        <div className="flex flex-col gap-6">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">Verify your email</CardTitle>
+              <CardDescription>{description}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!verified && !showResend && (
+                <Button
+                  disabled={isVerifying}
+                  className="w-full"
+                  onClick={handleVerify}
+                >
+                  {isVerifying && <Loader className="animate-spin" />}
+                  Verify email
+                </Button>
+              )}
+              {!verified && showResend && !sent && (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)}>
+                    <div className="grid gap-3">
+                      <FormField
+                        control={form.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                              Email
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="m@example.com"
+                                className="!h-[48px]"
+                                {...field}
+                              />
+                            </FormControl>
+
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        disabled={isResending}
+                        type="submit"
+                        className="w-full"
+                      >
+                        {isResending && <Loader className="animate-spin" />}
+                        Send verification link
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              )}
+              <div className="text-center text-sm mt-4">
+                <Link
+                  to={AUTH_ROUTES.SIGN_IN}
+                  className="underline underline-offset-4"
+                >
+                  Back to login
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,108 @@
+import { Loader } from "lucide-react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import Logo from "@/components/logo";
+import { Button } from "@/components/ui/button";
+import { BASE_ROUTE } from "@/routes/common/routePaths";
+import { acceptInvitationMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+
+const AcceptInvitation = () => {
+  const navigate = useNavigate();
+  const param = useParams();
+
+  const token = param.token as string;
+
+  const returnUrl = encodeURIComponent(
+    `${BASE_ROUTE.INVITATION_URL.replace(":token", token)}`
+  );
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: acceptInvitationMutationFn,
+  });
+
+  const handleSubmit = (e: { preventDefault: () => void }) => {
+    e.preventDefault();
+    if (isPending) return;
+
+    mutate(token, {
+      onSuccess: (data) => {
+        navigate(`/workspace/${data.workspaceId}`);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex min-h-svh flex-col items-center justify-center gap-6 bg-muted p-6 md:p-10">
+      <div className="flex w-full max-w-md flex-col gap-6">
+        <Link
+          to="/"
+          className="flex items-center gap-2 self-center font-medium"
+        >
+          <Logo />
+          Team Sync.
+        </Link>
+        <div className="flex flex-col gap-6">
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle className="text-xl">
+                You've been invited to a TeamSync Workspace!
+              </CardTitle>
+              <CardDescription>
+                Log in with the email address the invitation was sent to, then
+                accept it to join.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-center my-3">
+                <form onSubmit={handleSubmit}>
+                  <Button
+                    type="submit"
+                    disabled={isPending}
+                    className="!bg-green-500 !text-white text-[23px] !h-auto"
+                  >
+                    {isPending && <Loader className="!w-6 !h-6 animate-spin" />}
+                    Accept Invitation
+                  </Button>
+                </form>
+              </div>
+
+              <div className="flex flex-col md:flex-row items-center gap-2">
+                <Link
+                  className="flex-1 text-base"
+                  to={`/sign-up?returnUrl=${returnUrl}`}
+                >
+                  <Button className="w-full">Signup</Button>
+                </Link>
+                <Link
+                  className="flex-1 text-base"
+                  to={`/?returnUrl=${returnUrl}`}
+                >
+                  <Button variant="secondary" className="w-full border">
+                    Login
+                  </Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -1,6 +1,7 @@
 import { Separator } from "@/components/ui/separator";
 import InviteMember from "@/components/workspace/member/invite-member";
 import AllMembers from "@/components/workspace/member/all-members";
+import LeaveWorkspaceCard from "@/components/workspace/member/leave-workspace-card";
 import WorkspaceHeader from "@/components/workspace/common/workspace-header";
 
 export default function Members() {
@@ -25,6 +26,9 @@ export default function Members() {
           <Separator className="my-4 !h-[0.5px]" />
 
           <AllMembers />
+          <Separator className="my-4 !h-[0.5px]" />
+
+          <LeaveWorkspaceCard />
         </div>
       </main>
     </div>
@@ -1,6 +1,8 @@
 import { Separator } from "@/components/ui/separator";
 import ProjectAnalytics from "@/components/workspace/project/project-analytics";
 import ProjectHeader from "@/components/workspace/project/project-header";
+import ProjectMilestones from "@/components/workspace/project/project-milestones";
+import ProjectSprints from "@/components/workspace/project/project-sprints";
 import TaskTable from "@/components/workspace/task/task-table";
 
 const ProjectDetails = () => {
@@ -10,6 +12,10 @@ const ProjectDetails = () => {
       <div className="space-y-5">
         <ProjectAnalytics />
         <Separator />
+        <ProjectMilestones />
+        <Separator />
+        <ProjectSprints />
+        <Separator />
         {/* {Task Table} */}
         <TaskTable />
       </div>
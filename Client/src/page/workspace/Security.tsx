@@ -0,0 +1,43 @@
+import { Separator } from "@/components/ui/separator";
+import TwoFactorCard from "@/components/security/two-factor-card";
+import ConnectedAccountsCard from "@/components/security/connected-accounts-card";
+import SessionsCard from "@/components/security/sessions-card";
+import AccessTokensCard from "@/components/security/access-tokens-card";
+
+const Security = () => {
+  return (
+    <div className="w-full h-auto py-2">
+      <main>
+        <div className="w-full max-w-3xl mx-auto py-3">
+          <h2 className="text-[20px] leading-[30px] font-semibold mb-1">
+            Security
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            These settings apply to your account in every workspace.
+          </p>
+          <Separator className="my-4" />
+
+          <div className="flex flex-col pt-0.5 px-0 ">
+            <div className="pt-2">
+              <TwoFactorCard />
+            </div>
+            <Separator className="my-4" />
+            <div className="pt-2">
+              <ConnectedAccountsCard />
+            </div>
+            <Separator className="my-4" />
+            <div className="pt-2">
+              <SessionsCard />
+            </div>
+            <Separator className="my-4" />
+            <div className="pt-2">
+              <AccessTokensCard />
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Security;
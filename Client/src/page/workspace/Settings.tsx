@@ -2,6 +2,10 @@ import { Separator } from "@/components/ui/separator";
 import WorkspaceHeader from "@/components/workspace/common/workspace-header";
 import EditWorkspaceForm from "@/components/workspace/edit-workspace-form";
 import DeleteWorkspaceCard from "@/components/workspace/settings/delete-workspace-card";
+import InviteLinkSettingsCard from "@/components/workspace/settings/invite-link-settings-card";
+import TransferOwnershipCard from "@/components/workspace/settings/transfer-ownership-card";
+import TwoFactorRequirementCard from "@/components/workspace/settings/two-factor-requirement-card";
+import WebhooksCard from "@/components/workspace/settings/webhooks-card";
 
 const Settings = () => {
   return (
@@ -18,6 +22,18 @@ const Settings = () => {
             <div className="pt-2">
               <EditWorkspaceForm />
             </div>
+            <div className="pt-2">
+              <InviteLinkSettingsCard />
+            </div>
+            <div className="pt-2">
+              <TwoFactorRequirementCard />
+            </div>
+            <div className="pt-2">
+              <WebhooksCard />
+            </div>
+            <div className="pt-2">
+              <TransferOwnershipCard />
+            </div>
             <div className="pt-2">
               <DeleteWorkspaceCard />
             </div>
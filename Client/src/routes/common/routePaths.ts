@@ -6,6 +6,10 @@ export const AUTH_ROUTES = {
   SIGN_IN: "/",
   SIGN_UP: "/sign-up",
   GOOGLE_OAUTH_CALLBACK: "/google/oauth/callback",
+  FORGOT_PASSWORD: "/forgot-password",
+  RESET_PASSWORD: "/reset-password",
+  VERIFY_EMAIL: "/verify-email",
+  TWO_FACTOR: "/two-factor",
 };
 
 export const PROTECTED_ROUTES = {
@@ -13,9 +17,11 @@ export const PROTECTED_ROUTES = {
   TASKS: "/workspace/:workspaceId/tasks",
   MEMBERS: "/workspace/:workspaceId/members",
   SETTINGS: "/workspace/:workspaceId/settings",
+  SECURITY: "/workspace/:workspaceId/security",
   PROJECT_DETAILS: "/workspace/:workspaceId/project/:projectId",
 };
 
 export const BASE_ROUTE = {
   INVITE_URL: "/invite/workspace/:inviteCode/join",
+  INVITATION_URL: "/invite/:token/accept",
 };
@@ -1,18 +1,28 @@
 import GoogleOAuthFailure from "@/page/auth/GoogleOAuthFailure";
 import SignIn from "@/page/auth/Sign-in";
 import SignUp from "@/page/auth/Sign-up";
+import ForgotPassword from "@/page/auth/Forgot-password";
+import ResetPassword from "@/page/auth/Reset-password";
+import VerifyEmail from "@/page/auth/Verify-email";
+import TwoFactor from "@/page/auth/Two-factor";
 import WorkspaceDashboard from "@/page/workspace/Dashboard";
 import Members from "@/page/workspace/Members";
 import ProjectDetails from "@/page/workspace/ProjectDetails";
 import Settings from "@/page/workspace/Settings";
+import Security from "@/page/workspace/Security";
 import Tasks from "@/page/workspace/Tasks";
 import { AUTH_ROUTES, BASE_ROUTE, PROTECTED_ROUTES } from "./routePaths";
 import InviteUser from "@/page/invite/InviteUser";
+import AcceptInvitation from "@/page/invite/AcceptInvitation";
 
 export const authenticationRoutePaths = [
   { path: AUTH_ROUTES.SIGN_IN, element: <SignIn /> },
   { path: AUTH_ROUTES.SIGN_UP, element: <SignUp /> },
   { path: AUTH_ROUTES.GOOGLE_OAUTH_CALLBACK, element: <GoogleOAuthFailure /> },
+  { path: AUTH_ROUTES.FORGOT_PASSWORD, element: <ForgotPassword /> },
+  { path: AUTH_ROUTES.RESET_PASSWORD, element: <ResetPassword /> },
+  { path: AUTH_ROUTES.VERIFY_EMAIL, element: <VerifyEmail /> },
+  { path: AUTH_ROUTES.TWO_FACTOR, element: <TwoFactor /> },
 ];
 
 export const protectedRoutePaths = [
@@ -20,9 +30,11 @@ export const protectedRoutePaths = [
   { path: PROTECTED_ROUTES.TASKS, element: <Tasks /> },
   { path: PROTECTED_ROUTES.MEMBERS, element: <Members /> },
   { path: PROTECTED_ROUTES.SETTINGS, element: <Settings /> },
+  { path: PROTECTED_ROUTES.SECURITY, element: <Security /> },
   { path: PROTECTED_ROUTES.PROJECT_DETAILS, element: <ProjectDetails /> },
 ];
 
 export const baseRoutePaths = [
   { path: BASE_ROUTE.INVITE_URL, element: <InviteUser /> },
+  { path: BASE_ROUTE.INVITATION_URL, element: <AcceptInvitation /> },
 ];
@@ -1,29 +1,173 @@
 import {
   PermissionType,
+  SprintStatusEnumType,
   TaskPriorityEnumType,
+  TaskStatusCategoryEnumType,
   TaskStatusEnumType,
+  WipLimitModeEnumType,
 } from "@/constant";
 
 export type loginType = { email: string; password: string };
 export type LoginResponseType = {
   message: string;
+  // Set instead of `user` when the account needs a two-factor code to finish signing in
+  twoFactorRequired?: boolean;
   user: {
     _id: string;
     currentWorkspace: string;
   };
 };
 
+export type TwoFactorCodeType = { code: string };
+
+export type TwoFactorStatusResponseType = {
+  message: string;
+  twoFactor: {
+    enabled: boolean;
+    recoveryCodesRemaining: number;
+  };
+};
+
+export type TwoFactorSetupResponseType = {
+  message: string;
+  secret: string;
+  otpauthUri: string;
+};
+
+export type RecoveryCodesResponseType = {
+  message: string;
+  recoveryCodes: string[];
+};
+
+export type AccountProviderType = "GOOGLE" | "GITHUB" | "EMAIL";
+
+export type LinkedAccountType = {
+  _id: string;
+  provider: AccountProviderType;
+  createdAt: string;
+};
+
+export type LinkedAccountsResponseType = {
+  message: string;
+  accounts: LinkedAccountType[];
+};
+
+export type LinkAccountPayloadType = {
+  provider: Exclude<AccountProviderType, "EMAIL">;
+  workspaceId: string;
+};
+
+export type UserSessionType = {
+  _id: string;
+  device: string;
+  ip: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  isCurrent: boolean;
+};
+
+export type UserSessionsResponseType = {
+  message: string;
+  sessions: UserSessionType[];
+};
+
+export type AccessTokenType = {
+  _id: string;
+  name: string;
+  tokenPrefix: string;
+  workspaceId: { _id: string; name: string };
+  permissions: PermissionType[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+export type AccessTokensResponseType = {
+  message: string;
+  accessTokens: AccessTokenType[];
+};
+
+export type CreateAccessTokenPayloadType = {
+  name: string;
+  workspaceId: string;
+  permissions: PermissionType[];
+  expiresInDays: number | null;
+};
+
+export type CreateAccessTokenResponseType = {
+  message: string;
+  // The plain token, which is only returned once
+  token: string;
+};
+
+export type NotificationTypeType =
+  | "TASK_ASSIGNED"
+  | "TASK_MENTIONED"
+  | "TASK_STATUS_CHANGED";
+
+export type NotificationType = {
+  _id: string;
+  workspace: string;
+  actor: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  } | null;
+  type: NotificationTypeType;
+  task: string;
+  data: {
+    taskCode?: string;
+    taskTitle?: string;
+    project?: string;
+    oldStatus?: string;
+    newStatus?: string;
+  };
+  readAt: string | null;
+  createdAt: string;
+};
+
+export type NotificationsPayloadType = {
+  unreadOnly?: boolean;
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type NotificationsResponseType = {
+  message: string;
+  notifications: NotificationType[];
+  unreadCount: number;
+  pagination: PaginationType;
+};
+
+export type NotificationPreferencesResponseType = {
+  message: string;
+  optOuts: NotificationTypeType[];
+};
+
 export type registerType = {
   name: string;
   email: string;
   password: string;
 };
 
+export type ForgotPasswordType = { email: string };
+
+export type ResetPasswordType = { token: string; password: string };
+
+export type VerifyEmailType = { token: string };
+
+export type ResendVerificationType = { email: string };
+
+export type MessageResponseType = { message: string };
+
 // USER TYPE
 export type UserType = {
   _id: string;
   name: string;
   email: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
   profilePicture: string | null;
   isActive: true;
   lastLogin: null;
@@ -50,6 +194,46 @@ export type WorkspaceType = {
   description?: string;
   owner: string;
   inviteCode: string;
+  requireTwoFactor: boolean;
+};
+
+export type InviteLinkType = {
+  inviteCode: string;
+  enabled: boolean;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
+  isActive: boolean;
+  reason: string | null;
+};
+
+export type InviteLinkResponseType = {
+  message: string;
+  inviteLink: InviteLinkType;
+};
+
+export type UpdateInviteLinkPayloadType = {
+  workspaceId: string;
+  data: {
+    enabled?: boolean;
+    maxUses?: number | null;
+    expiresAt?: string | null;
+  };
+};
+
+export type TransferOwnershipPayloadType = {
+  workspaceId: string;
+  data: {
+    newOwnerId: string;
+    confirmation: string;
+  };
+};
+
+export type UpdateTwoFactorRequirementPayloadType = {
+  workspaceId: string;
+  data: {
+    required: boolean;
+  };
 };
 
 export type CreateWorkspaceType = {
@@ -130,6 +314,7 @@ export type AnalyticsResponseType = {
     totalTasks: number;
     overdueTasks: number;
     completedTasks: number;
+    tasksByCategory?: Record<TaskStatusCategoryEnumType, number>;
   };
 };
 
@@ -145,17 +330,255 @@ export type PaginationType = {
 export type RoleType = {
   _id: string;
   name: string;
+  workspace?: string | null;
+};
+
+export type WorkspaceRoleType = RoleType & {
+  description: string | null;
+  permissions: PermissionType[];
+  isCustom: boolean;
+  memberCount: number;
+};
+
+export type WorkspaceRolesResponseType = {
+  message: string;
+  roles: WorkspaceRoleType[];
+};
+
+export type CreateRolePayloadType = {
+  workspaceId: string;
+  data: {
+    name: string;
+    description?: string;
+    permissions: PermissionType[];
+  };
 };
 // *********** MEMBER ****************
 
+export type MemberTasksHandlingType = {
+  // Leave empty to unassign the member's tasks
+  reassignTasksTo?: string | null;
+};
+
+export type RemoveWorkspaceMemberPayloadType = {
+  workspaceId: string;
+  memberId: string;
+  data: MemberTasksHandlingType;
+};
+
+export type RemoveWorkspaceMemberResponseType = {
+  message: string;
+  tasksAffected: number;
+  reassignedTo: string | null;
+};
+
+export type UnlockMemberLoginPayloadType = {
+  workspaceId: string;
+  memberId: string;
+};
+
+export type UnlockMemberLoginResponseType = {
+  message: string;
+  wasLocked: boolean;
+};
+
+export type LeaveWorkspacePayloadType = {
+  workspaceId: string;
+  data: MemberTasksHandlingType;
+};
+
+export type LeaveWorkspaceResponseType = {
+  message: string;
+  currentWorkspace: string | null;
+  tasksAffected: number;
+};
+
+export type InvitationStatusType =
+  | "PENDING"
+  | "ACCEPTED"
+  | "REVOKED"
+  | "EXPIRED";
+
+export type InvitationType = {
+  _id: string;
+  email: string;
+  workspace: string;
+  role: RoleType;
+  invitedBy: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  };
+  status: InvitationStatusType;
+  expiresAt: string;
+  sentCount: number;
+  lastSentAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type CreateInvitationPayloadType = {
+  workspaceId: string;
+  data: {
+    email: string;
+    roleId: string;
+  };
+};
+
+export type InvitationPayloadType = {
+  workspaceId: string;
+  invitationId: string;
+};
+
+export type AllInvitationsPayloadType = {
+  workspaceId: string;
+  status?: InvitationStatusType;
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type AllInvitationsResponseType = {
+  message: string;
+  invitations: InvitationType[];
+  pagination: PaginationType;
+};
+
+export type AcceptInvitationResponseType = {
+  message: string;
+  workspaceId: string;
+  role: string;
+};
+
+//******** */ WEBHOOK TYPES ****************
+
+export type WebhookEventType =
+  | "task.created"
+  | "task.updated"
+  | "task.deleted"
+  | "project.created"
+  | "project.updated"
+  | "project.deleted"
+  | "member.joined"
+  | "member.left"
+  | "member.removed"
+  | "member.role_changed";
+
+export type WebhookType = {
+  _id: string;
+  workspace: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryStatusType = "PENDING" | "SUCCEEDED" | "FAILED";
+
+export type WebhookDeliveryType = {
+  _id: string;
+  webhook: string;
+  event: WebhookEventType;
+  status: WebhookDeliveryStatusType;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  replayOf: string | null;
+  createdAt: string;
+};
+
+export type CreateWebhookPayloadType = {
+  workspaceId: string;
+  data: {
+    url: string;
+    description?: string;
+    events: WebhookEventType[];
+  };
+};
+
+export type UpdateWebhookPayloadType = {
+  workspaceId: string;
+  webhookId: string;
+  data: {
+    url?: string;
+    description?: string | null;
+    events?: WebhookEventType[];
+    enabled?: boolean;
+  };
+};
+
+export type WebhookPayloadType = {
+  workspaceId: string;
+  webhookId: string;
+};
+
+export type WebhookSecretResponseType = {
+  message: string;
+  secret: string;
+};
+
+export type CreateWebhookResponseType = WebhookSecretResponseType & {
+  webhook: WebhookType;
+};
+
+export type AllWebhooksResponseType = {
+  message: string;
+  webhooks: WebhookType[];
+};
+
+export type WebhookDeliveriesPayloadType = WebhookPayloadType & {
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type WebhookDeliveriesResponseType = {
+  message: string;
+  deliveries: WebhookDeliveryType[];
+  pagination: PaginationType;
+};
+
+export type ReplayWebhookDeliveryPayloadType = {
+  workspaceId: string;
+  deliveryId: string;
+};
+
+export type RealtimeEventType = {
+  id: string;
+  event: WebhookEventType;
+  workspaceId: string;
+  data: Record<string, unknown>;
+  occurredAt: string;
+};
+
 //******** */ PROJECT TYPES ****************
 //****************************************** */
+export type ProjectStatusType = {
+  key: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+  wipLimit?: number | null;
+  wipLimitMode?: WipLimitModeEnumType;
+};
+
+export type ProjectTransitionType = {
+  from: string;
+  to: string;
+};
+
 export type ProjectType = {
   _id: string;
   name: string;
   emoji: string;
   description: string;
   workspace: string;
+  statuses?: ProjectStatusType[];
+  transitions?: ProjectTransitionType[];
   createdBy: {
     _id: string;
     name: string;
@@ -204,12 +627,164 @@ export type AllProjectResponseType = {
   pagination: PaginationType;
 };
 
+export type UpdateProjectWorkflowPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    statuses: ProjectStatusType[];
+    transitions: ProjectTransitionType[];
+  };
+};
+
 // SINGLE PROJECT IN WORKSPACE TYPE
 export type ProjectByIdPayloadType = {
   workspaceId: string;
   projectId: string;
 };
 
+export type ProjectByIdResponseType = {
+  message: string;
+  project: ProjectType;
+};
+
+//********** */ SPRINT TYPES ************************
+//************************************************* */
+
+export type SprintSummaryType = {
+  totalTasks: number;
+  completedTasks: number;
+  carriedOverTasks: number;
+  tasksByCategory: Record<TaskStatusCategoryEnumType, number>;
+  carriedOverTo: string | null;
+};
+
+export type SprintType = {
+  _id: string;
+  name: string;
+  goal: string | null;
+  startDate: string;
+  endDate: string;
+  status: SprintStatusEnumType;
+  project: string;
+  workspace: string;
+  createdBy: string;
+  closedAt: string | null;
+  summary: SprintSummaryType | null;
+  taskCount?: number;
+  completedTaskCount?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProjectSprintsResponseType = {
+  message: string;
+  sprints: SprintType[];
+  backlog: { taskCount: number };
+};
+
+export type SprintResponseType = {
+  message: string;
+  sprint: SprintType;
+};
+
+export type CreateSprintPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    name: string;
+    goal?: string | null;
+    startDate: string;
+    endDate: string;
+  };
+};
+
+export type SprintActionPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  sprintId: string;
+};
+
+export type CloseSprintPayloadType = SprintActionPayloadType & {
+  data: {
+    // Where unfinished tasks go, `null` for the project backlog
+    carryOverTo: string | null;
+  };
+};
+
+//********** */ MILESTONE AND EPIC TYPES ************************
+//************************************************* */
+
+export type ProgressType = {
+  totalTasks: number;
+  completedTasks: number;
+  percentage: number;
+};
+
+export type MilestoneType = {
+  _id: string;
+  name: string;
+  description: string | null;
+  targetDate: string;
+  project: string;
+  progress: ProgressType;
+  isOverdue: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EpicType = {
+  _id: string;
+  name: string;
+  description: string | null;
+  project: string;
+  progress: ProgressType;
+  // The number of milestones the epic's tasks are planned for
+  milestoneCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProjectMilestonesResponseType = {
+  message: string;
+  milestones: MilestoneType[];
+};
+
+export type ProjectEpicsResponseType = {
+  message: string;
+  epics: EpicType[];
+};
+
+export type CreateMilestonePayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    name: string;
+    description?: string | null;
+    targetDate: string;
+  };
+};
+
+export type CreateEpicPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    name: string;
+    description?: string | null;
+  };
+};
+
+export type DeleteMilestonePayloadType = {
+  workspaceId: string;
+  projectId: string;
+  milestoneId: string;
+};
+
+export type DeleteEpicPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  epicId: string;
+};
+
 //********** */ TASK TYPES ************************
 //************************************************* */
 
@@ -226,6 +801,21 @@ export type CreateTaskPayloadType = {
   };
 };
 
+export type ChecklistItemType = {
+  _id: string;
+  title: string;
+  isCompleted: boolean;
+  completedBy: string | null;
+  completedAt: string | null;
+};
+
+export type TaskDependencyType = {
+  _id: string;
+  taskCode: string;
+  title: string;
+  status: string;
+};
+
 export type TaskType = {
   _id: string;
   title: string;
@@ -236,7 +826,8 @@ export type TaskType = {
     name: string;
   };
   priority: TaskPriorityEnumType;
-  status: TaskStatusEnumType;
+  // A key of the project's workflow
+  status: string;
   assignedTo: {
     _id: string;
     name: string;
@@ -245,10 +836,28 @@ export type TaskType = {
   createdBy?: string;
   dueDate: string;
   taskCode: string;
+  parentTask?: string | null;
+  sprint?: Pick<SprintType, "_id" | "name" | "status"> | null;
+  milestone?: Pick<MilestoneType, "_id" | "name" | "targetDate"> | null;
+  epic?: Pick<EpicType, "_id" | "name"> | null;
+  blockedBy?: TaskDependencyType[];
+  // The blockers not yet in a done status of their own project's workflow
+  openBlockers?: TaskDependencyType[];
+  checklist?: ChecklistItemType[];
   createdAt?: string;
   updatedAt?: string;
 };
 
+export type TaskWithDetailsType = TaskType & {
+  subtasks: TaskType[];
+  blocking: TaskDependencyType[];
+  checklistProgress: {
+    total: number;
+    completed: number;
+    percentage: number;
+  };
+};
+
 export type AllTaskPayloadType = {
   workspaceId: string;
   projectId?: string | null;
@@ -256,7 +865,13 @@ export type AllTaskPayloadType = {
   priority?: TaskPriorityEnumType | null;
   status?: TaskStatusEnumType | null;
   assignedTo?: string | null;
+  // A sprint id, or "backlog" for tasks outside every sprint
+  sprintId?: string | null;
+  // A milestone or epic id, or "none" for tasks without one
+  milestoneId?: string | null;
+  epicId?: string | null;
   dueDate?: string | null;
+  topLevelOnly?: boolean;
   pageNumber?: number | null;
   pageSize?: number | null;
 };
@@ -266,3 +881,156 @@ export type AllTaskResponseType = {
   tasks: TaskType[];
   pagination: PaginationType;
 };
+
+export type TaskBoardPayloadType = Omit<
+  AllTaskPayloadType,
+  "status" | "pageNumber" | "pageSize"
+> & {
+  status?: string | null;
+};
+
+export type TaskBoardColumnType = {
+  status: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+  wipLimit: number | null;
+  wipLimitMode: WipLimitModeEnumType;
+  // Tasks counted against the limit, ignoring filters
+  wipCount: number | null;
+  tasks: TaskType[];
+  totalCount: number;
+};
+
+export type TaskBoardResponseType = {
+  message: string;
+  columns: TaskBoardColumnType[];
+};
+
+export type ReorderTaskPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    status: string;
+    beforeTaskId: string | null;
+    afterTaskId: string | null;
+    overrideWipLimit?: boolean;
+  };
+};
+
+export type ReorderTaskResponseType = {
+  message: string;
+  task: TaskType;
+  warning: string | null;
+};
+
+//********** */ COMMENT TYPES ************************
+//************************************************* */
+
+export type CommentType = {
+  _id: string;
+  content: string;
+  task: string;
+  workspace: string;
+  author: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  };
+  parentComment: string | null;
+  mentions: {
+    _id: string;
+    name: string;
+  }[];
+  editHistory: {
+    _id: string;
+    content: string;
+    editedAt: string;
+  }[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CommentThreadType = CommentType & {
+  replies: CommentType[];
+};
+
+export type AllCommentsResponseType = {
+  message: string;
+  comments: CommentThreadType[];
+  pagination: PaginationType;
+};
+
+//********** */ TASK HISTORY TYPES ************************
+//************************************************* */
+
+export type TaskActivityActionType = "CREATED" | "UPDATED" | "DELETED";
+
+export type TaskActivityType = {
+  _id: string;
+  task: string;
+  workspace: string;
+  actor: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  };
+  action: TaskActivityActionType;
+  changes: {
+    field: string;
+    oldValue: string | null;
+    newValue: string | null;
+  }[];
+  createdAt: string;
+};
+
+export type TaskHistoryPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type TaskHistoryResponseType = {
+  message: string;
+  activities: TaskActivityType[];
+  users: Record<string, string>;
+  plans: Record<string, string>;
+  pagination: PaginationType;
+};
+
+//********** */ AUDIT LOG TYPES ************************
+//************************************************* */
+
+export type AuditLogType = {
+  _id: string;
+  workspace: string | null;
+  actor: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export type AuditLogPayloadType = {
+  workspaceId: string;
+  action?: string[];
+  actorId?: string;
+  from?: string;
+  to?: string;
+  pageNumber?: number;
+  pageSize?: number;
+};
+
+export type AuditLogResponseType = {
+  message: string;
+  auditLogs: AuditLogType[];
+  pagination: PaginationType;
+};